@@ -0,0 +1,150 @@
+"use server";
+
+import { db } from "@/db/xata";
+import { CalendarFeedTokens, TrainerClients } from "@/db/schemas";
+import { and, eq } from "drizzle-orm";
+import "server-only";
+import { randomBytes } from "crypto";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import { CalendarFeedType } from "@/types/workout-schedule-types";
+
+interface CalendarFeedResponse {
+    success: boolean;
+    path?: string; // Relative feed URL, e.g. /api/calendar/<token>.ics
+    error?: string;
+}
+
+const feedPath = (token: string) => `/api/calendar/${token}.ics`;
+
+/**
+ * Feeds belong to the client, or to the logged-in coach for coach feeds
+ */
+const feedOwner = (
+    feedType: CalendarFeedType,
+    clientId: string | undefined,
+    currentUserId: string
+) => (feedType === "coach" ? currentUserId : clientId);
+
+/**
+ * Admins can share any client's feed, trainers only their active clients'
+ */
+async function canShareClientFeed(
+    clientId: string,
+    user: { userId: string; roles?: string[] }
+) {
+    if (user.roles?.includes("Admin")) return true;
+
+    const relationship = await db
+        .select({ id: TrainerClients.relationshipId })
+        .from(TrainerClients)
+        .where(
+            and(
+                eq(TrainerClients.trainerId, user.userId),
+                eq(TrainerClients.clientId, clientId),
+                eq(TrainerClients.isActive, true)
+            )
+        )
+        .limit(1);
+    return relationship.length > 0;
+}
+
+const NOT_YOUR_CLIENT = "You can only share calendars of your own clients";
+
+/**
+ * Returns the subscription URL of a calendar feed, creating its token on first use
+ * @param feedType "client" for one client's feed, "coach" for all of the current coach's clients
+ * @param clientId The client (client feeds only)
+ * @returns The relative feed path
+ */
+export async function getCalendarFeedPath(
+    feedType: CalendarFeedType,
+    clientId?: string
+): Promise<CalendarFeedResponse> {
+    const currentUser = await requireTrainerOrAdmin();
+    const userId = feedOwner(feedType, clientId, currentUser.userId);
+    if (!userId) return { success: false, error: "Client is required" };
+
+    try {
+        if (
+            feedType === "client" &&
+            !(await canShareClientFeed(userId, currentUser))
+        ) {
+            return { success: false, error: NOT_YOUR_CLIENT };
+        }
+
+        const existing = await db
+            .select({ token: CalendarFeedTokens.token })
+            .from(CalendarFeedTokens)
+            .where(
+                and(
+                    eq(CalendarFeedTokens.userId, userId),
+                    eq(CalendarFeedTokens.feedType, feedType)
+                )
+            )
+            .limit(1);
+
+        if (existing.length) {
+            return { success: true, path: feedPath(existing[0].token) };
+        }
+
+        const token = randomBytes(24).toString("base64url");
+        await db.insert(CalendarFeedTokens).values({
+            token,
+            userId,
+            feedType,
+            createdByUserId: currentUser.userId,
+        });
+
+        return { success: true, path: feedPath(token) };
+    } catch (error) {
+        console.error("Error fetching calendar feed token:", error);
+        return { success: false, error: "Failed to create calendar feed" };
+    }
+}
+
+/**
+ * Replaces a feed's token, so previously shared links stop working
+ * @param feedType "client" or "coach"
+ * @param clientId The client (client feeds only)
+ * @returns The new relative feed path
+ */
+export async function regenerateCalendarFeedToken(
+    feedType: CalendarFeedType,
+    clientId?: string
+): Promise<CalendarFeedResponse> {
+    const currentUser = await requireTrainerOrAdmin();
+    const userId = feedOwner(feedType, clientId, currentUser.userId);
+    if (!userId) return { success: false, error: "Client is required" };
+
+    try {
+        if (
+            feedType === "client" &&
+            !(await canShareClientFeed(userId, currentUser))
+        ) {
+            return { success: false, error: NOT_YOUR_CLIENT };
+        }
+
+        const token = randomBytes(24).toString("base64url");
+        await db.transaction(async (tx) => {
+            await tx
+                .delete(CalendarFeedTokens)
+                .where(
+                    and(
+                        eq(CalendarFeedTokens.userId, userId),
+                        eq(CalendarFeedTokens.feedType, feedType)
+                    )
+                );
+            await tx.insert(CalendarFeedTokens).values({
+                token,
+                userId,
+                feedType,
+                createdByUserId: currentUser.userId,
+            });
+        });
+
+        return { success: true, path: feedPath(token) };
+    } catch (error) {
+        console.error("Error regenerating calendar feed token:", error);
+        return { success: false, error: "Failed to regenerate calendar feed" };
+    }
+}
@@ -1,12 +1,336 @@
 "use server";
 
-import { Exercises } from "@/db/schemas";
+import {
+  Equipment,
+  ExerciseAliases,
+  ExerciseEquipment,
+  ExerciseMuscleGroups,
+  DifficultyLevel,
+  Exercises,
+  MovementPattern,
+  MuscleGroups,
+  SelectExercise,
+  SelectExerciseWithAliases,
+  TaxonomyTag,
+} from "@/db/schemas";
 import { db } from "@/db/xata";
 import { desc, sql, and } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
 import "server-only";
 import { requireTrainerOrAdmin } from "@/lib/auth-utils";
-import { eq, inArray } from "drizzle-orm";
+import { getExerciseMediaStorage } from "@/lib/exercise-media-storage";
+import { ExerciseTaxonomy, isExerciseFacet } from "@/lib/exercise-taxonomy";
+import { eq, inArray, ne } from "drizzle-orm";
+import {
+  resubmitExerciseForReview,
+  reviewExercises,
+} from "./exercise_review_actions";
+
+const SEARCH_RESULT_LIMIT = 8;
+
+type ExerciseMedia = Pick<
+  SelectExercise,
+  "videoUrl" | "imageUrl" | "thumbnailUrl"
+>;
+
+/**
+ * Deletes uploaded files an edit no longer references. Failures are only
+ * logged: a leftover file is harmless, a failed save is not.
+ */
+async function removeReplacedMedia(
+  before: ExerciseMedia | undefined,
+  after: ExerciseMedia
+) {
+  if (!before) return;
+  const kept = new Set([after.videoUrl, after.imageUrl, after.thumbnailUrl]);
+  const storage = getExerciseMediaStorage();
+  await Promise.all(
+    [before.videoUrl, before.imageUrl, before.thumbnailUrl]
+      .filter((url): url is string => !!url && !kept.has(url))
+      .map((url) =>
+        storage
+          .remove(url)
+          .catch((error) =>
+            console.error("Error removing replaced exercise media:", error)
+          )
+      )
+  );
+}
+
+/**
+ * Aliases grouped by exercise
+ * @param exerciseIds Limit to these exercises; all aliases when omitted
+ */
+async function getAliasesByExercise(
+  exerciseIds?: string[]
+): Promise<Map<string, string[]>> {
+  if (exerciseIds && !exerciseIds.length) return new Map();
+
+  const rows = await db
+    .select({
+      exerciseId: ExerciseAliases.exerciseId,
+      alias: ExerciseAliases.alias,
+    })
+    .from(ExerciseAliases)
+    .where(
+      exerciseIds ? inArray(ExerciseAliases.exerciseId, exerciseIds) : undefined
+    )
+    .orderBy(ExerciseAliases.alias);
+
+  const aliases = new Map<string, string[]>();
+  rows.forEach((row) => {
+    aliases.set(row.exerciseId, [
+      ...(aliases.get(row.exerciseId) ?? []),
+      row.alias,
+    ]);
+  });
+  return aliases;
+}
+
+/**
+ * Trims and de-duplicates aliases, dropping any that repeat the exercise name
+ */
+function cleanAliases(aliases: string[], exerciseName: string): string[] {
+  const seen = new Set([exerciseName.trim().toLowerCase()]);
+  return aliases
+    .map((alias) => alias.trim().replace(/\s+/g, " "))
+    .filter((alias) => {
+      const key = alias.toLowerCase();
+      if (!alias || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Replaces an exercise's aliases. An alias can't be another exercise's name
+ * or alias, since imports and search would then be ambiguous.
+ * @returns An error message, or null when the aliases were saved
+ */
+async function replaceExerciseAliases(
+  exerciseId: string,
+  exerciseName: string,
+  aliases: string[]
+): Promise<string | null> {
+  const cleaned = cleanAliases(aliases, exerciseName);
+  const keys = cleaned.map((alias) => alias.toLowerCase());
+
+  if (keys.length) {
+    const [takenAliases, takenNames] = await Promise.all([
+      db
+        .select({ alias: ExerciseAliases.alias })
+        .from(ExerciseAliases)
+        .where(
+          and(
+            inArray(sql`lower(${ExerciseAliases.alias})`, keys),
+            ne(ExerciseAliases.exerciseId, exerciseId)
+          )
+        ),
+      db
+        .select({ name: Exercises.exerciseName })
+        .from(Exercises)
+        .where(
+          and(
+            inArray(sql`lower(${Exercises.exerciseName})`, keys),
+            ne(Exercises.exerciseId, exerciseId)
+          )
+        ),
+    ]);
+    const taken = [
+      ...takenAliases.map((row) => row.alias),
+      ...takenNames.map((row) => row.name),
+    ];
+    if (taken.length) {
+      return `Already used by another exercise: ${taken.join(", ")}`;
+    }
+  }
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(ExerciseAliases)
+      .where(eq(ExerciseAliases.exerciseId, exerciseId));
+    if (cleaned.length) {
+      await tx
+        .insert(ExerciseAliases)
+        .values(cleaned.map((alias) => ({ exerciseId, alias })));
+    }
+  });
+  return null;
+}
+
+type ExerciseTags = Required<
+  Pick<
+    SelectExerciseWithAliases,
+    "equipment" | "primaryMuscles" | "secondaryMuscles"
+  >
+>;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Equipment and muscle groups grouped by exercise
+ * @param exerciseIds Limit to these exercises; all exercises when omitted
+ */
+async function getTaxonomyByExercise(
+  exerciseIds?: string[]
+): Promise<Map<string, ExerciseTags>> {
+  if (exerciseIds && !exerciseIds.length) return new Map();
+
+  const [equipmentRows, muscleRows] = await Promise.all([
+    db
+      .select({
+        exerciseId: ExerciseEquipment.exerciseId,
+        id: Equipment.equipmentId,
+        name: Equipment.name,
+      })
+      .from(ExerciseEquipment)
+      .innerJoin(
+        Equipment,
+        eq(ExerciseEquipment.equipmentId, Equipment.equipmentId)
+      )
+      .where(
+        exerciseIds
+          ? inArray(ExerciseEquipment.exerciseId, exerciseIds)
+          : undefined
+      )
+      .orderBy(Equipment.name),
+    db
+      .select({
+        exerciseId: ExerciseMuscleGroups.exerciseId,
+        role: ExerciseMuscleGroups.role,
+        id: MuscleGroups.muscleGroupId,
+        name: MuscleGroups.name,
+      })
+      .from(ExerciseMuscleGroups)
+      .innerJoin(
+        MuscleGroups,
+        eq(ExerciseMuscleGroups.muscleGroupId, MuscleGroups.muscleGroupId)
+      )
+      .where(
+        exerciseIds
+          ? inArray(ExerciseMuscleGroups.exerciseId, exerciseIds)
+          : undefined
+      )
+      .orderBy(MuscleGroups.name),
+  ]);
+
+  const taxonomy = new Map<string, ExerciseTags>();
+  const tagsFor = (exerciseId: string) => {
+    let tags = taxonomy.get(exerciseId);
+    if (!tags) {
+      tags = { equipment: [], primaryMuscles: [], secondaryMuscles: [] };
+      taxonomy.set(exerciseId, tags);
+    }
+    return tags;
+  };
+  equipmentRows.forEach(({ exerciseId, id, name }) => {
+    tagsFor(exerciseId).equipment.push({ id, name });
+  });
+  muscleRows.forEach(({ exerciseId, role, id, name }) => {
+    const tag: TaxonomyTag = { id, name };
+    if (role === "primary") tagsFor(exerciseId).primaryMuscles.push(tag);
+    else tagsFor(exerciseId).secondaryMuscles.push(tag);
+  });
+  return taxonomy;
+}
+
+const withTaxonomy = <T extends { exerciseId: string }>(
+  exercise: T,
+  taxonomy: Map<string, ExerciseTags>
+): T & ExerciseTags => ({
+  ...exercise,
+  ...(taxonomy.get(exercise.exerciseId) ?? {
+    equipment: [],
+    primaryMuscles: [],
+    secondaryMuscles: [],
+  }),
+});
+
+/**
+ * Replaces an exercise's equipment and muscle groups. Lists left undefined
+ * are kept; a muscle picked as both primary and secondary stays primary.
+ */
+async function replaceExerciseTaxonomy(
+  exerciseId: string,
+  input: Pick<
+    CreateExerciseInput,
+    "equipmentIds" | "primaryMuscleIds" | "secondaryMuscleIds"
+  >
+) {
+  const { equipmentIds, primaryMuscleIds, secondaryMuscleIds } = input;
+  if (
+    equipmentIds === undefined &&
+    primaryMuscleIds === undefined &&
+    secondaryMuscleIds === undefined
+  ) {
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    if (equipmentIds !== undefined) {
+      await tx
+        .delete(ExerciseEquipment)
+        .where(eq(ExerciseEquipment.exerciseId, exerciseId));
+      if (equipmentIds.length) {
+        await tx.insert(ExerciseEquipment).values(
+          [...new Set(equipmentIds)].map((equipmentId) => ({
+            exerciseId,
+            equipmentId,
+          }))
+        );
+      }
+    }
+
+    const roles = [
+      ["primary", primaryMuscleIds],
+      ["secondary", secondaryMuscleIds],
+    ] as const;
+    for (const [role, muscleIds] of roles) {
+      if (muscleIds === undefined) continue;
+      await tx
+        .delete(ExerciseMuscleGroups)
+        .where(
+          and(
+            eq(ExerciseMuscleGroups.exerciseId, exerciseId),
+            eq(ExerciseMuscleGroups.role, role)
+          )
+        );
+      if (muscleIds.length) {
+        await tx
+          .insert(ExerciseMuscleGroups)
+          .values(
+            [...new Set(muscleIds)].map((muscleGroupId) => ({
+              exerciseId,
+              muscleGroupId,
+              role,
+            }))
+          )
+          .onConflictDoNothing();
+      }
+    }
+  });
+}
+
+/**
+ * Equipment and muscle groups to pick from in the exercise form and filters
+ */
+export async function getExerciseTaxonomy(): Promise<ExerciseTaxonomy> {
+  await requireTrainerOrAdmin();
+  try {
+    const [equipment, muscleGroups] = await Promise.all([
+      db.select().from(Equipment).orderBy(Equipment.name),
+      db
+        .select()
+        .from(MuscleGroups)
+        .orderBy(MuscleGroups.region, MuscleGroups.name),
+    ]);
+    return { equipment, muscleGroups };
+  } catch (error) {
+    console.error("Error fetching exercise taxonomy:", error);
+    return { equipment: [], muscleGroups: [] };
+  }
+}
 
 export async function getAllExercises(params: Record<string, unknown> = {}) {
   await requireTrainerOrAdmin();
@@ -39,7 +363,7 @@ export async function getAllExercises(params: Record<string, unknown> = {}) {
   const search = typeof params.search === "string" ? params.search : undefined;
 
   // Extract filters from params
-  let columnFilters: Array<{ id: string; value: string }> = [];
+  let columnFilters: Array<{ id: string; value: string | string[] }> = [];
   if (params.filters && typeof params.filters === "string") {
     try {
       columnFilters = JSON.parse(params.filters as string);
@@ -68,23 +392,83 @@ export async function getAllExercises(params: Record<string, unknown> = {}) {
     "status",
   ]);
 
+  // Taxonomy facets hold a list of values, any of which may match
+  const facetConditions = columnFilters
+    .filter((filter) => isExerciseFacet(filter.id))
+    .map(({ id, value }) => {
+      const values = [value].flat();
+      const ids = values.filter((v) => UUID_PATTERN.test(v));
+      switch (id) {
+        case "equipment":
+          return ids.length
+            ? sql`EXISTS (
+                SELECT 1 FROM ${ExerciseEquipment}
+                WHERE ${ExerciseEquipment.exerciseId} = ${Exercise.exerciseId}
+                AND ${inArray(ExerciseEquipment.equipmentId, ids)}
+              )`
+            : undefined;
+        case "primaryMuscle":
+        case "secondaryMuscle":
+          return ids.length
+            ? sql`EXISTS (
+                SELECT 1 FROM ${ExerciseMuscleGroups}
+                WHERE ${ExerciseMuscleGroups.exerciseId} = ${
+                Exercise.exerciseId
+              }
+                AND ${ExerciseMuscleGroups.role} = ${
+                id === "primaryMuscle" ? "primary" : "secondary"
+              }
+                AND ${inArray(ExerciseMuscleGroups.muscleGroupId, ids)}
+              )`
+            : undefined;
+        case "difficulty": {
+          const levels = Exercises.difficulty.enumValues.filter((level) =>
+            values.includes(level)
+          );
+          return levels.length
+            ? inArray(Exercise.difficulty, levels)
+            : undefined;
+        }
+        case "movementPattern": {
+          const patterns = Exercises.movementPattern.enumValues.filter(
+            (pattern) => values.includes(pattern)
+          );
+          return patterns.length
+            ? inArray(Exercise.movementPattern, patterns)
+            : undefined;
+        }
+        default:
+          return undefined;
+      }
+    })
+    .filter(Boolean);
+
   // Map filters to conditions
   const filterConditions = columnFilters
+    .filter((filter) => !isExerciseFacet(filter.id))
     .map((filter) => {
-      const { id, value } = filter;
+      const { id } = filter;
+      const value = String(filter.value);
       if (!ALLOWED_FILTER_COLUMNS.has(id)) {
         console.warn(`Unsupported filter column: ${id}`);
         return undefined;
       }
       switch (id) {
         case "name":
-          return sql`${Exercise.exerciseName} ILIKE ${`%${value}%`}`;
+          return sql`(${Exercise.exerciseName} ILIKE ${`%${value}%`} OR EXISTS (
+            SELECT 1 FROM ${ExerciseAliases}
+            WHERE ${ExerciseAliases.exerciseId} = ${Exercise.exerciseId}
+            AND ${ExerciseAliases.alias} ILIKE ${`%${value}%`}
+          ))`;
         case "motion":
           return sql`${Exercise.motion} ILIKE ${`%${value}%`}`;
         case "targetArea":
           return sql`${Exercise.targetArea} ILIKE ${`%${value}%`}`;
         case "status":
-          // For boolean filter, convert string to boolean
+          // A review status, or true/false for approved/not approved
+          if ((Exercises.reviewStatus.enumValues as string[]).includes(value)) {
+            return sql`${Exercise.reviewStatus} = ${value}`;
+          }
           const boolValue =
             value === "true" || value === "True" || value === "TRUE"
               ? true
@@ -103,7 +487,12 @@ export async function getAllExercises(params: Record<string, unknown> = {}) {
     searchCondition = sql`(
         ${Exercise.exerciseName} ILIKE ${searchLike} OR
         ${Exercise.motion} ILIKE ${searchLike} OR
-        ${Exercise.targetArea} ILIKE ${searchLike}
+        ${Exercise.targetArea} ILIKE ${searchLike} OR
+        EXISTS (
+            SELECT 1 FROM ${ExerciseAliases}
+            WHERE ${ExerciseAliases.exerciseId} = ${Exercise.exerciseId}
+            AND ${ExerciseAliases.alias} ILIKE ${searchLike}
+        )
     )`;
   }
 
@@ -111,6 +500,7 @@ export async function getAllExercises(params: Record<string, unknown> = {}) {
   const whereConditions = [
     ...(searchCondition ? [searchCondition] : []),
     ...filterConditions,
+    ...facetConditions,
   ];
 
   // Create a Promise.all to fetch count and data concurrently
@@ -128,9 +518,14 @@ export async function getAllExercises(params: Record<string, unknown> = {}) {
         motion: Exercise.motion,
         targetArea: Exercise.targetArea,
         status: Exercise.approvedByAdmin,
+        reviewStatus: Exercise.reviewStatus,
+        reviewComment: Exercise.reviewComment,
         videoUrl: Exercise.videoUrl,
+        thumbnailUrl: Exercise.thumbnailUrl,
         createdAt: Exercise.uploadDate,
         movementType: Exercise.movementType,
+        difficulty: Exercise.difficulty,
+        movementPattern: Exercise.movementPattern,
         timeMultiplier: Exercise.timeMultiplier,
       })
       .from(Exercise)
@@ -152,6 +547,10 @@ export async function getAllExercises(params: Record<string, unknown> = {}) {
                   return isDesc
                     ? desc(Exercise.targetArea)
                     : sql`${Exercise.targetArea} asc`;
+                case "difficulty":
+                  return isDesc
+                    ? desc(Exercise.difficulty)
+                    : sql`${Exercise.difficulty} asc`;
                 case "status":
                   return isDesc
                     ? desc(Exercise.approvedByAdmin)
@@ -172,6 +571,11 @@ export async function getAllExercises(params: Record<string, unknown> = {}) {
 
   // Calculate accurate pagination values
   const totalCount = Number(countResult[0]?.count || 0);
+  const exerciseIds = exercisesData.map((exercise) => exercise.exerciseId);
+  const [aliases, taxonomy] = await Promise.all([
+    getAliasesByExercise(exerciseIds),
+    getTaxonomyByExercise(exerciseIds),
+  ]);
 
   console.log(
     `Found ${exercisesData.length} exercises (page ${pageIndex} of ${Math.ceil(
@@ -180,7 +584,10 @@ export async function getAllExercises(params: Record<string, unknown> = {}) {
   );
 
   return {
-    data: exercisesData,
+    data: exercisesData.map((exercise) => ({
+      ...withTaxonomy(exercise, taxonomy),
+      aliases: aliases.get(exercise.exerciseId) ?? [],
+    })),
     meta: {
       totalCount,
       page: pageIndex,
@@ -193,10 +600,19 @@ export async function getAllExercises(params: Record<string, unknown> = {}) {
 }
 
 // New function to get all exercises with complete data for workout planning
-export async function getAllExercisesForWorkoutPlanning() {
+export async function getAllExercisesForWorkoutPlanning(): Promise<
+  SelectExerciseWithAliases[]
+> {
   try {
-    const exercises = await db.select().from(Exercises);
-    return exercises;
+    const [exercises, aliases, taxonomy] = await Promise.all([
+      db.select().from(Exercises),
+      getAliasesByExercise(),
+      getTaxonomyByExercise(),
+    ]);
+    return exercises.map((exercise) => ({
+      ...withTaxonomy(exercise, taxonomy),
+      aliases: aliases.get(exercise.exerciseId) ?? [],
+    }));
   } catch (error) {
     console.error("Error fetching exercises for workout planning:", error);
     return [];
@@ -208,11 +624,20 @@ type CreateExerciseInput = {
   exerciseName: string;
   description?: string;
   videoUrl?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
   motion?: string;
   targetArea?: string;
   movementType?: "bilateral" | "unilateral" | "compound" | "isolation";
+  difficulty?: DifficultyLevel | null;
+  movementPattern?: MovementPattern | null;
   timeMultiplier?: number;
   uploadedByUserId: string;
+  aliases?: string[]; // Replaces the exercise's aliases when given
+  // Replace the exercise's taxonomy links when given
+  equipmentIds?: string[];
+  primaryMuscleIds?: string[];
+  secondaryMuscleIds?: string[];
 };
 
 export async function createExercise(
@@ -229,9 +654,13 @@ export async function createExercise(
             exerciseName: exercise.exerciseName,
             description: exercise.description || null,
             videoUrl: exercise.videoUrl || null,
+            imageUrl: exercise.imageUrl || null,
+            thumbnailUrl: exercise.thumbnailUrl || null,
             motion: exercise.motion || null,
             targetArea: exercise.targetArea || null,
             movementType: exercise.movementType || null,
+            difficulty: exercise.difficulty || null,
+            movementPattern: exercise.movementPattern || null,
             timeMultiplier: exercise.timeMultiplier || 1.0,
             uploadedByUserId: exercise.uploadedByUserId,
             approvedByAdmin: false,
@@ -251,15 +680,35 @@ export async function createExercise(
           exerciseName: input.exerciseName,
           description: input.description || null,
           videoUrl: input.videoUrl || null,
+          imageUrl: input.imageUrl || null,
+          thumbnailUrl: input.thumbnailUrl || null,
           motion: input.motion || null,
           targetArea: input.targetArea || null,
           movementType: input.movementType || null,
+          difficulty: input.difficulty || null,
+          movementPattern: input.movementPattern || null,
           timeMultiplier: input.timeMultiplier || 1.0,
           uploadedByUserId: input.uploadedByUserId,
           approvedByAdmin: false,
         })
         .returning();
 
+      await replaceExerciseTaxonomy(exercise[0].exerciseId, input);
+
+      if (input.aliases?.length) {
+        const aliasError = await replaceExerciseAliases(
+          exercise[0].exerciseId,
+          exercise[0].exerciseName,
+          input.aliases
+        );
+        if (aliasError) {
+          return {
+            success: false,
+            error: `Exercise created, but its aliases weren't saved. ${aliasError}`,
+          };
+        }
+      }
+
       return {
         success: true,
         data: exercise[0],
@@ -283,8 +732,17 @@ export async function getExerciseById(exerciseId: string) {
       .from(Exercises)
       .where(sql`${Exercises.exerciseId} = ${exerciseId}`)
       .limit(1);
+    if (!exercise.length) return { success: true, data: undefined };
 
-    return { success: true, data: exercise[0] };
+    const [aliases, taxonomy] = await Promise.all([
+      getAliasesByExercise([exerciseId]),
+      getTaxonomyByExercise([exerciseId]),
+    ]);
+    const data: SelectExerciseWithAliases = {
+      ...withTaxonomy(exercise[0], taxonomy),
+      aliases: aliases.get(exerciseId) ?? [],
+    };
+    return { success: true, data };
   } catch (error) {
     console.error("Error fetching exercise:", error);
     return {
@@ -299,8 +757,17 @@ export async function updateExercise(
   exerciseId: string,
   input: Partial<CreateExerciseInput>
 ) {
-  await requireTrainerOrAdmin();
+  const currentUser = await requireTrainerOrAdmin();
   try {
+    const [previousMedia] = await db
+      .select({
+        videoUrl: Exercises.videoUrl,
+        imageUrl: Exercises.imageUrl,
+        thumbnailUrl: Exercises.thumbnailUrl,
+      })
+      .from(Exercises)
+      .where(eq(Exercises.exerciseId, exerciseId));
+
     const exercise = await db
       .update(Exercises)
       .set({
@@ -313,6 +780,12 @@ export async function updateExercise(
         ...(input.videoUrl !== undefined && {
           videoUrl: input.videoUrl,
         }),
+        ...(input.imageUrl !== undefined && {
+          imageUrl: input.imageUrl,
+        }),
+        ...(input.thumbnailUrl !== undefined && {
+          thumbnailUrl: input.thumbnailUrl,
+        }),
         ...(input.motion !== undefined && {
           motion: input.motion,
         }),
@@ -322,6 +795,12 @@ export async function updateExercise(
         ...(input.movementType !== undefined && {
           movementType: input.movementType,
         }),
+        ...(input.difficulty !== undefined && {
+          difficulty: input.difficulty,
+        }),
+        ...(input.movementPattern !== undefined && {
+          movementPattern: input.movementPattern,
+        }),
         ...(input.timeMultiplier !== undefined && {
           timeMultiplier: input.timeMultiplier,
         }),
@@ -337,6 +816,29 @@ export async function updateExercise(
       throw new Error("Exercise not found");
     }
 
+    await removeReplacedMedia(previousMedia, exercise[0]);
+    await replaceExerciseTaxonomy(exerciseId, input);
+
+    if (input.aliases !== undefined) {
+      const aliasError = await replaceExerciseAliases(
+        exerciseId,
+        exercise[0].exerciseName,
+        input.aliases
+      );
+      if (aliasError) {
+        return { success: false, error: aliasError };
+      }
+    }
+
+    // An uploader's edit answers the reviewer, so it goes back in the queue
+    if (
+      !currentUser.roles?.includes("Admin") &&
+      (await resubmitExerciseForReview(exerciseId))
+    ) {
+      exercise[0].reviewStatus = "pending";
+      exercise[0].approvedByAdmin = false;
+    }
+
     return {
       success: true,
       data: exercise[0],
@@ -350,34 +852,18 @@ export async function updateExercise(
   }
 }
 
-// New function to update approval status only
+// Approve, or move back to pending; rejections go through the review queue
 export async function updateExerciseApprovalStatus(
   exerciseId: string,
   approvedByAdmin: boolean
 ) {
-  await requireTrainerOrAdmin();
-  try {
-    const exercise = await db
-      .update(Exercises)
-      .set({ approvedByAdmin })
-      .where(eq(Exercises.exerciseId, exerciseId))
-      .returning();
-
-    if (!exercise.length) {
-      throw new Error("Exercise not found");
-    }
-
-    return {
-      success: true,
-      data: exercise[0],
-    };
-  } catch (error) {
-    console.error("Error updating exercise approval status:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-    };
-  }
+  const result = await reviewExercises(
+    [exerciseId],
+    approvedByAdmin ? "approved" : "pending"
+  );
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.message };
 }
 
 export async function bulkDeleteExercises(exerciseIds: string[]) {
@@ -491,41 +977,7 @@ export async function bulkUpdateExerciseStatus(
   exerciseIds: string[],
   approved: boolean
 ) {
-  await requireTrainerOrAdmin();
-
-  if (!exerciseIds.length) {
-    return {
-      success: false,
-      message: "No exercise IDs provided",
-      count: 0,
-    };
-  }
-
-  try {
-    const result = await db
-      .update(Exercises)
-      .set({ approvedByAdmin: approved })
-      .where(inArray(Exercises.exerciseId, exerciseIds))
-      .returning();
-
-    const action = approved ? "approved" : "unapproved";
-    return {
-      success: true,
-      message: `Successfully ${action} ${result.length} exercise${
-        result.length !== 1 ? "s" : ""
-      }`,
-      count: result.length,
-    };
-  } catch (error) {
-    const action = approved ? "approving" : "unapproving";
-    return {
-      success: false,
-      message: `Error ${action} exercises: ${
-        error instanceof Error ? error.message : String(error)
-      }`,
-      count: 0,
-    };
-  }
+  return reviewExercises(exerciseIds, approved ? "approved" : "pending");
 }
 
 export async function deleteExercise(exerciseId: string) {
@@ -579,3 +1031,54 @@ export async function deleteExercise(exerciseId: string) {
     };
   }
 }
+
+/**
+ * Exercises whose name or one of whose aliases contains the query, for the
+ * global search
+ * @returns Matching exercises with the alias that matched, if any
+ */
+export async function searchExercisesAction(
+  query: string
+): Promise<{ id: string; name: string; matchedAlias: string | null }[]> {
+  await requireTrainerOrAdmin();
+
+  const term = query.trim();
+  if (!term) return [];
+
+  try {
+    const searchLike = `%${term}%`;
+    const rows = await db
+      .select({
+        id: Exercises.exerciseId,
+        name: Exercises.exerciseName,
+        matchedAlias: sql<string | null>`(
+          SELECT ${ExerciseAliases.alias} FROM ${ExerciseAliases}
+          WHERE ${ExerciseAliases.exerciseId} = ${Exercises.exerciseId}
+          AND ${ExerciseAliases.alias} ILIKE ${searchLike}
+          ORDER BY length(${ExerciseAliases.alias})
+          LIMIT 1
+        )`,
+      })
+      .from(Exercises)
+      .where(
+        sql`${Exercises.exerciseName} ILIKE ${searchLike} OR EXISTS (
+          SELECT 1 FROM ${ExerciseAliases}
+          WHERE ${ExerciseAliases.exerciseId} = ${Exercises.exerciseId}
+          AND ${ExerciseAliases.alias} ILIKE ${searchLike}
+        )`
+      )
+      .orderBy(Exercises.exerciseName)
+      .limit(SEARCH_RESULT_LIMIT);
+
+    // Only mention the alias when the name itself didn't match
+    return rows.map((row) => ({
+      ...row,
+      matchedAlias: row.name.toLowerCase().includes(term.toLowerCase())
+        ? null
+        : row.matchedAlias,
+    }));
+  } catch (error) {
+    console.error("Error searching exercises:", error);
+    return [];
+  }
+}
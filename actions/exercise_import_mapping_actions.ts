@@ -0,0 +1,85 @@
+"use server";
+
+import { db } from "@/db/xata";
+import { ExerciseImportMappings } from "@/db/schemas";
+import { eq, sql } from "drizzle-orm";
+import "server-only";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import {
+    ExerciseNameMappings,
+    normalizeExerciseName,
+} from "@/components/workout-planning/workout-utils/exercise-matching";
+
+/**
+ * Exercise names the current coach has mapped in earlier plan imports
+ * @returns Exercise ID by normalised imported name
+ */
+export async function getExerciseImportMappings(): Promise<ExerciseNameMappings> {
+    const currentUser = await requireTrainerOrAdmin();
+
+    try {
+        const rows = await db
+            .select({
+                sourceName: ExerciseImportMappings.sourceName,
+                exerciseId: ExerciseImportMappings.exerciseId,
+            })
+            .from(ExerciseImportMappings)
+            .where(eq(ExerciseImportMappings.trainerId, currentUser.userId));
+
+        return Object.fromEntries(
+            rows.map((row) => [row.sourceName, row.exerciseId])
+        );
+    } catch (error) {
+        console.error("Error fetching exercise import mappings:", error);
+        return {};
+    }
+}
+
+/**
+ * Remembers the exercises a coach picked in the import review step so the
+ * same names resolve on their own next time
+ * @param mappings Imported name (as written) and the chosen exercise
+ */
+export async function saveExerciseImportMappings(
+    mappings: { sourceName: string; exerciseId: string }[]
+): Promise<{ success: boolean; error?: string }> {
+    const currentUser = await requireTrainerOrAdmin();
+
+    // One row per normalised name; the last choice wins
+    const rows = [
+        ...new Map(
+            mappings
+                .map((mapping) => ({
+                    trainerId: currentUser.userId,
+                    sourceName: normalizeExerciseName(mapping.sourceName),
+                    exerciseId: mapping.exerciseId,
+                }))
+                .filter((row) => row.sourceName && row.exerciseId)
+                .map((row) => [row.sourceName, row])
+        ).values(),
+    ];
+    if (!rows.length) return { success: true };
+
+    try {
+        await db
+            .insert(ExerciseImportMappings)
+            .values(rows)
+            .onConflictDoUpdate({
+                target: [
+                    ExerciseImportMappings.trainerId,
+                    ExerciseImportMappings.sourceName,
+                ],
+                set: {
+                    exerciseId: sql`excluded.exercise_id`,
+                    updatedAt: new Date(),
+                },
+            });
+        return { success: true };
+    } catch (error) {
+        console.error("Error saving exercise import mappings:", error);
+        return {
+            success: false,
+            error: "Failed to remember exercise mappings",
+        };
+    }
+}
@@ -0,0 +1,441 @@
+"use server";
+
+import { db } from "@/db/xata";
+import {
+    ClientExerciseAvoidances,
+    ExerciseAliases,
+    ExerciseEquipment,
+    ExerciseImportMappings,
+    ExerciseMuscleGroups,
+    ExercisePlanExercises,
+    ExerciseReviews,
+    Exercises,
+    PersonalRecords,
+    Users,
+    WorkoutPlanVersions,
+    WorkoutSessionDetails,
+} from "@/db/schemas";
+import { and, count, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import "server-only";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import { refreshExercisePersonalRecords } from "@/lib/personal-records";
+import {
+    exerciseNameSimilarity,
+    normalizeExerciseName,
+} from "@/components/workout-planning/workout-utils/exercise-matching";
+
+const DUPLICATE_SCORE = 0.8;
+const MAX_DUPLICATE_PAIRS = 100;
+
+export interface DuplicateExerciseSummary {
+    exerciseId: string;
+    exerciseName: string;
+    uploadedBy: string | null;
+    approvedByAdmin: boolean | null;
+    planUses: number; // Rows in ExercisePlanExercises
+    loggedSets: number; // WorkoutSessionDetails rows logged under its name
+}
+
+export interface DuplicateExercisePair {
+    keep: DuplicateExerciseSummary; // Suggested survivor: approved, then most used
+    merge: DuplicateExerciseSummary;
+    score: number;
+    matchedOn: string; // The names that matched, e.g. "DB Row ≈ Dumbbell Row"
+}
+
+const logKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Exercises whose names or aliases are near-identical once abbreviations,
+ * punctuation and plurals are normalised. Admin only.
+ * @returns Likely duplicate pairs, most similar first
+ */
+export async function findDuplicateExercises(): Promise<{
+    pairs: DuplicateExercisePair[];
+    error?: string;
+}> {
+    const currentUser = await requireTrainerOrAdmin();
+    if (!currentUser.roles?.includes("Admin")) {
+        return { pairs: [], error: "Only admins can merge exercises" };
+    }
+
+    try {
+        const [exercises, aliases, planUses, loggedSets] = await Promise.all([
+            db
+                .select({
+                    exerciseId: Exercises.exerciseId,
+                    exerciseName: Exercises.exerciseName,
+                    approvedByAdmin: Exercises.approvedByAdmin,
+                    uploadedBy: Users.fullName,
+                })
+                .from(Exercises)
+                .leftJoin(Users, eq(Exercises.uploadedByUserId, Users.userId)),
+            db
+                .select({
+                    exerciseId: ExerciseAliases.exerciseId,
+                    alias: ExerciseAliases.alias,
+                })
+                .from(ExerciseAliases),
+            db
+                .select({
+                    exerciseId: ExercisePlanExercises.exerciseId,
+                    uses: count(),
+                })
+                .from(ExercisePlanExercises)
+                .groupBy(ExercisePlanExercises.exerciseId),
+            db
+                .select({
+                    name: sql<string>`lower(trim(${WorkoutSessionDetails.exerciseName}))`,
+                    sets: count(),
+                })
+                .from(WorkoutSessionDetails)
+                .groupBy(
+                    sql`lower(trim(${WorkoutSessionDetails.exerciseName}))`
+                ),
+        ]);
+
+        const usesById = new Map(
+            planUses.map((row) => [row.exerciseId, row.uses])
+        );
+        const setsByName = new Map(
+            loggedSets.map((row) => [row.name, row.sets])
+        );
+        const summaries = new Map<string, DuplicateExerciseSummary>(
+            exercises.map((exercise) => [
+                exercise.exerciseId,
+                {
+                    ...exercise,
+                    planUses: usesById.get(exercise.exerciseId) ?? 0,
+                    loggedSets:
+                        setsByName.get(logKey(exercise.exerciseName)) ?? 0,
+                },
+            ])
+        );
+
+        // Every name an exercise goes by, normalised once up front
+        const names = [
+            ...exercises.map((exercise) => ({
+                exerciseId: exercise.exerciseId,
+                name: exercise.exerciseName,
+            })),
+            ...aliases.map((row) => ({
+                exerciseId: row.exerciseId,
+                name: row.alias,
+            })),
+        ].map((entry) => ({
+            ...entry,
+            normalizedName: normalizeExerciseName(entry.name),
+        }));
+
+        // Similarity is half token overlap, so a pair can only reach
+        // DUPLICATE_SCORE with enough shared tokens. Names are indexed by
+        // token and only pairs sharing enough of them are scored.
+        const minTokenScore = 2 * DUPLICATE_SCORE - 1;
+        const tokenSets = names.map(
+            (entry) => new Set(entry.normalizedName.split(" "))
+        );
+        const namesByToken = new Map<string, number[]>();
+        tokenSets.forEach((tokens, index) => {
+            tokens.forEach((token) => {
+                const indexes = namesByToken.get(token);
+                if (indexes) indexes.push(index);
+                else namesByToken.set(token, [index]);
+            });
+        });
+
+        const best = new Map<
+            string,
+            { score: number; ids: [string, string]; matchedOn: string }
+        >();
+        for (let i = 0; i < names.length; i++) {
+            const sharedTokens = new Map<number, number>();
+            tokenSets[i].forEach((token) => {
+                for (const j of namesByToken.get(token) ?? []) {
+                    if (j > i) {
+                        sharedTokens.set(j, (sharedTokens.get(j) ?? 0) + 1);
+                    }
+                }
+            });
+
+            for (const [j, shared] of sharedTokens) {
+                const a = names[i];
+                const b = names[j];
+                if (a.exerciseId === b.exerciseId) continue;
+                const tokenScore =
+                    (2 * shared) / (tokenSets[i].size + tokenSets[j].size);
+                if (tokenScore < minTokenScore) continue;
+
+                const score = exerciseNameSimilarity(
+                    a.normalizedName,
+                    b.normalizedName
+                );
+                if (score < DUPLICATE_SCORE) continue;
+
+                const ids: [string, string] =
+                    a.exerciseId < b.exerciseId
+                        ? [a.exerciseId, b.exerciseId]
+                        : [b.exerciseId, a.exerciseId];
+                const key = ids.join(":");
+                if ((best.get(key)?.score ?? 0) < score) {
+                    best.set(key, {
+                        score,
+                        ids,
+                        matchedOn: `${a.name} ≈ ${b.name}`,
+                    });
+                }
+            }
+        }
+
+        const rank = (exercise: DuplicateExerciseSummary) =>
+            (exercise.approvedByAdmin ? 1_000_000 : 0) +
+            exercise.planUses * 1_000 +
+            exercise.loggedSets;
+
+        const pairs = [...best.values()]
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_DUPLICATE_PAIRS)
+            .map(({ score, ids, matchedOn }) => {
+                const [first, second] = ids.map((id) => summaries.get(id)!);
+                const [keep, merge] =
+                    rank(second) > rank(first)
+                        ? [second, first]
+                        : [first, second];
+                return { keep, merge, score, matchedOn };
+            });
+
+        return { pairs };
+    } catch (error) {
+        console.error("Error finding duplicate exercises:", error);
+        return { pairs: [], error: "Failed to find duplicate exercises" };
+    }
+}
+
+/**
+ * Merges one exercise into another in a single transaction: plan rows,
+ * plan version snapshots, import mappings, client avoidances, review
+ * history and logged sets are repointed, logged sets take the kept name,
+ * and the merged exercise's name and aliases become aliases of the one
+ * kept. Personal records for the kept exercise are recomputed afterwards.
+ * Admin only.
+ * @param keepId The exercise that survives
+ * @param mergeId The exercise folded into it and then deleted
+ */
+export async function mergeExercises(
+    keepId: string,
+    mergeId: string
+): Promise<{
+    success: boolean;
+    message: string;
+    plansUpdated?: number;
+    setsRenamed?: number;
+}> {
+    const currentUser = await requireTrainerOrAdmin();
+    if (!currentUser.roles?.includes("Admin")) {
+        return { success: false, message: "Only admins can merge exercises" };
+    }
+    if (!keepId || !mergeId || keepId === mergeId) {
+        return {
+            success: false,
+            message: "Choose two different exercises to merge",
+        };
+    }
+
+    try {
+        const result = await db.transaction(async (tx) => {
+            const [keep] = await tx
+                .select()
+                .from(Exercises)
+                .where(eq(Exercises.exerciseId, keepId))
+                .for("update");
+            const [merge] = await tx
+                .select()
+                .from(Exercises)
+                .where(eq(Exercises.exerciseId, mergeId))
+                .for("update");
+            if (!keep || !merge) {
+                return { success: false, message: "Exercise not found" };
+            }
+
+            const plansUpdated = await tx
+                .update(ExercisePlanExercises)
+                .set({ exerciseId: keepId })
+                .where(eq(ExercisePlanExercises.exerciseId, mergeId))
+                .returning({ id: ExercisePlanExercises.planExerciseId });
+
+            // Restoring an older version must not bring back the merged ID
+            await tx
+                .update(WorkoutPlanVersions)
+                .set({
+                    snapshot: sql`replace(${WorkoutPlanVersions.snapshot}::text, ${mergeId}, ${keepId})::jsonb`,
+                    changes: sql`replace(${WorkoutPlanVersions.changes}::text, ${mergeId}, ${keepId})::jsonb`,
+                })
+                .where(
+                    sql`${
+                        WorkoutPlanVersions.snapshot
+                    }::text LIKE ${`%${mergeId}%`} OR ${
+                        WorkoutPlanVersions.changes
+                    }::text LIKE ${`%${mergeId}%`}`
+                );
+
+            // Unlinked sets logged under the duplicate's name or any of its
+            // aliases move across too
+            const mergeAliases = await tx
+                .select({ alias: ExerciseAliases.alias })
+                .from(ExerciseAliases)
+                .where(eq(ExerciseAliases.exerciseId, mergeId));
+            const mergeNames = Array.from(
+                new Set(
+                    [
+                        merge.exerciseName,
+                        ...mergeAliases.map((row) => row.alias),
+                    ].map(logKey)
+                )
+            );
+
+            const setsRenamed = await tx
+                .update(WorkoutSessionDetails)
+                .set({ exerciseId: keepId, exerciseName: keep.exerciseName })
+                .where(
+                    or(
+                        eq(WorkoutSessionDetails.exerciseId, mergeId),
+                        and(
+                            isNull(WorkoutSessionDetails.exerciseId),
+                            inArray(
+                                sql`lower(trim(${WorkoutSessionDetails.exerciseName}))`,
+                                mergeNames
+                            )
+                        )
+                    )
+                )
+                .returning({ id: WorkoutSessionDetails.workoutDetailId });
+
+            // The duplicate's records are recomputed on the kept exercise
+            // once its sets have moved over
+            await tx
+                .delete(PersonalRecords)
+                .where(eq(PersonalRecords.exerciseId, mergeId));
+
+            // Clients who avoided the duplicate now avoid the kept exercise,
+            // rather than losing the avoidance when the duplicate is deleted
+            await tx.delete(ClientExerciseAvoidances).where(
+                and(
+                    eq(ClientExerciseAvoidances.exerciseId, mergeId),
+                    inArray(
+                        ClientExerciseAvoidances.clientId,
+                        tx
+                            .select({
+                                clientId: ClientExerciseAvoidances.clientId,
+                            })
+                            .from(ClientExerciseAvoidances)
+                            .where(
+                                eq(ClientExerciseAvoidances.exerciseId, keepId)
+                            )
+                    )
+                )
+            );
+            await tx
+                .update(ClientExerciseAvoidances)
+                .set({ exerciseId: keepId })
+                .where(eq(ClientExerciseAvoidances.exerciseId, mergeId));
+
+            await tx
+                .update(ExerciseImportMappings)
+                .set({ exerciseId: keepId, updatedAt: new Date() })
+                .where(eq(ExerciseImportMappings.exerciseId, mergeId));
+
+            // Search and imports keep finding the exercise by its old name
+            await tx
+                .update(ExerciseAliases)
+                .set({ exerciseId: keepId })
+                .where(eq(ExerciseAliases.exerciseId, mergeId));
+            if (logKey(merge.exerciseName) !== logKey(keep.exerciseName)) {
+                await tx
+                    .insert(ExerciseAliases)
+                    .values({ exerciseId: keepId, alias: merge.exerciseName })
+                    .onConflictDoNothing();
+            }
+
+            // Equipment and muscles the kept exercise doesn't have yet; a
+            // muscle already on it keeps its primary/secondary role
+            const [mergeEquipment, mergeMuscles] = await Promise.all([
+                tx
+                    .select({ equipmentId: ExerciseEquipment.equipmentId })
+                    .from(ExerciseEquipment)
+                    .where(eq(ExerciseEquipment.exerciseId, mergeId)),
+                tx
+                    .select({
+                        muscleGroupId: ExerciseMuscleGroups.muscleGroupId,
+                        role: ExerciseMuscleGroups.role,
+                    })
+                    .from(ExerciseMuscleGroups)
+                    .where(eq(ExerciseMuscleGroups.exerciseId, mergeId)),
+            ]);
+            if (mergeEquipment.length) {
+                await tx
+                    .insert(ExerciseEquipment)
+                    .values(
+                        mergeEquipment.map((row) => ({
+                            ...row,
+                            exerciseId: keepId,
+                        }))
+                    )
+                    .onConflictDoNothing();
+            }
+            if (mergeMuscles.length) {
+                await tx
+                    .insert(ExerciseMuscleGroups)
+                    .values(
+                        mergeMuscles.map((row) => ({
+                            ...row,
+                            exerciseId: keepId,
+                        }))
+                    )
+                    .onConflictDoNothing();
+            }
+
+            await tx
+                .update(Exercises)
+                .set({
+                    description: keep.description || merge.description,
+                    videoUrl: keep.videoUrl || merge.videoUrl,
+                    imageUrl: keep.imageUrl || merge.imageUrl,
+                    thumbnailUrl: keep.thumbnailUrl || merge.thumbnailUrl,
+                    motion: keep.motion || merge.motion,
+                    targetArea: keep.targetArea || merge.targetArea,
+                    movementType: keep.movementType ?? merge.movementType,
+                    difficulty: keep.difficulty ?? merge.difficulty,
+                    movementPattern:
+                        keep.movementPattern ?? merge.movementPattern,
+                })
+                .where(eq(Exercises.exerciseId, keepId));
+
+            // Keep the duplicate's review history as part of the audit trail
+            await tx
+                .update(ExerciseReviews)
+                .set({ exerciseId: keepId })
+                .where(eq(ExerciseReviews.exerciseId, mergeId));
+
+            await tx.delete(Exercises).where(eq(Exercises.exerciseId, mergeId));
+
+            return {
+                success: true,
+                message: `Merged "${merge.exerciseName}" into "${keep.exerciseName}"`,
+                plansUpdated: plansUpdated.length,
+                setsRenamed: setsRenamed.length,
+            };
+        });
+
+        if (result.success) {
+            await refreshExercisePersonalRecords(keepId);
+        }
+        return result;
+    } catch (error) {
+        console.error("Error merging exercises:", error);
+        return {
+            success: false,
+            message: `Error merging exercises: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+        };
+    }
+}
@@ -0,0 +1,361 @@
+"use server";
+
+import { db } from "@/db/xata";
+import {
+    ExerciseReviews,
+    ExerciseReviewStatus,
+    Exercises,
+    Users,
+} from "@/db/schemas";
+import { asc, desc, eq, inArray } from "drizzle-orm";
+import "server-only";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import { NotificationQueueIntegration } from "@/lib/queue-integration";
+import { createExerciseMatcher } from "@/components/workout-planning/workout-utils/exercise-matching";
+
+// How alike an approved exercise's name must be to show it for comparison
+const SIMILAR_EXERCISE_SCORE = 0.5;
+
+// Statuses that send an exercise back to its uploader, who must be told why
+const STATUSES_NEEDING_COMMENT: ExerciseReviewStatus[] = [
+    "rejected",
+    "changes-requested",
+];
+
+const STATUS_LABELS: Record<ExerciseReviewStatus, string> = {
+    pending: "moved back to pending review",
+    approved: "approved",
+    rejected: "rejected",
+    "changes-requested": "sent back with requested changes",
+};
+
+export interface ExerciseReviewQueueItem {
+    exerciseId: string;
+    exerciseName: string;
+    description: string | null;
+    videoUrl: string | null;
+    motion: string | null;
+    targetArea: string | null;
+    movementType: string | null;
+    reviewStatus: ExerciseReviewStatus;
+    reviewComment: string | null;
+    uploadDate: Date;
+    uploadedByUserId: string;
+    uploadedBy: string | null;
+    // Closest approved exercise by name, to compare against likely duplicates
+    similarApproved: {
+        exerciseId: string;
+        exerciseName: string;
+        videoUrl: string | null;
+        score: number;
+    } | null;
+}
+
+export interface ExerciseReviewEntry {
+    reviewId: string;
+    fromStatus: ExerciseReviewStatus | null;
+    toStatus: ExerciseReviewStatus;
+    comment: string | null;
+    createdAt: Date;
+    changedBy: string | null;
+}
+
+/**
+ * Tells each uploader about review decisions on their exercises, one
+ * notification per uploader. A failed notification doesn't undo the review.
+ */
+async function notifyUploaders(
+    exercises: {
+        exerciseId: string;
+        exerciseName: string;
+        uploadedByUserId: string;
+    }[],
+    status: ExerciseReviewStatus,
+    comment: string | null,
+    reviewerId: string
+) {
+    const byUploader = new Map<string, typeof exercises>();
+    exercises.forEach((exercise) => {
+        if (exercise.uploadedByUserId === reviewerId) return;
+        byUploader.set(exercise.uploadedByUserId, [
+            ...(byUploader.get(exercise.uploadedByUserId) ?? []),
+            exercise,
+        ]);
+    });
+
+    const type =
+        status === "approved"
+            ? "success"
+            : status === "rejected"
+            ? "error"
+            : status === "changes-requested"
+            ? "warning"
+            : "info";
+
+    await Promise.all(
+        [...byUploader].map(async ([uploaderId, uploaded]) => {
+            const subject =
+                uploaded.length === 1
+                    ? `"${uploaded[0].exerciseName}" was`
+                    : `${uploaded.length} of your exercises were`;
+            try {
+                await NotificationQueueIntegration.queueNotification(
+                    uploaderId,
+                    `Exercise ${STATUS_LABELS[status]}`,
+                    `${subject} ${STATUS_LABELS[status]}.${
+                        comment ? ` Reviewer comment: ${comment}` : ""
+                    }`,
+                    type,
+                    uploaded.length === 1
+                        ? `/exercise?id=${uploaded[0].exerciseId}`
+                        : "/exercise-library"
+                );
+            } catch (error) {
+                console.error("Failed to notify exercise uploader:", error);
+            }
+        })
+    );
+}
+
+/**
+ * Records a review decision on one or more exercises, keeps
+ * approvedByAdmin in step, audits the change and notifies the uploaders.
+ * Admin only.
+ * @param comment Required when rejecting or requesting changes
+ */
+export async function reviewExercises(
+    exerciseIds: string[],
+    status: ExerciseReviewStatus,
+    comment?: string
+): Promise<{ success: boolean; message: string; count: number }> {
+    const currentUser = await requireTrainerOrAdmin();
+    if (!currentUser.roles?.includes("Admin")) {
+        return {
+            success: false,
+            message: "Only admins can review exercises",
+            count: 0,
+        };
+    }
+    if (!exerciseIds.length) {
+        return {
+            success: false,
+            message: "No exercise IDs provided",
+            count: 0,
+        };
+    }
+
+    const reviewComment = comment?.trim() || null;
+    if (STATUSES_NEEDING_COMMENT.includes(status) && !reviewComment) {
+        return {
+            success: false,
+            message: "Add a comment so the uploader knows what to change",
+            count: 0,
+        };
+    }
+
+    try {
+        const reviewed = await db.transaction(async (tx) => {
+            const current = await tx
+                .select({
+                    exerciseId: Exercises.exerciseId,
+                    exerciseName: Exercises.exerciseName,
+                    uploadedByUserId: Exercises.uploadedByUserId,
+                    reviewStatus: Exercises.reviewStatus,
+                })
+                .from(Exercises)
+                .where(inArray(Exercises.exerciseId, exerciseIds))
+                .for("update");
+            if (!current.length) return [];
+
+            await tx
+                .update(Exercises)
+                .set({
+                    reviewStatus: status,
+                    approvedByAdmin: status === "approved",
+                    reviewComment,
+                })
+                .where(inArray(Exercises.exerciseId, exerciseIds));
+
+            await tx.insert(ExerciseReviews).values(
+                current.map((exercise) => ({
+                    exerciseId: exercise.exerciseId,
+                    changedByUserId: currentUser.userId,
+                    fromStatus: exercise.reviewStatus,
+                    toStatus: status,
+                    comment: reviewComment,
+                }))
+            );
+
+            return current;
+        });
+
+        if (!reviewed.length) {
+            return { success: false, message: "Exercise not found", count: 0 };
+        }
+
+        await notifyUploaders(
+            reviewed.filter((exercise) => exercise.reviewStatus !== status),
+            status,
+            reviewComment,
+            currentUser.userId
+        );
+
+        return {
+            success: true,
+            message: `${reviewed.length} exercise${
+                reviewed.length !== 1 ? "s" : ""
+            } ${STATUS_LABELS[status]}`,
+            count: reviewed.length,
+        };
+    } catch (error) {
+        console.error("Error reviewing exercises:", error);
+        return {
+            success: false,
+            message: `Error reviewing exercises: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+            count: 0,
+        };
+    }
+}
+
+/**
+ * Puts an exercise that was rejected or sent back for changes back in the
+ * review queue, e.g. after its uploader edits it
+ * @returns Whether the exercise was resubmitted
+ */
+export async function resubmitExerciseForReview(
+    exerciseId: string
+): Promise<boolean> {
+    const currentUser = await requireTrainerOrAdmin();
+
+    try {
+        return await db.transaction(async (tx) => {
+            const [exercise] = await tx
+                .select({ reviewStatus: Exercises.reviewStatus })
+                .from(Exercises)
+                .where(eq(Exercises.exerciseId, exerciseId))
+                .for("update");
+            if (
+                !exercise ||
+                !STATUSES_NEEDING_COMMENT.includes(exercise.reviewStatus)
+            ) {
+                return false;
+            }
+
+            await tx
+                .update(Exercises)
+                .set({ reviewStatus: "pending", approvedByAdmin: false })
+                .where(eq(Exercises.exerciseId, exerciseId));
+            await tx.insert(ExerciseReviews).values({
+                exerciseId,
+                changedByUserId: currentUser.userId,
+                fromStatus: exercise.reviewStatus,
+                toStatus: "pending",
+                comment: "Resubmitted after edits",
+            });
+            return true;
+        });
+    } catch (error) {
+        console.error("Error resubmitting exercise for review:", error);
+        return false;
+    }
+}
+
+/**
+ * Exercises awaiting review, oldest first, with their uploader and the
+ * most similar approved exercise. Admin only.
+ * @param statuses Statuses to include; pending and changes-requested by default
+ */
+export async function getExerciseReviewQueue(
+    statuses: ExerciseReviewStatus[] = ["pending", "changes-requested"]
+): Promise<{ exercises: ExerciseReviewQueueItem[]; error?: string }> {
+    const currentUser = await requireTrainerOrAdmin();
+    if (!currentUser.roles?.includes("Admin")) {
+        return { exercises: [], error: "Only admins can review exercises" };
+    }
+    if (!statuses.length) return { exercises: [] };
+
+    try {
+        const [queue, approved] = await Promise.all([
+            db
+                .select({
+                    exerciseId: Exercises.exerciseId,
+                    exerciseName: Exercises.exerciseName,
+                    description: Exercises.description,
+                    videoUrl: Exercises.videoUrl,
+                    motion: Exercises.motion,
+                    targetArea: Exercises.targetArea,
+                    movementType: Exercises.movementType,
+                    reviewStatus: Exercises.reviewStatus,
+                    reviewComment: Exercises.reviewComment,
+                    uploadDate: Exercises.uploadDate,
+                    uploadedByUserId: Exercises.uploadedByUserId,
+                    uploadedBy: Users.fullName,
+                })
+                .from(Exercises)
+                .leftJoin(Users, eq(Exercises.uploadedByUserId, Users.userId))
+                .where(inArray(Exercises.reviewStatus, statuses))
+                .orderBy(asc(Exercises.uploadDate)),
+            db
+                .select()
+                .from(Exercises)
+                .where(eq(Exercises.reviewStatus, "approved")),
+        ]);
+
+        const matcher = createExerciseMatcher(approved);
+        const exercises = queue.map((exercise) => {
+            const similar = matcher
+                .rank(exercise.exerciseName, 2)
+                .find(
+                    (candidate) =>
+                        candidate.exercise.exerciseId !== exercise.exerciseId &&
+                        candidate.score >= SIMILAR_EXERCISE_SCORE
+                );
+            return {
+                ...exercise,
+                similarApproved: similar
+                    ? {
+                          exerciseId: similar.exercise.exerciseId,
+                          exerciseName: similar.exercise.exerciseName,
+                          videoUrl: similar.exercise.videoUrl,
+                          score: similar.score,
+                      }
+                    : null,
+            };
+        });
+
+        return { exercises };
+    } catch (error) {
+        console.error("Error fetching exercise review queue:", error);
+        return { exercises: [], error: "Failed to load the review queue" };
+    }
+}
+
+/**
+ * Who changed an exercise's review status, when, and why; newest first
+ */
+export async function getExerciseReviewHistory(
+    exerciseId: string
+): Promise<ExerciseReviewEntry[]> {
+    await requireTrainerOrAdmin();
+
+    try {
+        return await db
+            .select({
+                reviewId: ExerciseReviews.reviewId,
+                fromStatus: ExerciseReviews.fromStatus,
+                toStatus: ExerciseReviews.toStatus,
+                comment: ExerciseReviews.comment,
+                createdAt: ExerciseReviews.createdAt,
+                changedBy: Users.fullName,
+            })
+            .from(ExerciseReviews)
+            .leftJoin(Users, eq(ExerciseReviews.changedByUserId, Users.userId))
+            .where(eq(ExerciseReviews.exerciseId, exerciseId))
+            .orderBy(desc(ExerciseReviews.createdAt));
+    } catch (error) {
+        console.error("Error fetching exercise review history:", error);
+        return [];
+    }
+}
@@ -0,0 +1,259 @@
+"use server";
+
+import { db } from "@/db/xata";
+import {
+    ClientExerciseAvoidances,
+    Equipment,
+    Exercises,
+    MuscleGroups,
+    SelectExerciseWithAliases,
+} from "@/db/schemas";
+import { desc, eq } from "drizzle-orm";
+import "server-only";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import {
+    MIN_SUBSTITUTE_SCORE,
+    SubstituteExclusions,
+    isExcludedSubstitute,
+    scoreSubstitute,
+} from "@/lib/exercise-substitutions";
+import { getAllExercisesForWorkoutPlanning } from "./exercise_actions";
+
+const DEFAULT_SUBSTITUTE_LIMIT = 10;
+
+export interface ExerciseSubstitute {
+    exercise: SelectExerciseWithAliases;
+    score: number;
+    reasons: string[];
+}
+
+export interface ClientAvoidance {
+    avoidanceId: string;
+    kind: "exercise" | "muscle" | "equipment";
+    targetId: string;
+    name: string;
+    reason: string | null;
+    createdAt: Date;
+}
+
+export type AvoidanceTarget =
+    | { exerciseId: string }
+    | { muscleGroupId: string }
+    | { equipmentId: string };
+
+async function loadClientAvoidances(
+    clientId: string
+): Promise<ClientAvoidance[]> {
+    const rows = await db
+        .select({
+            avoidanceId: ClientExerciseAvoidances.avoidanceId,
+            exerciseId: ClientExerciseAvoidances.exerciseId,
+            muscleGroupId: ClientExerciseAvoidances.muscleGroupId,
+            equipmentId: ClientExerciseAvoidances.equipmentId,
+            reason: ClientExerciseAvoidances.reason,
+            createdAt: ClientExerciseAvoidances.createdAt,
+            exerciseName: Exercises.exerciseName,
+            muscleName: MuscleGroups.name,
+            equipmentName: Equipment.name,
+        })
+        .from(ClientExerciseAvoidances)
+        .leftJoin(
+            Exercises,
+            eq(ClientExerciseAvoidances.exerciseId, Exercises.exerciseId)
+        )
+        .leftJoin(
+            MuscleGroups,
+            eq(
+                ClientExerciseAvoidances.muscleGroupId,
+                MuscleGroups.muscleGroupId
+            )
+        )
+        .leftJoin(
+            Equipment,
+            eq(ClientExerciseAvoidances.equipmentId, Equipment.equipmentId)
+        )
+        .where(eq(ClientExerciseAvoidances.clientId, clientId))
+        .orderBy(desc(ClientExerciseAvoidances.createdAt));
+
+    return rows.map((row) => {
+        const [kind, targetId, name] = row.exerciseId
+            ? (["exercise", row.exerciseId, row.exerciseName] as const)
+            : row.muscleGroupId
+            ? (["muscle", row.muscleGroupId, row.muscleName] as const)
+            : (["equipment", row.equipmentId, row.equipmentName] as const);
+        return {
+            avoidanceId: row.avoidanceId,
+            kind,
+            targetId: targetId ?? "",
+            name: name ?? "Unknown",
+            reason: row.reason,
+            createdAt: row.createdAt,
+        };
+    });
+}
+
+/**
+ * Approved library exercises that could stand in for another, best first.
+ * Skips anything on the client's avoid list and, when the equipment is
+ * busy, anything needing the same equipment.
+ */
+export async function getExerciseSubstitutes(
+    exerciseId: string,
+    options: {
+        clientId?: string;
+        equipmentBusy?: boolean;
+        limit?: number;
+    } = {}
+): Promise<{
+    success: boolean;
+    substitutes: ExerciseSubstitute[];
+    error?: string;
+}> {
+    await requireTrainerOrAdmin();
+
+    try {
+        const [library, avoidances] = await Promise.all([
+            getAllExercisesForWorkoutPlanning(),
+            options.clientId ? loadClientAvoidances(options.clientId) : [],
+        ]);
+
+        const current = library.find(
+            (exercise) => exercise.exerciseId === exerciseId
+        );
+        if (!current) {
+            return {
+                success: false,
+                substitutes: [],
+                error: "Exercise not found",
+            };
+        }
+
+        const idsOf = (kind: ClientAvoidance["kind"]) =>
+            avoidances
+                .filter((avoidance) => avoidance.kind === kind)
+                .map((avoidance) => avoidance.targetId);
+        const exclusions: SubstituteExclusions = {
+            exerciseIds: [exerciseId, ...idsOf("exercise")],
+            muscleGroupIds: idsOf("muscle"),
+            equipmentIds: [
+                ...idsOf("equipment"),
+                ...(options.equipmentBusy
+                    ? current.equipment?.map((tag) => tag.id) ?? []
+                    : []),
+            ],
+        };
+
+        const substitutes = library
+            .filter(
+                (candidate) =>
+                    candidate.reviewStatus === "approved" &&
+                    !isExcludedSubstitute(candidate, exclusions)
+            )
+            .map((candidate) => ({
+                exercise: candidate,
+                ...scoreSubstitute(current, candidate),
+            }))
+            .filter((substitute) => substitute.score >= MIN_SUBSTITUTE_SCORE)
+            .sort(
+                (a, b) =>
+                    b.score - a.score ||
+                    a.exercise.exerciseName.localeCompare(
+                        b.exercise.exerciseName
+                    )
+            )
+            .slice(0, options.limit ?? DEFAULT_SUBSTITUTE_LIMIT);
+
+        return { success: true, substitutes };
+    } catch (error) {
+        console.error("Error finding exercise substitutes:", error);
+        return {
+            success: false,
+            substitutes: [],
+            error: "Failed to find substitutes",
+        };
+    }
+}
+
+/**
+ * A client's avoid list, newest first
+ */
+export async function getClientAvoidList(clientId: string): Promise<{
+    success: boolean;
+    avoidances: ClientAvoidance[];
+    error?: string;
+}> {
+    await requireTrainerOrAdmin();
+
+    try {
+        return {
+            success: true,
+            avoidances: await loadClientAvoidances(clientId),
+        };
+    } catch (error) {
+        console.error("Error fetching client avoid list:", error);
+        return {
+            success: false,
+            avoidances: [],
+            error: "Failed to fetch avoid list",
+        };
+    }
+}
+
+/**
+ * Adds an exercise, muscle group or piece of equipment to a client's avoid
+ * list. Adding something already on the list is a no-op.
+ */
+export async function addClientAvoidance(
+    clientId: string,
+    target: AvoidanceTarget,
+    reason?: string
+) {
+    const currentUser = await requireTrainerOrAdmin();
+
+    const [kind, targetId] =
+        "exerciseId" in target
+            ? (["exercise", target.exerciseId] as const)
+            : "muscleGroupId" in target
+            ? (["muscle", target.muscleGroupId] as const)
+            : (["equipment", target.equipmentId] as const);
+    if (!targetId) {
+        return { success: false, message: "Nothing selected to avoid" };
+    }
+
+    try {
+        const existing = await loadClientAvoidances(clientId);
+        if (existing.some((a) => a.kind === kind && a.targetId === targetId)) {
+            return { success: true, message: "Already on the avoid list" };
+        }
+
+        await db.insert(ClientExerciseAvoidances).values({
+            clientId,
+            exerciseId: kind === "exercise" ? targetId : null,
+            muscleGroupId: kind === "muscle" ? targetId : null,
+            equipmentId: kind === "equipment" ? targetId : null,
+            reason: reason?.trim() || null,
+            createdByUserId: currentUser.userId,
+        });
+        return { success: true, message: "Added to the avoid list" };
+    } catch (error) {
+        console.error("Error adding client avoidance:", error);
+        return { success: false, message: "Failed to update the avoid list" };
+    }
+}
+
+/**
+ * Takes an entry off a client's avoid list
+ */
+export async function removeClientAvoidance(avoidanceId: string) {
+    await requireTrainerOrAdmin();
+
+    try {
+        await db
+            .delete(ClientExerciseAvoidances)
+            .where(eq(ClientExerciseAvoidances.avoidanceId, avoidanceId));
+        return { success: true, message: "Removed from the avoid list" };
+    } catch (error) {
+        console.error("Error removing client avoidance:", error);
+        return { success: false, message: "Failed to update the avoid list" };
+    }
+}
@@ -0,0 +1,50 @@
+"use server";
+
+import { db } from "@/db/xata";
+import { Exercises, PersonalRecords, SelectPersonalRecord } from "@/db/schemas";
+import { asc, eq } from "drizzle-orm";
+import "server-only";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+
+export type ClientPersonalRecord = SelectPersonalRecord & {
+    exerciseName: string;
+};
+
+/**
+ * A client's current personal records, for the client page
+ *
+ * @param clientId - The client whose records to read
+ * @returns Records ordered by exercise name, then weight for reps-at-weight
+ */
+export async function getClientPersonalRecords(
+    clientId: string
+): Promise<ClientPersonalRecord[]> {
+    await requireTrainerOrAdmin();
+
+    try {
+        const rows = await db
+            .select({
+                record: PersonalRecords,
+                exerciseName: Exercises.exerciseName,
+            })
+            .from(PersonalRecords)
+            .innerJoin(
+                Exercises,
+                eq(PersonalRecords.exerciseId, Exercises.exerciseId)
+            )
+            .where(eq(PersonalRecords.clientId, clientId))
+            .orderBy(
+                asc(Exercises.exerciseName),
+                asc(PersonalRecords.recordType),
+                asc(PersonalRecords.atWeight)
+            );
+
+        return rows.map(({ record, exerciseName }) => ({
+            ...record,
+            exerciseName,
+        }));
+    } catch (error) {
+        console.error("Error fetching personal records:", error);
+        throw new Error("Failed to fetch personal records");
+    }
+}
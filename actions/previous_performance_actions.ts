@@ -0,0 +1,111 @@
+"use server";
+
+import { db } from "@/db/xata";
+import { WorkoutSessionDetails, WorkoutSessionsLog } from "@/db/schemas";
+import { and, asc, eq, inArray, lte, ne, sql } from "drizzle-orm";
+import "server-only";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import type { PreviousSet } from "@/lib/set-progression";
+
+const DEFAULT_SESSION_COUNT = 3;
+
+// Set number → that set in each of the last sessions, newest first
+export type PreviousPerformance = Record<number, PreviousSet[]>;
+
+/**
+ * A client's last few sessions of each exercise, for showing how each set
+ * went last time while today's is logged. Warm-ups are left out, and the
+ * working sets are numbered in the order they were logged within their
+ * session.
+ *
+ * @param clientId - The client whose history to read
+ * @param exerciseIds - Library exercises in today's workout
+ * @param options.sessions - How many past sessions to return per exercise
+ * @param options.excludeWorkoutSessionLogId - The workout being recorded now
+ * @returns Previous performance keyed by exercise ID, then set number
+ */
+export async function getPreviousPerformance(
+    clientId: string,
+    exerciseIds: string[],
+    options: { sessions?: number; excludeWorkoutSessionLogId?: string } = {}
+): Promise<Record<string, PreviousPerformance>> {
+    await requireTrainerOrAdmin();
+    if (exerciseIds.length === 0) return {};
+
+    const ranked = db
+        .select({
+            exerciseId: WorkoutSessionDetails.exerciseId,
+            workoutSessionLogId: WorkoutSessionDetails.workoutSessionLogId,
+            setNumber: WorkoutSessionDetails.sets,
+            reps: WorkoutSessionDetails.reps,
+            weight: WorkoutSessionDetails.weight,
+            rpe: WorkoutSessionDetails.rpe,
+            rir: WorkoutSessionDetails.rir,
+            setType: WorkoutSessionDetails.setType,
+            entryTime: WorkoutSessionDetails.entryTime,
+            startTime: WorkoutSessionsLog.startTime,
+            sessionRank: sql<number>`dense_rank() over (
+                partition by ${WorkoutSessionDetails.exerciseId}
+                order by ${WorkoutSessionsLog.startTime} desc,
+                    ${WorkoutSessionsLog.workoutSessionLogId}
+            )`.as("session_rank"),
+        })
+        .from(WorkoutSessionDetails)
+        .innerJoin(
+            WorkoutSessionsLog,
+            eq(
+                WorkoutSessionDetails.workoutSessionLogId,
+                WorkoutSessionsLog.workoutSessionLogId
+            )
+        )
+        .where(
+            and(
+                eq(WorkoutSessionsLog.userId, clientId),
+                inArray(WorkoutSessionDetails.exerciseId, exerciseIds),
+                ne(WorkoutSessionDetails.setType, "warm-up"),
+                options.excludeWorkoutSessionLogId
+                    ? ne(
+                          WorkoutSessionsLog.workoutSessionLogId,
+                          options.excludeWorkoutSessionLogId
+                      )
+                    : undefined
+            )
+        )
+        .as("ranked");
+
+    const rows = await db
+        .select()
+        .from(ranked)
+        .where(
+            lte(ranked.sessionRank, options.sessions ?? DEFAULT_SESSION_COUNT)
+        )
+        .orderBy(
+            asc(ranked.sessionRank),
+            asc(ranked.setNumber),
+            asc(ranked.entryTime)
+        );
+
+    const performance: Record<string, PreviousPerformance> = {};
+    const setCounts = new Map<string, number>();
+
+    rows.forEach((row) => {
+        if (!row.exerciseId) return;
+        const sessionKey = `${row.exerciseId}:${row.workoutSessionLogId}`;
+        const setNumber = (setCounts.get(sessionKey) ?? 0) + 1;
+        setCounts.set(sessionKey, setNumber);
+
+        const byExercise = (performance[row.exerciseId] ??= {});
+        (byExercise[setNumber] ??= []).push({
+            workoutSessionLogId: row.workoutSessionLogId,
+            date: row.startTime.toISOString(),
+            setNumber,
+            reps: row.reps,
+            weight: row.weight,
+            rpe: row.rpe,
+            rir: row.rir,
+            setType: row.setType,
+        });
+    });
+
+    return performance;
+}
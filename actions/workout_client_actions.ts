@@ -2,6 +2,7 @@
 import {
     WorkoutPlanResponse,
     WorkoutPlanActionResponse,
+    ExerciseGroupType,
 } from "@/components/workout-planning/types";
 import {
     ExercisePlans,
@@ -12,11 +13,18 @@ import {
 } from "@/db/schemas";
 import { db } from "@/db/xata";
 import { requireTrainerOrAdmin } from "@/lib/auth-utils";
-import { or, eq, and, not } from "drizzle-orm";
+import { eq, and, not, desc } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 
+/**
+ * Fetches one of a client's workout plans in planner shape
+ * @param clientId The client whose plan to load
+ * @param planId Optional plan to load; defaults to the most recently updated active plan
+ * @returns The plan, or [] if the client has no plans (or planId isn't theirs)
+ */
 export async function getWorkoutPlanByClientId(
-    clientId: string
+    clientId: string,
+    planId?: string
 ): Promise<WorkoutPlanResponse | []> {
     await requireTrainerOrAdmin();
     // Fetch the plan first to ensure we return something even if there are no phases/sessions/exercises
@@ -26,14 +34,21 @@ export async function getWorkoutPlanByClientId(
             updatedAt: ExercisePlans.updatedAt,
         })
         .from(ExercisePlans)
-        .where(or(eq(ExercisePlans.assignedToUserId, clientId)))
-        .limit(1); // Assuming one active plan per client for simplicity, adjust if needed
+        .where(
+            and(
+                eq(ExercisePlans.assignedToUserId, clientId),
+                planId ? eq(ExercisePlans.planId, planId) : undefined
+            )
+        )
+        // Active plans first; archived plans are only a fallback
+        .orderBy(desc(ExercisePlans.isActive), desc(ExercisePlans.updatedAt))
+        .limit(1);
 
     if (!plan.length) {
         return []; // No plan found for this client
     }
 
-    const planId = plan[0].planId;
+    const selectedPlanId = plan[0].planId;
     const planUpdatedAt = plan[0].updatedAt;
 
     // Now fetch the full structure using LEFT JOINs starting from the plan
@@ -66,6 +81,9 @@ export async function getWorkoutPlanByClientId(
             restMin: ExercisePlanExercises.restMin,
             restMax: ExercisePlanExercises.restMax,
             notes: ExercisePlanExercises.notes, // Added notes
+            groupType: ExercisePlanExercises.groupType,
+            groupRounds: ExercisePlanExercises.groupRounds,
+            groupRest: ExercisePlanExercises.groupRest,
         })
         .from(ExercisePlans)
         .leftJoin(Phases, eq(Phases.planId, ExercisePlans.planId))
@@ -78,7 +96,7 @@ export async function getWorkoutPlanByClientId(
             Exercises,
             eq(ExercisePlanExercises.exerciseId, Exercises.exerciseId)
         ) // Join Exercises based on the FK in ExercisePlanExercises
-        .where(eq(ExercisePlans.planId, planId)) // Filter by the specific plan ID found earlier
+        .where(eq(ExercisePlans.planId, selectedPlanId)) // Filter by the specific plan ID found earlier
         .orderBy(
             Phases.orderNumber,
             Sessions.orderNumber,
@@ -90,7 +108,7 @@ export async function getWorkoutPlanByClientId(
     if (!rows.length || rows[0].phaseId === null) {
         // Check if the first row indicates no phases joined
         return {
-            planId: planId,
+            planId: selectedPlanId,
             updatedAt: planUpdatedAt,
             phases: [], // Return empty phases array
         };
@@ -129,6 +147,9 @@ export async function getWorkoutPlanByClientId(
                     restMin?: string;
                     restMax?: string;
                     notes?: string;
+                    groupType?: ExerciseGroupType | "";
+                    groupRounds?: string;
+                    groupRest?: string;
                 }>;
             }>;
         }
@@ -195,6 +216,10 @@ export async function getWorkoutPlanByClientId(
             restMin: row.restMin != null ? String(row.restMin) : undefined,
             restMax: row.restMax != null ? String(row.restMax) : undefined,
             notes: row.notes ?? undefined, // Added notes
+            groupType: (row.groupType ?? "") as ExerciseGroupType | "",
+            groupRounds:
+                row.groupRounds != null ? String(row.groupRounds) : undefined,
+            groupRest: row.groupRest != null ? String(row.groupRest) : undefined,
         });
     }
 
@@ -206,7 +231,7 @@ export async function getWorkoutPlanByClientId(
     // );
     // Return the structured plan data
     return {
-        planId: planId,
+        planId: selectedPlanId,
         updatedAt: planUpdatedAt,
         phases: Array.from(phasesMap.values()),
     };
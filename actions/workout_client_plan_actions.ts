@@ -0,0 +1,368 @@
+"use server";
+
+import { db } from "@/db/xata";
+import {
+    ExercisePlans,
+    Phases,
+    Sessions,
+    ExercisePlanExercises,
+} from "@/db/schemas";
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import "server-only";
+import { v4 as uuidv4 } from "uuid";
+import {
+    ClientWorkoutPlanSummary,
+    LaunchableSession,
+    WorkoutPlanActionResponse,
+} from "@/components/workout-planning/types";
+import { revalidatePath } from "next/cache";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import { recordPlanVersion } from "@/lib/database/plan-version-service";
+import { copyPlanStructure } from "@/lib/database/plan-structure-service";
+
+interface PlanActionResponse {
+    success: boolean;
+    error?: string;
+}
+
+/**
+ * Loads a client plan (never a template) by ID
+ */
+async function getClientPlan(planId: string) {
+    const plan = await db
+        .select({
+            planId: ExercisePlans.planId,
+            planName: ExercisePlans.planName,
+            assignedToUserId: ExercisePlans.assignedToUserId,
+        })
+        .from(ExercisePlans)
+        .where(
+            and(
+                eq(ExercisePlans.planId, planId),
+                eq(ExercisePlans.isTemplate, false)
+            )
+        )
+        .limit(1);
+
+    return plan[0] ?? null;
+}
+
+/**
+ * Lists every plan assigned to a client, active plans first
+ * @param clientId The client whose plans to list
+ * @returns Plan summaries including archived plans
+ */
+export async function getClientWorkoutPlans(
+    clientId: string
+): Promise<ClientWorkoutPlanSummary[]> {
+    await requireTrainerOrAdmin();
+
+    try {
+        const rows = await db
+            .select({
+                planId: ExercisePlans.planId,
+                planName: ExercisePlans.planName,
+                isActive: ExercisePlans.isActive,
+                createdDate: ExercisePlans.createdDate,
+                updatedAt: ExercisePlans.updatedAt,
+                phaseCount: sql<number>`count(distinct ${Phases.phaseId})::int`,
+                sessionCount: sql<number>`count(distinct ${Sessions.sessionId})::int`,
+            })
+            .from(ExercisePlans)
+            .leftJoin(Phases, eq(Phases.planId, ExercisePlans.planId))
+            .leftJoin(Sessions, eq(Sessions.phaseId, Phases.phaseId))
+            .where(
+                and(
+                    eq(ExercisePlans.assignedToUserId, clientId),
+                    eq(ExercisePlans.isTemplate, false)
+                )
+            )
+            .groupBy(ExercisePlans.planId)
+            .orderBy(
+                desc(ExercisePlans.isActive),
+                desc(ExercisePlans.updatedAt)
+            );
+
+        return rows.map((row) => ({ ...row, isActive: row.isActive ?? false }));
+    } catch (error) {
+        console.error("Error fetching client workout plans:", error);
+        throw new Error("Failed to fetch client workout plans");
+    }
+}
+
+/**
+ * Creates an additional, empty plan for a client (e.g. a home or rehab plan)
+ * @param clientId The client to create the plan for
+ * @param planName Name shown in the plan selector
+ * @returns Standard workout plan action response with the new plan ID
+ */
+export async function createClientWorkoutPlan(
+    clientId: string,
+    planName: string
+): Promise<WorkoutPlanActionResponse> {
+    const currentUser = await requireTrainerOrAdmin();
+
+    const trimmedName = planName.trim();
+    if (!trimmedName) {
+        return {
+            success: false,
+            error: "Plan name is required",
+            conflict: false,
+            planId: "",
+            updatedAt: new Date(),
+            serverUpdatedAt: new Date(),
+        };
+    }
+
+    try {
+        const planId = uuidv4();
+        const now = new Date();
+
+        await db.transaction(async (tx) => {
+            await tx.insert(ExercisePlans).values({
+                planId,
+                planName: trimmedName,
+                createdByUserId: currentUser.userId,
+                assignedToUserId: clientId,
+                createdDate: now,
+                updatedAt: now,
+                isActive: true,
+            });
+
+            await recordPlanVersion(tx, planId, null, {
+                userId: currentUser.userId,
+                note: "Plan created",
+            });
+        });
+
+        revalidatePath(`/clients/${clientId}`, "layout");
+
+        return {
+            success: true,
+            planId,
+            updatedAt: now,
+            conflict: false,
+            serverUpdatedAt: now,
+        };
+    } catch (error) {
+        console.error("Error creating client workout plan:", error);
+        return {
+            success: false,
+            error: "Failed to create workout plan",
+            conflict: false,
+            planId: "",
+            updatedAt: new Date(),
+            serverUpdatedAt: new Date(),
+        };
+    }
+}
+
+/**
+ * Renames a client plan. The plan's updatedAt is left alone so open
+ * planners don't see the rename as a concurrent edit.
+ * @param planId The plan to rename
+ * @param planName The new name
+ * @returns Success status and error message if applicable
+ */
+export async function renameWorkoutPlan(
+    planId: string,
+    planName: string
+): Promise<PlanActionResponse> {
+    await requireTrainerOrAdmin();
+
+    const trimmedName = planName.trim();
+    if (!trimmedName) {
+        return { success: false, error: "Plan name is required" };
+    }
+
+    try {
+        const plan = await getClientPlan(planId);
+        if (!plan) {
+            return { success: false, error: "Workout plan not found" };
+        }
+
+        await db
+            .update(ExercisePlans)
+            .set({ planName: trimmedName })
+            .where(eq(ExercisePlans.planId, planId));
+
+        if (plan.assignedToUserId) {
+            revalidatePath(`/clients/${plan.assignedToUserId}`, "layout");
+        }
+
+        return { success: true };
+    } catch (error) {
+        console.error("Error renaming workout plan:", error);
+        return { success: false, error: "Failed to rename workout plan" };
+    }
+}
+
+/**
+ * Archives or restores a client plan. Archived plans keep all their data
+ * but are hidden from the tracker and sorted after active plans.
+ * @param planId The plan to update
+ * @param archived True to archive, false to make the plan active again
+ * @returns Success status and error message if applicable
+ */
+export async function setWorkoutPlanArchived(
+    planId: string,
+    archived: boolean
+): Promise<PlanActionResponse> {
+    await requireTrainerOrAdmin();
+
+    try {
+        const plan = await getClientPlan(planId);
+        if (!plan) {
+            return { success: false, error: "Workout plan not found" };
+        }
+
+        await db
+            .update(ExercisePlans)
+            .set({ isActive: !archived })
+            .where(eq(ExercisePlans.planId, planId));
+
+        if (plan.assignedToUserId) {
+            revalidatePath(`/clients/${plan.assignedToUserId}`, "layout");
+        }
+
+        return { success: true };
+    } catch (error) {
+        console.error("Error archiving workout plan:", error);
+        return {
+            success: false,
+            error: archived
+                ? "Failed to archive workout plan"
+                : "Failed to restore workout plan",
+        };
+    }
+}
+
+/**
+ * Duplicates a client plan (all phases, sessions and exercises) as a new
+ * active plan for the same client
+ * @param planId The plan to copy
+ * @param planName Name for the copy
+ * @returns Standard workout plan action response with the new plan ID
+ */
+export async function duplicateWorkoutPlan(
+    planId: string,
+    planName: string
+): Promise<WorkoutPlanActionResponse> {
+    const currentUser = await requireTrainerOrAdmin();
+
+    try {
+        const source = await getClientPlan(planId);
+        if (!source || !source.assignedToUserId) {
+            return {
+                success: false,
+                error: "Workout plan not found",
+                conflict: false,
+                planId: "",
+                updatedAt: new Date(),
+                serverUpdatedAt: new Date(),
+            };
+        }
+
+        const clientId = source.assignedToUserId;
+        const newPlanId = uuidv4();
+        const now = new Date();
+
+        await db.transaction(async (tx) => {
+            await tx.insert(ExercisePlans).values({
+                planId: newPlanId,
+                planName: planName.trim() || `${source.planName} (Copy)`,
+                createdByUserId: currentUser.userId,
+                assignedToUserId: clientId,
+                createdDate: now,
+                updatedAt: now,
+                isActive: true,
+            });
+
+            await copyPlanStructure(tx, planId, newPlanId);
+
+            await recordPlanVersion(tx, newPlanId, null, {
+                userId: currentUser.userId,
+                note: `Duplicated from "${source.planName}"`,
+            });
+        });
+
+        revalidatePath(`/clients/${clientId}`, "layout");
+
+        return {
+            success: true,
+            planId: newPlanId,
+            updatedAt: now,
+            conflict: false,
+            serverUpdatedAt: now,
+        };
+    } catch (error) {
+        console.error("Error duplicating workout plan:", error);
+        return {
+            success: false,
+            error: "Failed to duplicate workout plan",
+            conflict: false,
+            planId: "",
+            updatedAt: new Date(),
+            serverUpdatedAt: new Date(),
+        };
+    }
+}
+
+/**
+ * Lists every session across a client's active plans so the tracker can
+ * start a workout from any of them
+ * @param clientId The client whose sessions to list
+ * @returns Sessions ordered by plan, then active phase first, then session order
+ */
+export async function getClientLaunchableSessions(
+    clientId: string
+): Promise<LaunchableSession[]> {
+    await requireTrainerOrAdmin();
+
+    try {
+        const rows = await db
+            .select({
+                planId: ExercisePlans.planId,
+                planName: ExercisePlans.planName,
+                phaseId: Phases.phaseId,
+                phaseName: Phases.phaseName,
+                phaseIsActive: Phases.isActive,
+                sessionId: Sessions.sessionId,
+                sessionName: Sessions.sessionName,
+                exerciseCount: sql<number>`count(${ExercisePlanExercises.planExerciseId})::int`,
+            })
+            .from(ExercisePlans)
+            .innerJoin(Phases, eq(Phases.planId, ExercisePlans.planId))
+            .innerJoin(Sessions, eq(Sessions.phaseId, Phases.phaseId))
+            .leftJoin(
+                ExercisePlanExercises,
+                eq(ExercisePlanExercises.sessionId, Sessions.sessionId)
+            )
+            .where(
+                and(
+                    eq(ExercisePlans.assignedToUserId, clientId),
+                    eq(ExercisePlans.isTemplate, false),
+                    eq(ExercisePlans.isActive, true)
+                )
+            )
+            .groupBy(
+                ExercisePlans.planId,
+                Phases.phaseId,
+                Sessions.sessionId
+            )
+            .orderBy(
+                desc(ExercisePlans.updatedAt),
+                desc(Phases.isActive),
+                asc(Phases.orderNumber),
+                asc(Sessions.orderNumber)
+            );
+
+        return rows.map((row) => ({
+            ...row,
+            phaseIsActive: row.phaseIsActive ?? false,
+        }));
+    } catch (error) {
+        console.error("Error fetching launchable sessions:", error);
+        throw new Error("Failed to fetch sessions");
+    }
+}
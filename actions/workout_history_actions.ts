@@ -191,6 +191,11 @@ export async function fetchWorkoutDetailsBySession(
             coachNote: WorkoutSessionDetails.coachNote,
             setOrderMarker: WorkoutSessionDetails.setOrderMarker,
             entryTime: WorkoutSessionDetails.entryTime,
+            restSeconds: WorkoutSessionDetails.restSeconds,
+            setType: WorkoutSessionDetails.setType,
+            rpe: WorkoutSessionDetails.rpe,
+            rir: WorkoutSessionDetails.rir,
+            tempoAdhered: WorkoutSessionDetails.tempoAdhered,
         })
         .from(WorkoutSessionDetails)
         .where(eq(WorkoutSessionDetails.workoutSessionLogId, sessionLogId))
@@ -206,6 +211,11 @@ export async function fetchWorkoutDetailsBySession(
         notes: row.coachNote ?? "",
         setOrderMarker: row.setOrderMarker ?? "",
         entryTime: row.entryTime ? row.entryTime.toISOString() : null,
+        restSeconds: row.restSeconds,
+        setType: row.setType,
+        rpe: row.rpe,
+        rir: row.rir,
+        tempoAdhered: row.tempoAdhered,
     }));
 
     // Group by exercise name
@@ -12,12 +12,20 @@ import { eq, inArray } from "drizzle-orm";
 import "server-only";
 import { v4 as uuidv4 } from "uuid";
 import {
+    ExerciseGroupType,
     Phase,
     WorkoutPlanActionResponse,
     WorkoutPlanChanges,
 } from "@/components/workout-planning/types";
 import { revalidatePath } from "next/cache";
 import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import {
+    findPlanSnapshotAt,
+    loadPlanSnapshot,
+    recordPlanVersion,
+} from "@/lib/database/plan-version-service";
+import { mergeWorkoutPlans } from "@/components/workout-planning/workout-utils/plan-merge";
+import { deriveTut } from "@/components/workout-planning/workout-utils/tempo";
 import {
     convertOrderToNumber,
     diffExercises,
@@ -36,7 +44,9 @@ interface SessionData {
 }
 
 /**
- * Updates a workout plan with optimistic concurrency control
+ * Updates a workout plan with optimistic concurrency control.
+ * A stale save is three-way merged with the server's plan; it only fails
+ * with a conflict list when both sides changed the same field.
  * @param planId The ID of the plan to update
  * @param lastKnownUpdatedAt The last known updatedAt timestamp from the client
  * @param planData The updated plan data
@@ -49,6 +59,7 @@ export async function updateWorkoutPlan(
         phases: Phase[];
         clientId?: string;
         trainerId?: string;
+        versionNote?: string; // Recorded on the version snapshot (e.g. restores)
     }
 ): Promise<WorkoutPlanActionResponse> {
     const currentTrainer = await requireTrainerOrAdmin();
@@ -95,20 +106,55 @@ export async function updateWorkoutPlan(
         }
 
         const currentUpdatedAt = currentPlan[0].updatedAt;
+        let phases = planData.phases;
+        let merged = false;
 
         // Check for conflicts - compare timestamps
         // Note: Convert to ISO strings for comparison to avoid timezone issues
         if (
             currentUpdatedAt.toISOString() !== lastKnownUpdatedAt.toISOString()
         ) {
-            return {
-                success: false,
-                error: "Plan has been modified since last fetch",
-                conflict: true,
-                serverUpdatedAt: currentUpdatedAt,
-                planId: planId,
-                updatedAt: currentUpdatedAt,
-            };
+            // Three-way merge against the version the client last loaded
+            const baseSnapshot = await findPlanSnapshotAt(
+                db,
+                planId,
+                lastKnownUpdatedAt
+            );
+
+            if (!baseSnapshot) {
+                return {
+                    success: false,
+                    error: "Plan has been modified since last fetch",
+                    conflict: true,
+                    serverUpdatedAt: currentUpdatedAt,
+                    planId: planId,
+                    updatedAt: currentUpdatedAt,
+                };
+            }
+
+            const theirs = await loadPlanSnapshot(db, planId);
+            const result = mergeWorkoutPlans(
+                baseSnapshot,
+                planData.phases,
+                theirs
+            );
+
+            if (result.conflicts.length > 0) {
+                return {
+                    success: false,
+                    error: "Plan has conflicting changes",
+                    conflict: true,
+                    conflicts: result.conflicts,
+                    mergedPhases: result.phases,
+                    serverUpdatedAt: currentUpdatedAt,
+                    planId: planId,
+                    updatedAt: currentUpdatedAt,
+                };
+            }
+
+            // Non-overlapping edits: save the merged plan against the current state
+            phases = result.phases;
+            merged = true;
         }
 
         // --- OPTIMIZATION: Fetch all existing data in one go ---
@@ -159,6 +205,9 @@ export async function updateWorkoutPlan(
                         notes: ExercisePlanExercises.notes,
                         motion: ExercisePlanExercises.motion,
                         targetArea: ExercisePlanExercises.targetArea,
+                        groupType: ExercisePlanExercises.groupType,
+                        groupRounds: ExercisePlanExercises.groupRounds,
+                        groupRest: ExercisePlanExercises.groupRest,
                     })
                     .from(ExercisePlanExercises)
                     .innerJoin(
@@ -224,6 +273,9 @@ export async function updateWorkoutPlan(
             targetArea: e.targetArea ?? "",
             customizations: e.customization ?? "",
             notes: e.notes ?? "",
+            groupType: (e.groupType ?? "") as ExerciseGroupType | "",
+            groupRounds: e.groupRounds?.toString() ?? "",
+            groupRest: e.groupRest?.toString() ?? "",
             description: "",
             additionalInfo: "",
             duration: 0,
@@ -236,14 +288,14 @@ export async function updateWorkoutPlan(
         // const feExercises = planData.phases.flatMap((p) =>
         //     p.sessions.flatMap((s) => s.exercises)
         // );
-        const feSessions = planData.phases.flatMap((phase) =>
+        const feSessions = phases.flatMap((phase) =>
             phase.sessions.map((session) => ({
                 ...session,
                 phaseId: phase.id, // Include phaseId in each session
             }))
         );
 
-        const feExercises = planData.phases.flatMap((phase) =>
+        const feExercises = phases.flatMap((phase) =>
             phase.sessions.flatMap((session) =>
                 session.exercises.map((exercise) => ({
                     ...exercise,
@@ -257,7 +309,7 @@ export async function updateWorkoutPlan(
             added: phasesToAdd,
             updated: phasesToUpdate,
             deleted: phasesToDelete,
-        } = diffPhases(dbPhases, planData.phases);
+        } = diffPhases(dbPhases, phases);
 
         const {
             added: sessionsToAdd,
@@ -396,7 +448,7 @@ export async function updateWorkoutPlan(
 
         // console.log("\n===== END OF CHANGES =====\n");
 
-        planData.phases.forEach((phase) => {
+        phases.forEach((phase) => {
             console.log(phase.name, phase.orderNumber);
             phase.sessions.forEach((session) => {
                 console.log("\t", session.name, session.orderNumber);
@@ -555,6 +607,19 @@ export async function updateWorkoutPlan(
                         ...(exercise.changes.notes !== undefined && {
                             notes: exercise.changes.notes,
                         }),
+                        ...(exercise.changes.groupType !== undefined && {
+                            groupType: exercise.changes.groupType || null,
+                        }),
+                        ...(exercise.changes.groupRounds !== undefined && {
+                            groupRounds: exercise.changes.groupRounds
+                                ? Number(exercise.changes.groupRounds)
+                                : null,
+                        }),
+                        ...(exercise.changes.groupRest !== undefined && {
+                            groupRest: exercise.changes.groupRest
+                                ? Number(exercise.changes.groupRest)
+                                : null,
+                        }),
                     };
                     // Only update if there is at least one field to set
                     if (Object.keys(updateObj).length > 0) {
@@ -708,12 +773,7 @@ export async function updateWorkoutPlan(
                                     ? Number(exercise.setsMax)
                                     : null,
                             tempo: exercise.tempo ?? null,
-                            tut:
-                                exercise.tut !== undefined &&
-                                exercise.tut !== null &&
-                                exercise.tut !== ""
-                                    ? Number(exercise.tut)
-                                    : null,
+                            tut: deriveTut(exercise),
                             restMin:
                                 exercise.restMin !== undefined &&
                                 exercise.restMin !== null &&
@@ -735,6 +795,13 @@ export async function updateWorkoutPlan(
                                 exercise.customizations ??
                                 null,
                             notes: exercise.notes ?? "",
+                            groupType: exercise.groupType || null,
+                            groupRounds: exercise.groupRounds
+                                ? Number(exercise.groupRounds)
+                                : null,
+                            groupRest: exercise.groupRest
+                                ? Number(exercise.groupRest)
+                                : null,
                         };
                     })
                     .filter((e) => e !== null);
@@ -758,6 +825,38 @@ export async function updateWorkoutPlan(
                 .set({ updatedAt: now })
                 .where(eq(ExercisePlans.planId, planId));
 
+            await recordPlanVersion(
+                tx,
+                planId,
+                {
+                    created: {
+                        phases: phasesToAdd,
+                        sessions: sessionsToAdd.map((session) => ({
+                            phaseId: session.phaseId ?? "",
+                            session,
+                        })),
+                        exercises: exercisesToAdd.map((exercise) => ({
+                            sessionId: exercise.sessionId ?? "",
+                            exercise,
+                        })),
+                    },
+                    updated: {
+                        phases: phasesToUpdate,
+                        sessions: sessionsToUpdate,
+                        exercises: exercisesToUpdate,
+                    },
+                    deleted: {
+                        phases: phasesToDelete,
+                        sessions: sessionsToDelete,
+                        exercises: exercisesToDelete,
+                    },
+                },
+                {
+                    userId: currentTrainer.userId,
+                    note: planData.versionNote,
+                }
+            );
+
             return {
                 success: true,
                 planId: planId,
@@ -765,6 +864,8 @@ export async function updateWorkoutPlan(
                 conflict: false,
                 error: undefined,
                 serverUpdatedAt: now,
+                merged,
+                mergedPhases: merged ? phases : undefined,
             };
         });
     } catch (error) {
@@ -836,6 +937,9 @@ export async function createWorkoutPlan(
             setOrderMarker: string;
             customizations: string | null;
             notes: string;
+            groupType: string | null;
+            groupRounds: number | null;
+            groupRest: number | null;
         }[] = [];
 
         // Collect all unique exercise descriptions for batch lookup
@@ -930,12 +1034,7 @@ export async function createWorkoutPlan(
                                     ? Number(exercise.setsMax)
                                     : null,
                             tempo: exercise.tempo ?? null,
-                            tut:
-                                exercise.tut !== undefined &&
-                                exercise.tut !== null &&
-                                exercise.tut !== ""
-                                    ? Number(exercise.tut)
-                                    : null,
+                            tut: deriveTut(exercise),
                             restMin:
                                 exercise.restMin !== undefined &&
                                 exercise.restMin !== null &&
@@ -955,6 +1054,13 @@ export async function createWorkoutPlan(
                                 exercise.customizations ??
                                 null,
                             notes: exercise.notes ?? "",
+                            groupType: exercise.groupType || null,
+                            groupRounds: exercise.groupRounds
+                                ? Number(exercise.groupRounds)
+                                : null,
+                            groupRest: exercise.groupRest
+                                ? Number(exercise.groupRest)
+                                : null,
                         });
                     }
                 }
@@ -1041,6 +1147,11 @@ export async function createWorkoutPlan(
                 }
             }
 
+            await recordPlanVersion(tx, planId, null, {
+                userId: trainerId,
+                note: "Plan created",
+            });
+
             return {
                 success: true,
                 planId: planId,
@@ -1076,6 +1187,8 @@ export async function applyWorkoutPlanChanges(
     lastKnownUpdatedAt: Date,
     changes: WorkoutPlanChanges
 ): Promise<WorkoutPlanActionResponse> {
+    const currentTrainer = await requireTrainerOrAdmin();
+
     // Skip processing if there are no actual changes - fast path return
     const hasNoChanges =
         changes.created.phases.length === 0 &&
@@ -1232,6 +1345,9 @@ export async function applyWorkoutPlanChanges(
                     restMax: number | null;
                     customizations: string | null;
                     notes: string;
+                    groupType: string | null;
+                    groupRounds: number | null;
+                    groupRest: number | null;
                     id: string;
                 }> = { id: exerciseUpdate.id };
 
@@ -1266,6 +1382,19 @@ export async function applyWorkoutPlanChanges(
                 if (exerciseUpdate.changes.notes !== undefined)
                     updateFields.notes = exerciseUpdate.changes.notes;
 
+                if (exerciseUpdate.changes.groupType !== undefined)
+                    updateFields.groupType =
+                        exerciseUpdate.changes.groupType || null;
+                if (exerciseUpdate.changes.groupRounds !== undefined)
+                    updateFields.groupRounds = exerciseUpdate.changes
+                        .groupRounds
+                        ? Number(exerciseUpdate.changes.groupRounds)
+                        : null;
+                if (exerciseUpdate.changes.groupRest !== undefined)
+                    updateFields.groupRest = exerciseUpdate.changes.groupRest
+                        ? Number(exerciseUpdate.changes.groupRest)
+                        : null;
+
                 return updateFields;
             })
             .filter((update) => Object.keys(update).length > 1); // Filter out updates with only ID
@@ -1520,12 +1649,7 @@ export async function applyWorkoutPlanChanges(
                                     ? Number(exercise.setsMax)
                                     : null,
                             tempo: exercise.tempo ?? null,
-                            tut:
-                                exercise.tut !== undefined &&
-                                exercise.tut !== null &&
-                                exercise.tut !== ""
-                                    ? Number(exercise.tut)
-                                    : null,
+                            tut: deriveTut(exercise),
                             restMin:
                                 exercise.restMin !== undefined &&
                                 exercise.restMin !== null &&
@@ -1545,6 +1669,13 @@ export async function applyWorkoutPlanChanges(
                                 exercise.customizations ??
                                 null,
                             notes: exercise.notes ?? "",
+                            groupType: exercise.groupType || null,
+                            groupRounds: exercise.groupRounds
+                                ? Number(exercise.groupRounds)
+                                : null,
+                            groupRest: exercise.groupRest
+                                ? Number(exercise.groupRest)
+                                : null,
                         };
                     });
 
@@ -1583,6 +1714,10 @@ export async function applyWorkoutPlanChanges(
                 .where(eq(ExercisePlans.planId, planId));
             console.log("Plan timestamp updated successfully");
 
+            await recordPlanVersion(tx, planId, changes, {
+                userId: currentTrainer.userId,
+            });
+
             // Get the client ID associated with this plan for cache revalidation
             const planDetails = await tx
                 .select({ assignedToUserId: ExercisePlans.assignedToUserId })
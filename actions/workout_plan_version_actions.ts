@@ -0,0 +1,176 @@
+"use server";
+
+import { db } from "@/db/xata";
+import { ExercisePlans, Users, WorkoutPlanVersions } from "@/db/schemas";
+import { and, desc, eq } from "drizzle-orm";
+import "server-only";
+import {
+    Phase,
+    WorkoutPlanActionResponse,
+    WorkoutPlanChanges,
+    WorkoutPlanVersionSummary,
+} from "@/components/workout-planning/types";
+import { revalidatePath } from "next/cache";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import { updateWorkoutPlan } from "./workout_plan_actions";
+
+const countChanges = (changes: WorkoutPlanChanges) =>
+    changes.created.phases.length +
+    changes.created.sessions.length +
+    changes.created.exercises.length +
+    changes.updated.phases.length +
+    changes.updated.sessions.length +
+    changes.updated.exercises.length +
+    changes.deleted.phases.length +
+    changes.deleted.sessions.length +
+    changes.deleted.exercises.length;
+
+/**
+ * Lists every saved version of a plan, newest first
+ * @param planId The plan whose history to fetch
+ * @returns Version summaries (snapshots are fetched separately)
+ */
+export async function getWorkoutPlanVersions(
+    planId: string
+): Promise<WorkoutPlanVersionSummary[]> {
+    await requireTrainerOrAdmin();
+
+    try {
+        const rows = await db
+            .select({
+                versionId: WorkoutPlanVersions.versionId,
+                versionNumber: WorkoutPlanVersions.versionNumber,
+                note: WorkoutPlanVersions.note,
+                createdAt: WorkoutPlanVersions.createdAt,
+                createdByName: Users.fullName,
+                changes: WorkoutPlanVersions.changes,
+            })
+            .from(WorkoutPlanVersions)
+            .leftJoin(
+                Users,
+                eq(Users.userId, WorkoutPlanVersions.createdByUserId)
+            )
+            .where(eq(WorkoutPlanVersions.planId, planId))
+            .orderBy(desc(WorkoutPlanVersions.versionNumber));
+
+        return rows.map(({ changes, ...row }) => ({
+            ...row,
+            changeCount: changes
+                ? countChanges(changes as WorkoutPlanChanges)
+                : null,
+        }));
+    } catch (error) {
+        console.error("Error fetching workout plan versions:", error);
+        throw new Error("Failed to fetch workout plan versions");
+    }
+}
+
+/**
+ * Fetches the full snapshot stored for a single version
+ * @param planId The plan the version belongs to
+ * @param versionId The version to fetch
+ * @returns The version number and its Phase[] snapshot, or null if not found
+ */
+export async function getWorkoutPlanVersionSnapshot(
+    planId: string,
+    versionId: string
+): Promise<{ versionNumber: number; phases: Phase[] } | null> {
+    await requireTrainerOrAdmin();
+
+    try {
+        const rows = await db
+            .select({
+                versionNumber: WorkoutPlanVersions.versionNumber,
+                snapshot: WorkoutPlanVersions.snapshot,
+            })
+            .from(WorkoutPlanVersions)
+            .where(
+                and(
+                    eq(WorkoutPlanVersions.planId, planId),
+                    eq(WorkoutPlanVersions.versionId, versionId)
+                )
+            )
+            .limit(1);
+
+        if (!rows.length) return null;
+
+        return {
+            versionNumber: rows[0].versionNumber,
+            phases: rows[0].snapshot as Phase[],
+        };
+    } catch (error) {
+        console.error("Error fetching workout plan version:", error);
+        throw new Error("Failed to fetch workout plan version");
+    }
+}
+
+/**
+ * Restores an old version by writing its snapshot back as a new version.
+ * History is never rewritten; the restore itself becomes the latest version.
+ * @param planId The plan to restore
+ * @param versionId The version whose snapshot should become current
+ * @returns Standard workout plan action response
+ */
+export async function restoreWorkoutPlanVersion(
+    planId: string,
+    versionId: string
+): Promise<WorkoutPlanActionResponse> {
+    await requireTrainerOrAdmin();
+
+    try {
+        const version = await getWorkoutPlanVersionSnapshot(planId, versionId);
+
+        if (!version) {
+            return {
+                success: false,
+                error: "Version not found",
+                conflict: false,
+                planId: "",
+                updatedAt: new Date(),
+                serverUpdatedAt: new Date(),
+            };
+        }
+
+        const plan = await db
+            .select({
+                updatedAt: ExercisePlans.updatedAt,
+                assignedToUserId: ExercisePlans.assignedToUserId,
+            })
+            .from(ExercisePlans)
+            .where(eq(ExercisePlans.planId, planId))
+            .limit(1);
+
+        if (!plan.length) {
+            return {
+                success: false,
+                error: "Plan not found",
+                conflict: false,
+                planId: "",
+                updatedAt: new Date(),
+                serverUpdatedAt: new Date(),
+            };
+        }
+
+        const result = await updateWorkoutPlan(planId, plan[0].updatedAt, {
+            phases: version.phases,
+            clientId: plan[0].assignedToUserId ?? undefined,
+            versionNote: `Restored from version ${version.versionNumber}`,
+        });
+
+        if (result.success && plan[0].assignedToUserId) {
+            revalidatePath(`/clients/${plan[0].assignedToUserId}`, "layout");
+        }
+
+        return result;
+    } catch (error) {
+        console.error("Error restoring workout plan version:", error);
+        return {
+            success: false,
+            error: "Failed to restore workout plan version",
+            conflict: false,
+            planId: "",
+            updatedAt: new Date(),
+            serverUpdatedAt: new Date(),
+        };
+    }
+}
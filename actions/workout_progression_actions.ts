@@ -0,0 +1,221 @@
+"use server";
+
+import { db } from "@/db/xata";
+import {
+    ExerciseAliases,
+    Exercises,
+    TrainerProgressionRules,
+    WorkoutSessionDetails,
+    WorkoutSessionsLog,
+} from "@/db/schemas";
+import { and, desc, eq, gt, inArray, sql } from "drizzle-orm";
+import "server-only";
+import {
+    Exercise,
+    ExercisePerformance,
+    Phase,
+    PhaseProgressionPreview,
+    ProgressionRule,
+} from "@/components/workout-planning/types";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import {
+    DEFAULT_PROGRESSION_RULES,
+    progressPhase,
+} from "@/components/workout-planning/workout-utils/progression-engine";
+
+// Enough history to cover the last few sessions of a typical phase
+const PERFORMANCE_ROW_LIMIT = 1000;
+
+/**
+ * Fetches the current trainer's progression rules, falling back to the defaults
+ * @returns The trainer's saved rules, or DEFAULT_PROGRESSION_RULES
+ */
+export async function getProgressionRules(): Promise<ProgressionRule[]> {
+    const currentUser = await requireTrainerOrAdmin();
+
+    try {
+        const rows = await db
+            .select({ rules: TrainerProgressionRules.rules })
+            .from(TrainerProgressionRules)
+            .where(eq(TrainerProgressionRules.trainerId, currentUser.userId))
+            .limit(1);
+
+        return rows.length
+            ? (rows[0].rules as ProgressionRule[])
+            : DEFAULT_PROGRESSION_RULES;
+    } catch (error) {
+        console.error("Error fetching progression rules:", error);
+        throw new Error("Failed to fetch progression rules");
+    }
+}
+
+/**
+ * Saves the current trainer's progression rules
+ * @param rules The full rule list, in the order they should be applied
+ * @returns Success status and error message if applicable
+ */
+export async function saveProgressionRules(
+    rules: ProgressionRule[]
+): Promise<{ success: boolean; error?: string }> {
+    const currentUser = await requireTrainerOrAdmin();
+
+    try {
+        const now = new Date();
+        await db
+            .insert(TrainerProgressionRules)
+            .values({ trainerId: currentUser.userId, rules, updatedAt: now })
+            .onConflictDoUpdate({
+                target: TrainerProgressionRules.trainerId,
+                set: { rules, updatedAt: now },
+            });
+
+        return { success: true };
+    } catch (error) {
+        console.error("Error saving progression rules:", error);
+        return { success: false, error: "Failed to save progression rules" };
+    }
+}
+
+/**
+ * Finds the heaviest set of the most recent workout in which the client
+ * logged each exercise, under its name or any of its aliases
+ * @param clientId The client whose logs to read
+ * @param exercises Planned exercises; names are matched case-insensitively
+ * @returns Performance keyed by lower-cased exercise name
+ */
+async function getLastPerformance(
+    clientId: string,
+    exercises: Pick<Exercise, "exerciseId" | "description">[]
+): Promise<Record<string, ExercisePerformance>> {
+    const exerciseIds = Array.from(
+        new Set(exercises.map((exercise) => exercise.exerciseId))
+    ).filter(Boolean);
+    const aliasRows =
+        exerciseIds.length > 0
+            ? await db
+                  .select({
+                      exerciseId: ExerciseAliases.exerciseId,
+                      alias: ExerciseAliases.alias,
+                  })
+                  .from(ExerciseAliases)
+                  .where(inArray(ExerciseAliases.exerciseId, exerciseIds))
+            : [];
+
+    // Logged name -> the planned name performance is reported under
+    const keyByLoggedName = new Map<string, string>();
+    for (const exercise of exercises) {
+        const key = exercise.description?.trim().toLowerCase();
+        if (!key) continue;
+        keyByLoggedName.set(key, key);
+        aliasRows
+            .filter((row) => row.exerciseId === exercise.exerciseId)
+            .forEach((row) => {
+                const alias = row.alias.trim().toLowerCase();
+                if (!keyByLoggedName.has(alias)) {
+                    keyByLoggedName.set(alias, key);
+                }
+            });
+    }
+    const names = Array.from(keyByLoggedName.keys());
+    if (names.length === 0) return {};
+
+    const rows = await db
+        .select({
+            workoutSessionLogId: WorkoutSessionDetails.workoutSessionLogId,
+            exerciseName: WorkoutSessionDetails.exerciseName,
+            weight: WorkoutSessionDetails.weight,
+            reps: WorkoutSessionDetails.reps,
+            startTime: WorkoutSessionsLog.startTime,
+        })
+        .from(WorkoutSessionDetails)
+        .innerJoin(
+            WorkoutSessionsLog,
+            eq(
+                WorkoutSessionsLog.workoutSessionLogId,
+                WorkoutSessionDetails.workoutSessionLogId
+            )
+        )
+        .where(
+            and(
+                eq(WorkoutSessionsLog.userId, clientId),
+                inArray(
+                    sql`lower(trim(${WorkoutSessionDetails.exerciseName}))`,
+                    names
+                ),
+                gt(WorkoutSessionDetails.weight, 0)
+            )
+        )
+        .orderBy(desc(WorkoutSessionsLog.startTime))
+        .limit(PERFORMANCE_ROW_LIMIT);
+
+    const latestLogByName = new Map<string, string>();
+    const performance: Record<string, ExercisePerformance> = {};
+
+    for (const row of rows) {
+        const name = keyByLoggedName.get(row.exerciseName.trim().toLowerCase());
+        if (!name) continue;
+        const latestLogId = latestLogByName.get(name) ?? row.workoutSessionLogId;
+        latestLogByName.set(name, latestLogId);
+        if (row.workoutSessionLogId !== latestLogId) continue;
+
+        const weight = row.weight ?? 0;
+        const current = performance[name];
+        if (!current || weight > current.weight) {
+            performance[name] = {
+                weight,
+                reps: row.reps ?? 0,
+                performedAt: row.startTime,
+            };
+        }
+    }
+
+    return performance;
+}
+
+/**
+ * Previews the next phase produced by applying progression rules to a phase.
+ * Nothing is saved; the planner adds and queues the returned phase on confirm.
+ * @param clientId The client the plan belongs to (used for logged loads)
+ * @param phase The phase to progress from, as currently shown in the planner
+ * @param rules Rules to apply (may be unsaved edits of the trainer's rules)
+ * @returns The new phase and a list of every field change
+ */
+export async function previewPhaseProgression(
+    clientId: string,
+    phase: Phase,
+    rules: ProgressionRule[]
+): Promise<PhaseProgressionPreview> {
+    await requireTrainerOrAdmin();
+
+    try {
+        const exercises = phase.sessions.flatMap((session) => session.exercises);
+        const exerciseIds = Array.from(
+            new Set(exercises.map((exercise) => exercise.exerciseId))
+        ).filter(Boolean);
+
+        const [movementRows, performance] = await Promise.all([
+            exerciseIds.length > 0
+                ? db
+                      .select({
+                          exerciseId: Exercises.exerciseId,
+                          movementType: Exercises.movementType,
+                      })
+                      .from(Exercises)
+                      .where(inArray(Exercises.exerciseId, exerciseIds))
+                : Promise.resolve([]),
+            rules.some((rule) => rule.enabled && rule.type === "loadTarget")
+                ? getLastPerformance(clientId, exercises)
+                : Promise.resolve({}),
+        ]);
+
+        return progressPhase(phase, rules, {
+            movementTypes: Object.fromEntries(
+                movementRows.map((row) => [row.exerciseId, row.movementType])
+            ),
+            performance,
+        });
+    } catch (error) {
+        console.error("Error previewing phase progression:", error);
+        throw new Error("Failed to preview phase progression");
+    }
+}
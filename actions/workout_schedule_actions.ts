@@ -0,0 +1,454 @@
+"use server";
+
+import { db } from "@/db/xata";
+import {
+    ExercisePlans,
+    Phases,
+    PhaseSchedules,
+    ScheduledSessions,
+    Sessions,
+    SessionWeekdays,
+    WorkoutSessionsLog,
+} from "@/db/schemas";
+import {
+    and,
+    asc,
+    between,
+    desc,
+    eq,
+    gte,
+    inArray,
+    lt,
+    or,
+} from "drizzle-orm";
+import "server-only";
+import { addDays, parseISO } from "date-fns";
+import {
+    ClientCalendar,
+    PhaseScheduleSettings,
+} from "@/types/workout-schedule-types";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import {
+    buildClientCalendar,
+    toDateKey,
+} from "@/components/workout-calendar/schedule-utils";
+
+interface ScheduleActionResponse {
+    success: boolean;
+    error?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDateKey = (value: string) =>
+    DATE_PATTERN.test(value) && !isNaN(parseISO(value).getTime());
+
+/**
+ * Loads the weekly schedule of every phase in the client's active plans
+ */
+async function loadPhaseSchedules(
+    clientId: string
+): Promise<PhaseScheduleSettings[]> {
+    const rows = await db
+        .select({
+            planId: ExercisePlans.planId,
+            planName: ExercisePlans.planName,
+            phaseId: Phases.phaseId,
+            phaseName: Phases.phaseName,
+            phaseIsActive: Phases.isActive,
+            startDate: PhaseSchedules.startDate,
+            endDate: PhaseSchedules.endDate,
+            sessionId: Sessions.sessionId,
+            sessionName: Sessions.sessionName,
+            sessionTime: Sessions.sessionTime,
+            weekdays: SessionWeekdays.weekdays,
+        })
+        .from(ExercisePlans)
+        .innerJoin(Phases, eq(Phases.planId, ExercisePlans.planId))
+        .innerJoin(Sessions, eq(Sessions.phaseId, Phases.phaseId))
+        .leftJoin(PhaseSchedules, eq(PhaseSchedules.phaseId, Phases.phaseId))
+        .leftJoin(
+            SessionWeekdays,
+            eq(SessionWeekdays.sessionId, Sessions.sessionId)
+        )
+        .where(
+            and(
+                eq(ExercisePlans.assignedToUserId, clientId),
+                eq(ExercisePlans.isTemplate, false),
+                eq(ExercisePlans.isActive, true)
+            )
+        )
+        .orderBy(
+            desc(ExercisePlans.updatedAt),
+            asc(Phases.orderNumber),
+            asc(Sessions.orderNumber)
+        );
+
+    const phases = new Map<string, PhaseScheduleSettings>();
+    for (const row of rows) {
+        let phase = phases.get(row.phaseId);
+        if (!phase) {
+            phase = {
+                planId: row.planId,
+                planName: row.planName,
+                phaseId: row.phaseId,
+                phaseName: row.phaseName,
+                phaseIsActive: row.phaseIsActive ?? false,
+                startDate: row.startDate,
+                endDate: row.endDate,
+                sessions: [],
+            };
+            phases.set(row.phaseId, phase);
+        }
+        phase.sessions.push({
+            sessionId: row.sessionId,
+            sessionName: row.sessionName,
+            sessionTime: row.sessionTime,
+            weekdays: row.weekdays ?? [],
+        });
+    }
+
+    return Array.from(phases.values());
+}
+
+/**
+ * Lists every phase of the client's active plans with its weekly schedule
+ * @param clientId The client whose phases to list
+ * @returns Phases with their sessions; unscheduled phases have a null startDate
+ */
+export async function getPhaseSchedules(
+    clientId: string
+): Promise<PhaseScheduleSettings[]> {
+    await requireTrainerOrAdmin();
+
+    try {
+        return await loadPhaseSchedules(clientId);
+    } catch (error) {
+        console.error("Error fetching phase schedules:", error);
+        throw new Error("Failed to fetch phase schedules");
+    }
+}
+
+/**
+ * Builds a client's calendar of planned vs. completed sessions
+ * @param clientId The client whose calendar to build
+ * @param from First day to include (yyyy-MM-dd)
+ * @param to Last day to include (yyyy-MM-dd)
+ * @returns Calendar entries and adherence for each week in the range
+ */
+export async function getClientCalendar(
+    clientId: string,
+    from: string,
+    to: string
+): Promise<ClientCalendar> {
+    await requireTrainerOrAdmin();
+
+    if (!isDateKey(from) || !isDateKey(to) || from > to) {
+        throw new Error("Invalid calendar range");
+    }
+
+    try {
+        const [phases, overrides, logs] = await Promise.all([
+            loadPhaseSchedules(clientId),
+            db
+                .select({
+                    scheduledSessionId: ScheduledSessions.scheduledSessionId,
+                    sessionId: ScheduledSessions.sessionId,
+                    sessionName: Sessions.sessionName,
+                    phaseId: Phases.phaseId,
+                    phaseName: Phases.phaseName,
+                    scheduledDate: ScheduledSessions.scheduledDate,
+                    replacesDate: ScheduledSessions.replacesDate,
+                })
+                .from(ScheduledSessions)
+                .innerJoin(
+                    Sessions,
+                    eq(Sessions.sessionId, ScheduledSessions.sessionId)
+                )
+                .innerJoin(Phases, eq(Phases.phaseId, Sessions.phaseId))
+                .innerJoin(
+                    ExercisePlans,
+                    eq(ExercisePlans.planId, Phases.planId)
+                )
+                .where(
+                    and(
+                        eq(ExercisePlans.assignedToUserId, clientId),
+                        eq(ExercisePlans.isActive, true),
+                        or(
+                            between(ScheduledSessions.scheduledDate, from, to),
+                            between(ScheduledSessions.replacesDate, from, to)
+                        )
+                    )
+                ),
+            db
+                .select({
+                    workoutSessionLogId: WorkoutSessionsLog.workoutSessionLogId,
+                    sessionId: WorkoutSessionsLog.sessionId,
+                    sessionName: WorkoutSessionsLog.sessionName,
+                    startTime: WorkoutSessionsLog.startTime,
+                })
+                .from(WorkoutSessionsLog)
+                .where(
+                    and(
+                        eq(WorkoutSessionsLog.userId, clientId),
+                        gte(WorkoutSessionsLog.startTime, parseISO(from)),
+                        lt(
+                            WorkoutSessionsLog.startTime,
+                            addDays(parseISO(to), 1)
+                        )
+                    )
+                ),
+        ]);
+
+        return buildClientCalendar({
+            from,
+            to,
+            today: toDateKey(new Date()),
+            phases,
+            overrides,
+            logs: logs.map((log) => ({
+                workoutSessionLogId: log.workoutSessionLogId,
+                sessionId: log.sessionId,
+                sessionName: log.sessionName,
+                date: toDateKey(log.startTime),
+            })),
+        });
+    } catch (error) {
+        console.error("Error building client calendar:", error);
+        throw new Error("Failed to load calendar");
+    }
+}
+
+/**
+ * Sets the recurring weekly pattern of a phase
+ * @param phaseId The phase to schedule
+ * @param schedule Date range and the weekdays each session falls on
+ * @returns Success status and error message if applicable
+ */
+export async function savePhaseSchedule(
+    phaseId: string,
+    schedule: {
+        startDate: string;
+        endDate: string | null;
+        weekdays: Record<string, number[]>; // By sessionId
+    }
+): Promise<ScheduleActionResponse> {
+    await requireTrainerOrAdmin();
+
+    const { startDate, endDate } = schedule;
+    if (!isDateKey(startDate) || (endDate && !isDateKey(endDate))) {
+        return { success: false, error: "Invalid schedule dates" };
+    }
+    if (endDate && endDate < startDate) {
+        return { success: false, error: "End date must be after start date" };
+    }
+
+    try {
+        const sessions = await db
+            .select({ sessionId: Sessions.sessionId })
+            .from(Sessions)
+            .where(eq(Sessions.phaseId, phaseId));
+        const sessionIds = sessions.map((session) => session.sessionId);
+
+        await db.transaction(async (tx) => {
+            const now = new Date();
+            await tx
+                .insert(PhaseSchedules)
+                .values({ phaseId, startDate, endDate, updatedAt: now })
+                .onConflictDoUpdate({
+                    target: PhaseSchedules.phaseId,
+                    set: { startDate, endDate, updatedAt: now },
+                });
+
+            if (sessionIds.length === 0) return;
+
+            await tx
+                .delete(SessionWeekdays)
+                .where(inArray(SessionWeekdays.sessionId, sessionIds));
+
+            const patterns = sessionIds
+                .map((sessionId) => ({
+                    sessionId,
+                    weekdays: Array.from(
+                        new Set(schedule.weekdays[sessionId] ?? [])
+                    )
+                        .filter((day) => day >= 0 && day <= 6)
+                        .sort(),
+                }))
+                .filter((pattern) => pattern.weekdays.length > 0);
+
+            if (patterns.length > 0) {
+                await tx.insert(SessionWeekdays).values(patterns);
+            }
+        });
+
+        return { success: true };
+    } catch (error) {
+        console.error("Error saving phase schedule:", error);
+        return { success: false, error: "Failed to save phase schedule" };
+    }
+}
+
+/**
+ * Removes a phase's recurring schedule. Explicitly dated sessions are kept.
+ * @param phaseId The phase to unschedule
+ * @returns Success status and error message if applicable
+ */
+export async function clearPhaseSchedule(
+    phaseId: string
+): Promise<ScheduleActionResponse> {
+    await requireTrainerOrAdmin();
+
+    try {
+        await db.transaction(async (tx) => {
+            const sessions = await tx
+                .select({ sessionId: Sessions.sessionId })
+                .from(Sessions)
+                .where(eq(Sessions.phaseId, phaseId));
+
+            if (sessions.length > 0) {
+                await tx.delete(SessionWeekdays).where(
+                    inArray(
+                        SessionWeekdays.sessionId,
+                        sessions.map((session) => session.sessionId)
+                    )
+                );
+            }
+
+            await tx
+                .delete(PhaseSchedules)
+                .where(eq(PhaseSchedules.phaseId, phaseId));
+        });
+
+        return { success: true };
+    } catch (error) {
+        console.error("Error clearing phase schedule:", error);
+        return { success: false, error: "Failed to clear phase schedule" };
+    }
+}
+
+/**
+ * Schedules a one-off session on a specific date
+ * @param sessionId The plan session to schedule
+ * @param date The date to do it on (yyyy-MM-dd)
+ * @returns Success status and error message if applicable
+ */
+export async function scheduleSessionOnDate(
+    sessionId: string,
+    date: string
+): Promise<ScheduleActionResponse> {
+    await requireTrainerOrAdmin();
+
+    if (!isDateKey(date)) {
+        return { success: false, error: "Invalid date" };
+    }
+
+    try {
+        await db
+            .insert(ScheduledSessions)
+            .values({ sessionId, scheduledDate: date });
+
+        return { success: true };
+    } catch (error) {
+        console.error("Error scheduling session:", error);
+        return { success: false, error: "Failed to schedule session" };
+    }
+}
+
+/**
+ * Moves a planned calendar entry to another date. Recurring occurrences
+ * are moved by recording an override; the weekly pattern is unchanged.
+ * @param entry The entry being moved, as returned by getClientCalendar
+ * @param toDate The new date (yyyy-MM-dd)
+ * @returns Success status and error message if applicable
+ */
+export async function rescheduleCalendarEntry(
+    entry: {
+        sessionId: string;
+        scheduledSessionId: string | null;
+        occurrenceDate: string | null;
+    },
+    toDate: string
+): Promise<ScheduleActionResponse> {
+    await requireTrainerOrAdmin();
+
+    if (!isDateKey(toDate)) {
+        return { success: false, error: "Invalid date" };
+    }
+
+    try {
+        if (entry.scheduledSessionId) {
+            await db
+                .update(ScheduledSessions)
+                .set({ scheduledDate: toDate })
+                .where(
+                    eq(
+                        ScheduledSessions.scheduledSessionId,
+                        entry.scheduledSessionId
+                    )
+                );
+        } else if (entry.occurrenceDate) {
+            await db.insert(ScheduledSessions).values({
+                sessionId: entry.sessionId,
+                scheduledDate: toDate,
+                replacesDate: entry.occurrenceDate,
+            });
+        } else {
+            return { success: false, error: "This entry can't be moved" };
+        }
+
+        return { success: true };
+    } catch (error) {
+        console.error("Error rescheduling session:", error);
+        return { success: false, error: "Failed to reschedule session" };
+    }
+}
+
+/**
+ * Removes a planned calendar entry. One-off sessions are deleted; recurring
+ * occurrences (moved or not) are kept as skipped so the pattern doesn't
+ * bring them back.
+ * @param entry The entry being removed, as returned by getClientCalendar
+ * @returns Success status and error message if applicable
+ */
+export async function removeCalendarEntry(entry: {
+    sessionId: string;
+    scheduledSessionId: string | null;
+    occurrenceDate: string | null;
+}): Promise<ScheduleActionResponse> {
+    await requireTrainerOrAdmin();
+
+    try {
+        if (entry.scheduledSessionId && !entry.occurrenceDate) {
+            await db
+                .delete(ScheduledSessions)
+                .where(
+                    eq(
+                        ScheduledSessions.scheduledSessionId,
+                        entry.scheduledSessionId
+                    )
+                );
+        } else if (entry.scheduledSessionId) {
+            await db
+                .update(ScheduledSessions)
+                .set({ scheduledDate: null })
+                .where(
+                    eq(
+                        ScheduledSessions.scheduledSessionId,
+                        entry.scheduledSessionId
+                    )
+                );
+        } else if (entry.occurrenceDate) {
+            await db.insert(ScheduledSessions).values({
+                sessionId: entry.sessionId,
+                scheduledDate: null,
+                replacesDate: entry.occurrenceDate,
+            });
+        }
+
+        return { success: true };
+    } catch (error) {
+        console.error("Error removing scheduled session:", error);
+        return { success: false, error: "Failed to remove session" };
+    }
+}
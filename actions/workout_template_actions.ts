@@ -0,0 +1,451 @@
+"use server";
+
+import { db } from "@/db/xata";
+import {
+    ExercisePlans,
+    Phases,
+    Sessions,
+    ExercisePlanExercises,
+    TrainerClients,
+    Users,
+} from "@/db/schemas";
+import { and, desc, eq, ilike, or, sql } from "drizzle-orm";
+import "server-only";
+import { v4 as uuidv4 } from "uuid";
+import {
+    WorkoutPlanActionResponse,
+    WorkoutPlanTemplateSummary,
+} from "@/components/workout-planning/types";
+import { revalidatePath } from "next/cache";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import { recordPlanVersion } from "@/lib/database/plan-version-service";
+import {
+    copyPlanStructure,
+    deletePlanStructure,
+} from "@/lib/database/plan-structure-service";
+
+interface TemplateActionResponse {
+    success: boolean;
+    error?: string;
+    templateId?: string;
+}
+
+/**
+ * Loads a template and checks the current user may modify it
+ * Trainers can only modify their own templates; admins can modify any
+ */
+async function getOwnedTemplate(
+    templateId: string,
+    user: { userId: string; roles?: string[] }
+) {
+    const template = await db
+        .select({
+            planId: ExercisePlans.planId,
+            createdByUserId: ExercisePlans.createdByUserId,
+        })
+        .from(ExercisePlans)
+        .where(
+            and(
+                eq(ExercisePlans.planId, templateId),
+                eq(ExercisePlans.isTemplate, true)
+            )
+        )
+        .limit(1);
+
+    if (!template.length) {
+        return { template: null, error: "Template not found" };
+    }
+
+    if (
+        template[0].createdByUserId !== user.userId &&
+        !user.roles?.includes("Admin")
+    ) {
+        return {
+            template: null,
+            error: "You can only modify your own templates",
+        };
+    }
+
+    return { template: template[0], error: undefined };
+}
+
+async function isActiveTrainerOf(trainerId: string, clientId: string) {
+    const relationship = await db
+        .select({ id: TrainerClients.relationshipId })
+        .from(TrainerClients)
+        .where(
+            and(
+                eq(TrainerClients.trainerId, trainerId),
+                eq(TrainerClients.clientId, clientId),
+                eq(TrainerClients.isActive, true)
+            )
+        )
+        .limit(1);
+    return relationship.length > 0;
+}
+
+/**
+ * Whether the current user may copy a plan: admins can copy any plan,
+ * trainers their own plans and those of their active clients
+ */
+async function canCopyPlan(
+    plan: { createdByUserId: string | null; assignedToUserId: string | null },
+    user: { userId: string; roles?: string[] }
+) {
+    if (user.roles?.includes("Admin")) return true;
+    if (plan.createdByUserId === user.userId) return true;
+    if (!plan.assignedToUserId) return false;
+    return isActiveTrainerOf(user.userId, plan.assignedToUserId);
+}
+
+const failedApply = (error: string): WorkoutPlanActionResponse => ({
+    success: false,
+    error,
+    conflict: false,
+    planId: "",
+    updatedAt: new Date(),
+    serverUpdatedAt: new Date(),
+});
+
+/**
+ * Saves a copy of an existing workout plan as a reusable template
+ * @param planId The plan to copy (usually the plan currently open in the planner)
+ * @param name Template name
+ * @param description Optional template description
+ * @returns Success status and the new template ID
+ */
+export async function saveWorkoutPlanAsTemplate(
+    planId: string,
+    name: string,
+    description?: string
+): Promise<TemplateActionResponse> {
+    const currentUser = await requireTrainerOrAdmin();
+
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+        return { success: false, error: "Template name is required" };
+    }
+
+    try {
+        const source = await db
+            .select({
+                planId: ExercisePlans.planId,
+                createdByUserId: ExercisePlans.createdByUserId,
+                assignedToUserId: ExercisePlans.assignedToUserId,
+            })
+            .from(ExercisePlans)
+            .where(eq(ExercisePlans.planId, planId))
+            .limit(1);
+
+        if (!source.length) {
+            return { success: false, error: "Workout plan not found" };
+        }
+
+        if (!(await canCopyPlan(source[0], currentUser))) {
+            return {
+                success: false,
+                error: "You can only save your own clients' plans as templates",
+            };
+        }
+
+        const templateId = uuidv4();
+        const now = new Date();
+
+        await db.transaction(async (tx) => {
+            await tx.insert(ExercisePlans).values({
+                planId: templateId,
+                planName: trimmedName,
+                description: description?.trim() || null,
+                createdByUserId: currentUser.userId,
+                assignedToUserId: null,
+                createdDate: now,
+                updatedAt: now,
+                isActive: false,
+                isTemplate: true,
+            });
+
+            await copyPlanStructure(tx, planId, templateId);
+        });
+
+        return { success: true, templateId };
+    } catch (error) {
+        console.error("Error saving workout plan as template:", error);
+        return { success: false, error: "Failed to save template" };
+    }
+}
+
+/**
+ * Lists templates owned by the current trainer (admins see every template)
+ * @param search Optional case-insensitive filter on template name and description
+ * @returns Template summaries, most recently updated first
+ */
+export async function getWorkoutPlanTemplates(
+    search?: string
+): Promise<WorkoutPlanTemplateSummary[]> {
+    const currentUser = await requireTrainerOrAdmin();
+    const isAdmin = currentUser.roles?.includes("Admin");
+
+    try {
+        const conditions = [eq(ExercisePlans.isTemplate, true)];
+
+        if (!isAdmin) {
+            conditions.push(
+                eq(ExercisePlans.createdByUserId, currentUser.userId)
+            );
+        }
+
+        const trimmedSearch = search?.trim();
+        if (trimmedSearch) {
+            conditions.push(
+                or(
+                    ilike(ExercisePlans.planName, `%${trimmedSearch}%`),
+                    ilike(ExercisePlans.description, `%${trimmedSearch}%`)
+                )!
+            );
+        }
+
+        const rows = await db
+            .select({
+                templateId: ExercisePlans.planId,
+                name: ExercisePlans.planName,
+                description: ExercisePlans.description,
+                createdByUserId: ExercisePlans.createdByUserId,
+                createdByName: Users.fullName,
+                createdDate: ExercisePlans.createdDate,
+                updatedAt: ExercisePlans.updatedAt,
+                phaseCount: sql<number>`count(distinct ${Phases.phaseId})::int`,
+                sessionCount: sql<number>`count(distinct ${Sessions.sessionId})::int`,
+                exerciseCount: sql<number>`count(distinct ${ExercisePlanExercises.planExerciseId})::int`,
+            })
+            .from(ExercisePlans)
+            .leftJoin(Users, eq(Users.userId, ExercisePlans.createdByUserId))
+            .leftJoin(Phases, eq(Phases.planId, ExercisePlans.planId))
+            .leftJoin(Sessions, eq(Sessions.phaseId, Phases.phaseId))
+            .leftJoin(
+                ExercisePlanExercises,
+                eq(ExercisePlanExercises.sessionId, Sessions.sessionId)
+            )
+            .where(and(...conditions))
+            .groupBy(ExercisePlans.planId, Users.fullName)
+            .orderBy(desc(ExercisePlans.updatedAt));
+
+        return rows;
+    } catch (error) {
+        console.error("Error fetching workout plan templates:", error);
+        throw new Error("Failed to fetch workout plan templates");
+    }
+}
+
+/**
+ * Updates a template's name and description
+ * @param templateId The template to update
+ * @param updates New name and/or description
+ * @returns Success status and error message if applicable
+ */
+export async function updateWorkoutPlanTemplate(
+    templateId: string,
+    updates: { name?: string; description?: string | null }
+): Promise<TemplateActionResponse> {
+    const currentUser = await requireTrainerOrAdmin();
+
+    try {
+        const { error } = await getOwnedTemplate(templateId, currentUser);
+        if (error) {
+            return { success: false, error };
+        }
+
+        const updateData: Partial<typeof ExercisePlans.$inferInsert> = {
+            updatedAt: new Date(),
+        };
+        if (updates.name !== undefined) {
+            const trimmedName = updates.name.trim();
+            if (!trimmedName) {
+                return { success: false, error: "Template name is required" };
+            }
+            updateData.planName = trimmedName;
+        }
+        if (updates.description !== undefined) {
+            updateData.description = updates.description?.trim() || null;
+        }
+
+        await db
+            .update(ExercisePlans)
+            .set(updateData)
+            .where(eq(ExercisePlans.planId, templateId));
+
+        return { success: true, templateId };
+    } catch (error) {
+        console.error("Error updating workout plan template:", error);
+        return { success: false, error: "Failed to update template" };
+    }
+}
+
+/**
+ * Deletes a template along with its phases, sessions and exercises
+ * @param templateId The template to delete
+ * @returns Success status and error message if applicable
+ */
+export async function deleteWorkoutPlanTemplate(
+    templateId: string
+): Promise<TemplateActionResponse> {
+    const currentUser = await requireTrainerOrAdmin();
+
+    try {
+        const { error } = await getOwnedTemplate(templateId, currentUser);
+        if (error) {
+            return { success: false, error };
+        }
+
+        await db.transaction(async (tx) => {
+            await deletePlanStructure(tx, templateId);
+            await tx
+                .delete(ExercisePlans)
+                .where(eq(ExercisePlans.planId, templateId));
+        });
+
+        return { success: true, templateId };
+    } catch (error) {
+        console.error("Error deleting workout plan template:", error);
+        return { success: false, error: "Failed to delete template" };
+    }
+}
+
+/**
+ * Instantiates a template onto a client as a deep copy of all its rows.
+ * The template's phases are appended (inactive) to the target plan (or the
+ * client's most recent active plan), or a new plan is created for the client
+ * if they don't have one yet. Trainers can only apply their own templates,
+ * and only to their active clients.
+ * @param templateId The template to copy
+ * @param clientId The client receiving the plan
+ * @param planId Optional plan to append to, e.g. the plan open in the planner
+ * @returns Standard workout plan action response with the client's plan ID
+ */
+export async function applyWorkoutPlanTemplate(
+    templateId: string,
+    clientId: string,
+    planId?: string
+): Promise<WorkoutPlanActionResponse> {
+    const currentUser = await requireTrainerOrAdmin();
+    const isAdmin = currentUser.roles?.includes("Admin");
+
+    try {
+        if (
+            !isAdmin &&
+            !(await isActiveTrainerOf(currentUser.userId, clientId))
+        ) {
+            return failedApply(
+                "You can only apply templates to your own clients"
+            );
+        }
+
+        const template = await db
+            .select({
+                planId: ExercisePlans.planId,
+                planName: ExercisePlans.planName,
+            })
+            .from(ExercisePlans)
+            .where(
+                and(
+                    eq(ExercisePlans.planId, templateId),
+                    eq(ExercisePlans.isTemplate, true),
+                    isAdmin
+                        ? undefined
+                        : eq(ExercisePlans.createdByUserId, currentUser.userId)
+                )
+            )
+            .limit(1);
+
+        if (!template.length) {
+            return failedApply("Template not found");
+        }
+
+        const now = new Date();
+        const versionNote = `Applied template "${template[0].planName}"`;
+
+        const targetPlanId = await db.transaction(async (tx) => {
+            const existingPlan = await tx
+                .select({ planId: ExercisePlans.planId })
+                .from(ExercisePlans)
+                .where(
+                    and(
+                        eq(ExercisePlans.assignedToUserId, clientId),
+                        planId ? eq(ExercisePlans.planId, planId) : undefined
+                    )
+                )
+                .orderBy(
+                    desc(ExercisePlans.isActive),
+                    desc(ExercisePlans.updatedAt)
+                )
+                .limit(1);
+
+            if (planId && !existingPlan.length) {
+                return null;
+            }
+
+            if (existingPlan.length) {
+                const existingPlanId = existingPlan[0].planId;
+                const maxOrder = await tx
+                    .select({
+                        maxOrder: sql<number>`coalesce(max(${Phases.orderNumber}), 0)::int`,
+                    })
+                    .from(Phases)
+                    .where(eq(Phases.planId, existingPlanId));
+
+                await copyPlanStructure(tx, templateId, existingPlanId, {
+                    orderOffset: (maxOrder[0]?.maxOrder ?? 0) + 1,
+                    deactivatePhases: true,
+                });
+
+                await tx
+                    .update(ExercisePlans)
+                    .set({ updatedAt: now })
+                    .where(eq(ExercisePlans.planId, existingPlanId));
+
+                await recordPlanVersion(tx, existingPlanId, null, {
+                    userId: currentUser.userId,
+                    note: versionNote,
+                });
+
+                return existingPlanId;
+            }
+
+            const newPlanId = uuidv4();
+            await tx.insert(ExercisePlans).values({
+                planId: newPlanId,
+                planName: "Workout Plan", // Default name
+                createdByUserId: currentUser.userId,
+                assignedToUserId: clientId,
+                createdDate: now,
+                updatedAt: now,
+                isActive: true,
+            });
+
+            await copyPlanStructure(tx, templateId, newPlanId);
+
+            await recordPlanVersion(tx, newPlanId, null, {
+                userId: currentUser.userId,
+                note: versionNote,
+            });
+
+            return newPlanId;
+        });
+
+        if (!targetPlanId) {
+            return failedApply("Plan not found");
+        }
+
+        revalidatePath(`/clients/${clientId}`, "layout");
+
+        return {
+            success: true,
+            planId: targetPlanId,
+            updatedAt: now,
+            conflict: false,
+            serverUpdatedAt: now,
+        };
+    } catch (error) {
+        console.error("Error applying workout plan template:", error);
+        return failedApply("Failed to apply template");
+    }
+}
@@ -7,6 +7,7 @@ import {
     Sessions,
     ExercisePlanExercises,
     Exercises,
+    ExerciseAliases,
     Users,
     WorkoutSessionsLog,
     WorkoutSessionDetails,
@@ -30,9 +31,27 @@ import {
     isNotNull,
     inArray,
     isNull,
+    ne,
+    sql,
+    SQL,
+    AnyColumn,
 } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
 import { unstable_noStore as noStore } from "next/cache";
+import type {
+    SetEffort,
+    WorkoutOutboxOperation,
+    WorkoutSyncResult,
+} from "@/types/workout-tracker-types";
+import { BrokenPersonalRecord, estimateOneRepMax } from "@/lib/strength-metrics";
+import {
+    oneRepMaxFormula,
+    refreshPersonalRecords,
+} from "@/lib/personal-records";
+
+type SavedWorkoutSet = SelectWorkoutSessionDetail & {
+    personalRecords: BrokenPersonalRecord[]; // Records the set broke
+};
 
 // Define interfaces for the data structures we'll return
 
@@ -179,12 +198,14 @@ interface StartWorkoutSessionResponse {
  * @param workoutSessionLogId - The specific ID to use for the log entry
  * @param userId - The ID of the user starting the workout
  * @param sessionName - The name of the session being performed
+ * @param startTime - When the workout started, if earlier than now (e.g. started offline)
  * @returns The created workout session log entry
  */
 export async function createWorkoutSessionLog(
     workoutSessionLogId: string,
     userId: string,
-    sessionName: string
+    sessionName: string,
+    startTime: Date = new Date()
 ): Promise<SelectWorkoutSessionLog> {
     noStore();
 
@@ -195,7 +216,7 @@ export async function createWorkoutSessionLog(
             workoutSessionLogId,
             userId,
             sessionName,
-            startTime: new Date(),
+            startTime,
             // endTime is left null until the session is completed
         };
 
@@ -385,6 +406,82 @@ export async function startWorkoutSession(
     }
 }
 
+/**
+ * The library exercise a logged name refers to, by exercise name and then
+ * by alias, as a subquery so it resolves in the same statement as the write
+ */
+function exerciseIdForName(exerciseName: AnyColumn | string): SQL {
+    return sql`coalesce(
+        (SELECT ${Exercises.exerciseId} FROM ${Exercises}
+        WHERE lower(${Exercises.exerciseName}) = lower(trim(${exerciseName}))
+        LIMIT 1),
+        (SELECT ${ExerciseAliases.exerciseId} FROM ${ExerciseAliases}
+        WHERE lower(${ExerciseAliases.alias}) = lower(trim(${exerciseName}))
+        LIMIT 1)
+    )`;
+}
+
+/**
+ * The client a workout session was logged for
+ */
+async function findSessionUserId(workoutSessionLogId: string) {
+    const [session] = await db
+        .select({ userId: WorkoutSessionsLog.userId })
+        .from(WorkoutSessionsLog)
+        .where(eq(WorkoutSessionsLog.workoutSessionLogId, workoutSessionLogId))
+        .limit(1);
+    return session?.userId ?? null;
+}
+
+/**
+ * Brings the client's records for a set's exercise up to date after the
+ * set is written or deleted. The set itself is already saved, so a failure
+ * here is logged rather than failing the save.
+ */
+async function refreshRecordsForSet(
+    set: Pick<
+        SelectWorkoutSessionDetail,
+        "workoutDetailId" | "workoutSessionLogId" | "exerciseId"
+    >
+): Promise<BrokenPersonalRecord[]> {
+    if (!set.exerciseId) return [];
+    try {
+        const userId = await findSessionUserId(set.workoutSessionLogId);
+        if (!userId) return [];
+        return await refreshPersonalRecords(
+            userId,
+            set.exerciseId,
+            set.workoutDetailId
+        );
+    } catch (error) {
+        console.error("Error refreshing personal records:", error);
+        return [];
+    }
+}
+
+/**
+ * Recomputes a client's records for each exercise in a batch of deleted
+ * sets, so records held by those sets fall back to the next best
+ */
+async function refreshRecordsForExercises(
+    clientId: string,
+    exerciseIds: (string | null)[]
+) {
+    const distinctIds = Array.from(
+        new Set(exerciseIds.filter((id): id is string => !!id))
+    );
+    for (const exerciseId of distinctIds) {
+        try {
+            await refreshPersonalRecords(clientId, exerciseId);
+        } catch (error) {
+            console.error("Error refreshing personal records:", error);
+        }
+    }
+}
+
+// The fields personal records are worked out from
+const RECORD_FIELDS = ["reps", "weight", "setType", "exerciseId"] as const;
+
 /**
  * Logs a set of an exercise during a workout session.
  *
@@ -395,7 +492,12 @@ export async function startWorkoutSession(
  * @param weight - Weight used (if applicable)
  * @param coachNote - Optional note from coach
  * @param setOrderMarker - Optional order marker for the exercise
- * @returns The created workout session detail entry
+ * @param exerciseId - The library exercise; looked up by name when omitted
+ * @param options.workoutDetailId - Client-generated ID; logging the same ID twice returns the first set
+ * @param options.entryTime - When the set was done, if it was recorded offline
+ * @param options.restSeconds - Rest actually taken after the set
+ * @param options.effort - Set type, RPE/RIR and tempo adherence; a working set when omitted
+ * @returns The created workout session detail entry, with any personal records it broke
  */
 export async function logWorkoutSet(
     workoutSessionLogId: string,
@@ -404,8 +506,15 @@ export async function logWorkoutSet(
     reps: number | null,
     weight: number | null,
     coachNote?: string,
-    setOrderMarker?: string
-): Promise<SelectWorkoutSessionDetail> {
+    setOrderMarker?: string,
+    exerciseId?: string,
+    options: {
+        workoutDetailId?: string;
+        entryTime?: Date;
+        restSeconds?: number;
+        effort?: SetEffort;
+    } = {}
+): Promise<SavedWorkoutSet> {
     noStore();
 
     try {
@@ -432,6 +541,7 @@ export async function logWorkoutSet(
 
         // Create a new workout session detail entry
         const newDetail: InsertWorkoutSessionDetail = {
+            workoutDetailId: options.workoutDetailId,
             workoutSessionLogId,
             exerciseName,
             sets: setNumber,
@@ -440,19 +550,55 @@ export async function logWorkoutSet(
             workoutVolume,
             coachNote: coachNote || null,
             setOrderMarker: setOrderMarker || null,
-            entryTime: new Date(),
+            entryTime: options.entryTime ?? new Date(),
+            restSeconds: options.restSeconds ?? null,
+            ...options.effort,
+            estimatedOneRepMax: estimateOneRepMax(
+                weight,
+                reps,
+                oneRepMaxFormula()
+            ),
         };
 
         const result = await db
             .insert(WorkoutSessionDetails)
-            .values(newDetail)
+            .values({
+                ...newDetail,
+                exerciseId: exerciseId || exerciseIdForName(exerciseName),
+            })
+            .onConflictDoNothing({
+                target: WorkoutSessionDetails.workoutDetailId,
+            })
             .returning();
 
         if (!result || result.length === 0) {
-            throw new Error("Failed to log workout set");
+            // Already logged by an earlier attempt
+            const existing = options.workoutDetailId
+                ? await db
+                      .select()
+                      .from(WorkoutSessionDetails)
+                      .where(
+                          eq(
+                              WorkoutSessionDetails.workoutDetailId,
+                              options.workoutDetailId
+                          )
+                      )
+                      .limit(1)
+                : [];
+            if (existing.length === 0) {
+                throw new Error("Failed to log workout set");
+            }
+            // Records may not have been updated if the earlier attempt failed
+            return {
+                ...existing[0],
+                personalRecords: await refreshRecordsForSet(existing[0]),
+            };
         }
 
-        return result[0];
+        return {
+            ...result[0],
+            personalRecords: await refreshRecordsForSet(result[0]),
+        };
     } catch (error) {
         console.error("Error logging workout set:", error);
         throw new Error("Failed to log workout set");
@@ -465,7 +611,7 @@ export async function logWorkoutSet(
  *
  * @param workoutDetailId - The ID of the workout detail to update
  * @param updates - Object containing the fields to update
- * @returns The updated workout session detail entry
+ * @returns The updated workout session detail entry, with any personal records it broke
  */
 export async function updateWorkoutSet(
     workoutDetailId: string,
@@ -474,34 +620,33 @@ export async function updateWorkoutSet(
         reps?: number | null;
         weight?: number | null;
         coachNote?: string | null;
-    }
-): Promise<SelectWorkoutSessionDetail> {
+        restSeconds?: number | null;
+    } & Partial<SetEffort>
+): Promise<SavedWorkoutSet> {
     noStore();
 
     try {
         // Calculate workout volume if all required fields are present
         const updateData: Partial<InsertWorkoutSessionDetail> = { ...updates };
 
+        // First get the current record to have all values
+        const currentRecord = await db
+            .select()
+            .from(WorkoutSessionDetails)
+            .where(eq(WorkoutSessionDetails.workoutDetailId, workoutDetailId))
+            .limit(1);
+
+        if (!currentRecord || currentRecord.length === 0) {
+            throw new Error("Workout set not found");
+        }
+        const current = currentRecord[0];
+
         // If all three values are provided, recalculate the workout volume
         if (
             updates.sets !== undefined ||
             updates.reps !== undefined ||
             updates.weight !== undefined
         ) {
-            // First get the current record to have all values
-            const currentRecord = await db
-                .select()
-                .from(WorkoutSessionDetails)
-                .where(
-                    eq(WorkoutSessionDetails.workoutDetailId, workoutDetailId)
-                )
-                .limit(1);
-
-            if (!currentRecord || currentRecord.length === 0) {
-                throw new Error("Workout set not found");
-            }
-
-            const current = currentRecord[0];
             const reps = updates.reps ?? current.reps;
             const weight = updates.weight ?? current.weight;
 
@@ -511,11 +656,22 @@ export async function updateWorkoutSet(
             } else {
                 updateData.workoutVolume = null;
             }
+            updateData.estimatedOneRepMax = estimateOneRepMax(
+                weight,
+                reps,
+                oneRepMaxFormula()
+            );
         }
 
         const result = await db
             .update(WorkoutSessionDetails)
-            .set(updateData)
+            .set({
+                ...updateData,
+                // Links sets logged before the exercise was in the library
+                exerciseId: sql`coalesce(${
+                    WorkoutSessionDetails.exerciseId
+                }, ${exerciseIdForName(WorkoutSessionDetails.exerciseName)})`,
+            })
             .where(eq(WorkoutSessionDetails.workoutDetailId, workoutDetailId))
             .returning();
 
@@ -523,7 +679,17 @@ export async function updateWorkoutSet(
             throw new Error("Failed to update workout set");
         }
 
-        return result[0];
+        // Autosave resends every set, so records are only recomputed for
+        // sets whose reps, weight, type or exercise actually changed
+        const recordsAffected = RECORD_FIELDS.some(
+            (field) => result[0][field] !== current[field]
+        );
+        return {
+            ...result[0],
+            personalRecords: recordsAffected
+                ? await refreshRecordsForSet(result[0])
+                : [],
+        };
     } catch (error) {
         console.error("Error updating workout set:", error);
         throw new Error("Failed to update workout set");
@@ -545,7 +711,14 @@ export async function deleteWorkoutSet(
         const result = await db
             .delete(WorkoutSessionDetails)
             .where(eq(WorkoutSessionDetails.workoutDetailId, workoutDetailId))
-            .returning({ deletedId: WorkoutSessionDetails.workoutDetailId });
+            .returning({
+                workoutDetailId: WorkoutSessionDetails.workoutDetailId,
+                workoutSessionLogId: WorkoutSessionDetails.workoutSessionLogId,
+                exerciseId: WorkoutSessionDetails.exerciseId,
+            });
+
+        // A record held by the deleted set falls back to the next best
+        await Promise.all(result.map(refreshRecordsForSet));
 
         return result.length > 0;
     } catch (error) {
@@ -560,12 +733,14 @@ export async function deleteWorkoutSet(
  * @param userId - The ID of the user
  * @param startDate - Start date for the statistics (optional)
  * @param endDate - End date for the statistics (optional)
+ * @param options.includeWarmUps - Count warm-up sets too; they're left out by default
  * @returns Workout statistics
  */
 export async function getUserWorkoutStats(
     userId: string,
     startDate?: Date,
-    endDate?: Date
+    endDate?: Date,
+    options: { includeWarmUps?: boolean } = {}
 ): Promise<{
     totalSessions: number;
     totalVolume: number;
@@ -609,7 +784,15 @@ export async function getUserWorkoutStats(
             .select()
             .from(WorkoutSessionDetails)
             .where(
-                inArray(WorkoutSessionDetails.workoutSessionLogId, sessionIds)
+                and(
+                    inArray(
+                        WorkoutSessionDetails.workoutSessionLogId,
+                        sessionIds
+                    ),
+                    options.includeWarmUps
+                        ? undefined
+                        : ne(WorkoutSessionDetails.setType, "warm-up")
+                )
             );
 
         // Calculate statistics
@@ -656,10 +839,12 @@ export async function getUserWorkoutStats(
  * Ends a workout session by updating the endTime.
  *
  * @param workoutSessionLogId - The ID of the workout session log to end
+ * @param endTime - When the workout ended, if earlier than now (e.g. ended offline)
  * @returns The updated workout session log entry
  */
 export async function endWorkoutSession(
-    workoutSessionLogId: string
+    workoutSessionLogId: string,
+    endTime: Date = new Date()
 ): Promise<SelectWorkoutSessionLog> {
     noStore();
 
@@ -667,7 +852,7 @@ export async function endWorkoutSession(
         // Update the workout session log with the end time
         const result = await db
             .update(WorkoutSessionsLog)
-            .set({ endTime: new Date() })
+            .set({ endTime })
             .where(
                 eq(WorkoutSessionsLog.workoutSessionLogId, workoutSessionLogId)
             )
@@ -759,15 +944,18 @@ export async function deleteActiveWorkoutSession(
     noStore();
 
     try {
+        const userId = await findSessionUserId(workoutSessionLogId);
+
         // First delete all workout details associated with this session
-        await db
+        const deletedSets = await db
             .delete(WorkoutSessionDetails)
             .where(
                 eq(
                     WorkoutSessionDetails.workoutSessionLogId,
                     workoutSessionLogId
                 )
-            );
+            )
+            .returning({ exerciseId: WorkoutSessionDetails.exerciseId });
 
         // Then delete the session itself
         const result = await db
@@ -777,6 +965,13 @@ export async function deleteActiveWorkoutSession(
             )
             .returning({ deletedId: WorkoutSessionsLog.workoutSessionLogId });
 
+        if (userId) {
+            await refreshRecordsForExercises(
+                userId,
+                deletedSets.map((set) => set.exerciseId)
+            );
+        }
+
         console.log(
             `✅ Deleted active workout session and all details: ${workoutSessionLogId}`
         );
@@ -826,15 +1021,18 @@ export async function deleteEmptyWorkoutSession(
             return false;
         }
 
+        const userId = await findSessionUserId(workoutSessionLogId);
+
         // Delete any existing details with 0 reps first (cleanup)
-        await db
+        const deletedSets = await db
             .delete(WorkoutSessionDetails)
             .where(
                 eq(
                     WorkoutSessionDetails.workoutSessionLogId,
                     workoutSessionLogId
                 )
-            );
+            )
+            .returning({ exerciseId: WorkoutSessionDetails.exerciseId });
 
         // Delete the empty workout session
         const result = await db
@@ -844,6 +1042,13 @@ export async function deleteEmptyWorkoutSession(
             )
             .returning({ deletedId: WorkoutSessionsLog.workoutSessionLogId });
 
+        if (userId) {
+            await refreshRecordsForExercises(
+                userId,
+                deletedSets.map((set) => set.exerciseId)
+            );
+        }
+
         console.log(`✅ Deleted empty workout session ${workoutSessionLogId}`);
         return result.length > 0;
     } catch (error) {
@@ -851,3 +1056,129 @@ export async function deleteEmptyWorkoutSession(
         throw new Error("Failed to delete empty workout session");
     }
 }
+
+async function workoutSessionExists(workoutSessionLogId: string) {
+    const session = await db
+        .select({ id: WorkoutSessionsLog.workoutSessionLogId })
+        .from(WorkoutSessionsLog)
+        .where(eq(WorkoutSessionsLog.workoutSessionLogId, workoutSessionLogId))
+        .limit(1);
+    return session.length > 0;
+}
+
+async function findWorkoutSet(workoutDetailId: string) {
+    const [set] = await db
+        .select({
+            workoutSessionLogId: WorkoutSessionDetails.workoutSessionLogId,
+        })
+        .from(WorkoutSessionDetails)
+        .where(eq(WorkoutSessionDetails.workoutDetailId, workoutDetailId))
+        .limit(1);
+    return set ?? null;
+}
+
+/**
+ * Applies one operation replayed from the record-workout outbox. Sending an
+ * operation twice has no further effect. Operations that no longer apply,
+ * like editing a set deleted on another device, come back as conflicts so
+ * replay can report them and move on; anything thrown is retried later.
+ *
+ * @param operation - The queued operation, oldest first
+ * @returns Whether the operation was applied or conflicted
+ */
+export async function syncWorkoutOperation(
+    operation: WorkoutOutboxOperation
+): Promise<WorkoutSyncResult> {
+    noStore();
+
+    switch (operation.type) {
+        case "start-session":
+            await createWorkoutSessionLog(
+                operation.workoutSessionLogId,
+                operation.userId,
+                operation.sessionName,
+                new Date(operation.startedAt)
+            );
+            return { status: "applied" };
+
+        case "create-set": {
+            if (!(await workoutSessionExists(operation.workoutSessionLogId))) {
+                return {
+                    status: "conflict",
+                    message: `${operation.exerciseName} set ${operation.setNumber} was not saved because the workout was deleted`,
+                };
+            }
+            const existing = await findWorkoutSet(operation.workoutDetailId);
+            if (
+                existing &&
+                existing.workoutSessionLogId !== operation.workoutSessionLogId
+            ) {
+                return {
+                    status: "conflict",
+                    message: `${operation.exerciseName} set ${operation.setNumber} clashes with a set in another workout`,
+                };
+            }
+            const logged = await logWorkoutSet(
+                operation.workoutSessionLogId,
+                operation.exerciseName,
+                operation.setNumber,
+                operation.reps,
+                operation.weight,
+                operation.notes,
+                operation.setOrderMarker,
+                operation.exerciseId,
+                {
+                    workoutDetailId: operation.workoutDetailId,
+                    entryTime: new Date(operation.entryTime),
+                    restSeconds: operation.restSeconds,
+                    effort: operation.effort,
+                }
+            );
+            return {
+                status: "applied",
+                personalRecords: logged.personalRecords,
+            };
+        }
+
+        case "update-set": {
+            if (!(await findWorkoutSet(operation.workoutDetailId))) {
+                return {
+                    status: "conflict",
+                    message: `An edit to a set (${operation.reps} reps @ ${operation.weight}) was dropped because the set was deleted elsewhere`,
+                };
+            }
+            const updated = await updateWorkoutSet(operation.workoutDetailId, {
+                reps: operation.reps,
+                weight: operation.weight,
+                coachNote: operation.notes,
+                restSeconds: operation.restSeconds,
+                ...operation.effort,
+            });
+            return {
+                status: "applied",
+                personalRecords: updated.personalRecords,
+            };
+        }
+
+        case "delete-set":
+            await deleteWorkoutSet(operation.workoutDetailId);
+            return { status: "applied" };
+
+        case "end-session":
+            if (!(await workoutSessionExists(operation.workoutSessionLogId))) {
+                return {
+                    status: "conflict",
+                    message: "The workout could not be ended because it was deleted",
+                };
+            }
+            await endWorkoutSession(
+                operation.workoutSessionLogId,
+                new Date(operation.endedAt)
+            );
+            return { status: "applied" };
+
+        case "discard-session":
+            await deleteActiveWorkoutSession(operation.workoutSessionLogId);
+            return { status: "applied" };
+    }
+}
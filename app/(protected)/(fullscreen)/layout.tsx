@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import "@/app/globals.css";
 import { get_logged_in_user } from "@/actions/logged_in_user_actions";
+import { QueryProvider } from "@/providers/query-provider";
 
 export const metadata: Metadata = {
     title: "GymFlow | Movement Fitness",
@@ -14,5 +15,9 @@ export default async function AppLayout({
 }>) {
     await get_logged_in_user(); // Ensure user is authenticated
 
-    return <div>{children}</div>;
+    return (
+        <div>
+            <QueryProvider>{children}</QueryProvider>
+        </div>
+    );
 }
@@ -1,13 +1,13 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
-import { Loader2 } from "lucide-react";
+import { AlertTriangle, Loader2, X } from "lucide-react";
 import {
-    endWorkoutSession,
-    deleteActiveWorkoutSession,
-} from "@/actions/workout_tracker_actions";
+    deleteWorkoutSnapshot,
+    markWorkoutSnapshotEnded,
+} from "@/lib/workout-outbox";
 
 // Types
 import { Exercise, RecordWorkoutClientProps } from "@/types/workout-tracker-types";
@@ -15,12 +15,22 @@ import { Exercise, RecordWorkoutClientProps } from "@/types/workout-tracker-type
 // Hooks
 import { useWorkoutTimer } from "@/hooks/use-workout-timer";
 import { useWorkoutData } from "@/hooks/use-workout-data";
+import { useRestTimer } from "@/hooks/use-rest-timer";
+import { usePreviousPerformance } from "@/hooks/use-previous-performance";
+import {
+    useOfflineWorkoutSession,
+    useRecordWorkoutServiceWorker,
+} from "@/hooks/use-offline-workout";
 
 // Components
 import { WorkoutHeader } from "@/components/workout-tracker/workout-header";
 import { EnhancedExerciseCard } from "@/components/workout-tracker/enhanced-exercise-card";
+import { ExerciseGroupCard } from "@/components/workout-tracker/exercise-group-card";
+import { getExerciseBlocks } from "@/components/workout-planning/workout-utils/exercise-groups";
 import { WorkoutHistorySidebar } from "@/components/workout-tracker/workout-history-sidebar";
 import { QuitWorkoutDialog } from "@/components/workout-tracker/quit-workout-dialog";
+import { RestTimerBar } from "@/components/workout-tracker/rest-timer-bar";
+import { showPersonalRecordToasts } from "@/components/workout-tracker/personal-record-toast";
 import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import ExerciseDropdown from "@/components/workout-planning/UI-components/exercise-table/ExerciseDropdown";
 import { Button } from "@/components/ui/button";
@@ -47,8 +57,22 @@ export default function RecordWorkoutClient({
     const [phaseName, setPhaseName] = useState("Untitled Phase");
     const [sessionName, setSessionName] = useState("Untitled Session");
     const [clientName, setClientName] = useState<string>("Client");
-    const [workoutSessionLogId] = useState<string | null>(
-        initialWorkoutSessionLogId || null
+    const { workoutSessionLogId, isResolving } = useOfflineWorkoutSession({
+        serverWorkoutSessionLogId: initialWorkoutSessionLogId || null,
+        userId: clientId,
+        sessionName: initialWorkoutData?.session?.sessionName || "Workout Session",
+    });
+    // Logged sets rendered with the page only belong to the log it was rendered for
+    const workoutSessionDetails = useMemo(
+        () =>
+            workoutSessionLogId === initialWorkoutSessionLogId
+                ? initialWorkoutSessionDetails
+                : [],
+        [
+            workoutSessionLogId,
+            initialWorkoutSessionLogId,
+            initialWorkoutSessionDetails,
+        ]
     );
     const [pastSessionDetails, setPastSessionDetails] = useState<{
         id: string;
@@ -59,6 +83,7 @@ export default function RecordWorkoutClient({
         notes: string;
         setOrderMarker: string;
         entryTime: string | null;
+        restSeconds: number | null;
     }[][]>([]);
     const [showQuitDialog, setShowQuitDialog] = useState(false);
     const [showPastWorkouts, setShowPastWorkouts] = useState(false);
@@ -73,22 +98,74 @@ export default function RecordWorkoutClient({
         isLoading,
         toggleExerciseExpansion,
         updateSetValue,
+        setSetCompleted,
+        updateSetDetails,
+        recordSetRest,
         addSet,
         deleteSet,
         saveUnsavedSets,
         saveAllSetDetails,
         saveStatus,
         pendingOperations,
+        conflicts,
+        isOnline,
+        queueOperation,
+        saveNow,
+        clearPending,
+        dismissConflicts,
         isSyncing,
         hasUnsavedChanges,
         addExerciseToActiveWorkout,
         removeExerciseFromActiveWorkout
     } = useWorkoutData({
         initialWorkoutData,
-        workoutSessionDetails: initialWorkoutSessionDetails,
+        workoutSessionDetails,
         workoutSessionLogId,
+        onPersonalRecords: showPersonalRecordToasts,
     });
 
+    useRecordWorkoutServiceWorker(!!workoutSessionLogId);
+
+    const previousPerformance = usePreviousPerformance({
+        clientId,
+        exerciseIds: exercises.map((ex) => ex.exerciseId),
+        workoutSessionLogId,
+    });
+
+    // The rest taken is recorded on the set that started it
+    const {
+        rest,
+        elapsed: restElapsed,
+        startRest,
+        stopRest,
+        cancelRest,
+    } = useRestTimer({
+        onRestEnd: (endedRest, seconds) =>
+            recordSetRest(endedRest.exerciseId, endedRest.setId, seconds),
+    });
+
+    const toggleSetCompleted = useCallback(
+        (exerciseId: string, setId: string) => {
+            const exercise = exercises.find((ex) => ex.id === exerciseId);
+            const set = exercise?.sets.find((s) => s.id === setId);
+            if (!exercise || !set) return;
+
+            setSetCompleted(exerciseId, setId, !set.completed);
+            if (!set.completed) {
+                startRest({
+                    exerciseId,
+                    setId,
+                    exerciseName: exercise.name,
+                    minSeconds: exercise.restMin ?? 0,
+                    maxSeconds: exercise.restMax ?? 0,
+                });
+            } else if (rest?.setId === setId) {
+                cancelRest();
+            }
+        },
+        [exercises, rest, setSetCompleted, startRest, cancelRest]
+    );
+
     // Set initial data from props
     useEffect(() => {
         if (initialWorkoutData) {
@@ -117,19 +194,50 @@ export default function RecordWorkoutClient({
         };
     }, [clientName]);
 
+    // Queues the remaining sets and the end of the workout, then tries to
+    // send them. Resolves to whether everything reached the server.
+    const finishWorkout = useCallback(async () => {
+        if (!workoutSessionLogId) return false;
+        await saveUnsavedSets();
+        await saveAllSetDetails();
+        await queueOperation({
+            type: "end-session",
+            workoutSessionLogId,
+            endedAt: new Date().toISOString(),
+        });
+        await markWorkoutSnapshotEnded(workoutSessionLogId);
+        const { remaining } = await saveNow();
+        return remaining === 0;
+    }, [
+        workoutSessionLogId,
+        saveUnsavedSets,
+        saveAllSetDetails,
+        queueOperation,
+        saveNow,
+    ]);
+
     // Create stable references to save functions to avoid dependency issues
-    const saveWorkoutDataRef =
-        useRef<() => Promise<{ newSets: number; details: number }> | null>(
-            null
-        );
+    const finishWorkoutRef = useRef(finishWorkout);
 
     useEffect(() => {
-        saveWorkoutDataRef.current = async () => {
-            const newSetsSaved = await saveUnsavedSets();
-            const detailsSaved = await saveAllSetDetails();
-            return { newSets: newSetsSaved, details: detailsSaved };
-        };
-    }, [saveUnsavedSets, saveAllSetDetails]);
+        finishWorkoutRef.current = finishWorkout;
+    }, [finishWorkout]);
+
+    // Leaving needs the server; offline, the coach stays on the page while it syncs
+    const leaveWorkout = useCallback(() => {
+        if (!navigator.onLine) {
+            toast.info(
+                "You're offline. This workout is saved on this device and will sync when you reconnect."
+            );
+            return;
+        }
+        // Use replace instead of push to avoid navigation issues between layouts
+        if (clientId) {
+            router.replace(`/clients/${clientId}`);
+        } else {
+            router.replace("/all-clients");
+        }
+    }, [clientId, router]);
 
     // Add event listeners for browser navigation (back/forward) and page unload
     useEffect(() => {
@@ -142,23 +250,13 @@ export default function RecordWorkoutClient({
             );
 
             try {
-                if (saveWorkoutDataRef.current) {
-                    const result = await saveWorkoutDataRef.current();
-                    if (result) {
-                        const { newSets, details } = result;
-                        const totalSaved = newSets + details;
-
-                        if (totalSaved > 0) {
-                            console.log(
-                                `✅ Auto-saved ${totalSaved} workout entries before navigation`
-                            );
-                        }
-                    }
-                }
-
-                // End the workout session to mark it as complete
-                await endWorkoutSession(workoutSessionLogId);
-                console.log("✅ Workout session saved and ended successfully");
+                // Queue the remaining sets and end the workout session to mark it as complete
+                const synced = await finishWorkoutRef.current();
+                console.log(
+                    synced
+                        ? "✅ Workout session saved and ended successfully"
+                        : "📦 Workout session ended on this device, waiting to sync"
+                );
             } catch (error) {
                 console.error(
                     "❌ Failed to save workout data during navigation:",
@@ -202,10 +300,14 @@ export default function RecordWorkoutClient({
                     "🗑️ Deleting entire workout session and all details:",
                     workoutSessionLogId
                 );
-                await deleteActiveWorkoutSession(workoutSessionLogId);
-                console.log(
-                    "✅ Workout session and all details deleted successfully"
-                );
+                // Nothing still queued needs to reach the server now
+                await clearPending();
+                await queueOperation({
+                    type: "discard-session",
+                    workoutSessionLogId,
+                });
+                await deleteWorkoutSnapshot(workoutSessionLogId);
+                await saveNow();
             }
         } catch (error) {
             console.error("❌ Error deleting workout session:", error);
@@ -214,12 +316,7 @@ export default function RecordWorkoutClient({
             setIsQuittingWithoutSaving(false);
         }
 
-        // Use replace instead of push to avoid navigation issues between layouts
-        if (clientId) {
-            router.replace(`/clients/${clientId}`);
-        } else {
-            router.replace("/all-clients");
-        }
+        leaveWorkout();
     };
 
     const handleEndWorkout = async () => {
@@ -232,31 +329,13 @@ export default function RecordWorkoutClient({
         toast.info("Saving and ending workout...");
 
         try {
-            // First save any unsaved workout data (new sets)
-            console.log("Saving new sets before ending session...");
-            const newSetsSaved = await saveUnsavedSets();
-
-            // Then save all existing set details
-            console.log("Saving existing set details before ending session...");
-            const detailsSaved = await saveAllSetDetails();
-
-            const totalSaved = newSetsSaved + detailsSaved;
-            if (totalSaved > 0) {
-                console.log(
-                    `Successfully saved ${totalSaved} workout entries before ending session`
-                );
+            // Save any unsaved sets and set details, then end the workout session
+            const synced = await finishWorkout();
+            if (synced) {
+                toast.success("Workout saved and session ended successfully");
             }
 
-            // Then end the workout session
-            await endWorkoutSession(workoutSessionLogId);
-            toast.success("Workout saved and session ended successfully");
-
-            // Use replace instead of push to avoid navigation issues between layouts
-            if (clientId) {
-                router.replace(`/clients/${clientId}`);
-            } else {
-                router.replace("/all-clients");
-            }
+            leaveWorkout();
         } catch (error) {
             console.error("Error ending workout session:", error);
             toast.error("Failed to save and end workout session");
@@ -292,7 +371,7 @@ export default function RecordWorkoutClient({
         }
     };
 
-    if (isLoading) {
+    if (isLoading || isResolving) {
         return (
             <div className="min-h-screen bg-background text-foreground flex justify-center items-center">
                 <div className="flex items-center gap-3">
@@ -317,7 +396,7 @@ export default function RecordWorkoutClient({
                 timer={timer}
                 showPastWorkouts={showPastWorkouts}
                 pastSessionsCount={initialPastSessions.length}
-                saveStatus={saveStatus}
+                saveStatus={isOnline ? saveStatus : "offline"}
                 pendingOperations={pendingOperations}
                 onExit={openQuitDialog}
                 onTogglePastWorkouts={() =>
@@ -346,6 +425,29 @@ export default function RecordWorkoutClient({
                 </div>
             )}
 
+            {/* Changes that couldn't be applied when replayed */}
+            {conflicts.length > 0 && (
+                <div className="bg-amber-50 dark:bg-amber-950 border-b border-amber-200 dark:border-amber-800">
+                    <div className="container mx-auto px-4 py-2 max-w-6xl flex items-start gap-2 text-sm text-amber-800 dark:text-amber-200">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                        <ul className="flex-1 space-y-1">
+                            {conflicts.map((conflict, index) => (
+                                <li key={index}>{conflict.message}</li>
+                            ))}
+                        </ul>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0 cursor-pointer"
+                            onClick={dismissConflicts}
+                            title="Dismiss"
+                        >
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+            )}
+
             <div className="container mx-auto px-4 pt-2 pb-4 max-w-6xl">
                 <AddExerciseSheet 
                     allExercises={allExercises}
@@ -363,21 +465,45 @@ export default function RecordWorkoutClient({
                         ) : (
                             <div className="flex flex-col gap-4 w-full">
                                 <div className="flex flex-col gap-0">
-                                    {exercises.sort((a,b)=> a.order > b.order ? 1 : -1).map((exercise) => {
-                                        return (
-                                        <EnhancedExerciseCard
-                                            key={exercise.id}
-                                            exercise={exercise}
-                                            onToggleExpansion={toggleExerciseExpansion}
-                                            onUpdateSetValue={updateSetValue}
-                                            onAddSet={addSet}
-                                            onDeleteSet={deleteSet}
-                                            onDeleteExercise={removeExerciseFromActiveWorkout}
-                                            pastSessionDetails={pastSessionDetails}
-                                            onReplaceExercise={replaceExercise}
-                                            allExercises={allExercises}
-                                        />
-                                    )})}
+                                    {getExerciseBlocks(
+                                        exercises.sort((a,b)=> a.order > b.order ? 1 : -1)
+                                    ).map((block) =>
+                                        block.type ? (
+                                            <ExerciseGroupCard
+                                                key={block.key}
+                                                letter={block.key}
+                                                type={block.type}
+                                                exercises={block.exercises}
+                                                onUpdateSetValue={updateSetValue}
+                                                onUpdateSetDetails={updateSetDetails}
+                                                onAddSet={addSet}
+                                                onDeleteSet={deleteSet}
+                                            />
+                                        ) : (
+                                            block.exercises.map((exercise) => (
+                                                <EnhancedExerciseCard
+                                                    key={exercise.id}
+                                                    exercise={exercise}
+                                                    onToggleExpansion={toggleExerciseExpansion}
+                                                    onUpdateSetValue={updateSetValue}
+                                                    onAddSet={addSet}
+                                                    onDeleteSet={deleteSet}
+                                                    onToggleSetCompleted={toggleSetCompleted}
+                                                    onUpdateSetDetails={updateSetDetails}
+                                                    onDeleteExercise={removeExerciseFromActiveWorkout}
+                                                    pastSessionDetails={pastSessionDetails}
+                                                    onReplaceExercise={replaceExercise}
+                                                    allExercises={allExercises}
+                                                    clientId={clientId}
+                                                    previousPerformance={
+                                                        exercise.exerciseId
+                                                            ? previousPerformance[exercise.exerciseId] ?? {}
+                                                            : undefined
+                                                    }
+                                                />
+                                            ))
+                                        )
+                                    )}
                                 </div>
                             </div>
                         )}
@@ -397,6 +523,11 @@ export default function RecordWorkoutClient({
                     setShowPastWorkouts={setShowPastWorkouts}
                 />
             )}
+            <RestTimerBar
+                rest={rest}
+                elapsed={restElapsed}
+                onStop={stopRest}
+            />
             <QuitWorkoutDialog
                 isOpen={showQuitDialog}
                 onClose={closeQuitDialog}
@@ -471,12 +602,20 @@ const AddExerciseSheet = ({onAddExercise, allExercises}: {
                         onAddExercise({
                             customizations: "",
                             id: selectedExercise?.exerciseId,
+                            exerciseId: selectedExercise?.exerciseId,
                             isExpanded: true,
                             name: selectedExercise?.exerciseName,
+                            videoUrl: selectedExercise.videoUrl ?? undefined,
+                            imageUrl: selectedExercise.imageUrl ?? undefined,
+                            thumbnailUrl: selectedExercise.thumbnailUrl ?? undefined,
                             notes: "",
                             order: exerciseOrder,
                             repRange: '8-10',
+                            repsMin: 8,
+                            repsMax: 10,
                             restTime: '45-60s',
+                            restMin: 45,
+                            restMax: 60,
                             setOrderMarker: exerciseOrder,
                             setRange: "3",
                             sets: [],
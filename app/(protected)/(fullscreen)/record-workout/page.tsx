@@ -2,6 +2,10 @@ import { Suspense } from "react";
 import { WorkoutDataFetcher } from "./server-component";
 import RecordWorkoutClient from "./client-component";
 import { getAllExercisesForWorkoutPlanning } from "@/actions/exercise_actions";
+import { getClientLaunchableSessions } from "@/actions/workout_client_plan_actions";
+import { getClientCalendar } from "@/actions/workout_schedule_actions";
+import { SessionLauncher } from "@/components/workout-tracker/session-launcher";
+import { toDateKey } from "@/components/workout-calendar/schedule-utils";
 
 // This is the server component that handles the initial data fetching
 export default async function RecordWorkoutPage({
@@ -15,6 +19,25 @@ export default async function RecordWorkoutPage({
     const workoutSessionLogId = (await searchParams)
         .workoutSessionLogId as string;        
 
+    // Without a session, let the coach pick one from any of the client's active plans
+    if (!sessionId && clientId) {
+        const today = toDateKey(new Date());
+        const [sessions, calendar] = await Promise.all([
+            getClientLaunchableSessions(clientId),
+            getClientCalendar(clientId, today, today),
+        ]);
+        const scheduledToday = calendar.entries
+            .filter((entry) => entry.status === "planned" && entry.sessionId)
+            .map((entry) => entry.sessionId as string);
+        return (
+            <SessionLauncher
+                clientId={clientId}
+                sessions={sessions}
+                scheduledToday={scheduledToday}
+            />
+        );
+    }
+
     if (!sessionId) {
         return (
             <div className="min-h-screen bg-background text-foreground flex items-center justify-center">
@@ -3,6 +3,7 @@ import {
     startWorkoutSession,
     getWorkoutSessionDetails,
 } from "@/actions/workout_tracker_actions";
+import { ExerciseGroupType } from "@/types/workout-plan-types";
 
 // Define interfaces to match the client component's expected types
 interface WorkoutPlan {
@@ -42,6 +43,8 @@ interface ExerciseDetail {
     uploadDate: string | Date;
     approvedByAdmin?: boolean;
     videoUrl?: string;
+    imageUrl?: string;
+    thumbnailUrl?: string;
     motion?: string;
     targetArea?: string;
     movementType?: string;
@@ -67,6 +70,9 @@ interface WorkoutExercise {
     setOrderMarker?: string;
     customizations?: string;
     notes?: string;
+    groupType?: ExerciseGroupType;
+    groupRounds?: number;
+    groupRest?: number;
     exerciseDetails?: ExerciseDetail;
     [key: string]: unknown;
 }
@@ -216,6 +222,9 @@ export async function WorkoutDataFetcher({
                 setOrderMarker: ex.setOrderMarker || undefined,
                 customizations: ex.customizations || undefined,
                 notes: ex.notes || undefined,
+                groupType: (ex.groupType as ExerciseGroupType) || undefined,
+                groupRounds: ex.groupRounds || undefined,
+                groupRest: ex.groupRest ?? undefined,
             };
 
             // Add exercise details if available
@@ -229,6 +238,8 @@ export async function WorkoutDataFetcher({
                     approvedByAdmin:
                         ex.exerciseDetails.approvedByAdmin || undefined,
                     videoUrl: ex.exerciseDetails.videoUrl || undefined,
+                    imageUrl: ex.exerciseDetails.imageUrl || undefined,
+                    thumbnailUrl: ex.exerciseDetails.thumbnailUrl || undefined,
                     motion: ex.exerciseDetails.motion || undefined,
                     targetArea: ex.exerciseDetails.targetArea || undefined,
                     movementType: ex.exerciseDetails.movementType || undefined,
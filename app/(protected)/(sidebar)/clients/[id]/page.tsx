@@ -26,6 +26,9 @@ type PageProps = {
     params: Promise<{
         id: string;
     }>;
+    searchParams?: Promise<{
+        plan?: string;
+    }>;
 };
 
 export async function generateMetadata({
@@ -50,8 +53,12 @@ export async function generateMetadata({
     }
 }
 
-export default async function ClientProfilePage({ params }: PageProps) {
+export default async function ClientProfilePage({
+    params,
+    searchParams,
+}: PageProps) {
     const resolvedParams = await params;
+    const selectedPlanId = (await searchParams)?.plan;
     await checkGuestApproval();
 
     const session = (await cookies()).get(MOVEMENT_SESSION_NAME)?.value || null;
@@ -285,7 +292,12 @@ export default async function ClientProfilePage({ params }: PageProps) {
 
                 <Card className="flex flex-col p-4 h-full min-h-[800px] md:col-span-5">
                     <CardContent className="h-full p-0">
-                        <ClientTabs params={{ userdata: client }} />
+                        <ClientTabs
+                            params={{
+                                userdata: client,
+                                planId: selectedPlanId,
+                            }}
+                        />
                     </CardContent>
                 </Card>
             </div>
@@ -2,7 +2,7 @@
 
 import { ColumnDef } from "@tanstack/react-table";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Edit, MoreHorizontal, Trash } from "lucide-react";
+import { ClipboardCheck, Edit, MoreHorizontal, Trash } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
     DropdownMenu,
@@ -29,6 +29,23 @@ import {
     AlertDialogHeader,
     AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import type {
+    DifficultyLevel,
+    ExerciseReviewStatus,
+    MovementPattern,
+    TaxonomyTag,
+} from "@/db/schemas";
+import {
+    DIFFICULTY_LABELS,
+    EXERCISE_FACETS,
+    MOVEMENT_PATTERN_LABELS,
+} from "@/lib/exercise-taxonomy";
+import {
+    REVIEW_STATUS_CLASSES,
+    REVIEW_STATUS_LABELS,
+} from "@/components/exercise-review/review-status-badge";
+import { Badge } from "@/components/ui/badge";
+import { ExerciseThumbnail } from "@/components/exercise-media/exercise-thumbnail";
 
 // Define the Exercise type to match our database schema
 export type Exercise = {
@@ -39,10 +56,19 @@ export type Exercise = {
     targetArea: string | null;
     equipmentRequired: string | null;
     videoUrl: string | null;
+    thumbnailUrl?: string | null;
     createdAt: Date;
     status?: boolean;
+    reviewStatus?: ExerciseReviewStatus;
+    reviewComment?: string | null;
     movementType: string | null;
+    difficulty?: DifficultyLevel | null;
+    movementPattern?: MovementPattern | null;
+    equipment?: TaxonomyTag[];
+    primaryMuscles?: TaxonomyTag[];
+    secondaryMuscles?: TaxonomyTag[];
     timeMultiplier: number;
+    aliases?: string[];
 };
 
 export type ExerciseResponse = {
@@ -69,11 +95,27 @@ export const tableOperations = {
         { id: "motion", label: "Motion" },
         { id: "targetArea", label: "Target Area" },
         { id: "movementType", label: "Movement Type" },
+        { id: "difficulty", label: "Difficulty" },
         { id: "status", label: "Approval Status" },
         { id: "createdAt", label: "Created" },
     ],
+    // Multi-select taxonomy filters shown beside the toolbar
+    facetColumns: EXERCISE_FACETS,
 };
 
+function TagList({ tags }: { tags?: TaxonomyTag[] }) {
+    if (!tags?.length) return <div className="text-muted-foreground">—</div>;
+    return (
+        <div className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+                <Badge key={tag.id} variant="secondary" className="font-normal">
+                    {tag.name}
+                </Badge>
+            ))}
+        </div>
+    );
+}
+
 // Create a proper React component for the status cell
 function StatusCell({
     exercise,
@@ -83,7 +125,9 @@ function StatusCell({
     setRefreshState: React.Dispatch<React.SetStateAction<boolean>>;
 }) {
     const queryClient = useQueryClient();
-    const isApproved = exercise.status;
+    const reviewStatus =
+        exercise.reviewStatus ?? (exercise.status ? "approved" : "pending");
+    const isApproved = reviewStatus === "approved";
 
     const { mutate: updateStatus, isPending } = useMutation({
         mutationFn: async (approved: boolean) => {
@@ -124,17 +168,14 @@ function StatusCell({
                     variant="outline"
                     size="sm"
                     disabled={isPending}
-                    className={`py-1 ${
-                        isApproved
-                            ? "bg-green-50 text-green-700 hover:bg-green-100 dark:bg-green-900 dark:text-green-300 dark:hover:bg-green-800"
-                            : "bg-yellow-50 text-yellow-700 hover:bg-yellow-100 dark:bg-yellow-900 dark:text-yellow-300 dark:hover:bg-yellow-800"
-                    }`}
+                    className={`py-1 ${REVIEW_STATUS_CLASSES[reviewStatus]}`}
+                    title={exercise.reviewComment ?? undefined}
                 >
                     {isPending ? (
                         <p> {isApproved ? "Unapproving..." : "Approving..."}</p>
                     ) : (
                         <span className="capitalize">
-                            {isApproved ? "Approved" : "Unapproved"}
+                            {REVIEW_STATUS_LABELS[reviewStatus]}
                         </span>
                     )}
                 </Button>
@@ -154,6 +195,17 @@ function StatusCell({
                 >
                     Unapprove
                 </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                    <Link
+                        href={`/exercise-review?id=${exercise.exerciseId}`}
+                        className="flex items-center gap-2 cursor-pointer"
+                        prefetch={false}
+                    >
+                        <ClipboardCheck className="h-4 w-4" />
+                        <span>Review...</span>
+                    </Link>
+                </DropdownMenuItem>
             </DropdownMenuContent>
         </DropdownMenu>
     );
@@ -289,8 +341,19 @@ export const columns: ColumnDef<Exercise>[] = [
             return <div className="flex items-center gap-2">Exercise Name</div>;
         },
         cell: ({ row }) => (
-            <div className="flex items-center gap-2 font-medium">
-                {row.getValue("name")}
+            <div className="flex items-center gap-3">
+                <ExerciseThumbnail
+                    url={row.original.thumbnailUrl}
+                    alt={row.original.name}
+                />
+                <div className="font-medium">
+                    {row.getValue("name")}
+                    {!!row.original.aliases?.length && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                            aka {row.original.aliases.join(", ")}
+                        </div>
+                    )}
+                </div>
             </div>
         ),
         size: 400,
@@ -327,6 +390,52 @@ export const columns: ColumnDef<Exercise>[] = [
         ),
         size: 150,
     },
+    {
+        accessorKey: "equipment",
+        header: () => <div className="flex items-center gap-2">Equipment</div>,
+        cell: ({ row }) => <TagList tags={row.original.equipment} />,
+        enableSorting: false,
+        size: 180,
+    },
+    {
+        accessorKey: "primaryMuscles",
+        header: () => <div className="flex items-center gap-2">Muscles</div>,
+        cell: ({ row }) => (
+            <div className="space-y-1">
+                <TagList tags={row.original.primaryMuscles} />
+                {!!row.original.secondaryMuscles?.length && (
+                    <div className="text-xs text-muted-foreground">
+                        Also{" "}
+                        {row.original.secondaryMuscles
+                            .map((tag) => tag.name)
+                            .join(", ")}
+                    </div>
+                )}
+            </div>
+        ),
+        enableSorting: false,
+        size: 200,
+    },
+    {
+        accessorKey: "difficulty",
+        header: () => <div className="flex items-center gap-2">Difficulty</div>,
+        cell: ({ row }) => {
+            const { difficulty, movementPattern } = row.original;
+            return (
+                <div className="flex flex-col">
+                    <span className="font-medium">
+                        {difficulty ? DIFFICULTY_LABELS[difficulty] : "—"}
+                    </span>
+                    {movementPattern && (
+                        <span className="text-xs text-muted-foreground">
+                            {MOVEMENT_PATTERN_LABELS[movementPattern]}
+                        </span>
+                    )}
+                </div>
+            );
+        },
+        size: 130,
+    },
     {
         accessorKey: "status",
         header: () => (
@@ -0,0 +1,243 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowLeftRight, CopyX, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+    AlertDialog,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+    DuplicateExercisePair,
+    DuplicateExerciseSummary,
+    findDuplicateExercises,
+    mergeExercises,
+} from "@/actions/exercise_merge_actions";
+
+const pairKey = (pair: DuplicateExercisePair) =>
+    [pair.keep.exerciseId, pair.merge.exerciseId].sort().join(":");
+
+function ExerciseUsage({
+    exercise,
+    label,
+}: {
+    exercise: DuplicateExerciseSummary;
+    label: string;
+}) {
+    return (
+        <div className="min-w-0 flex-1">
+            <div className="text-xs uppercase text-muted-foreground">
+                {label}
+            </div>
+            <div className="font-medium truncate">
+                {exercise.exerciseName}
+                {exercise.approvedByAdmin && (
+                    <Badge variant="secondary" className="ml-2">
+                        Approved
+                    </Badge>
+                )}
+            </div>
+            <div className="text-xs text-muted-foreground">
+                {exercise.uploadedBy ?? "Unknown uploader"} ·{" "}
+                {exercise.planUses} plan row
+                {exercise.planUses === 1 ? "" : "s"} · {exercise.loggedSets}{" "}
+                logged
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Admin tool listing likely duplicate exercises. Merging repoints plans and
+ * logged history at the exercise kept instead of deleting the other one.
+ */
+export function DuplicateExercisesDialog() {
+    const queryClient = useQueryClient();
+    const [open, setOpen] = useState(false);
+    const [swapped, setSwapped] = useState<Set<string>>(new Set());
+    const [pending, setPending] = useState<DuplicateExercisePair | null>(null);
+
+    const { data, isLoading, refetch } = useQuery({
+        queryKey: ["duplicateExercises"],
+        queryFn: findDuplicateExercises,
+        enabled: open,
+        staleTime: 0,
+    });
+
+    const { mutate: merge, isPending: isMerging } = useMutation({
+        mutationFn: async (pair: DuplicateExercisePair) => {
+            const result = await mergeExercises(
+                pair.keep.exerciseId,
+                pair.merge.exerciseId
+            );
+            if (!result.success) throw new Error(result.message);
+            return result;
+        },
+        onSuccess: (result) => {
+            toast.success(result.message, {
+                description: `${result.plansUpdated} plan row${
+                    result.plansUpdated === 1 ? "" : "s"
+                } and ${result.setsRenamed} logged set${
+                    result.setsRenamed === 1 ? "" : "s"
+                } updated`,
+            });
+            setPending(null);
+            queryClient.invalidateQueries({ queryKey: ["tableData"] });
+            refetch();
+        },
+        onError: (error) => {
+            toast.error(
+                error instanceof Error
+                    ? error.message
+                    : "Failed to merge exercises"
+            );
+        },
+    });
+
+    const orient = (pair: DuplicateExercisePair): DuplicateExercisePair =>
+        swapped.has(pairKey(pair))
+            ? { ...pair, keep: pair.merge, merge: pair.keep }
+            : pair;
+
+    const toggleSwap = (pair: DuplicateExercisePair) =>
+        setSwapped((previous) => {
+            const next = new Set(previous);
+            const key = pairKey(pair);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="cursor-pointer">
+                    <CopyX className="h-4 w-4 mr-1" />
+                    Find Duplicates
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Duplicate Exercises</DialogTitle>
+                    <DialogDescription>
+                        Merging moves plans, logged history and aliases to the
+                        exercise you keep, then deletes the other one.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                    </div>
+                ) : data?.error ? (
+                    <p className="text-sm text-destructive">{data.error}</p>
+                ) : !data?.pairs.length ? (
+                    <p className="text-sm text-muted-foreground py-4">
+                        No likely duplicates found.
+                    </p>
+                ) : (
+                    <ul className="max-h-[60vh] overflow-y-auto rounded-md border divide-y text-sm">
+                        {data.pairs.map((original) => {
+                            const pair = orient(original);
+                            return (
+                                <li
+                                    key={pairKey(pair)}
+                                    className="px-3 py-3 space-y-2"
+                                >
+                                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                                        <span className="truncate">
+                                            {pair.matchedOn}
+                                        </span>
+                                        <span>
+                                            {Math.round(pair.score * 100)}%
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <ExerciseUsage
+                                            exercise={pair.keep}
+                                            label="Keep"
+                                        />
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            className="shrink-0 cursor-pointer"
+                                            title="Swap which exercise is kept"
+                                            onClick={() => toggleSwap(pair)}
+                                            disabled={isMerging}
+                                        >
+                                            <ArrowLeftRight className="h-4 w-4" />
+                                        </Button>
+                                        <ExerciseUsage
+                                            exercise={pair.merge}
+                                            label="Merge & delete"
+                                        />
+                                        <Button
+                                            type="button"
+                                            size="sm"
+                                            className="shrink-0 cursor-pointer"
+                                            onClick={() => setPending(pair)}
+                                            disabled={isMerging}
+                                        >
+                                            Merge
+                                        </Button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+
+                <AlertDialog
+                    open={!!pending}
+                    onOpenChange={(isOpen) => !isOpen && setPending(null)}
+                >
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>
+                                Merge exercises?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                                &ldquo;{pending?.merge.exerciseName}&rdquo; will
+                                be deleted and its plans, logged sets and
+                                aliases moved to &ldquo;
+                                {pending?.keep.exerciseName}&rdquo;. This cannot
+                                be undone.
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel disabled={isMerging}>
+                                Cancel
+                            </AlertDialogCancel>
+                            <Button
+                                onClick={() => pending && merge(pending)}
+                                disabled={isMerging}
+                            >
+                                {isMerging && (
+                                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                )}
+                                Merge
+                            </Button>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
+            </DialogContent>
+        </Dialog>
+    );
+}
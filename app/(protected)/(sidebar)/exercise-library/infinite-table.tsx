@@ -27,6 +27,11 @@ import {
     bulkUpdateExerciseStatus,
     bulkDeleteExercises,
 } from "@/actions/exercise_actions";
+import { ExerciseFacetFilters } from "@/components/exercise-taxonomy/exercise-facet-filters";
+import {
+    ExerciseFacetSelection,
+    isExerciseFacet,
+} from "@/lib/exercise-taxonomy";
 
 interface InfiniteTableProps {
     fetchDataFn: (params: any) => Promise<any>;
@@ -171,6 +176,16 @@ export function InfiniteTable({
         urlParams,
     } = useTableActions();
 
+    const facetSelection = React.useMemo(
+        () =>
+            Object.fromEntries(
+                columnFilters
+                    .filter((f) => isExerciseFacet(f.id))
+                    .map((f) => [f.id, [f.value].flat() as string[]])
+            ) as ExerciseFacetSelection,
+        [columnFilters]
+    );
+
     // Use React Query for data fetching with infinite scroll
     const { data, fetchNextPage, isFetchingNextPage, isLoading } =
         useInfiniteQuery<ExerciseResponse>({
@@ -338,7 +353,10 @@ export function InfiniteTable({
                         }
                         handleColumnFiltersChange(newFilters);
                     } else {
-                        handleColumnFiltersChange([]);
+                        // Clearing the column filter leaves the facets alone
+                        handleColumnFiltersChange(
+                            columnFilters.filter((f) => isExerciseFacet(f.id))
+                        );
                     }
                 }}
                 onApplyClick={() => {
@@ -479,6 +497,19 @@ export function InfiniteTable({
                 ]}
             />
 
+            <ExerciseFacetFilters
+                facets={tableOperations.facetColumns.map((facet) => facet.id)}
+                value={facetSelection}
+                onChange={(selection) =>
+                    handleColumnFiltersChange([
+                        ...columnFilters.filter((f) => !isExerciseFacet(f.id)),
+                        ...Object.entries(selection)
+                            .filter(([, values]) => values?.length)
+                            .map(([id, values]) => ({ id, value: values })),
+                    ])
+                }
+            />
+
             <div className="flex items-center text-sm text-muted-foreground">
                 ({flatData.length} of {totalRowCount} rows fetched)
             </div>
@@ -8,9 +8,10 @@ import { Suspense } from "react";
 import { InfiniteTable } from "./infinite-table";
 import { getAllExercises } from "@/actions/exercise_actions";
 import { columns } from "./columns";
+import { DuplicateExercisesDialog } from "./duplicate-exercises-dialog";
 
 export default async function ExerciseLibraryPage() {
-  await checkGuestApproval();
+  const user = await checkGuestApproval();
 
   const session = (await cookies()).get(MOVEMENT_SESSION_NAME)?.value || null;
 
@@ -27,7 +28,10 @@ export default async function ExerciseLibraryPage() {
 
   return (
     <div className="container mx-auto py-2 md:py-6 w-[calc(100vw-20rem)]">
-      <h1 className="text-2xl font-bold mb-6">Exercises</h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Exercises</h1>
+        {user.roles?.includes("Admin") && <DuplicateExercisesDialog />}
+      </div>
 
       <Suspense fallback={<TableSkeleton />}>
         <InfiniteTable
@@ -0,0 +1,24 @@
+import { checkGuestApproval } from "@/lib/auth-utils";
+import { redirect } from "next/navigation";
+import { ExerciseReviewQueue } from "./review-queue";
+
+export default async function ExerciseReviewPage({
+    searchParams,
+}: {
+    searchParams: Promise<{ id?: string }>;
+}) {
+    const user = await checkGuestApproval();
+
+    if (!user.roles?.includes("Admin")) {
+        redirect("/exercise-library");
+    }
+
+    const { id } = await searchParams;
+
+    return (
+        <div className="container mx-auto py-2 md:py-6 w-[calc(100vw-20rem)]">
+            <h1 className="text-2xl font-bold mb-6">Exercise Review Queue</h1>
+            <ExerciseReviewQueue initialExerciseId={id} />
+        </div>
+    );
+}
@@ -0,0 +1,330 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Check, Loader2, MessageSquareWarning, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cn } from "@/lib/utils";
+import type { ExerciseReviewStatus } from "@/db/schemas";
+import {
+    ExerciseReviewQueueItem,
+    getExerciseReviewHistory,
+    getExerciseReviewQueue,
+    reviewExercises,
+} from "@/actions/exercise_review_actions";
+import {
+    REVIEW_STATUS_LABELS,
+    ReviewStatusBadge,
+} from "@/components/exercise-review/review-status-badge";
+import { ExerciseVideoPreview } from "@/components/exercise-media/exercise-video-preview";
+
+const QUEUE_FILTERS: Record<string, ExerciseReviewStatus[]> = {
+    open: ["pending", "changes-requested"],
+    rejected: ["rejected"],
+    approved: ["approved"],
+};
+
+function ReviewHistory({ exerciseId }: { exerciseId: string }) {
+    const { data: history = [], isLoading } = useQuery({
+        queryKey: ["exerciseReviewHistory", exerciseId],
+        queryFn: () => getExerciseReviewHistory(exerciseId),
+    });
+
+    if (isLoading) {
+        return <Loader2 className="h-4 w-4 animate-spin" />;
+    }
+    if (!history.length) {
+        return (
+            <p className="text-sm text-muted-foreground">
+                No review decisions yet.
+            </p>
+        );
+    }
+
+    return (
+        <ul className="space-y-2 text-sm">
+            {history.map((entry) => (
+                <li key={entry.reviewId} className="border-l-2 pl-3">
+                    <div>
+                        <span className="font-medium">
+                            {entry.changedBy ?? "Deleted user"}
+                        </span>{" "}
+                        {entry.fromStatus
+                            ? `${REVIEW_STATUS_LABELS[entry.fromStatus]} → `
+                            : ""}
+                        {REVIEW_STATUS_LABELS[entry.toStatus]}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                        {format(new Date(entry.createdAt), "d MMM yyyy, HH:mm")}
+                    </div>
+                    {entry.comment && (
+                        <p className="mt-1 whitespace-pre-wrap">
+                            {entry.comment}
+                        </p>
+                    )}
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+function ReviewPanel({ exercise }: { exercise: ExerciseReviewQueueItem }) {
+    const queryClient = useQueryClient();
+    const [comment, setComment] = useState("");
+
+    const { mutate: review, isPending } = useMutation({
+        mutationFn: async (status: ExerciseReviewStatus) => {
+            const result = await reviewExercises(
+                [exercise.exerciseId],
+                status,
+                comment
+            );
+            if (!result.success) throw new Error(result.message);
+            return result;
+        },
+        onSuccess: (result) => {
+            toast.success(result.message);
+            setComment("");
+            queryClient.invalidateQueries({
+                queryKey: ["exerciseReviewQueue"],
+            });
+            queryClient.invalidateQueries({
+                queryKey: ["exerciseReviewHistory", exercise.exerciseId],
+            });
+            queryClient.invalidateQueries({ queryKey: ["tableData"] });
+        },
+        onError: (error) => {
+            toast.error(
+                error instanceof Error
+                    ? error.message
+                    : "Failed to review exercise"
+            );
+        },
+    });
+
+    const similar = exercise.similarApproved;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-xl font-semibold">
+                        {exercise.exerciseName}
+                    </h2>
+                    <p className="text-sm text-muted-foreground">
+                        Uploaded by {exercise.uploadedBy ?? "unknown"} on{" "}
+                        {format(new Date(exercise.uploadDate), "d MMM yyyy")}
+                    </p>
+                </div>
+                <ReviewStatusBadge status={exercise.reviewStatus} />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                    <div className="text-sm font-medium">Submitted</div>
+                    <ExerciseVideoPreview
+                        url={exercise.videoUrl}
+                        title={exercise.exerciseName}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <div className="text-sm font-medium">
+                        {similar ? (
+                            <>
+                                Closest in library:{" "}
+                                <Link
+                                    href={`/exercise?id=${similar.exerciseId}`}
+                                    className="underline"
+                                    prefetch={false}
+                                >
+                                    {similar.exerciseName}
+                                </Link>{" "}
+                                <span className="text-muted-foreground">
+                                    ({Math.round(similar.score * 100)}% name
+                                    match)
+                                </span>
+                            </>
+                        ) : (
+                            "No similar approved exercise"
+                        )}
+                    </div>
+                    {similar && (
+                        <ExerciseVideoPreview
+                            url={similar.videoUrl}
+                            title={similar.exerciseName}
+                        />
+                    )}
+                </div>
+            </div>
+
+            <dl className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                    <dt className="text-muted-foreground">Motion</dt>
+                    <dd>{exercise.motion || "—"}</dd>
+                </div>
+                <div>
+                    <dt className="text-muted-foreground">Target Area</dt>
+                    <dd>{exercise.targetArea || "—"}</dd>
+                </div>
+                <div>
+                    <dt className="text-muted-foreground">Movement Type</dt>
+                    <dd className="capitalize">
+                        {exercise.movementType || "—"}
+                    </dd>
+                </div>
+                {exercise.description && (
+                    <div className="col-span-3">
+                        <dt className="text-muted-foreground">Description</dt>
+                        <dd className="whitespace-pre-wrap">
+                            {exercise.description}
+                        </dd>
+                    </div>
+                )}
+            </dl>
+
+            <div className="space-y-2">
+                <Label htmlFor="review-comment">Comment for the uploader</Label>
+                <Textarea
+                    id="review-comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="Required when rejecting or requesting changes"
+                    rows={3}
+                />
+                <div className="flex flex-wrap gap-2">
+                    <Button
+                        onClick={() => review("approved")}
+                        disabled={isPending}
+                        className="cursor-pointer"
+                    >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                    </Button>
+                    <Button
+                        variant="outline"
+                        onClick={() => review("changes-requested")}
+                        disabled={isPending || !comment.trim()}
+                        className="cursor-pointer"
+                    >
+                        <MessageSquareWarning className="h-4 w-4 mr-1" />
+                        Request Changes
+                    </Button>
+                    <Button
+                        variant="destructive"
+                        onClick={() => review("rejected")}
+                        disabled={isPending || !comment.trim()}
+                        className="cursor-pointer"
+                    >
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                    </Button>
+                    {isPending && (
+                        <Loader2 className="h-5 w-5 self-center animate-spin" />
+                    )}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <h3 className="text-sm font-medium">Review History</h3>
+                <ReviewHistory exerciseId={exercise.exerciseId} />
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Admin review queue: exercises on the left, the selected one with its
+ * video, the closest approved exercise and the review controls on the right
+ */
+export function ExerciseReviewQueue({
+    initialExerciseId,
+}: {
+    initialExerciseId?: string;
+}) {
+    const [filter, setFilter] = useState("open");
+    const [selectedId, setSelectedId] = useState(initialExerciseId);
+
+    const { data, isLoading } = useQuery({
+        queryKey: ["exerciseReviewQueue", filter],
+        queryFn: () => getExerciseReviewQueue(QUEUE_FILTERS[filter]),
+    });
+    const exercises = data?.exercises ?? [];
+    const selected =
+        exercises.find((exercise) => exercise.exerciseId === selectedId) ??
+        exercises[0];
+
+    return (
+        <div className="grid gap-6 md:grid-cols-[20rem_1fr]">
+            <div className="space-y-3">
+                <Tabs value={filter} onValueChange={setFilter}>
+                    <TabsList className="w-full">
+                        <TabsTrigger value="open">Open</TabsTrigger>
+                        <TabsTrigger value="rejected">Rejected</TabsTrigger>
+                        <TabsTrigger value="approved">Approved</TabsTrigger>
+                    </TabsList>
+                </Tabs>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                    </div>
+                ) : data?.error ? (
+                    <p className="text-sm text-destructive">{data.error}</p>
+                ) : !exercises.length ? (
+                    <p className="text-sm text-muted-foreground py-4">
+                        Nothing to review.
+                    </p>
+                ) : (
+                    <ul className="max-h-[70vh] overflow-y-auto rounded-md border divide-y text-sm">
+                        {exercises.map((exercise) => (
+                            <li key={exercise.exerciseId}>
+                                <button
+                                    type="button"
+                                    onClick={() =>
+                                        setSelectedId(exercise.exerciseId)
+                                    }
+                                    className={cn(
+                                        "w-full text-left px-3 py-2 space-y-1 hover:bg-muted cursor-pointer",
+                                        selected?.exerciseId ===
+                                            exercise.exerciseId && "bg-muted"
+                                    )}
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-medium truncate">
+                                            {exercise.exerciseName}
+                                        </span>
+                                        <ReviewStatusBadge
+                                            status={exercise.reviewStatus}
+                                        />
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                        {exercise.uploadedBy ?? "Unknown"} ·{" "}
+                                        {format(
+                                            new Date(exercise.uploadDate),
+                                            "d MMM yyyy"
+                                        )}
+                                    </div>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div>
+                {selected && (
+                    <ReviewPanel
+                        key={selected.exerciseId}
+                        exercise={selected}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
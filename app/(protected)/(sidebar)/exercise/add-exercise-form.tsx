@@ -7,7 +7,24 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { SelectExercise } from "@/db/schemas";
+import {
+  DifficultyLevel,
+  MovementPattern,
+  SelectExercise,
+  SelectExerciseWithAliases,
+} from "@/db/schemas";
+import { Badge } from "@/components/ui/badge";
+import { MessageSquareWarning, X } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ReviewStatusBadge } from "@/components/exercise-review/review-status-badge";
+import { ExerciseMediaField } from "@/components/exercise-media/exercise-media-field";
+import { TaxonomyMultiSelect } from "@/components/exercise-taxonomy/taxonomy-multi-select";
+import { useExerciseTaxonomy } from "@/components/exercise-taxonomy/exercise-facet-filters";
+import {
+  DIFFICULTY_LABELS,
+  MOVEMENT_PATTERN_LABELS,
+  getFacetOptions,
+} from "@/lib/exercise-taxonomy";
 import {
   Select,
   SelectContent,
@@ -77,9 +94,9 @@ export default function AddExerciseForm({
   userId,
   existingExercise,
 }: {
-  exercises: SelectExercise[];
+  exercises: SelectExerciseWithAliases[];
   userId: string;
-  existingExercise?: SelectExercise | null;
+  existingExercise?: SelectExerciseWithAliases | null;
 }) {
   const router = useRouter();
   const queryClient = useQueryClient();
@@ -104,13 +121,46 @@ export default function AddExerciseForm({
     exerciseName: existingExercise?.exerciseName || "",
     description: existingExercise?.description || "",
     videoUrl: existingExercise?.videoUrl || "",
+    imageUrl: existingExercise?.imageUrl || "",
+    thumbnailUrl: existingExercise?.thumbnailUrl || "",
     motion: existingExercise?.motion || "",
     targetArea: existingExercise?.targetArea || "",
     movementType:
       existingExercise?.movementType ||
       ("" as "bilateral" | "unilateral" | "compound" | "isolation"),
     timeMultiplier: existingExercise?.timeMultiplier || 1.0,
+    aliases: existingExercise?.aliases ?? [],
+    difficulty:
+      existingExercise?.difficulty ?? (null as DifficultyLevel | null),
+    movementPattern:
+      existingExercise?.movementPattern ?? (null as MovementPattern | null),
+    equipmentIds: existingExercise?.equipment?.map((tag) => tag.id) ?? [],
+    primaryMuscleIds:
+      existingExercise?.primaryMuscles?.map((tag) => tag.id) ?? [],
+    secondaryMuscleIds:
+      existingExercise?.secondaryMuscles?.map((tag) => tag.id) ?? [],
   });
+  const { data: taxonomy } = useExerciseTaxonomy();
+  const [aliasInput, setAliasInput] = useState("");
+
+  const addAlias = () => {
+    const alias = aliasInput.trim();
+    if (!alias) return;
+    setFormData((prev) =>
+      prev.aliases.some((a) => a.toLowerCase() === alias.toLowerCase()) ||
+      alias.toLowerCase() === prev.exerciseName.trim().toLowerCase()
+        ? prev
+        : { ...prev, aliases: [...prev.aliases, alias] }
+    );
+    setAliasInput("");
+  };
+
+  const removeAlias = (alias: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      aliases: prev.aliases.filter((a) => a !== alias),
+    }));
+  };
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -119,6 +169,8 @@ export default function AddExerciseForm({
     setFormData((prev) => ({
       ...prev,
       [name]: value,
+      // A thumbnail without an image came from the video being replaced
+      ...(name === "videoUrl" && !prev.imageUrl && { thumbnailUrl: "" }),
     }));
   };
   const handleSelectChange = (name: string, value: string) => {
@@ -271,22 +323,20 @@ export default function AddExerciseForm({
         return;
       }
 
-      // Check for duplicates in recent exercises
-      const duplicates = exercisesToCreate
-        .filter((newEx) =>
-          exercises.some(
-            (ex) =>
-              ex.exerciseName.toLowerCase() === newEx.exerciseName.toLowerCase()
+      // Check for duplicates in recent exercises, by name or alias
+      const existingNames = new Set(
+        exercises.flatMap((ex) =>
+          [ex.exerciseName, ...(ex.aliases ?? [])].map((name) =>
+            name.toLowerCase()
           )
         )
+      );
+      const duplicates = exercisesToCreate
+        .filter((newEx) => existingNames.has(newEx.exerciseName.toLowerCase()))
         .map((ex) => ex.exerciseName);
 
       const uniqueExercises = exercisesToCreate.filter(
-        (newEx) =>
-          !exercises.some(
-            (ex) =>
-              ex.exerciseName.toLowerCase() === newEx.exerciseName.toLowerCase()
-          )
+        (newEx) => !existingNames.has(newEx.exerciseName.toLowerCase())
       );
 
       if (uniqueExercises.length > 0) {
@@ -339,11 +389,28 @@ export default function AddExerciseForm({
     <div className="container mx-auto py-6">
       <Card>
         <CardHeader>
-          <CardTitle>
+          <CardTitle className="flex items-center gap-2">
             {existingExercise ? "Edit Exercise" : "Add New Exercise"}
+            {existingExercise && (
+              <ReviewStatusBadge status={existingExercise.reviewStatus} />
+            )}
           </CardTitle>
         </CardHeader>
         <CardContent>
+          {existingExercise?.reviewComment &&
+            (existingExercise.reviewStatus === "rejected" ||
+              existingExercise.reviewStatus === "changes-requested") && (
+              <Alert className="mb-6">
+                <MessageSquareWarning className="h-4 w-4" />
+                <AlertTitle>Reviewer comment</AlertTitle>
+                <AlertDescription>
+                  <p className="whitespace-pre-wrap">
+                    {existingExercise.reviewComment}
+                  </p>
+                  <p>Saving your changes sends the exercise back for review.</p>
+                </AlertDescription>
+              </Alert>
+            )}
           <form onSubmit={handleSubmit} className="space-y-6">
             <div className="space-y-2">
               <Label htmlFor="exerciseName">Exercise Name</Label>
@@ -357,6 +424,54 @@ export default function AddExerciseForm({
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="alias">Also Known As</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="alias"
+                  value={aliasInput}
+                  onChange={(e) => setAliasInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addAlias();
+                    }
+                  }}
+                  placeholder='Other names, e.g. "RDL" or "Romanian DL"'
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="cursor-pointer"
+                  onClick={addAlias}
+                  disabled={!aliasInput.trim()}
+                >
+                  Add
+                </Button>
+              </div>
+              {formData.aliases.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {formData.aliases.map((alias) => (
+                    <Badge key={alias} variant="secondary" className="gap-1">
+                      {alias}
+                      <button
+                        type="button"
+                        onClick={() => removeAlias(alias)}
+                        className="cursor-pointer rounded-full hover:text-destructive"
+                        aria-label={`Remove ${alias}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Search, the workout planner and plan imports also find this
+                exercise by these names.
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="description">Description</Label>
               <Textarea
@@ -459,6 +574,127 @@ export default function AddExerciseForm({
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Equipment</Label>
+                <TaxonomyMultiSelect
+                  placeholder="Select equipment"
+                  options={getFacetOptions("equipment", taxonomy)}
+                  value={formData.equipmentIds}
+                  onChange={(equipmentIds) =>
+                    setFormData((prev) => ({ ...prev, equipmentIds }))
+                  }
+                  className="w-full"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="difficulty">Difficulty</Label>
+                <Select
+                  value={formData.difficulty ?? "none"}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      difficulty:
+                        value === "none" ? null : (value as DifficultyLevel),
+                    }))
+                  }
+                >
+                  <SelectTrigger id="difficulty" className="w-full">
+                    <SelectValue placeholder="Select difficulty" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not set</SelectItem>
+                    {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Primary Muscles</Label>
+                <TaxonomyMultiSelect
+                  placeholder="Select primary muscles"
+                  options={getFacetOptions("primaryMuscle", taxonomy)}
+                  value={formData.primaryMuscleIds}
+                  onChange={(primaryMuscleIds) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      primaryMuscleIds,
+                      // A muscle is either primary or secondary
+                      secondaryMuscleIds: prev.secondaryMuscleIds.filter(
+                        (id) => !primaryMuscleIds.includes(id)
+                      ),
+                    }))
+                  }
+                  className="w-full"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Secondary Muscles</Label>
+                <TaxonomyMultiSelect
+                  placeholder="Select secondary muscles"
+                  options={getFacetOptions("secondaryMuscle", taxonomy).filter(
+                    (option) =>
+                      !formData.primaryMuscleIds.includes(option.value)
+                  )}
+                  value={formData.secondaryMuscleIds}
+                  onChange={(secondaryMuscleIds) =>
+                    setFormData((prev) => ({ ...prev, secondaryMuscleIds }))
+                  }
+                  className="w-full"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="movementPattern">Movement Pattern</Label>
+                <Select
+                  value={formData.movementPattern ?? "none"}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      movementPattern:
+                        value === "none" ? null : (value as MovementPattern),
+                    }))
+                  }
+                >
+                  <SelectTrigger id="movementPattern" className="w-full">
+                    <SelectValue placeholder="Select movement pattern" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not set</SelectItem>
+                    {Object.entries(MOVEMENT_PATTERN_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Demo Media</Label>
+              <ExerciseMediaField
+                value={formData}
+                title={formData.exerciseName || "Exercise demo"}
+                onChange={(media) =>
+                  setFormData((prev) => ({ ...prev, ...media }))
+                }
+                disabled={isLoading}
+              />
+            </div>
+
             <div className="flex justify-end space-x-4">
               <Button
                 type="button"
@@ -0,0 +1,54 @@
+/**
+ * Calendar Feed API
+ *
+ * Serves a client's or coach's workouts as an iCalendar subscription.
+ * Calendar apps can't log in, so the secret token in the URL is the only
+ * credential; regenerating it from the calendar tab revokes old links.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+    buildClientCalendarFeed,
+    buildCoachCalendarFeed,
+    resolveCalendarFeedToken,
+} from "@/lib/calendar-feed";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    // Accept both /api/calendar/<token> and /api/calendar/<token>.ics
+    const token = (await params).token.replace(/\.ics$/, "");
+
+    try {
+        const feed = await resolveCalendarFeedToken(token);
+        if (!feed) {
+            return NextResponse.json(
+                { error: "Calendar feed not found" },
+                { status: 404 }
+            );
+        }
+
+        const body =
+            feed.feedType === "coach"
+                ? await buildCoachCalendarFeed(feed.userId, feed.fullName)
+                : await buildClientCalendarFeed(feed.userId, feed.fullName);
+
+        return new NextResponse(body, {
+            status: 200,
+            headers: {
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Content-Disposition": 'inline; filename="workouts.ics"',
+                "Cache-Control": "private, max-age=900",
+            },
+        });
+    } catch (error) {
+        console.error("Error building calendar feed:", error);
+        return NextResponse.json(
+            { error: "Failed to build calendar feed" },
+            { status: 500 }
+        );
+    }
+}
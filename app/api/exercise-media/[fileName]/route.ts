@@ -0,0 +1,75 @@
+/**
+ * Local Exercise Media API
+ *
+ * Serves files saved by the development stand-in for exercise media
+ * storage. Honours Range requests so uploaded videos can be scrubbed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import path from "path";
+import { readLocalExerciseMedia } from "@/lib/exercise-media-storage";
+
+export const dynamic = "force-dynamic";
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".mp4": "video/mp4",
+    ".webm": "video/webm",
+    ".mov": "video/quicktime",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".png": "image/png",
+    ".webp": "image/webp",
+    ".gif": "image/gif",
+};
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ fileName: string }> }
+) {
+    const { fileName } = await params;
+    const media = await readLocalExerciseMedia(fileName);
+    if (!media) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const headers: Record<string, string> = {
+        "Content-Type":
+            CONTENT_TYPES[path.extname(fileName).toLowerCase()] ||
+            "application/octet-stream",
+        "Accept-Ranges": "bytes",
+        "Cache-Control": "private, max-age=86400",
+    };
+
+    const range = request.headers.get("range")?.match(/^bytes=(\d*)-(\d*)$/);
+    if (range && (range[1] || range[2])) {
+        // "bytes=-500" asks for the last 500 bytes
+        const start = range[1]
+            ? Number(range[1])
+            : Math.max(media.size - Number(range[2]), 0);
+        const end =
+            range[1] && range[2]
+                ? Math.min(Number(range[2]), media.size - 1)
+                : media.size - 1;
+        if (start > end) {
+            return new NextResponse(null, {
+                status: 416,
+                headers: { "Content-Range": `bytes */${media.size}` },
+            });
+        }
+        return new NextResponse(
+            new Uint8Array(media.data.subarray(start, end + 1)),
+            {
+                status: 206,
+                headers: {
+                    ...headers,
+                    "Content-Range": `bytes ${start}-${end}/${media.size}`,
+                    "Content-Length": String(end - start + 1),
+                },
+            }
+        );
+    }
+
+    return new NextResponse(new Uint8Array(media.data), {
+        headers: { ...headers, "Content-Length": String(media.size) },
+    });
+}
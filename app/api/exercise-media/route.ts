@@ -0,0 +1,121 @@
+/**
+ * Exercise Media Upload API
+ *
+ * Stores a demo video or image for a library exercise and returns its URL
+ * with a thumbnail. Images are thumbnailed here; for videos the browser
+ * sends a captured frame as `thumbnail`, since the server has no decoder.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import sharp from "sharp";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import { getExerciseMediaStorage } from "@/lib/exercise-media-storage";
+import {
+    EXERCISE_IMAGE_TYPES,
+    EXERCISE_THUMBNAIL_HEIGHT,
+    EXERCISE_THUMBNAIL_WIDTH,
+    ExerciseMediaUpload,
+    validateExerciseMedia,
+} from "@/lib/exercise-media";
+
+export const dynamic = "force-dynamic";
+
+const baseName = (file: File) => file.name.replace(/\.[^.]*$/, "") || "media";
+
+async function toThumbnail(source: Blob, name: string): Promise<File> {
+    const thumbnail = await sharp(Buffer.from(await source.arrayBuffer()))
+        .resize(EXERCISE_THUMBNAIL_WIDTH, EXERCISE_THUMBNAIL_HEIGHT, {
+            fit: "cover",
+        })
+        .webp({ quality: 75 })
+        .toBuffer();
+    return new File([new Uint8Array(thumbnail)], `${name}-thumb.webp`, {
+        type: "image/webp",
+    });
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        await requireTrainerOrAdmin(true);
+    } catch {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let formData: FormData;
+    try {
+        formData = await request.formData();
+    } catch {
+        return NextResponse.json(
+            { error: "Expected a multipart form upload" },
+            { status: 400 }
+        );
+    }
+    const file = formData.get("file");
+    const frame = formData.get("thumbnail");
+    if (!(file instanceof File)) {
+        return NextResponse.json(
+            { error: "No file provided" },
+            { status: 400 }
+        );
+    }
+
+    const invalid = validateExerciseMedia(file);
+    if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    try {
+        const storage = getExerciseMediaStorage();
+        const isImage = EXERCISE_IMAGE_TYPES.includes(file.type);
+        const name = baseName(file);
+
+        // Animated GIFs are kept as they are; other images become WebP
+        const stored =
+            isImage && file.type !== "image/gif"
+                ? new File(
+                      [
+                          new Uint8Array(
+                              await sharp(Buffer.from(await file.arrayBuffer()))
+                                  .rotate()
+                                  .resize({
+                                      width: 1280,
+                                      withoutEnlargement: true,
+                                  })
+                                  .webp({ quality: 80 })
+                                  .toBuffer()
+                          ),
+                      ],
+                      `${name}.webp`,
+                      { type: "image/webp" }
+                  )
+                : file;
+
+        const thumbnailSource = isImage
+            ? file
+            : frame instanceof Blob && frame.size
+            ? frame
+            : null;
+
+        const [url, thumbnailUrl] = await Promise.all([
+            storage.save(stored),
+            thumbnailSource
+                ? toThumbnail(thumbnailSource, name).then((thumbnail) =>
+                      storage.save(thumbnail)
+                  )
+                : null,
+        ]);
+
+        const upload: ExerciseMediaUpload = {
+            kind: isImage ? "image" : "video",
+            url,
+            thumbnailUrl,
+        };
+        return NextResponse.json(upload);
+    } catch (error) {
+        console.error("Error uploading exercise media:", error);
+        return NextResponse.json(
+            { error: "Failed to upload exercise media" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * Workout Booklet API
+ *
+ * Serves a client's workout plan as a printable PDF program booklet.
+ * Pass ?planId= to print a plan other than the client's active one.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireTrainerOrAdmin } from "@/lib/auth-utils";
+import { buildWorkoutBooklet } from "@/lib/workout-booklet";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ clientId: string }> }
+) {
+    const { clientId } = await params;
+    const planId = request.nextUrl.searchParams.get("planId") || undefined;
+
+    try {
+        await requireTrainerOrAdmin(true);
+    } catch {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const booklet = await buildWorkoutBooklet(clientId, planId);
+        if (!booklet) {
+            return NextResponse.json(
+                { error: "Workout plan not found" },
+                { status: 404 }
+            );
+        }
+
+        return new NextResponse(Buffer.from(booklet), {
+            status: 200,
+            headers: {
+                "Content-Type": "application/pdf",
+                "Content-Disposition": 'inline; filename="workout-program.pdf"',
+                "Cache-Control": "private, no-store",
+            },
+        });
+    } catch (error) {
+        console.error("Error building workout booklet:", error);
+        return NextResponse.json(
+            { error: "Failed to build workout booklet" },
+            { status: 500 }
+        );
+    }
+}
@@ -15,6 +15,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { logout } from "@/actions/auth_actions";
+import { clearRecordWorkoutCache } from "@/hooks/use-offline-workout";
 import { Loader2, LogOut } from "lucide-react";
 
 export function LogoutButton({
@@ -31,6 +32,9 @@ export function LogoutButton({
 
         setIsLoading(true);
         try {
+            await clearRecordWorkoutCache().catch((error) =>
+                console.error("Failed to clear offline workouts:", error)
+            );
             const redirectPath = await logout();
             // Use window.location instead of router.push for more reliable logout
             window.location.href = redirectPath;
@@ -3,6 +3,7 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 
 import GoalList from "@/components/goals/goal-list";
 import BodyMassComposition from "@/components/body-mass-composition/body-mass-composition";
+import PersonalRecordsList from "@/components/personal-records/personal-records-list";
 import WorkoutHistoryList from "../workout-history/workout-history-list";
 // import WorkoutPlanTable from "@/components/workout-planning/workout-plan-table";
 import WorkoutPlanner from "@/components/workout-planning/workout-plan";
@@ -11,14 +12,21 @@ import { get_logged_in_user } from "@/actions/logged_in_user_actions";
 import { getAllExercisesForWorkoutPlanning } from "@/actions/exercise_actions";
 import { redirect } from "next/navigation";
 import { getWorkoutPlanByClientId } from "@/actions/workout_client_actions";
-import { WorkoutPlanResponse } from "@/types/workout-plan-types";
+import { getClientWorkoutPlans } from "@/actions/workout_client_plan_actions";
+import WorkoutPlanSelector from "@/components/workout-planning/UI-components/workout-plan-selector";
+import { ClientCalendar } from "@/components/workout-calendar/client-calendar";
 
 type ClientDetailsProps = {
     client_id: string;
     userdata: ClientType;
+    plan_id?: string; // Plan chosen in the plan selector (defaults to the latest active plan)
 };
 
-const ClientDetails = async ({ client_id, userdata }: ClientDetailsProps) => {
+const ClientDetails = async ({
+    client_id,
+    userdata,
+    plan_id,
+}: ClientDetailsProps) => {
     const logged_in_user = await get_logged_in_user();
 
     if (!logged_in_user) {
@@ -27,7 +35,11 @@ const ClientDetails = async ({ client_id, userdata }: ClientDetailsProps) => {
 
     // Fetch exercises for the workout planner
     const exercises = await getAllExercisesForWorkoutPlanning();
-    const workoutPlan: [] | WorkoutPlanResponse = await getWorkoutPlanByClientId(client_id);
+    const [workoutPlan, clientPlans] = await Promise.all([
+        getWorkoutPlanByClientId(client_id, plan_id),
+        getClientWorkoutPlans(client_id),
+    ]);
+    const selectedPlanId = "planId" in workoutPlan ? workoutPlan.planId : null;
 
     return (
         <div className="w-full max-w-full px-4 sm:px-6 lg:px-8 h-full">
@@ -35,7 +47,7 @@ const ClientDetails = async ({ client_id, userdata }: ClientDetailsProps) => {
                 defaultValue="workout-planner"
                 className="w-full h-full flex flex-col"
             >
-                <TabsList className="flex w-full space-x-2 overflow-x-auto sm:grid sm:grid-cols-4">
+                <TabsList className="flex w-full space-x-2 overflow-x-auto sm:grid sm:grid-cols-6">
                     <TabsTrigger
                         className="flex-shrink-0 whitespace-nowrap"
                         value="workout-history"
@@ -55,12 +67,24 @@ const ClientDetails = async ({ client_id, userdata }: ClientDetailsProps) => {
                     >
                         Workout Planner
                     </TabsTrigger>
+                    <TabsTrigger
+                        className="flex-shrink-0 whitespace-nowrap"
+                        value="calendar"
+                    >
+                        Calendar
+                    </TabsTrigger>
                     <TabsTrigger
                         className="flex-shrink-0 whitespace-nowrap"
                         value="goal-list"
                     >
                         Goal List
                     </TabsTrigger>
+                    <TabsTrigger
+                        className="flex-shrink-0 whitespace-nowrap"
+                        value="personal-records"
+                    >
+                        Personal Records
+                    </TabsTrigger>
                     <TabsTrigger
                         className="flex-shrink-0 whitespace-nowrap"
                         value="body-mass-composition"
@@ -85,18 +109,33 @@ const ClientDetails = async ({ client_id, userdata }: ClientDetailsProps) => {
                 </TabsContent> */}
                 <TabsContent
                     value="workout-planner"
-                    className="flex-1 overflow-hidden"
+                    className="flex-1 overflow-hidden flex flex-col gap-2"
                 >
+                    <WorkoutPlanSelector
+                        clientId={client_id}
+                        plans={clientPlans}
+                        selectedPlanId={selectedPlanId}
+                    />
                     <WorkoutPlanner
+                        key={selectedPlanId ?? "new-plan"}
                         client_id={client_id}
                         exercises={exercises}
                         trainer_id={logged_in_user.userId}
                         workoutPlan={workoutPlan}
                     />
                 </TabsContent>
+                <TabsContent value="calendar" className="flex-1 overflow-auto">
+                    <ClientCalendar clientId={client_id} />
+                </TabsContent>
                 <TabsContent value="goal-list">
                     <GoalList client_id={client_id} userdata={userdata} />
                 </TabsContent>
+                <TabsContent
+                    value="personal-records"
+                    className="flex-1 overflow-auto"
+                >
+                    <PersonalRecordsList client_id={client_id} />
+                </TabsContent>
                 <TabsContent value="body-mass-composition">
                     <BodyMassComposition client_id={client_id} />
                 </TabsContent>
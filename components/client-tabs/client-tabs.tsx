@@ -14,11 +14,11 @@ export type ClientType = {
 };
 
 type ClientTabsProps = {
-    params: { userdata: ClientType };
+    params: { userdata: ClientType; planId?: string };
 };
 
 const ClientTabs = ({ params }: ClientTabsProps) => {
-    const { userdata } = params;
+    const { userdata, planId } = params;
 
     return (
         <div className="flex flex-col items-center justify-between w-full h-full">
@@ -26,6 +26,7 @@ const ClientTabs = ({ params }: ClientTabsProps) => {
                 <ClientDetails
                     client_id={userdata.userId}
                     userdata={userdata}
+                    plan_id={planId}
                 />
             </div>
         </div>
@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    EXERCISE_IMAGE_TYPES,
+    EXERCISE_VIDEO_TYPES,
+    ExerciseMediaUpload,
+    validateExerciseMedia,
+} from "@/lib/exercise-media";
+import { ExerciseVideoPreview } from "./exercise-video-preview";
+
+export interface ExerciseMediaValue {
+    videoUrl: string;
+    imageUrl: string;
+    thumbnailUrl: string;
+}
+
+/**
+ * Grabs a frame about a second into a video for its thumbnail; null when
+ * the browser can't decode the file
+ */
+async function captureVideoFrame(file: File): Promise<Blob | null> {
+    const objectUrl = URL.createObjectURL(file);
+    try {
+        const video = document.createElement("video");
+        video.muted = true;
+        video.playsInline = true;
+        video.preload = "auto";
+        video.src = objectUrl;
+        await new Promise((resolve, reject) => {
+            video.onloadeddata = resolve;
+            video.onerror = reject;
+        });
+
+        const time = Math.min(1, (video.duration || 0) / 2);
+        if (time > 0) {
+            await new Promise((resolve) => {
+                video.onseeked = resolve;
+                video.currentTime = time;
+            });
+        }
+
+        const canvas = document.createElement("canvas");
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        canvas.getContext("2d")?.drawImage(video, 0, 0);
+        return await new Promise((resolve) =>
+            canvas.toBlob(resolve, "image/jpeg", 0.85)
+        );
+    } catch {
+        return null;
+    } finally {
+        URL.revokeObjectURL(objectUrl);
+    }
+}
+
+/**
+ * Uploads a demo video or image for an exercise and previews the result.
+ * A new upload replaces the media of the same kind.
+ */
+export function ExerciseMediaField({
+    value,
+    title,
+    onChange,
+    disabled,
+}: {
+    value: ExerciseMediaValue;
+    title: string;
+    onChange: (value: ExerciseMediaValue) => void;
+    disabled?: boolean;
+}) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [isUploading, setIsUploading] = useState(false);
+
+    const upload = async (file: File) => {
+        const invalid = validateExerciseMedia(file);
+        if (invalid) {
+            toast.error(invalid);
+            return;
+        }
+
+        setIsUploading(true);
+        try {
+            const body = new FormData();
+            body.append("file", file);
+            if (EXERCISE_VIDEO_TYPES.includes(file.type)) {
+                const frame = await captureVideoFrame(file);
+                if (frame) body.append("thumbnail", frame, "thumbnail.jpg");
+            }
+
+            const response = await fetch("/api/exercise-media", {
+                method: "POST",
+                body,
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || "Failed to upload media");
+            }
+
+            const uploaded = result as ExerciseMediaUpload;
+            onChange({
+                ...value,
+                ...(uploaded.kind === "video"
+                    ? { videoUrl: uploaded.url }
+                    : { imageUrl: uploaded.url }),
+                thumbnailUrl: uploaded.thumbnailUrl ?? value.thumbnailUrl,
+            });
+            toast.success(
+                uploaded.kind === "video" ? "Video uploaded" : "Image uploaded"
+            );
+        } catch (error) {
+            toast.error(
+                error instanceof Error
+                    ? error.message
+                    : "Failed to upload media"
+            );
+        } finally {
+            setIsUploading(false);
+            if (inputRef.current) inputRef.current.value = "";
+        }
+    };
+
+    const hasMedia = !!(value.videoUrl || value.imageUrl);
+
+    return (
+        <div className="space-y-3">
+            <input
+                ref={inputRef}
+                type="file"
+                accept={[...EXERCISE_VIDEO_TYPES, ...EXERCISE_IMAGE_TYPES].join(
+                    ","
+                )}
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) upload(file);
+                }}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+                <Button
+                    type="button"
+                    variant="outline"
+                    className="cursor-pointer"
+                    disabled={disabled || isUploading}
+                    onClick={() => inputRef.current?.click()}
+                >
+                    {isUploading ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                        <Upload className="h-4 w-4 mr-1" />
+                    )}
+                    {isUploading ? "Uploading..." : "Upload Video or Image"}
+                </Button>
+                {hasMedia && (
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        className="cursor-pointer"
+                        disabled={disabled || isUploading}
+                        onClick={() =>
+                            onChange({
+                                videoUrl: "",
+                                imageUrl: "",
+                                thumbnailUrl: "",
+                            })
+                        }
+                    >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Remove Media
+                    </Button>
+                )}
+                <span className="text-xs text-muted-foreground">
+                    MP4, WebM or MOV up to 100MB; JPEG, PNG, WebP or GIF up to
+                    10MB
+                </span>
+            </div>
+            {hasMedia && (
+                <div className="max-w-md">
+                    <ExerciseVideoPreview
+                        url={value.videoUrl || null}
+                        imageUrl={value.imageUrl}
+                        posterUrl={value.thumbnailUrl}
+                        title={title}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,40 @@
+import React from "react";
+import Image from "next/image";
+import { Dumbbell } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+/**
+ * Small preview of an exercise's demo media for lists and dropdowns.
+ * Thumbnails are stored pre-sized as WebP, so they skip image optimisation.
+ */
+export function ExerciseThumbnail({
+    url,
+    alt,
+    className,
+}: {
+    url?: string | null;
+    alt: string;
+    className?: string;
+}) {
+    return (
+        <div
+            className={cn(
+                "relative h-9 w-16 shrink-0 overflow-hidden rounded border bg-muted flex items-center justify-center",
+                className
+            )}
+        >
+            {url ? (
+                <Image
+                    src={url}
+                    alt={alt}
+                    fill
+                    sizes="64px"
+                    unoptimized
+                    className="object-cover"
+                />
+            ) : (
+                <Dumbbell className="h-4 w-4 text-muted-foreground" />
+            )}
+        </div>
+    );
+}
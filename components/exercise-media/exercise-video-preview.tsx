@@ -0,0 +1,91 @@
+import React from "react";
+import Image from "next/image";
+import { VideoOff } from "lucide-react";
+
+/**
+ * Embeddable player URL for YouTube and Vimeo links; null for anything
+ * else, which is played as a plain video file
+ */
+function toEmbedUrl(url: string): string | null {
+    try {
+        const parsed = new URL(url);
+        const host = parsed.hostname.replace(/^www\.|^m\./, "");
+        if (host === "youtu.be") {
+            return `https://www.youtube.com/embed${parsed.pathname}`;
+        }
+        if (host === "youtube.com") {
+            const id =
+                parsed.searchParams.get("v") ??
+                parsed.pathname.match(/^\/(?:shorts|embed)\/([^/]+)/)?.[1];
+            return id ? `https://www.youtube.com/embed/${id}` : null;
+        }
+        if (host === "vimeo.com") {
+            const id = parsed.pathname.match(/^\/(\d+)/)?.[1];
+            return id ? `https://player.vimeo.com/video/${id}` : null;
+        }
+        return null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Plays an exercise demo: embedded for YouTube/Vimeo links, inline for
+ * uploaded files. Falls back to the demo image when there is no video.
+ */
+export function ExerciseVideoPreview({
+    url,
+    title,
+    imageUrl,
+    posterUrl,
+    autoPlay = false,
+}: {
+    url: string | null;
+    title: string;
+    imageUrl?: string | null;
+    posterUrl?: string | null;
+    autoPlay?: boolean;
+}) {
+    if (!url && imageUrl) {
+        return (
+            <Image
+                src={imageUrl}
+                alt={title}
+                width={1280}
+                height={720}
+                unoptimized
+                className="aspect-video w-full rounded-md border bg-muted object-contain"
+            />
+        );
+    }
+    if (!url) {
+        return (
+            <div className="aspect-video w-full rounded-md border bg-muted flex flex-col items-center justify-center gap-2 text-sm text-muted-foreground">
+                <VideoOff className="h-6 w-6" />
+                No video
+            </div>
+        );
+    }
+
+    const embedUrl = toEmbedUrl(url);
+    return embedUrl ? (
+        <iframe
+            src={embedUrl}
+            title={title}
+            className="aspect-video w-full rounded-md border"
+            allow="encrypted-media; picture-in-picture"
+            allowFullScreen
+        />
+    ) : (
+        <video
+            src={url}
+            poster={posterUrl ?? undefined}
+            controls
+            autoPlay={autoPlay}
+            muted={autoPlay}
+            playsInline
+            preload="metadata"
+            className="aspect-video w-full rounded-md border bg-black"
+        />
+    );
+}
@@ -0,0 +1,38 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { ExerciseReviewStatus } from "@/db/schemas";
+
+export const REVIEW_STATUS_LABELS: Record<ExerciseReviewStatus, string> = {
+    pending: "Pending",
+    approved: "Approved",
+    rejected: "Rejected",
+    "changes-requested": "Changes Requested",
+};
+
+export const REVIEW_STATUS_CLASSES: Record<ExerciseReviewStatus, string> = {
+    pending:
+        "bg-yellow-50 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
+    approved:
+        "bg-green-50 text-green-700 dark:bg-green-900 dark:text-green-300",
+    rejected: "bg-red-50 text-red-700 dark:bg-red-900 dark:text-red-300",
+    "changes-requested":
+        "bg-orange-50 text-orange-700 dark:bg-orange-900 dark:text-orange-300",
+};
+
+export function ReviewStatusBadge({
+    status,
+    className,
+}: {
+    status: ExerciseReviewStatus;
+    className?: string;
+}) {
+    return (
+        <Badge
+            variant="outline"
+            className={cn(REVIEW_STATUS_CLASSES[status], className)}
+        >
+            {REVIEW_STATUS_LABELS[status]}
+        </Badge>
+    );
+}
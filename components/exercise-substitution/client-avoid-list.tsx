@@ -0,0 +1,227 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Ban, Loader2, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    AvoidanceTarget,
+    ClientAvoidance,
+    addClientAvoidance,
+    getClientAvoidList,
+    removeClientAvoidance,
+} from "@/actions/exercise_substitution_actions";
+import { getFacetOptions } from "@/lib/exercise-taxonomy";
+import { useExerciseTaxonomy } from "@/components/exercise-taxonomy/exercise-facet-filters";
+
+const KIND_LABELS: Record<ClientAvoidance["kind"], string> = {
+    exercise: "Exercise",
+    muscle: "Muscle",
+    equipment: "Equipment",
+};
+
+export function useClientAvoidList(clientId?: string) {
+    return useQuery({
+        queryKey: ["clientAvoidList", clientId],
+        queryFn: async () => {
+            const result = await getClientAvoidList(clientId!);
+            if (!result.success) throw new Error(result.error);
+            return result.avoidances;
+        },
+        enabled: !!clientId,
+    });
+}
+
+export function useClientAvoidListMutations(clientId?: string) {
+    const queryClient = useQueryClient();
+    const onSettled = (result?: { success: boolean; message: string }) => {
+        if (result) {
+            (result.success ? toast.success : toast.error)(result.message);
+        }
+        queryClient.invalidateQueries({
+            queryKey: ["clientAvoidList", clientId],
+        });
+        queryClient.invalidateQueries({ queryKey: ["exerciseSubstitutes"] });
+    };
+
+    const add = useMutation({
+        mutationFn: ({
+            target,
+            reason,
+        }: {
+            target: AvoidanceTarget;
+            reason?: string;
+        }) => addClientAvoidance(clientId!, target, reason),
+        onSettled,
+    });
+    const remove = useMutation({
+        mutationFn: (avoidanceId: string) => removeClientAvoidance(avoidanceId),
+        onSettled,
+    });
+
+    return { add, remove };
+}
+
+/**
+ * Coach-maintained list of exercises, muscles and equipment a client should
+ * not be offered as substitutes, e.g. after an injury
+ */
+export function ClientAvoidList({ clientId }: { clientId: string }) {
+    const { data: avoidances = [], isLoading } = useClientAvoidList(clientId);
+    const { data: taxonomy } = useExerciseTaxonomy();
+    const { add, remove } = useClientAvoidListMutations(clientId);
+
+    const [kind, setKind] = useState<"muscle" | "equipment">("muscle");
+    const [targetId, setTargetId] = useState("");
+    const [reason, setReason] = useState("");
+
+    const options = getFacetOptions(
+        kind === "muscle" ? "primaryMuscle" : "equipment",
+        taxonomy
+    );
+
+    const handleAdd = () => {
+        if (!targetId) return;
+        add.mutate(
+            {
+                target:
+                    kind === "muscle"
+                        ? { muscleGroupId: targetId }
+                        : { equipmentId: targetId },
+                reason,
+            },
+            {
+                onSuccess: () => {
+                    setTargetId("");
+                    setReason("");
+                },
+            }
+        );
+    };
+
+    return (
+        <div className="space-y-3">
+            {isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+            ) : !avoidances.length ? (
+                <p className="text-sm text-muted-foreground">
+                    Nothing on this client&apos;s avoid list.
+                </p>
+            ) : (
+                <ul className="space-y-1">
+                    {avoidances.map((avoidance) => (
+                        <li
+                            key={avoidance.avoidanceId}
+                            className="flex items-center gap-2 text-sm"
+                        >
+                            <Badge variant="outline">
+                                {KIND_LABELS[avoidance.kind]}
+                            </Badge>
+                            <span className="font-medium">
+                                {avoidance.name}
+                            </span>
+                            {avoidance.reason && (
+                                <span className="truncate text-muted-foreground">
+                                    {avoidance.reason}
+                                </span>
+                            )}
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="ml-auto h-7 w-7 p-0 cursor-pointer"
+                                disabled={remove.isPending}
+                                onClick={() =>
+                                    remove.mutate(avoidance.avoidanceId)
+                                }
+                                title="Remove from avoid list"
+                            >
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+                <Select
+                    value={kind}
+                    onValueChange={(value) => {
+                        setKind(value as "muscle" | "equipment");
+                        setTargetId("");
+                    }}
+                >
+                    <SelectTrigger className="h-8 w-[8rem]">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="muscle">Muscle</SelectItem>
+                        <SelectItem value="equipment">Equipment</SelectItem>
+                    </SelectContent>
+                </Select>
+                <Select value={targetId} onValueChange={setTargetId}>
+                    <SelectTrigger className="h-8 w-[11rem]">
+                        <SelectValue placeholder={`Choose ${kind}...`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {options.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Input
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason (optional)"
+                    className="h-8 flex-1 min-w-[8rem]"
+                />
+                <Button
+                    type="button"
+                    size="sm"
+                    className="h-8 cursor-pointer"
+                    disabled={!targetId || add.isPending}
+                    onClick={handleAdd}
+                >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Avoid
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+export function AvoidExerciseButton({
+    clientId,
+    exerciseId,
+}: {
+    clientId: string;
+    exerciseId: string;
+}) {
+    const { add } = useClientAvoidListMutations(clientId);
+
+    return (
+        <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="cursor-pointer"
+            disabled={add.isPending}
+            onClick={() => add.mutate({ target: { exerciseId } })}
+        >
+            <Ban className="h-4 w-4 mr-1" />
+            Avoid for this client
+        </Button>
+    );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import type { SelectExerciseWithAliases } from "@/db/schemas";
+import { getExerciseSubstitutes } from "@/actions/exercise_substitution_actions";
+import { ExerciseThumbnail } from "@/components/exercise-media/exercise-thumbnail";
+import { AvoidExerciseButton, ClientAvoidList } from "./client-avoid-list";
+
+/**
+ * Ranked stand-ins for an exercise, shared by the tracker's replace sheet and
+ * the planner. With a client, their avoid list is applied and editable here.
+ */
+export function ExerciseSubstitutesPanel({
+    exerciseId,
+    clientId,
+    selectedId,
+    onSelect,
+}: {
+    exerciseId?: string;
+    clientId?: string;
+    selectedId?: string;
+    onSelect: (exercise: SelectExerciseWithAliases) => void;
+}) {
+    const [equipmentBusy, setEquipmentBusy] = useState(false);
+
+    const { data, isLoading } = useQuery({
+        queryKey: ["exerciseSubstitutes", exerciseId, clientId, equipmentBusy],
+        queryFn: () =>
+            getExerciseSubstitutes(exerciseId!, { clientId, equipmentBusy }),
+        enabled: !!exerciseId,
+    });
+
+    if (!exerciseId) {
+        return (
+            <p className="text-sm text-muted-foreground">
+                This exercise isn&apos;t linked to the library, so there are no
+                suggestions for it.
+            </p>
+        );
+    }
+
+    const substitutes = data?.substitutes ?? [];
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <Switch
+                        id="equipment-busy"
+                        checked={equipmentBusy}
+                        onCheckedChange={setEquipmentBusy}
+                    />
+                    <Label htmlFor="equipment-busy">Equipment busy</Label>
+                </div>
+                {clientId && (
+                    <AvoidExerciseButton
+                        clientId={clientId}
+                        exerciseId={exerciseId}
+                    />
+                )}
+            </div>
+
+            {isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+            ) : data && !data.success ? (
+                <p className="text-sm text-destructive">{data.error}</p>
+            ) : !substitutes.length ? (
+                <p className="text-sm text-muted-foreground">
+                    No close substitutes found.
+                </p>
+            ) : (
+                <ul className="space-y-2">
+                    {substitutes.map(({ exercise, score, reasons }) => (
+                        <li key={exercise.exerciseId}>
+                            <button
+                                type="button"
+                                onClick={() => onSelect(exercise)}
+                                className={cn(
+                                    "flex w-full items-start gap-3 rounded-md border p-2 text-left hover:bg-muted/50 cursor-pointer",
+                                    selectedId === exercise.exerciseId &&
+                                        "border-primary bg-primary/5"
+                                )}
+                            >
+                                {exercise.thumbnailUrl && (
+                                    <ExerciseThumbnail
+                                        url={exercise.thumbnailUrl}
+                                        alt={exercise.exerciseName}
+                                        className="h-12 w-20 shrink-0"
+                                    />
+                                )}
+                                <div className="min-w-0 flex-1">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-medium truncate">
+                                            {exercise.exerciseName}
+                                        </span>
+                                        <span className="text-xs text-muted-foreground">
+                                            {Math.round(score * 100)}% match
+                                        </span>
+                                    </div>
+                                    <div className="mt-1 flex flex-wrap gap-1">
+                                        {reasons.map((reason) => (
+                                            <Badge
+                                                key={reason}
+                                                variant="secondary"
+                                                className="font-normal"
+                                            >
+                                                {reason}
+                                            </Badge>
+                                        ))}
+                                    </div>
+                                </div>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {clientId && (
+                <div className="space-y-2 border-t pt-4">
+                    <h4 className="text-sm font-medium">Client avoid list</h4>
+                    <ClientAvoidList clientId={clientId} />
+                </div>
+            )}
+        </div>
+    );
+}
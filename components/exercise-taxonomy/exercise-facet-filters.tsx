@@ -0,0 +1,71 @@
+"use client";
+
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getExerciseTaxonomy } from "@/actions/exercise_actions";
+import {
+    EXERCISE_FACETS,
+    ExerciseFacetId,
+    ExerciseFacetSelection,
+    getFacetOptions,
+} from "@/lib/exercise-taxonomy";
+import { TaxonomyMultiSelect } from "./taxonomy-multi-select";
+
+export function useExerciseTaxonomy() {
+    return useQuery({
+        queryKey: ["exerciseTaxonomy"],
+        queryFn: () => getExerciseTaxonomy(),
+        staleTime: 5 * 60 * 1000,
+    });
+}
+
+/**
+ * A row of multi-select taxonomy filters, e.g. Dumbbell + Glutes + Beginner
+ */
+export function ExerciseFacetFilters({
+    value,
+    onChange,
+    facets = EXERCISE_FACETS.map((facet) => facet.id),
+    className,
+}: {
+    value: ExerciseFacetSelection;
+    onChange: (value: ExerciseFacetSelection) => void;
+    facets?: ExerciseFacetId[];
+    className?: string;
+}) {
+    const { data: taxonomy } = useExerciseTaxonomy();
+    const hasSelection = Object.values(value).some((values) => values?.length);
+
+    return (
+        <div className={`flex flex-wrap items-center gap-2 ${className ?? ""}`}>
+            {EXERCISE_FACETS.filter((facet) => facets.includes(facet.id)).map(
+                (facet) => (
+                    <TaxonomyMultiSelect
+                        key={facet.id}
+                        placeholder={facet.label}
+                        options={getFacetOptions(facet.id, taxonomy)}
+                        value={value[facet.id] ?? []}
+                        onChange={(values) =>
+                            onChange({ ...value, [facet.id]: values })
+                        }
+                        className="h-8 max-w-[14rem]"
+                    />
+                )
+            )}
+            {hasSelection && (
+                <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 cursor-pointer"
+                    onClick={() => onChange({})}
+                >
+                    <X className="h-4 w-4 mr-1" />
+                    Clear
+                </Button>
+            )}
+        </div>
+    );
+}
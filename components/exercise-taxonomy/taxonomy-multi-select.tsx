@@ -0,0 +1,136 @@
+"use client";
+
+import React, { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Command,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+} from "@/components/ui/command";
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import type { FacetOption } from "@/lib/exercise-taxonomy";
+
+/**
+ * Searchable checklist used both to tag exercises and to filter by facet.
+ * The trigger names up to two selections, then shows a count.
+ */
+export function TaxonomyMultiSelect({
+    options,
+    value,
+    onChange,
+    placeholder,
+    className,
+    disabled,
+}: {
+    options: FacetOption[];
+    value: string[];
+    onChange: (value: string[]) => void;
+    placeholder: string;
+    className?: string;
+    disabled?: boolean;
+}) {
+    const [open, setOpen] = useState(false);
+
+    const selectedLabels = options
+        .filter((option) => value.includes(option.value))
+        .map((option) => option.label);
+    const groups = [...new Set(options.map((option) => option.group ?? ""))];
+
+    const toggle = (optionValue: string) => {
+        onChange(
+            value.includes(optionValue)
+                ? value.filter((v) => v !== optionValue)
+                : [...value, optionValue]
+        );
+    };
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button
+                    type="button"
+                    variant="outline"
+                    role="combobox"
+                    aria-expanded={open}
+                    disabled={disabled}
+                    className={cn(
+                        "justify-between font-normal cursor-pointer",
+                        !selectedLabels.length && "text-muted-foreground",
+                        className
+                    )}
+                >
+                    <span className="truncate">
+                        {!selectedLabels.length
+                            ? placeholder
+                            : selectedLabels.length <= 2
+                            ? selectedLabels.join(", ")
+                            : `${placeholder}: ${selectedLabels.length} selected`}
+                    </span>
+                    <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-0" align="start">
+                <Command>
+                    <CommandInput placeholder="Search..." />
+                    <CommandList>
+                        <CommandEmpty>No matches.</CommandEmpty>
+                        {groups.map((group) => (
+                            <CommandGroup
+                                key={group}
+                                heading={group || undefined}
+                            >
+                                {options
+                                    .filter(
+                                        (option) =>
+                                            (option.group ?? "") === group
+                                    )
+                                    .map((option) => (
+                                        <CommandItem
+                                            key={option.value}
+                                            value={option.label}
+                                            onSelect={() =>
+                                                toggle(option.value)
+                                            }
+                                            className="cursor-pointer"
+                                        >
+                                            <Check
+                                                className={cn(
+                                                    "mr-2 h-4 w-4",
+                                                    value.includes(option.value)
+                                                        ? "opacity-100"
+                                                        : "opacity-0"
+                                                )}
+                                            />
+                                            {option.label}
+                                        </CommandItem>
+                                    ))}
+                            </CommandGroup>
+                        ))}
+                    </CommandList>
+                    {value.length > 0 && (
+                        <div className="border-t p-1">
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="w-full cursor-pointer"
+                                onClick={() => onChange([])}
+                            >
+                                Clear
+                            </Button>
+                        </div>
+                    )}
+                </Command>
+            </PopoverContent>
+        </Popover>
+    );
+}
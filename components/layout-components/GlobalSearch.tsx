@@ -2,10 +2,11 @@
 
 import React, { useState, useEffect, useCallback } from "react";
 import { Input } from "@/components/ui/input";
-import { Loader2, ExternalLink } from "lucide-react"; // Import ExternalLink
+import { Loader2, ExternalLink, Dumbbell } from "lucide-react"; // Import ExternalLink
 import Link from "next/link";
 import { useDebounce } from "use-debounce";
 import { searchClientsByNameAction } from "@/actions/client_actions"; // Import the server action
+import { searchExercisesAction } from "@/actions/exercise_actions";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"; // Import Avatar components
 import { getInitials, safeImageUrl } from "@/lib/utils"; // Assuming a utility function for initials exists
 
@@ -16,9 +17,18 @@ interface ClientSearchResult {
     imageUrl: string | null; // Add imageUrl
 }
 
+interface ExerciseSearchResult {
+    id: string;
+    name: string;
+    matchedAlias: string | null; // Set when only an alias matched
+}
+
 export function GlobalSearch() {
     const [searchTerm, setSearchTerm] = useState("");
     const [results, setResults] = useState<ClientSearchResult[]>([]);
+    const [exerciseResults, setExerciseResults] = useState<
+        ExerciseSearchResult[]
+    >([]);
     const [isLoading, setIsLoading] = useState(false);
     const [isDropdownVisible, setIsDropdownVisible] = useState(false);
 
@@ -27,16 +37,22 @@ export function GlobalSearch() {
     const handleSearch = useCallback(async (query: string) => {
         if (query.trim() === "") {
             setResults([]);
+            setExerciseResults([]);
             setIsLoading(false);
             return;
         }
         setIsLoading(true);
         try {
-            const clients = await searchClientsByNameAction(query); // Use the imported server action
+            const [clients, exercises] = await Promise.all([
+                searchClientsByNameAction(query), // Use the imported server action
+                searchExercisesAction(query),
+            ]);
             setResults(clients);
+            setExerciseResults(exercises);
         } catch (error) {
             console.error("Search failed:", error);
             setResults([]); // Clear results on error
+            setExerciseResults([]);
         } finally {
             setIsLoading(false);
         }
@@ -54,6 +70,7 @@ export function GlobalSearch() {
         } else {
             setIsDropdownVisible(false);
             setResults([]); // Clear results immediately if input is empty
+            setExerciseResults([]);
         }
     };
 
@@ -74,7 +91,7 @@ export function GlobalSearch() {
         <div className="relative w-full">
             <Input
                 type="text"
-                placeholder="Search clients..."
+                placeholder="Search clients and exercises..."
                 value={searchTerm}
                 onChange={handleInputChange}
                 onBlur={handleBlur}
@@ -89,7 +106,7 @@ export function GlobalSearch() {
                         <div className="flex items-center justify-center p-4">
                             <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
                         </div>
-                    ) : results.length > 0 ? (
+                    ) : results.length > 0 || exerciseResults.length > 0 ? (
                         <ul>
                             {results.map((client) => (
                                 <li key={client.id}>
@@ -125,10 +142,31 @@ export function GlobalSearch() {
                                     </Link>
                                 </li>
                             ))}
+                            {exerciseResults.length > 0 && (
+                                <li className="px-4 pt-2 pb-1 text-xs font-medium text-muted-foreground">
+                                    Exercises
+                                </li>
+                            )}
+                            {exerciseResults.map((exercise) => (
+                                <li key={exercise.id}>
+                                    <Link
+                                        href={`/exercise?id=${exercise.id}`}
+                                        className="flex items-center gap-3 px-4 py-2 hover:bg-accent hover:text-accent-foreground text-sm"
+                                    >
+                                        <Dumbbell className="h-4 w-4 text-muted-foreground" />
+                                        <span>{exercise.name}</span>
+                                        {exercise.matchedAlias && (
+                                            <span className="text-xs text-muted-foreground">
+                                                aka {exercise.matchedAlias}
+                                            </span>
+                                        )}
+                                    </Link>
+                                </li>
+                            ))}
                         </ul>
                     ) : searchTerm.trim() !== "" ? (
                         <div className="p-4 text-sm text-muted-foreground text-center">
-                            No clients found.
+                            No clients or exercises found.
                         </div>
                     ) : null}
                     {/* Render nothing if search term is empty and not loading */}
@@ -130,6 +130,10 @@ const navMain = [
                 title: "Add Exercise",
                 url: "/exercise",
             },
+            {
+                title: "Review Queue",
+                url: "/exercise-review",
+            },
         ],
     },
     {
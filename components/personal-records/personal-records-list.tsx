@@ -0,0 +1,111 @@
+import { Trophy } from "lucide-react";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    ClientPersonalRecord,
+    getClientPersonalRecords,
+} from "@/actions/personal_record_actions";
+import { PersonalRecordType } from "@/db/schemas";
+import { describeRecordSet } from "@/lib/strength-metrics";
+import { formatDate } from "@/lib/utils";
+
+const RecordCell = ({ record }: { record?: ClientPersonalRecord }) => {
+    if (!record) {
+        return <TableCell className="text-muted-foreground">—</TableCell>;
+    }
+    return (
+        <TableCell>
+            <div className="font-medium">{record.value}kg</div>
+            <div className="text-xs text-muted-foreground">
+                {describeRecordSet(record.weight, record.reps)} ·{" "}
+                {formatDate(record.achievedAt)}
+            </div>
+        </TableCell>
+    );
+};
+
+/**
+ * Each exercise's best weight, estimated 1RM and set volume, with the most
+ * reps managed at each weight
+ */
+export default async function PersonalRecordsList({
+    client_id,
+}: {
+    client_id: string;
+}) {
+    const records = await getClientPersonalRecords(client_id);
+
+    if (records.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center gap-2 py-12 text-muted-foreground">
+                <Trophy className="h-8 w-8" />
+                <p>No personal records yet</p>
+                <p className="text-sm">
+                    Records are set as working sets are logged in the tracker
+                </p>
+            </div>
+        );
+    }
+
+    // Records arrive ordered by exercise name
+    const byExercise = new Map<string, ClientPersonalRecord[]>();
+    records.forEach((record) => {
+        byExercise.set(record.exerciseId, [
+            ...(byExercise.get(record.exerciseId) ?? []),
+            record,
+        ]);
+    });
+
+    return (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>Exercise</TableHead>
+                    <TableHead>Heaviest weight</TableHead>
+                    <TableHead>Estimated 1RM</TableHead>
+                    <TableHead>Best set volume</TableHead>
+                    <TableHead>Most reps at weight</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {Array.from(byExercise.values()).map((exerciseRecords) => {
+                    const find = (recordType: PersonalRecordType) =>
+                        exerciseRecords.find(
+                            (record) => record.recordType === recordType
+                        );
+                    const repsAtWeight = exerciseRecords
+                        .filter(
+                            (record) => record.recordType === "reps-at-weight"
+                        )
+                        .sort((a, b) => (b.atWeight ?? 0) - (a.atWeight ?? 0));
+
+                    return (
+                        <TableRow key={exerciseRecords[0].exerciseId}>
+                            <TableCell className="font-medium">
+                                {exerciseRecords[0].exerciseName}
+                            </TableCell>
+                            <RecordCell record={find("weight")} />
+                            <RecordCell record={find("e1rm")} />
+                            <RecordCell record={find("volume")} />
+                            <TableCell className="whitespace-normal text-sm">
+                                {repsAtWeight
+                                    .map((record) =>
+                                        record.atWeight
+                                            ? `${record.value} @ ${record.atWeight}kg`
+                                            : `${record.value} bodyweight`
+                                    )
+                                    .join(", ") || "—"}
+                            </TableCell>
+                        </TableRow>
+                    );
+                })}
+            </TableBody>
+        </Table>
+    );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from "@/components/ui/popover";
+import { Copy, Loader2, RefreshCw, Rss } from "lucide-react";
+import { toast } from "sonner";
+import { CalendarFeedType } from "@/types/workout-schedule-types";
+import {
+    getCalendarFeedPath,
+    regenerateCalendarFeedToken,
+} from "@/actions/calendar_feed_actions";
+
+const FEED_COPY: Record<CalendarFeedType, { title: string; hint: string }> = {
+    client: {
+        title: "This client",
+        hint: "Share with the client so workouts show up in their phone calendar.",
+    },
+    coach: {
+        title: "All my clients",
+        hint: "Every active client's workouts, prefixed with their name.",
+    },
+};
+
+type CalendarFeedPopoverProps = {
+    clientId: string;
+};
+
+/**
+ * Subscription links (.ics) for the client's calendar and the coach's
+ * aggregated calendar
+ */
+export function CalendarFeedPopover({ clientId }: CalendarFeedPopoverProps) {
+    const [urls, setUrls] = useState<Partial<Record<CalendarFeedType, string>>>(
+        {}
+    );
+    const [loadingFeed, setLoadingFeed] = useState<CalendarFeedType | null>(
+        null
+    );
+
+    const loadFeed = async (feedType: CalendarFeedType, regenerate = false) => {
+        if (
+            regenerate &&
+            !window.confirm(
+                "Create a new link? Calendars subscribed with the current link will stop updating."
+            )
+        ) {
+            return;
+        }
+
+        setLoadingFeed(feedType);
+        try {
+            const result = regenerate
+                ? await regenerateCalendarFeedToken(feedType, clientId)
+                : await getCalendarFeedPath(feedType, clientId);
+            if (!result.success || !result.path) {
+                toast.error(result.error || "Failed to load calendar link");
+                return;
+            }
+            setUrls((current) => ({
+                ...current,
+                [feedType]: `${window.location.origin}${result.path}`,
+            }));
+            if (regenerate) toast.success("New calendar link created");
+        } finally {
+            setLoadingFeed(null);
+        }
+    };
+
+    const copyUrl = async (url: string) => {
+        await navigator.clipboard.writeText(url);
+        toast.success("Calendar link copied");
+    };
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button variant="outline">
+                    <Rss className="h-4 w-4 mr-2" />
+                    Subscribe
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-96 space-y-4">
+                {(["client", "coach"] as const).map((feedType) => {
+                    const url = urls[feedType];
+                    return (
+                        <div key={feedType} className="space-y-1">
+                            <div className="text-sm font-medium">
+                                {FEED_COPY[feedType].title}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                {FEED_COPY[feedType].hint}
+                            </p>
+                            {url ? (
+                                <div className="flex gap-1">
+                                    <Input
+                                        readOnly
+                                        value={url}
+                                        className="h-8 text-xs"
+                                        onFocus={(e) => e.target.select()}
+                                    />
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        className="h-8 w-8 shrink-0"
+                                        onClick={() => copyUrl(url)}
+                                        aria-label="Copy link"
+                                    >
+                                        <Copy className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        className="h-8 w-8 shrink-0"
+                                        onClick={() => loadFeed(feedType, true)}
+                                        disabled={loadingFeed === feedType}
+                                        aria-label="Create a new link"
+                                    >
+                                        <RefreshCw className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            ) : (
+                                <Button
+                                    size="sm"
+                                    variant="secondary"
+                                    onClick={() => loadFeed(feedType)}
+                                    disabled={loadingFeed === feedType}
+                                >
+                                    {loadingFeed === feedType && (
+                                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                    )}
+                                    Get Link
+                                </Button>
+                            )}
+                        </div>
+                    );
+                })}
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -0,0 +1,480 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { DndProvider, useDrag, useDrop } from "react-dnd";
+import { HTML5Backend } from "react-dnd-html5-backend";
+import {
+    addDays,
+    addMonths,
+    endOfMonth,
+    endOfWeek,
+    format,
+    parseISO,
+    startOfMonth,
+    startOfWeek,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+    CalendarClock,
+    ChevronLeft,
+    ChevronRight,
+    Dumbbell,
+    Loader2,
+    Plus,
+    Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+    CalendarEntry,
+    CalendarEntryStatus,
+    ClientCalendar as ClientCalendarData,
+    PhaseScheduleSettings,
+} from "@/types/workout-schedule-types";
+import {
+    getClientCalendar,
+    getPhaseSchedules,
+    removeCalendarEntry,
+    rescheduleCalendarEntry,
+    scheduleSessionOnDate,
+} from "@/actions/workout_schedule_actions";
+import { PhaseScheduleDialog } from "./phase-schedule-dialog";
+import { CalendarFeedPopover } from "./calendar-feed-popover";
+import { toDateKey } from "./schedule-utils";
+
+const ENTRY_TYPE = "CALENDAR_ENTRY";
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const STATUS_STYLES: Record<CalendarEntryStatus, string> = {
+    planned: "border-primary/40 bg-primary/10",
+    completed: "border-green-600/40 bg-green-600/15",
+    missed: "border-destructive/40 bg-destructive/10",
+    unplanned: "border-muted-foreground/30 bg-muted",
+};
+
+const STATUS_LABELS: Record<CalendarEntryStatus, string> = {
+    planned: "Planned",
+    completed: "Completed",
+    missed: "Missed",
+    unplanned: "Logged (unplanned)",
+};
+
+const isMovable = (entry: CalendarEntry) =>
+    entry.sessionId !== null &&
+    (entry.status === "planned" || entry.status === "missed");
+
+type CalendarEntryChipProps = {
+    entry: CalendarEntry;
+    clientId: string;
+    onRemove: (entry: CalendarEntry) => void;
+};
+
+function CalendarEntryChip({
+    entry,
+    clientId,
+    onRemove,
+}: CalendarEntryChipProps) {
+    const [{ isDragging }, drag] = useDrag({
+        type: ENTRY_TYPE,
+        item: entry,
+        canDrag: isMovable(entry),
+        collect: (monitor) => ({ isDragging: monitor.isDragging() }),
+    });
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <button
+                    ref={(node) => {
+                        drag(node);
+                    }}
+                    className={`w-full truncate rounded border px-1 py-0.5 text-left text-[11px] ${
+                        STATUS_STYLES[entry.status]
+                    } ${isDragging ? "opacity-40" : ""} ${
+                        isMovable(entry) ? "cursor-grab" : "cursor-pointer"
+                    }`}
+                >
+                    {entry.sessionName}
+                </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 space-y-2 text-sm">
+                <div>
+                    <div className="font-medium">{entry.sessionName}</div>
+                    <div className="text-xs text-muted-foreground">
+                        {entry.phaseName && `${entry.phaseName} · `}
+                        {format(parseISO(entry.date), "EEE d MMM")} ·{" "}
+                        {STATUS_LABELS[entry.status]}
+                    </div>
+                    {entry.occurrenceDate &&
+                        entry.occurrenceDate !== entry.date && (
+                            <div className="text-xs text-muted-foreground">
+                                Moved from{" "}
+                                {format(
+                                    parseISO(entry.occurrenceDate),
+                                    "EEE d MMM"
+                                )}
+                            </div>
+                        )}
+                </div>
+                {isMovable(entry) && (
+                    <div className="flex gap-2">
+                        <Button asChild size="sm" variant="outline">
+                            <Link
+                                href={`/record-workout?${new URLSearchParams({
+                                    clientId,
+                                    phaseId: entry.phaseId ?? "",
+                                    sessionId: entry.sessionId ?? "",
+                                }).toString()}`}
+                            >
+                                <Dumbbell className="h-4 w-4 mr-1" />
+                                Record
+                            </Link>
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => onRemove(entry)}
+                        >
+                            <Trash2 className="h-4 w-4 mr-1 text-destructive" />
+                            Remove
+                        </Button>
+                    </div>
+                )}
+            </PopoverContent>
+        </Popover>
+    );
+}
+
+type CalendarDayProps = {
+    date: string;
+    inMonth: boolean;
+    isToday: boolean;
+    entries: CalendarEntry[];
+    phases: PhaseScheduleSettings[];
+    clientId: string;
+    onMove: (entry: CalendarEntry, toDate: string) => void;
+    onSchedule: (sessionId: string, date: string) => void;
+    onRemove: (entry: CalendarEntry) => void;
+};
+
+function CalendarDay({
+    date,
+    inMonth,
+    isToday,
+    entries,
+    phases,
+    clientId,
+    onMove,
+    onSchedule,
+    onRemove,
+}: CalendarDayProps) {
+    const [{ isOver }, drop] = useDrop({
+        accept: ENTRY_TYPE,
+        canDrop: (entry: CalendarEntry) => entry.date !== date,
+        drop: (entry: CalendarEntry) => onMove(entry, date),
+        collect: (monitor) => ({
+            isOver: monitor.isOver() && monitor.canDrop(),
+        }),
+    });
+
+    return (
+        <div
+            ref={(node) => {
+                drop(node);
+            }}
+            className={`group min-h-24 border-r border-b p-1 space-y-1 ${
+                inMonth ? "" : "bg-muted/40 text-muted-foreground"
+            } ${isOver ? "bg-primary/5" : ""}`}
+        >
+            <div className="flex items-center justify-between">
+                <span
+                    className={`text-xs ${
+                        isToday
+                            ? "rounded-full bg-primary px-1.5 text-primary-foreground"
+                            : ""
+                    }`}
+                >
+                    {format(parseISO(date), "d")}
+                </span>
+                <Popover>
+                    <PopoverTrigger asChild>
+                        <button
+                            className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                            aria-label="Schedule a session"
+                        >
+                            <Plus className="h-3 w-3" />
+                        </button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-64 max-h-72 overflow-y-auto p-2">
+                        <div className="px-1 pb-1 text-xs font-medium">
+                            Schedule on {format(parseISO(date), "EEE d MMM")}
+                        </div>
+                        {phases.length === 0 && (
+                            <p className="px-1 text-xs text-muted-foreground">
+                                No sessions to schedule.
+                            </p>
+                        )}
+                        {phases.map((phase) => (
+                            <div key={phase.phaseId} className="py-1">
+                                <div className="px-1 text-[11px] uppercase text-muted-foreground">
+                                    {phase.phaseName}
+                                </div>
+                                {phase.sessions.map((session) => (
+                                    <button
+                                        key={session.sessionId}
+                                        className="block w-full truncate rounded px-1 py-0.5 text-left text-sm hover:bg-muted"
+                                        onClick={() =>
+                                            onSchedule(session.sessionId, date)
+                                        }
+                                    >
+                                        {session.sessionName}
+                                    </button>
+                                ))}
+                            </div>
+                        ))}
+                    </PopoverContent>
+                </Popover>
+            </div>
+            {entries.map((entry) => (
+                <CalendarEntryChip
+                    key={entry.key}
+                    entry={entry}
+                    clientId={clientId}
+                    onRemove={onRemove}
+                />
+            ))}
+        </div>
+    );
+}
+
+type ClientCalendarProps = {
+    clientId: string;
+};
+
+/**
+ * Month view of a client's planned vs. completed sessions with weekly
+ * adherence. Planned sessions can be dragged to another day.
+ */
+export function ClientCalendar({ clientId }: ClientCalendarProps) {
+    const [month, setMonth] = useState(() => startOfMonth(new Date()));
+    const [calendar, setCalendar] = useState<ClientCalendarData | null>(null);
+    const [phases, setPhases] = useState<PhaseScheduleSettings[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [showScheduleDialog, setShowScheduleDialog] = useState(false);
+
+    const from = toDateKey(startOfWeek(month, { weekStartsOn: 1 }));
+    const to = toDateKey(endOfWeek(endOfMonth(month), { weekStartsOn: 1 }));
+    const today = toDateKey(new Date());
+
+    const loadCalendar = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const [calendarData, phaseData] = await Promise.all([
+                getClientCalendar(clientId, from, to),
+                getPhaseSchedules(clientId),
+            ]);
+            setCalendar(calendarData);
+            setPhases(phaseData);
+        } catch {
+            toast.error("Failed to load calendar");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [clientId, from, to]);
+
+    useEffect(() => {
+        loadCalendar();
+    }, [loadCalendar]);
+
+    const handleMove = async (entry: CalendarEntry, toDate: string) => {
+        if (!entry.sessionId) return;
+
+        // Move the chip straight away; the reload reconciles with the server
+        setCalendar((current) =>
+            current && {
+                ...current,
+                entries: current.entries.map((e) =>
+                    e.key === entry.key ? { ...e, date: toDate } : e
+                ),
+            }
+        );
+
+        const result = await rescheduleCalendarEntry(
+            {
+                sessionId: entry.sessionId,
+                scheduledSessionId: entry.scheduledSessionId,
+                occurrenceDate: entry.occurrenceDate,
+            },
+            toDate
+        );
+        if (!result.success) {
+            toast.error(result.error || "Failed to reschedule session");
+        }
+        loadCalendar();
+    };
+
+    const handleSchedule = async (sessionId: string, date: string) => {
+        const result = await scheduleSessionOnDate(sessionId, date);
+        if (!result.success) {
+            toast.error(result.error || "Failed to schedule session");
+            return;
+        }
+        loadCalendar();
+    };
+
+    const handleRemove = async (entry: CalendarEntry) => {
+        if (!entry.sessionId) return;
+        const result = await removeCalendarEntry({
+            sessionId: entry.sessionId,
+            scheduledSessionId: entry.scheduledSessionId,
+            occurrenceDate: entry.occurrenceDate,
+        });
+        if (!result.success) {
+            toast.error(result.error || "Failed to remove session");
+            return;
+        }
+        loadCalendar();
+    };
+
+    const entriesByDate = new Map<string, CalendarEntry[]>();
+    for (const entry of calendar?.entries ?? []) {
+        entriesByDate.set(entry.date, [
+            ...(entriesByDate.get(entry.date) ?? []),
+            entry,
+        ]);
+    }
+
+    return (
+        <div className="space-y-3 py-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setMonth((m) => addMonths(m, -1))}
+                    aria-label="Previous month"
+                >
+                    <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setMonth((m) => addMonths(m, 1))}
+                    aria-label="Next month"
+                >
+                    <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Button
+                    variant="outline"
+                    onClick={() => setMonth(startOfMonth(new Date()))}
+                >
+                    Today
+                </Button>
+                <h3 className="text-lg font-semibold ml-2">
+                    {format(month, "MMMM yyyy")}
+                </h3>
+                {isLoading && (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                )}
+                <div className="ml-auto flex items-center gap-3">
+                    {(
+                        ["planned", "completed", "missed", "unplanned"] as const
+                    ).map((status) => (
+                        <span
+                            key={status}
+                            className="flex items-center gap-1 text-xs text-muted-foreground"
+                        >
+                            <span
+                                className={`h-3 w-3 rounded border ${STATUS_STYLES[status]}`}
+                            />
+                            {STATUS_LABELS[status]}
+                        </span>
+                    ))}
+                    <CalendarFeedPopover clientId={clientId} />
+                    <Button onClick={() => setShowScheduleDialog(true)}>
+                        <CalendarClock className="h-4 w-4 mr-2" />
+                        Weekly Schedule
+                    </Button>
+                </div>
+            </div>
+
+            <DndProvider backend={HTML5Backend}>
+                <div className="grid grid-cols-[repeat(7,minmax(0,1fr))_6rem] border-l border-t rounded-md overflow-hidden">
+                    {[...WEEKDAY_LABELS, "Adherence"].map((label) => (
+                        <div
+                            key={label}
+                            className="border-r border-b bg-muted px-2 py-1 text-xs font-medium"
+                        >
+                            {label}
+                        </div>
+                    ))}
+                    {(calendar?.weeks ?? []).map((week) => (
+                        <div key={week.weekStart} className="contents">
+                            {Array.from({ length: 7 }, (_, offset) => {
+                                const date = toDateKey(
+                                    addDays(parseISO(week.weekStart), offset)
+                                );
+                                return (
+                                    <CalendarDay
+                                        key={date}
+                                        date={date}
+                                        inMonth={
+                                            parseISO(date).getMonth() ===
+                                            month.getMonth()
+                                        }
+                                        isToday={date === today}
+                                        entries={entriesByDate.get(date) ?? []}
+                                        phases={phases}
+                                        clientId={clientId}
+                                        onMove={handleMove}
+                                        onSchedule={handleSchedule}
+                                        onRemove={handleRemove}
+                                    />
+                                );
+                            })}
+                            <div className="border-r border-b p-2 text-center">
+                                {week.adherence === null ? (
+                                    <span className="text-xs text-muted-foreground">
+                                        —
+                                    </span>
+                                ) : (
+                                    <>
+                                        <div
+                                            className={`text-lg font-semibold ${
+                                                week.adherence >= 0.8
+                                                    ? "text-green-600"
+                                                    : week.adherence >= 0.5
+                                                    ? "text-amber-600"
+                                                    : "text-destructive"
+                                            }`}
+                                        >
+                                            {Math.round(week.adherence * 100)}%
+                                        </div>
+                                        <div className="text-xs text-muted-foreground">
+                                            {week.completed}/{week.planned}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </DndProvider>
+
+            <PhaseScheduleDialog
+                open={showScheduleDialog}
+                phases={phases}
+                onClose={() => setShowScheduleDialog(false)}
+                onSaved={() => {
+                    setShowScheduleDialog(false);
+                    loadCalendar();
+                }}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { PhaseScheduleSettings } from "@/types/workout-schedule-types";
+import {
+    clearPhaseSchedule,
+    savePhaseSchedule,
+} from "@/actions/workout_schedule_actions";
+import { toDateKey } from "./schedule-utils";
+
+// Monday-first, valued by Date.getDay()
+const WEEKDAYS = [
+    { value: 1, label: "Mon" },
+    { value: 2, label: "Tue" },
+    { value: 3, label: "Wed" },
+    { value: 4, label: "Thu" },
+    { value: 5, label: "Fri" },
+    { value: 6, label: "Sat" },
+    { value: 0, label: "Sun" },
+];
+
+type PhaseScheduleDialogProps = {
+    open: boolean;
+    phases: PhaseScheduleSettings[];
+    onClose: () => void;
+    onSaved: () => void;
+};
+
+export function PhaseScheduleDialog({
+    open,
+    phases,
+    onClose,
+    onSaved,
+}: PhaseScheduleDialogProps) {
+    const [phaseId, setPhaseId] = useState<string | null>(null);
+    const [startDate, setStartDate] = useState("");
+    const [endDate, setEndDate] = useState("");
+    const [weekdays, setWeekdays] = useState<Record<string, number[]>>({});
+    const [isSaving, setIsSaving] = useState(false);
+
+    const phase = phases.find((p) => p.phaseId === phaseId) ?? null;
+
+    // Default to the active phase of the first plan when opened
+    useEffect(() => {
+        if (!open) return;
+        const initial =
+            phases.find((p) => p.phaseIsActive) ?? phases[0] ?? null;
+        setPhaseId(initial?.phaseId ?? null);
+    }, [open, phases]);
+
+    useEffect(() => {
+        if (!phase) return;
+        setStartDate(phase.startDate ?? toDateKey(new Date()));
+        setEndDate(phase.endDate ?? "");
+        setWeekdays(
+            Object.fromEntries(
+                phase.sessions.map((session) => [
+                    session.sessionId,
+                    session.weekdays,
+                ])
+            )
+        );
+    }, [phase]);
+
+    const handleSave = async () => {
+        if (!phase || !startDate) return;
+        setIsSaving(true);
+        try {
+            const result = await savePhaseSchedule(phase.phaseId, {
+                startDate,
+                endDate: endDate || null,
+                weekdays,
+            });
+            if (!result.success) {
+                toast.error(result.error || "Failed to save schedule");
+                return;
+            }
+            toast.success(`Scheduled "${phase.phaseName}"`);
+            onSaved();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleClear = async () => {
+        if (!phase) return;
+        setIsSaving(true);
+        try {
+            const result = await clearPhaseSchedule(phase.phaseId);
+            if (!result.success) {
+                toast.error(result.error || "Failed to clear schedule");
+                return;
+            }
+            toast.success(
+                `Removed the weekly schedule of "${phase.phaseName}"`
+            );
+            onSaved();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="sm:max-w-xl">
+                <DialogHeader>
+                    <DialogTitle>Weekly Schedule</DialogTitle>
+                    <DialogDescription>
+                        Choose which weekdays each session repeats on while
+                        the phase runs. Individual dates can still be moved
+                        on the calendar.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {phases.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        This client has no active plans with sessions.
+                    </p>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="space-y-1">
+                            <Label>Phase</Label>
+                            <Select
+                                value={phaseId ?? undefined}
+                                onValueChange={setPhaseId}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select a phase" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {phases.map((p) => (
+                                        <SelectItem
+                                            key={p.phaseId}
+                                            value={p.phaseId}
+                                        >
+                                            {p.planName} › {p.phaseName}
+                                            {p.phaseIsActive ? " (Active)" : ""}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-1">
+                                <Label htmlFor="schedule-start">Starts</Label>
+                                <Input
+                                    id="schedule-start"
+                                    type="date"
+                                    value={startDate}
+                                    onChange={(e) =>
+                                        setStartDate(e.target.value)
+                                    }
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="schedule-end">
+                                    Ends (optional)
+                                </Label>
+                                <Input
+                                    id="schedule-end"
+                                    type="date"
+                                    value={endDate}
+                                    min={startDate}
+                                    onChange={(e) => setEndDate(e.target.value)}
+                                />
+                            </div>
+                        </div>
+
+                        {phase?.sessions.map((session) => (
+                            <div
+                                key={session.sessionId}
+                                className="flex items-center justify-between gap-2"
+                            >
+                                <span className="text-sm truncate">
+                                    {session.sessionName}
+                                </span>
+                                <ToggleGroup
+                                    type="multiple"
+                                    variant="outline"
+                                    size="sm"
+                                    value={(
+                                        weekdays[session.sessionId] ?? []
+                                    ).map(String)}
+                                    onValueChange={(values) =>
+                                        setWeekdays((current) => ({
+                                            ...current,
+                                            [session.sessionId]:
+                                                values.map(Number),
+                                        }))
+                                    }
+                                >
+                                    {WEEKDAYS.map((day) => (
+                                        <ToggleGroupItem
+                                            key={day.value}
+                                            value={String(day.value)}
+                                            className="px-2 text-xs"
+                                        >
+                                            {day.label}
+                                        </ToggleGroupItem>
+                                    ))}
+                                </ToggleGroup>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {phase?.startDate && (
+                        <Button
+                            variant="outline"
+                            onClick={handleClear}
+                            disabled={isSaving}
+                            className="mr-auto"
+                        >
+                            Clear Schedule
+                        </Button>
+                    )}
+                    <Button
+                        variant="outline"
+                        onClick={onClose}
+                        disabled={isSaving}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleSave}
+                        disabled={isSaving || !phase || !startDate}
+                    >
+                        {isSaving && (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        )}
+                        Save Schedule
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,191 @@
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+import {
+    CalendarEntry,
+    ClientCalendar,
+    CompletedSessionLog,
+    PhaseScheduleSettings,
+    ScheduledSessionOverride,
+    WeeklyAdherence,
+} from "@/types/workout-schedule-types";
+
+export const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Monday of the week containing the date (weeks run Monday to Sunday)
+ */
+export const weekStartOf = (dateKey: string) =>
+    toDateKey(startOfWeek(parseISO(dateKey), { weekStartsOn: 1 }));
+
+const maxKey = (a: string, b: string) => (a > b ? a : b);
+const minKey = (a: string, b: string) => (a < b ? a : b);
+
+type PlannedEntry = Omit<CalendarEntry, "status" | "workoutSessionLogId">;
+
+/**
+ * Expands recurring weekly patterns and explicit dates into the sessions
+ * planned between from and to (inclusive)
+ */
+function expandPlannedSessions(
+    from: string,
+    to: string,
+    phases: PhaseScheduleSettings[],
+    overrides: ScheduledSessionOverride[]
+): PlannedEntry[] {
+    // Recurring occurrences that were moved or skipped
+    const replaced = new Set(
+        overrides
+            .filter((override) => override.replacesDate)
+            .map((override) => `${override.sessionId}|${override.replacesDate}`)
+    );
+
+    const planned: PlannedEntry[] = [];
+
+    for (const phase of phases) {
+        if (!phase.startDate) continue;
+        const rangeStart = maxKey(from, phase.startDate);
+        const rangeEnd = phase.endDate ? minKey(to, phase.endDate) : to;
+
+        for (
+            let day = parseISO(rangeStart);
+            toDateKey(day) <= rangeEnd;
+            day = addDays(day, 1)
+        ) {
+            const date = toDateKey(day);
+            for (const session of phase.sessions) {
+                if (
+                    !session.weekdays.includes(day.getDay()) ||
+                    replaced.has(`${session.sessionId}|${date}`)
+                ) {
+                    continue;
+                }
+                planned.push({
+                    key: `recurring-${session.sessionId}-${date}`,
+                    date,
+                    sessionId: session.sessionId,
+                    sessionName: session.sessionName,
+                    phaseId: phase.phaseId,
+                    phaseName: phase.phaseName,
+                    scheduledSessionId: null,
+                    occurrenceDate: date,
+                });
+            }
+        }
+    }
+
+    for (const override of overrides) {
+        const date = override.scheduledDate;
+        if (!date || date < from || date > to) continue;
+        planned.push({
+            key: `scheduled-${override.scheduledSessionId}`,
+            date,
+            sessionId: override.sessionId,
+            sessionName: override.sessionName,
+            phaseId: override.phaseId,
+            phaseName: override.phaseName,
+            scheduledSessionId: override.scheduledSessionId,
+            occurrenceDate: override.replacesDate,
+        });
+    }
+
+    return planned.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Builds the calendar for a date range: planned sessions matched against
+ * logged workouts, plus weekly adherence. A planned session counts as
+ * completed when the same plan session was logged in the same week, so
+ * doing Monday's workout on Tuesday isn't counted as missed.
+ * @param from First day to include (yyyy-MM-dd)
+ * @param to Last day to include (yyyy-MM-dd)
+ * @param today Planned sessions before this date with no log are "missed"
+ */
+export function buildClientCalendar({
+    from,
+    to,
+    today,
+    phases,
+    overrides,
+    logs,
+}: {
+    from: string;
+    to: string;
+    today: string;
+    phases: PhaseScheduleSettings[];
+    overrides: ScheduledSessionOverride[];
+    logs: CompletedSessionLog[];
+}): ClientCalendar {
+    const planned = expandPlannedSessions(from, to, phases, overrides);
+    const unmatchedLogs = [...logs].sort((a, b) =>
+        a.date.localeCompare(b.date)
+    );
+
+    const entries: CalendarEntry[] = planned.map((entry) => {
+        const week = weekStartOf(entry.date);
+        const candidates = unmatchedLogs.filter(
+            (log) =>
+                log.sessionId === entry.sessionId &&
+                weekStartOf(log.date) === week
+        );
+        const match =
+            candidates.find((log) => log.date === entry.date) ?? candidates[0];
+
+        if (match) {
+            unmatchedLogs.splice(unmatchedLogs.indexOf(match), 1);
+            return {
+                ...entry,
+                status: "completed",
+                workoutSessionLogId: match.workoutSessionLogId,
+            };
+        }
+
+        return {
+            ...entry,
+            status: entry.date < today ? "missed" : "planned",
+            workoutSessionLogId: null,
+        };
+    });
+
+    for (const log of unmatchedLogs) {
+        entries.push({
+            key: `log-${log.workoutSessionLogId}`,
+            date: log.date,
+            sessionId: log.sessionId,
+            sessionName: log.sessionName,
+            phaseId: null,
+            phaseName: null,
+            status: "unplanned",
+            scheduledSessionId: null,
+            occurrenceDate: null,
+            workoutSessionLogId: log.workoutSessionLogId,
+        });
+    }
+
+    const weeks: WeeklyAdherence[] = [];
+    for (
+        let weekStart = weekStartOf(from);
+        weekStart <= to;
+        weekStart = toDateKey(addDays(parseISO(weekStart), 7))
+    ) {
+        const weekEntries = entries.filter(
+            (entry) =>
+                entry.status !== "unplanned" &&
+                weekStartOf(entry.date) === weekStart
+        );
+        const completed = weekEntries.filter(
+            (entry) => entry.status === "completed"
+        ).length;
+        weeks.push({
+            weekStart,
+            planned: weekEntries.length,
+            completed,
+            adherence: weekEntries.length
+                ? completed / weekEntries.length
+                : null,
+        });
+    }
+
+    return {
+        entries: entries.sort((a, b) => a.date.localeCompare(b.date)),
+        weeks,
+    };
+}
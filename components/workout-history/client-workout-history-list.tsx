@@ -14,6 +14,8 @@ import { Textarea } from "../ui/textarea";
 import { toast } from "sonner";
 import { ChevronDown, ChevronUp, EllipsisVertical, Trash2 } from "lucide-react";
 import { LinkifiedText } from "@/components/ui/linkified-text";
+import { describeSetEffort } from "@/components/workout-tracker/set-effort-fields";
+import { SetType } from "@/db/schemas";
 import {
     DropdownMenu,
     DropdownMenuTrigger,
@@ -38,6 +40,10 @@ interface WorkoutDetail {
     notes: string;
     setOrderMarker: string;
     entryTime: string | null;
+    setType: SetType;
+    rpe: number | null;
+    rir: number | null;
+    tempoAdhered: boolean | null;
 }
 
 interface EditingNote {
@@ -469,6 +475,7 @@ const ExerciseTile = ({
     session: SessionLog,
     handleDeleteLog: (sessionId: string, exerciseId: string) => void
 }) => {
+    const effort = describeSetEffort(exercise);
     return (
         <div
             key={exercise.id}
@@ -491,6 +498,11 @@ const ExerciseTile = ({
                     exercise.weight
                 ).toFixed(2)}
                 kg
+                {effort && (
+                    <div className="text-muted-foreground mt-1">
+                        {effort}
+                    </div>
+                )}
                 {exercise.notes && (
                     <div className="text-muted-foreground italic mt-1">
                         <LinkifiedText
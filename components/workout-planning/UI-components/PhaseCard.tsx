@@ -9,7 +9,15 @@ import {
     TooltipContent,
     TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { ChevronDown, ChevronUp, Copy, Edit, Plus, Trash2 } from "lucide-react";
+import {
+    ChevronDown,
+    ChevronUp,
+    Copy,
+    Edit,
+    Plus,
+    Trash2,
+    TrendingUp,
+} from "lucide-react";
 import type { Phase, Session } from "../types";
 import { Input } from "@/components/ui/input";
 import DraggableSession from "./draggable-session";
@@ -27,6 +35,7 @@ type PhaseCardProps = {
     onEditPhase: (id: string, name: string) => void;
     onDeletePhase: (phaseId: string) => void;
     onDuplicatePhase: (phaseId: string) => void;
+    onProgressPhase: (phaseId: string) => void;
     onToggleActivation: (phaseId: string) => void;
     editingPhase: string | null;
     editPhaseValue: string;
@@ -52,6 +61,7 @@ type PhaseCardProps = {
         hoverIndex: number
     ) => void;
     onRenderExercises: (phase: Phase, session: Session) => React.ReactNode;
+    timeMultipliers: Record<string, number>;
     editingSession: string | null;
     editSessionValue: string;
     onSaveSessionEdit: () => void;
@@ -68,6 +78,7 @@ export function PhaseCard({
     onEditPhase,
     onDeletePhase,
     onDuplicatePhase,
+    onProgressPhase,
     onToggleActivation,
     editingPhase,
     editPhaseValue,
@@ -85,6 +96,7 @@ export function PhaseCard({
     onMoveSession,
     onDragVisual,
     onRenderExercises,
+    timeMultipliers,
     editingSession,
     editSessionValue,
     onSaveSessionEdit,
@@ -224,6 +236,25 @@ export function PhaseCard({
                             </TooltipTrigger>
                             <TooltipContent>Duplicate Phase</TooltipContent>
                         </Tooltip>
+                        {/* Progress Phase */}
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => onProgressPhase(phase.id)}
+                                    disabled={isAnyOperationInProgress}
+                                    className={`h-8 w-8 ${
+                                        isAnyOperationInProgress
+                                            ? "cursor-not-allowed"
+                                            : "cursor-pointer"
+                                    }`}
+                                >
+                                    <TrendingUp className="h-4 w-4" />
+                                </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Progress Phase</TooltipContent>
+                        </Tooltip>
                         {/* Delete Phase */}
                         <Tooltip>
                             <TooltipTrigger asChild>
@@ -305,6 +336,7 @@ export function PhaseCard({
                                 moveSession={onMoveSession}
                                 handleDragVisual={onDragVisual}
                                 renderExercisesTable={onRenderExercises}
+                                timeMultipliers={timeMultipliers}
                                 editingSession={editingSession}
                                 editSessionValue={editSessionValue}
                                 saveSessionEdit={onSaveSessionEdit}
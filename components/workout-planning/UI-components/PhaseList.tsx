@@ -18,6 +18,7 @@ interface PhaseListProps {
     onEditPhase: (id: string, name: string) => void;
     onDeletePhase: (phaseId: string) => void;
     onDuplicatePhase: (phaseId: string) => void;
+    onProgressPhase: (phaseId: string) => void;
     onToggleActivation: (phaseId: string) => void;
     editingPhase: string | null;
     editPhaseValue: string;
@@ -43,6 +44,7 @@ interface PhaseListProps {
         hoverIndex: number
     ) => void;
     onRenderExercises: (phase: Phase, session: Session) => React.ReactNode;
+    timeMultipliers: Record<string, number>;
     editingSession: string | null;
     editSessionValue: string;
     onSaveSessionEdit: () => void;
@@ -88,6 +90,7 @@ export function PhaseList({
     onEditPhase,
     onDeletePhase,
     onDuplicatePhase,
+    onProgressPhase,
     onToggleActivation,
     editingPhase,
     editPhaseValue,
@@ -105,6 +108,7 @@ export function PhaseList({
     onMoveSession,
     onDragVisual,
     onRenderExercises,
+    timeMultipliers,
     editingSession,
     editSessionValue,
     onSaveSessionEdit,
@@ -132,6 +136,7 @@ export function PhaseList({
                     onEditPhase={onEditPhase}
                     onDeletePhase={onDeletePhase}
                     onDuplicatePhase={onDuplicatePhase}
+                    onProgressPhase={onProgressPhase}
                     onToggleActivation={onToggleActivation}
                     editingPhase={editingPhase}
                     editPhaseValue={editPhaseValue}
@@ -148,6 +153,7 @@ export function PhaseList({
                     onMoveSession={onMoveSession}
                     onDragVisual={onDragVisual}
                     onRenderExercises={onRenderExercises}
+                    timeMultipliers={timeMultipliers}
                     editingSession={editingSession}
                     editSessionValue={editSessionValue}
                     onSaveSessionEdit={onSaveSessionEdit}
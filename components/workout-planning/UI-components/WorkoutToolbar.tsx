@@ -7,13 +7,16 @@ import {
 } from "@/components/ui/tooltip";
 import { Button } from "@/components/ui/button";
 import WorkoutPlanCsvImportExport from "./workout-plan-csv-import-export";
-import { Plus, RefreshCw } from "lucide-react";
+import WorkoutPlanTemplates from "./workout-plan-templates";
+import PlanVersionHistory from "./plan-version-history";
+import { Plus, Printer, RefreshCw, Save } from "lucide-react";
 import { WorkoutQueueIntegration } from "@/lib/workout-queue-integration";
 import { toast } from "sonner";
 
 type WorkoutToolbarProps = {
     onAddPhase: () => void;
     onReload: () => void;
+    onSavePlan: () => void;
     client_id: string;
     trainer_id: string;
     planId?: string | null;
@@ -30,6 +33,7 @@ type WorkoutToolbarProps = {
 export function WorkoutToolbar({
     onAddPhase,
     onReload,
+    onSavePlan,
     client_id,
     trainer_id,
     planId,
@@ -79,15 +83,56 @@ export function WorkoutToolbar({
                 </TooltipContent>
             </Tooltip>
 
+            <Tooltip>
+                <TooltipTrigger asChild>
+                    <Button
+                        variant="outline"
+                        onClick={onSavePlan}
+                        className="cursor-pointer h-10"
+                        disabled={isAnyOperationInProgress || !planId}
+                    >
+                        <Save className="h-4 w-4 mr-2" />
+                        Save Plan
+                    </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                    Save the whole plan, merging changes made elsewhere
+                </TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+                <TooltipTrigger asChild>
+                    <Button
+                        variant="outline"
+                        onClick={() =>
+                            window.open(
+                                `/api/workout-booklet/${client_id}?planId=${planId}`,
+                                "_blank",
+                                "noopener"
+                            )
+                        }
+                        className="cursor-pointer h-10"
+                        disabled={!planId}
+                    >
+                        <Printer className="h-4 w-4 mr-2" />
+                        Print Booklet
+                    </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                    Printable PDF of the saved plan with log boxes and video QR
+                    codes
+                </TooltipContent>
+            </Tooltip>
+
             <WorkoutPlanCsvImportExport
                 phases={phases}
                 onImport={async (importedPhases) => {
-                    // The CSV import already generates correct timestamp-based order numbers
-                    // Just ensure all imported phases are deactivated
+                    // The import already generates correct timestamp-based order numbers
+                    // Imported phases are deactivated unless they start a new plan
                     const phasesWithCorrectOrder = importedPhases.map(
                         (phase) => ({
                             ...phase,
-                            isActive: false, // Ensure all imported phases are deactivated
+                            isActive: phases.length === 0 && phase.isActive,
                         })
                     );
 
@@ -110,7 +155,7 @@ export function WorkoutToolbar({
                                 );
                             }
                             toast.success(
-                                "CSV phases imported and queued for processing.",
+                                "Imported phases queued for processing.",
                                 {
                                     duration: 3000,
                                 }
@@ -125,14 +170,27 @@ export function WorkoutToolbar({
                     } catch (error) {
                         console.error("Failed to queue CSV import:", error);
                         toast.error(
-                            "Failed to import CSV phases. Please try again."
+                            "Failed to import phases. Please try again."
                         );
                     }
                 }}
                 clientId={client_id}
+                trainerId={trainer_id}
                 exercises={exercises}
                 disabled={isAnyOperationInProgress}
             />
+
+            <WorkoutPlanTemplates
+                planId={planId}
+                clientId={client_id}
+                hasPhases={phases.length > 0}
+                disabled={isAnyOperationInProgress}
+            />
+
+            <PlanVersionHistory
+                planId={planId}
+                disabled={isAnyOperationInProgress}
+            />
         </div>
     );
 }
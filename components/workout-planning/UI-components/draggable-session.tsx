@@ -1,12 +1,13 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import { useDrag, useDrop } from "react-dnd";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
     ChevronDown,
     ChevronUp,
+    Clock,
     Copy,
     Edit,
     // GripVertical,
@@ -29,6 +30,10 @@ export const ItemTypes = {
 import { Phase, Session } from "../types";
 import { TooltipContent, Tooltip, TooltipTrigger } from "../../ui/tooltip";
 import { toast } from "sonner";
+import { estimateSessionDuration } from "../workout-utils/session-duration";
+
+const formatMinutes = (seconds: number) =>
+    seconds < 60 ? "<1 min" : `${Math.round(seconds / 60)} min`;
 
 type DraggableSessionProps = {
     phase: Phase;
@@ -54,6 +59,7 @@ type DraggableSessionProps = {
         hoverIndex: number
     ) => void;
     renderExercisesTable: (phase: Phase, session: Session) => React.ReactNode;
+    timeMultipliers: Record<string, number>;
     editingSession: string | null;
     editSessionValue: string;
     saveSessionEdit: () => void;
@@ -74,6 +80,7 @@ const DraggableSession = ({
     startingSessionId,
     startEditSession,
     renderExercisesTable,
+    timeMultipliers,
     editingSession,
     editSessionValue,
     saveSessionEdit,
@@ -92,6 +99,19 @@ const DraggableSession = ({
         }
     }, [editingSession, session.id]);
 
+    const durationEstimate = useMemo(
+        () => estimateSessionDuration(session.exercises, timeMultipliers),
+        [session.exercises, timeMultipliers]
+    );
+    const durationTotals = durationEstimate.blocks.reduce(
+        (totals, block) => ({
+            work: totals.work + block.workSeconds,
+            rest: totals.rest + block.restSeconds,
+            transition: totals.transition + block.transitionSeconds,
+        }),
+        { work: 0, rest: 0, transition: 0 }
+    );
+
     // Set up drag - DISABLED: Drag and drop is not necessary as trainers can start any workout routine
     const [{ isDragging }, drag] = useDrag({
         type: ItemTypes.SESSION,
@@ -274,6 +294,46 @@ const DraggableSession = ({
                         </TooltipTrigger>
                         <TooltipContent>Delete Session</TooltipContent>
                     </Tooltip>
+                    {/* Estimated Duration */}
+                    {session.exercises.length > 0 && (
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                <span className="flex items-center gap-1 text-sm text-muted-foreground cursor-default">
+                                    <Clock className="h-4 w-4" />
+                                    {`~${session.duration} min`}
+                                </span>
+                            </TooltipTrigger>
+                            <TooltipContent className="max-w-xs">
+                                <div className="space-y-1 text-xs">
+                                    {durationEstimate.blocks.map((block) => (
+                                        <div
+                                            key={`${block.label}-${block.exerciseNames.join()}`}
+                                            className="flex justify-between gap-4"
+                                        >
+                                            <span className="truncate">
+                                                {block.exerciseNames.length > 1
+                                                    ? `${block.label}: ${block.exerciseNames.join(" + ")}`
+                                                    : block.label}{" "}
+                                                × {block.rounds}
+                                            </span>
+                                            <span className="shrink-0">
+                                                {formatMinutes(
+                                                    block.totalSeconds
+                                                )}
+                                            </span>
+                                        </div>
+                                    ))}
+                                    <div className="border-t pt-1 opacity-80">
+                                        {[
+                                            `Work ${formatMinutes(durationTotals.work)}`,
+                                            `Rest ${formatMinutes(durationTotals.rest)}`,
+                                            `Setup ${formatMinutes(durationTotals.transition)}`,
+                                        ].join(" · ")}
+                                    </div>
+                                </div>
+                            </TooltipContent>
+                        </Tooltip>
+                    )}
                     {/* Save button removed */}
                     <Button
                         variant="default"
@@ -297,11 +357,9 @@ const DraggableSession = ({
                         ) : (
                             <>
                                 <span className="hidden sm:inline">
-                                    Start Session ({session.duration} mins)
-                                </span>
-                                <span className="sm:hidden">
-                                    Start ({session.duration}m)
+                                    Start Session
                                 </span>
+                                <span className="sm:hidden">Start</span>
                             </>
                         )}
                     </Button>
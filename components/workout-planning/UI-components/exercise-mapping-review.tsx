@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, CheckCircle2, Loader2, Plus } from "lucide-react";
+import type { SelectExercise } from "@/db/schemas";
+import ExerciseDropdown from "./exercise-table/ExerciseDropdown";
+import { UnmatchedImportExercise } from "../workout-utils/exercise-matching";
+
+interface ExerciseMappingReviewProps {
+    items: UnmatchedImportExercise[];
+    exercises: SelectExercise[];
+    resolutions: Record<string, SelectExercise>;
+    onResolve: (normalizedName: string, exercise: SelectExercise) => void;
+    onCreateExercise: (normalizedName: string, name: string) => Promise<void>;
+}
+
+/**
+ * Review step of a plan import: each exercise name that isn't in the
+ * library is confirmed against a suggestion, mapped to another exercise,
+ * or added to the library
+ */
+const ExerciseMappingReview: React.FC<ExerciseMappingReviewProps> = ({
+    items,
+    exercises,
+    resolutions,
+    onResolve,
+    onCreateExercise,
+}) => {
+    const [creating, setCreating] = useState<string | null>(null);
+    const [newName, setNewName] = useState("");
+    const [isCreating, setIsCreating] = useState(false);
+
+    const startCreate = (item: UnmatchedImportExercise) => {
+        setCreating(item.normalizedName);
+        setNewName(item.sourceName);
+    };
+
+    const create = async (normalizedName: string) => {
+        if (!newName.trim()) return;
+        setIsCreating(true);
+        try {
+            await onCreateExercise(normalizedName, newName.trim());
+            setCreating(null);
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    return (
+        <ul className="max-h-80 overflow-y-auto rounded-md border divide-y text-sm">
+            {items.map((item) => {
+                const resolution = resolutions[item.normalizedName];
+                return (
+                    <li
+                        key={item.normalizedName}
+                        className="px-3 py-3 space-y-2"
+                    >
+                        <div className="flex items-start justify-between gap-2">
+                            <span className="flex items-center gap-2 font-medium">
+                                {resolution ? (
+                                    <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+                                ) : (
+                                    <AlertCircle className="h-4 w-4 shrink-0 text-amber-500" />
+                                )}
+                                &ldquo;{item.sourceName}&rdquo;
+                            </span>
+                            <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                {item.rows} row{item.rows === 1 ? "" : "s"}
+                            </span>
+                        </div>
+
+                        {item.candidates.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                                {item.candidates.map(({ exercise, score }) => (
+                                    <Button
+                                        key={exercise.exerciseId}
+                                        type="button"
+                                        size="sm"
+                                        variant={
+                                            resolution?.exerciseId ===
+                                            exercise.exerciseId
+                                                ? "default"
+                                                : "outline"
+                                        }
+                                        className="h-7 text-xs cursor-pointer"
+                                        onClick={() =>
+                                            onResolve(
+                                                item.normalizedName,
+                                                exercise
+                                            )
+                                        }
+                                    >
+                                        {exercise.exerciseName}
+                                        <span className="opacity-70">
+                                            {Math.round(score * 100)}%
+                                        </span>
+                                    </Button>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="flex gap-2">
+                            <div className="flex-1 min-w-0">
+                                <ExerciseDropdown
+                                    exercises={exercises}
+                                    selectedDescription={
+                                        resolution &&
+                                        !item.candidates.some(
+                                            ({ exercise }) =>
+                                                exercise.exerciseId ===
+                                                resolution.exerciseId
+                                        )
+                                            ? resolution.exerciseName
+                                            : ""
+                                    }
+                                    onExerciseSelect={(exercise) =>
+                                        onResolve(item.normalizedName, exercise)
+                                    }
+                                    placeholder="Pick another exercise..."
+                                />
+                            </div>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => startCreate(item)}
+                                disabled={isCreating}
+                                className="cursor-pointer"
+                            >
+                                <Plus className="h-4 w-4 mr-1" />
+                                New
+                            </Button>
+                        </div>
+
+                        {creating === item.normalizedName && (
+                            <div className="flex gap-2">
+                                <Input
+                                    value={newName}
+                                    onChange={(e) => setNewName(e.target.value)}
+                                    placeholder="Exercise name"
+                                    autoFocus
+                                />
+                                <Button
+                                    type="button"
+                                    onClick={() => create(item.normalizedName)}
+                                    disabled={isCreating || !newName.trim()}
+                                >
+                                    {isCreating && (
+                                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                    )}
+                                    Add to Library
+                                </Button>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    onClick={() => setCreating(null)}
+                                    disabled={isCreating}
+                                >
+                                    Cancel
+                                </Button>
+                            </div>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+export default ExerciseMappingReview;
@@ -12,10 +12,18 @@ import {
     PopoverContent,
     PopoverTrigger,
 } from "@/components/ui/popover";
-import type { SelectExercise } from "@/db/schemas";
+import { ExerciseThumbnail } from "@/components/exercise-media/exercise-thumbnail";
+import { ExerciseFacetFilters } from "@/components/exercise-taxonomy/exercise-facet-filters";
+import {
+    DIFFICULTY_LABELS,
+    ExerciseFacetSelection,
+    getExerciseSearchTerms,
+    matchesExerciseFacets,
+} from "@/lib/exercise-taxonomy";
+import type { SelectExercise, SelectExerciseWithAliases } from "@/db/schemas";
 
 interface ExerciseDropdownProps {
-    exercises: SelectExercise[];
+    exercises: SelectExerciseWithAliases[];
     selectedDescription: string;
     onExerciseSelect: (exercise: SelectExercise) => void;
     placeholder?: string;
@@ -33,15 +41,47 @@ const ExerciseDropdown: React.FC<ExerciseDropdownProps> = ({
 }) => {
     const [open, setOpen] = useState(false);
     const [searchTerm, setSearchTerm] = useState("");
+    const [facets, setFacets] = useState<ExerciseFacetSelection>({});
 
-    // Memoize filtered exercises based on search term
-    const filteredExercises = useMemo(
-        () =>
-            exercises?.filter((ex) =>
-                ex.exerciseName.toLowerCase().includes(searchTerm.toLowerCase())
-            ) || [],
-        [exercises, searchTerm]
-    );
+    // Memoize filtered exercises. Comma-separated terms must each match the
+    // name, an alias or a taxonomy tag, e.g. "dumbbell, glutes, beginner"
+    const filteredExercises = useMemo(() => {
+        const terms = searchTerm
+            .toLowerCase()
+            .split(",")
+            .map((term) => term.trim())
+            .filter(Boolean);
+        return (
+            exercises
+                ?.filter(
+                    (ex) =>
+                        matchesExerciseFacets(ex, facets) &&
+                        terms.every((term) =>
+                            getExerciseSearchTerms(ex).some((searchable) =>
+                                searchable.includes(term)
+                            )
+                        )
+                )
+                .map((ex) => {
+                    const name = ex.exerciseName.toLowerCase();
+                    const aliasTerm = terms.find(
+                        (term) => !name.includes(term)
+                    );
+                    return {
+                        ex,
+                        matchedAlias: aliasTerm
+                            ? ex.aliases?.find((alias) =>
+                                  alias.toLowerCase().includes(aliasTerm)
+                              )
+                            : undefined,
+                        tags: [
+                            ...(ex.equipment ?? []),
+                            ...(ex.primaryMuscles ?? []),
+                        ].map((tag) => tag.name),
+                    };
+                }) || []
+        );
+    }, [exercises, searchTerm, facets]);
 
     const handleExerciseSelect = (exercise: SelectExercise) => {
         onExerciseSelect(exercise);
@@ -62,28 +102,57 @@ const ExerciseDropdown: React.FC<ExerciseDropdownProps> = ({
                 </Button>
             </PopoverTrigger>
             <PopoverContent className="w-[350px] p-0">
-                <Command>
+                <Command shouldFilter={false}>
                     <CommandInput
-                        placeholder="Search exercises..."
+                        placeholder="Search, e.g. dumbbell, glutes, beginner"
                         value={searchTerm}
                         onValueChange={setSearchTerm}
                     />
+                    <ExerciseFacetFilters
+                        facets={["equipment", "primaryMuscle", "difficulty"]}
+                        value={facets}
+                        onChange={setFacets}
+                        className="border-b p-2"
+                    />
                     <CommandEmpty>No exercise found.</CommandEmpty>
                     <CommandGroup className="max-h-[350px] overflow-auto">
-                        {filteredExercises.map((ex) => (
+                        {filteredExercises.map(({ ex, matchedAlias, tags }) => (
                             <CommandItem
                                 key={ex.exerciseId}
                                 value={ex.exerciseName}
+                                keywords={ex.aliases}
                                 onSelect={() => handleExerciseSelect(ex)}
                                 className="cursor-pointer"
                             >
+                                <ExerciseThumbnail
+                                    url={ex.thumbnailUrl}
+                                    alt={ex.exerciseName}
+                                />
                                 <div className="flex flex-col">
                                     <span className="font-medium">
                                         {ex.exerciseName}
+                                        {matchedAlias && (
+                                            <span className="ml-2 text-xs font-normal text-muted-foreground">
+                                                aka {matchedAlias}
+                                            </span>
+                                        )}
                                     </span>
                                     <span className="text-sm text-muted-foreground">
                                         {ex.motion} • {ex.targetArea}
                                     </span>
+                                    {(tags.length > 0 || ex.difficulty) && (
+                                        <span className="text-xs text-muted-foreground">
+                                            {[
+                                                ...tags,
+                                                ex.difficulty &&
+                                                    DIFFICULTY_LABELS[
+                                                        ex.difficulty
+                                                    ],
+                                            ]
+                                                .filter(Boolean)
+                                                .join(" · ")}
+                                        </span>
+                                    )}
                                 </div>
                             </CommandItem>
                         ))}
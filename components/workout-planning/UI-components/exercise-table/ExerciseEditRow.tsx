@@ -7,6 +7,11 @@ import { Check, X } from "lucide-react";
 import type { SelectExercise } from "@/db/schemas";
 import ExerciseDropdown from "./ExerciseDropdown";
 import { ExerciseRow } from "./ExerciseTableRow";
+import {
+    deriveTut,
+    TEMPO_FORMAT_HINT,
+    validateTempo,
+} from "../../workout-utils/tempo";
 
 interface ExerciseEditRowProps {
     editingExerciseRow: ExerciseRow;
@@ -40,6 +45,9 @@ const ExerciseEditRow: React.FC<ExerciseEditRowProps> = ({
         onFieldChange("targetArea", exercise.targetArea || "");
     };
 
+    const tempoError = validateTempo(editingExerciseRow.tempo);
+    const tut = tempoError ? null : deriveTut(editingExerciseRow);
+
     return (
         <TableRow>
             {/* Order */}
@@ -129,8 +137,15 @@ const ExerciseEditRow: React.FC<ExerciseEditRowProps> = ({
                     value={editingExerciseRow.tempo || ""}
                     onChange={(e) => onFieldChange("tempo", e.target.value)}
                     placeholder="3 0 1 0"
+                    title={TEMPO_FORMAT_HINT}
+                    aria-invalid={!!tempoError}
                     className="w-full"
                 />
+                {tempoError && (
+                    <p className="mt-1 text-xs text-destructive whitespace-normal">
+                        {TEMPO_FORMAT_HINT}
+                    </p>
+                )}
             </TableCell>
 
             {/* Rest (min-max) */}
@@ -158,7 +173,9 @@ const ExerciseEditRow: React.FC<ExerciseEditRowProps> = ({
 
             {/* TUT (calculated, read-only) */}
             <TableCell className="min-w-[100px] hidden xl:table-cell">
-                <span className="text-muted-foreground">Auto</span>
+                <span className="text-muted-foreground">
+                    {tut !== null ? `${tut}s` : "Auto"}
+                </span>
             </TableCell>
 
             {/* Additional Instructions */}
@@ -181,7 +198,7 @@ const ExerciseEditRow: React.FC<ExerciseEditRowProps> = ({
                         size="icon"
                         onClick={onSave}
                         className="h-8 w-8 cursor-pointer"
-                        disabled={isSaving}
+                        disabled={isSaving || !!tempoError}
                     >
                         <Check className="h-4 w-4" />
                     </Button>
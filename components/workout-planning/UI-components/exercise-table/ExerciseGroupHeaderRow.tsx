@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from "react";
+import { TableRow, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Unlink } from "lucide-react";
+import { Exercise, ExerciseGroupType } from "../../types";
+import { EXERCISE_GROUP_LABELS } from "../../workout-utils/exercise-groups";
+
+type GroupSettings = Pick<Exercise, "groupType" | "groupRounds" | "groupRest">;
+
+interface ExerciseGroupHeaderRowProps {
+    letter: string;
+    type: ExerciseGroupType;
+    memberCount: number;
+    groupRounds?: string;
+    groupRest?: string;
+    onChangeSettings: (settings: GroupSettings) => void;
+    onUngroup: () => void;
+    disabled?: boolean;
+}
+
+/**
+ * Header row above a superset, giant set or circuit with the group's shared
+ * settings: type, rounds (circuits only) and rest after each round
+ */
+const ExerciseGroupHeaderRow: React.FC<ExerciseGroupHeaderRowProps> = ({
+    letter,
+    type,
+    memberCount,
+    groupRounds = "",
+    groupRest = "",
+    onChangeSettings,
+    onUngroup,
+    disabled = false,
+}) => {
+    // Inputs are committed on blur so typing doesn't queue a save per keystroke
+    const [rounds, setRounds] = useState(groupRounds);
+    const [rest, setRest] = useState(groupRest);
+
+    useEffect(() => setRounds(groupRounds), [groupRounds]);
+    useEffect(() => setRest(groupRest), [groupRest]);
+
+    const settings: GroupSettings = {
+        groupType: type,
+        groupRounds,
+        groupRest,
+    };
+
+    const commitRounds = () => {
+        if (rounds !== groupRounds) {
+            onChangeSettings({ ...settings, groupRounds: rounds });
+        }
+    };
+
+    const commitRest = () => {
+        if (rest !== groupRest) {
+            onChangeSettings({ ...settings, groupRest: rest });
+        }
+    };
+
+    return (
+        <TableRow className="bg-muted/40 hover:bg-muted/40 border-l-4 border-l-primary">
+            <TableCell colSpan={11} className="py-2">
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <span className="font-medium">
+                        {EXERCISE_GROUP_LABELS[type]} {letter}
+                    </span>
+                    <span className="text-muted-foreground">
+                        {memberCount} exercises
+                    </span>
+                    <Select
+                        value={type}
+                        onValueChange={(value) =>
+                            onChangeSettings({
+                                ...settings,
+                                groupType: value as ExerciseGroupType,
+                                // Rounds only apply to circuits
+                                groupRounds:
+                                    value === "circuit" ? groupRounds : "",
+                            })
+                        }
+                        disabled={disabled}
+                    >
+                        <SelectTrigger className="h-8 w-[140px]">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(
+                                Object.keys(
+                                    EXERCISE_GROUP_LABELS
+                                ) as ExerciseGroupType[]
+                            ).map((groupType) => (
+                                <SelectItem key={groupType} value={groupType}>
+                                    {EXERCISE_GROUP_LABELS[groupType]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {type === "circuit" && (
+                        <label className="flex items-center gap-2">
+                            Rounds
+                            <Input
+                                type="number"
+                                min={1}
+                                value={rounds}
+                                placeholder="3"
+                                onChange={(e) => setRounds(e.target.value)}
+                                onBlur={commitRounds}
+                                className="h-8 w-20"
+                                disabled={disabled}
+                            />
+                        </label>
+                    )}
+                    <label className="flex items-center gap-2">
+                        Rest after round (s)
+                        <Input
+                            type="number"
+                            min={0}
+                            value={rest}
+                            placeholder="Exercise rest"
+                            onChange={(e) => setRest(e.target.value)}
+                            onBlur={commitRest}
+                            className="h-8 w-32"
+                            disabled={disabled}
+                        />
+                    </label>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto h-8"
+                        onClick={onUngroup}
+                        disabled={disabled}
+                    >
+                        <Unlink className="h-4 w-4 mr-1" />
+                        Ungroup
+                    </Button>
+                </div>
+            </TableCell>
+        </TableRow>
+    );
+};
+
+export default ExerciseGroupHeaderRow;
@@ -1,4 +1,10 @@
-import React, { useEffect, useState, useCallback, useRef } from "react";
+import React, {
+    useEffect,
+    useState,
+    useCallback,
+    useRef,
+    useMemo,
+} from "react";
 import { Table, TableBody } from "@/components/ui/table";
 import { Phase, Session, Exercise } from "../../types";
 import { toast } from "sonner";
@@ -6,6 +12,18 @@ import type { SelectExercise } from "@/db/schemas";
 import ExerciseTableHeader from "./ExerciseTableHeader";
 import ExerciseTableRow, { ExerciseRow } from "./ExerciseTableRow";
 import ExerciseEditRow from "./ExerciseEditRow";
+import ExerciseGroupHeaderRow from "./ExerciseGroupHeaderRow";
+import {
+    getExerciseBlocks,
+    groupWithNextBlock,
+    ungroupBlock,
+    updateBlockSettings,
+} from "../../workout-utils/exercise-groups";
+import {
+    deriveTut,
+    normalizeTempo,
+    validateTempo,
+} from "../../workout-utils/tempo";
 
 interface ExerciseTableInlineProps {
     phase: Phase;
@@ -36,6 +54,12 @@ interface ExerciseTableInlineProps {
     onEditingStart?: (exerciseId: string) => void;
     onEditingEnd?: (exerciseId: string) => void;
     onEditingChange?: () => void;
+    onRegroupExercises?: (
+        phaseId: string,
+        sessionId: string,
+        exercises: Exercise[]
+    ) => void;
+    clientId?: string;
 }
 
 /**
@@ -60,6 +84,8 @@ const ExerciseTableInlineRefactored: React.FC<ExerciseTableInlineProps> = ({
     onEditingStart,
     onEditingEnd,
     onEditingChange,
+    onRegroupExercises,
+    clientId,
 }) => {
     // Motion and target area are now read-only and set automatically when exercise is selected
 
@@ -128,6 +154,15 @@ const ExerciseTableInlineRefactored: React.FC<ExerciseTableInlineProps> = ({
             toast.error("Order and Description are required");
             return;
         }
+        const tempoError = validateTempo(editingExerciseRow.tempo);
+        if (tempoError) {
+            toast.error(tempoError);
+            return;
+        }
+        // Store the tempo in canonical form with the TUT it implies
+        editingExerciseRow.tempo = normalizeTempo(editingExerciseRow.tempo);
+        editingExerciseRow.tut =
+            deriveTut(editingExerciseRow)?.toString() ?? "";
 
         // Normalize description for matching
         const normalizedDescription = editingExerciseRow.description
@@ -313,40 +348,178 @@ const ExerciseTableInlineRefactored: React.FC<ExerciseTableInlineProps> = ({
         onEditingEnd,
     ]);
 
+    const blocks = useMemo(
+        () => getExerciseBlocks(session.exercises as ExerciseRow[]),
+        [session.exercises]
+    );
+
+    // Grouping is disabled mid-edit so the edited row's order isn't rewritten under it
+    const canRegroup =
+        !!onRegroupExercises && !editingExerciseId && !isAnyOperationInProgress;
+
+    const regroup = useCallback(
+        (updatedExercises: Exercise[] | null) => {
+            if (!updatedExercises || !onRegroupExercises) return;
+            onRegroupExercises(phase.id, session.id, updatedExercises);
+        },
+        [onRegroupExercises, phase.id, session.id]
+    );
+
+    // Swaps the library exercise in place, keeping the row's prescription
+    const substituteExercise = useCallback(
+        (rowId: string, replacement: SelectExercise) => {
+            const row = session.exercises.find((e) => e.id === rowId);
+            if (!row) return;
+            const updatedRow = {
+                ...row,
+                exerciseId: replacement.exerciseId,
+                description: replacement.exerciseName,
+                motion: replacement.motion || "",
+                targetArea: replacement.targetArea || "",
+            };
+
+            updatePhases((prevPhases) =>
+                prevPhases.map((phaseItem) =>
+                    phaseItem.id !== phase.id
+                        ? phaseItem
+                        : {
+                              ...phaseItem,
+                              sessions: phaseItem.sessions.map((sessionItem) =>
+                                  sessionItem.id !== session.id
+                                      ? sessionItem
+                                      : {
+                                            ...sessionItem,
+                                            exercises:
+                                                sessionItem.exercises.map((e) =>
+                                                    e.id === rowId
+                                                        ? updatedRow
+                                                        : e
+                                                ),
+                                        }
+                              ),
+                          }
+                )
+            );
+            setHasUnsavedChanges?.(true);
+            onSaveExercise?.(phase.id, session.id, rowId, updatedRow);
+            toast.success(
+                `Replaced ${row.description} with ${replacement.exerciseName}`
+            );
+        },
+        [
+            session.exercises,
+            session.id,
+            phase.id,
+            updatePhases,
+            setHasUnsavedChanges,
+            onSaveExercise,
+        ]
+    );
+
+    const renderExerciseRow = (
+        exercise: ExerciseRow,
+        isGrouped: boolean,
+        hasNextBlock: boolean
+    ) =>
+        editingExerciseId === exercise.id && editingExerciseRow ? (
+            <ExerciseEditRow
+                key={exercise.id}
+                editingExerciseRow={editingExerciseRow}
+                exercises={exercises}
+                isSaving={isSaving}
+                onFieldChange={handleInlineExerciseChange}
+                onSave={saveInlineExercise}
+                onCancel={cancelInlineExercise}
+                firstInputRef={firstInputRef}
+            />
+        ) : (
+            <ExerciseTableRow
+                key={exercise.id}
+                exercise={exercise}
+                onEditExercise={onEditExercise}
+                deleteExercise={deleteExercise}
+                phaseId={phase.id}
+                sessionId={session.id}
+                isSaving={isSaving}
+                isAnyOperationInProgress={isAnyOperationInProgress}
+                isGrouped={isGrouped}
+                clientId={clientId}
+                onSubstitute={
+                    editingExerciseId
+                        ? undefined
+                        : (replacement) =>
+                              substituteExercise(exercise.id, replacement)
+                }
+                onGroupWithNext={
+                    canRegroup && hasNextBlock
+                        ? () =>
+                              regroup(
+                                  groupWithNextBlock(
+                                      session.exercises,
+                                      exercise.id
+                                  )
+                              )
+                        : undefined
+                }
+            />
+        );
+
     return (
         <div className="w-full overflow-x-auto mt-2 border rounded-md">
             <Table className="w-full min-w-[1200px]">
                 <ExerciseTableHeader />
                 <TableBody>
-                    {(session.exercises as ExerciseRow[]).map(
-                        (exercise: ExerciseRow) =>
-                            editingExerciseId === exercise.id &&
-                            editingExerciseRow ? (
-                                <ExerciseEditRow
-                                    key={exercise.id}
-                                    editingExerciseRow={editingExerciseRow}
-                                    exercises={exercises}
-                                    isSaving={isSaving}
-                                    onFieldChange={handleInlineExerciseChange}
-                                    onSave={saveInlineExercise}
-                                    onCancel={cancelInlineExercise}
-                                    firstInputRef={firstInputRef}
-                                />
-                            ) : (
-                                <ExerciseTableRow
-                                    key={exercise.id}
-                                    exercise={exercise}
-                                    onEditExercise={onEditExercise}
-                                    deleteExercise={deleteExercise}
-                                    phaseId={phase.id}
-                                    sessionId={session.id}
-                                    isSaving={isSaving}
-                                    isAnyOperationInProgress={
-                                        isAnyOperationInProgress
+                    {blocks.map((block, blockIndex) => {
+                        const isLastBlock = blockIndex === blocks.length - 1;
+                        if (!block.type) {
+                            return block.exercises.map((exercise) =>
+                                renderExerciseRow(
+                                    exercise,
+                                    false,
+                                    !isLastBlock
+                                )
+                            );
+                        }
+                        const first = block.exercises[0];
+                        return (
+                            <React.Fragment key={block.key}>
+                                <ExerciseGroupHeaderRow
+                                    letter={block.key}
+                                    type={block.type}
+                                    memberCount={block.exercises.length}
+                                    groupRounds={first.groupRounds}
+                                    groupRest={first.groupRest}
+                                    disabled={!canRegroup}
+                                    onChangeSettings={(settings) =>
+                                        regroup(
+                                            updateBlockSettings(
+                                                session.exercises,
+                                                block.key,
+                                                settings
+                                            )
+                                        )
+                                    }
+                                    onUngroup={() =>
+                                        regroup(
+                                            ungroupBlock(
+                                                session.exercises,
+                                                block.key
+                                            )
+                                        )
                                     }
                                 />
-                            )
-                    )}
+                                {block.exercises.map((exercise, index) =>
+                                    renderExerciseRow(
+                                        exercise,
+                                        true,
+                                        // Only the last member links to the next block
+                                        !isLastBlock &&
+                                            index === block.exercises.length - 1
+                                    )
+                                )}
+                            </React.Fragment>
+                        );
+                    })}
                 </TableBody>
             </Table>
         </div>
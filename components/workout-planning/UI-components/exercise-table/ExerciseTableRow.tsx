@@ -1,9 +1,11 @@
 import React, { useMemo } from "react";
 import { TableRow, TableCell } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Edit, Trash2 } from "lucide-react";
+import { Edit, Link2, Trash2 } from "lucide-react";
+import type { SelectExercise } from "@/db/schemas";
 import { Exercise } from "../../types";
-import { calculateTUT } from "./exercise-table-utils";
+import { deriveTut } from "../../workout-utils/tempo";
+import SubstituteExerciseDialog from "./SubstituteExerciseDialog";
 
 type ExerciseRow = Exercise & {
     setsMin?: string;
@@ -28,6 +30,10 @@ interface ExerciseTableRowProps {
     sessionId: string;
     isSaving: boolean;
     isAnyOperationInProgress?: boolean;
+    isGrouped?: boolean;
+    onGroupWithNext?: () => void;
+    clientId?: string;
+    onSubstitute?: (replacement: SelectExercise) => void;
 }
 
 /**
@@ -43,18 +49,20 @@ const ExerciseTableRow: React.FC<ExerciseTableRowProps> = React.memo(
         sessionId,
         // isSaving,
         isAnyOperationInProgress = false,
+        isGrouped = false,
+        onGroupWithNext,
+        clientId,
+        onSubstitute,
     }) => {
-        // Memoize TUT calculation
-        const calculatedTut = useMemo(() => {
-            return calculateTUT(
-                exercise.tempo ?? "3 0 1 0",
-                exercise.setsMax ?? 5,
-                exercise.repsMax ?? 12
-            );
-        }, [exercise.tempo, exercise.setsMax, exercise.repsMax]);
+        // TUT per set, derived from tempo × reps
+        const calculatedTut = useMemo(() => deriveTut(exercise), [exercise]);
 
         return (
-            <TableRow>
+            <TableRow
+                className={
+                    isGrouped ? "border-l-4 border-l-primary" : undefined
+                }
+            >
                 {/* Order */}
                 <TableCell className="w-[180px]">{exercise.order}</TableCell>
                 {/* Description */}
@@ -98,7 +106,9 @@ const ExerciseTableRow: React.FC<ExerciseTableRowProps> = React.memo(
                     </div>
                 </TableCell>
                 {/* TUT (calculated) */}
-                <TableCell className="min-w-[100px]">{calculatedTut}</TableCell>
+                <TableCell className="min-w-[100px]">
+                    {calculatedTut !== null ? `${calculatedTut}s` : "-"}
+                </TableCell>
                 {/* Additional Instructions */}
                 <TableCell className="min-w-[350px]">
                     {exercise.additionalInfo ?? ""}
@@ -106,6 +116,27 @@ const ExerciseTableRow: React.FC<ExerciseTableRowProps> = React.memo(
                 {/* Actions */}
                 <TableCell className="text-right sticky right-0 bg-background min-w-[150px] z-10">
                     <div className="flex justify-end gap-1">
+                        {onGroupWithNext && (
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={onGroupWithNext}
+                                className="h-8 w-8"
+                                disabled={isAnyOperationInProgress}
+                                title="Group with next exercise"
+                            >
+                                <Link2 className="h-4 w-4" />
+                            </Button>
+                        )}
+                        {onSubstitute && (
+                            <SubstituteExerciseDialog
+                                exerciseId={exercise.exerciseId}
+                                exerciseName={exercise.description ?? ""}
+                                clientId={clientId}
+                                disabled={isAnyOperationInProgress}
+                                onSubstitute={onSubstitute}
+                            />
+                        )}
                         <Button
                             variant="ghost"
                             size="icon"
@@ -0,0 +1,70 @@
+import React, { useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ArrowLeftRight } from "lucide-react";
+import type { SelectExercise } from "@/db/schemas";
+import { ExerciseSubstitutesPanel } from "@/components/exercise-substitution/exercise-substitutes-panel";
+
+interface SubstituteExerciseDialogProps {
+    exerciseId?: string;
+    exerciseName: string;
+    clientId?: string;
+    disabled?: boolean;
+    onSubstitute: (replacement: SelectExercise) => void;
+}
+
+/**
+ * Row action that swaps a planned exercise for one of its ranked substitutes
+ */
+const SubstituteExerciseDialog: React.FC<SubstituteExerciseDialogProps> = ({
+    exerciseId,
+    exerciseName,
+    clientId,
+    disabled,
+    onSubstitute,
+}) => {
+    const [open, setOpen] = useState(false);
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 cursor-pointer"
+                    disabled={disabled || !exerciseId}
+                    title="Substitute exercise"
+                >
+                    <ArrowLeftRight className="h-4 w-4" />
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Substitute {exerciseName}</DialogTitle>
+                    <DialogDescription>
+                        Library exercises ranked by how closely they match.
+                    </DialogDescription>
+                </DialogHeader>
+                {open && (
+                    <ExerciseSubstitutesPanel
+                        exerciseId={exerciseId}
+                        clientId={clientId}
+                        onSelect={(replacement) => {
+                            onSubstitute(replacement);
+                            setOpen(false);
+                        }}
+                    />
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default SubstituteExerciseDialog;
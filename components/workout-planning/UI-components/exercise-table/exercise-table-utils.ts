@@ -32,23 +32,3 @@ export const getUniqueTargetAreas = (
         .filter((area): area is string => area !== null && area !== undefined);
     return [...new Set(targetAreas)].sort();
 };
-
-/**
- * Calculate TUT (Time Under Tension) for an exercise
- */
-export const calculateTUT = (
-    tempo: string = "3 0 1 0",
-    setsMax: string | number = 5,
-    repsMax: string | number = 12
-): number => {
-    // Extract all numbers from the tempo string
-    const numbers = tempo.match(/\d+/g) || [];
-    const tempoSum = numbers.reduce(
-        (sum, num) => sum + parseInt(num, 10),
-        0
-    );
-
-    const sets = Number(setsMax);
-    const reps = Number(repsMax);
-    return tempoSum * sets * reps;
-};
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { SelectExercise } from "@/db/schemas";
+import { Loader2 } from "lucide-react";
+import { WorkoutPlanFieldConflict } from "../types";
+import { ConflictChoice } from "../workout-utils/plan-merge";
+
+type PlanConflictDialogProps = {
+    conflicts: WorkoutPlanFieldConflict[] | null;
+    exercises: SelectExercise[];
+    isSaving: boolean;
+    onResolve: (choices: Record<string, ConflictChoice>) => void;
+    onCancel: () => void;
+};
+
+export function PlanConflictDialog({
+    conflicts,
+    exercises,
+    isSaving,
+    onResolve,
+    onCancel,
+}: PlanConflictDialogProps) {
+    const [choices, setChoices] = useState<Record<string, ConflictChoice>>(
+        {}
+    );
+
+    // Default every conflict to the local edit whenever a new set arrives
+    useEffect(() => {
+        setChoices(
+            Object.fromEntries(
+                (conflicts ?? []).map((conflict) => [conflict.id, "mine"])
+            )
+        );
+    }, [conflicts]);
+
+    if (!conflicts) return null;
+
+    const formatValue = (
+        conflict: WorkoutPlanFieldConflict,
+        value: WorkoutPlanFieldConflict["base"]
+    ) => {
+        if (value === null || value === "") return "—";
+        if (conflict.field === "exerciseId") {
+            return (
+                exercises.find((exercise) => exercise.exerciseId === value)
+                    ?.exerciseName ?? String(value)
+            );
+        }
+        if (typeof value === "boolean") return value ? "Yes" : "No";
+        return String(value);
+    };
+
+    const formatSide = (
+        conflict: WorkoutPlanFieldConflict,
+        side: ConflictChoice
+    ) => {
+        if (conflict.deletedBy) {
+            return conflict.deletedBy === side ? "Deleted" : "Kept (edited)";
+        }
+        return formatValue(conflict, conflict[side]);
+    };
+
+    const setAll = (choice: ConflictChoice) =>
+        setChoices(
+            Object.fromEntries(
+                conflicts.map((conflict) => [conflict.id, choice])
+            )
+        );
+
+    return (
+        <Dialog open onOpenChange={(open) => !open && onCancel()}>
+            <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Resolve Plan Conflicts</DialogTitle>
+                    <DialogDescription>
+                        This plan was changed elsewhere while you were editing.
+                        Everything that didn&apos;t overlap has been merged.
+                        Choose which version to keep for each field below.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex justify-end gap-2">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setAll("mine")}
+                    >
+                        Keep all mine
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setAll("theirs")}
+                    >
+                        Keep all theirs
+                    </Button>
+                </div>
+
+                <div className="space-y-3">
+                    {conflicts.map((conflict) => (
+                        <div
+                            key={conflict.id}
+                            className="rounded-md border p-3 text-sm"
+                        >
+                            <p className="font-medium">{conflict.path}</p>
+                            <p className="mb-2 text-xs text-muted-foreground">
+                                {conflict.label}
+                                {!conflict.deletedBy &&
+                                    ` · was ${formatValue(
+                                        conflict,
+                                        conflict.base
+                                    )}`}
+                            </p>
+                            <RadioGroup
+                                value={choices[conflict.id] ?? "mine"}
+                                onValueChange={(value) =>
+                                    setChoices((prev) => ({
+                                        ...prev,
+                                        [conflict.id]: value as ConflictChoice,
+                                    }))
+                                }
+                                className="grid-cols-2"
+                            >
+                                {(["mine", "theirs"] as const).map((side) => (
+                                    <div
+                                        key={side}
+                                        className="flex items-start gap-2"
+                                    >
+                                        <RadioGroupItem
+                                            value={side}
+                                            id={`${conflict.id}-${side}`}
+                                            className="mt-0.5"
+                                        />
+                                        <Label
+                                            htmlFor={`${conflict.id}-${side}`}
+                                            className="flex flex-col items-start gap-0.5 font-normal"
+                                        >
+                                            <span className="text-xs text-muted-foreground">
+                                                {side === "mine"
+                                                    ? "Mine"
+                                                    : "Theirs"}
+                                            </span>
+                                            <span className="break-all">
+                                                {formatSide(conflict, side)}
+                                            </span>
+                                        </Label>
+                                    </div>
+                                ))}
+                            </RadioGroup>
+                        </div>
+                    ))}
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={onCancel}
+                        disabled={isSaving}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={() => onResolve(choices)}
+                        disabled={isSaving}
+                    >
+                        {isSaving && (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        )}
+                        Save Resolved Plan
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
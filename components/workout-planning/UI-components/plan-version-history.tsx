@@ -0,0 +1,383 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+    SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Phase, WorkoutPlanVersionSummary } from "../types";
+import {
+    getWorkoutPlanVersions,
+    getWorkoutPlanVersionSnapshot,
+    restoreWorkoutPlanVersion,
+} from "@/actions/workout_plan_version_actions";
+import {
+    diffPlanVersions,
+    VersionDiffStatus,
+    VersionFieldChange,
+} from "../workout-utils/version-diff";
+
+interface PlanVersionHistoryProps {
+    planId?: string | null;
+    disabled: boolean;
+    onRestored?: () => void;
+}
+
+const STATUS_STYLES: Record<VersionDiffStatus, string> = {
+    added: "bg-green-100 text-green-800 border-green-200",
+    removed: "bg-red-100 text-red-800 border-red-200",
+    modified: "bg-amber-100 text-amber-800 border-amber-200",
+};
+
+const StatusBadge = ({ status }: { status: VersionDiffStatus }) => (
+    <Badge variant="outline" className={STATUS_STYLES[status]}>
+        {status}
+    </Badge>
+);
+
+const FieldChanges = ({ changes }: { changes: VersionFieldChange[] }) =>
+    changes.length > 0 ? (
+        <ul className="ml-4 mt-1 space-y-0.5 text-xs text-muted-foreground">
+            {changes.map((change) => (
+                <li key={change.field}>
+                    {change.label}:{" "}
+                    <span className="line-through">{change.from || "—"}</span>{" "}
+                    → <span className="text-foreground">{change.to || "—"}</span>
+                </li>
+            ))}
+        </ul>
+    ) : null;
+
+const PlanVersionHistory: React.FC<PlanVersionHistoryProps> = ({
+    planId,
+    disabled,
+    onRestored,
+}) => {
+    const router = useRouter();
+    const [open, setOpen] = useState(false);
+    const [versions, setVersions] = useState<WorkoutPlanVersionSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [fromVersionId, setFromVersionId] = useState<string>("");
+    const [toVersionId, setToVersionId] = useState<string>("");
+    const [snapshots, setSnapshots] = useState<Record<string, Phase[]>>({});
+    const [restoringVersionId, setRestoringVersionId] = useState<
+        string | null
+    >(null);
+
+    const loadVersions = useCallback(async () => {
+        if (!planId) return;
+        setIsLoading(true);
+        try {
+            const result = await getWorkoutPlanVersions(planId);
+            setVersions(result);
+            setToVersionId(result[0]?.versionId ?? "");
+            setFromVersionId(result[1]?.versionId ?? result[0]?.versionId ?? "");
+        } catch (error) {
+            console.error("Failed to load plan history:", error);
+            toast.error("Failed to load plan history");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [planId]);
+
+    useEffect(() => {
+        if (open) loadVersions();
+    }, [open, loadVersions]);
+
+    // Fetch snapshots lazily and cache them for the lifetime of the panel
+    useEffect(() => {
+        if (!planId) return;
+        const missing = [fromVersionId, toVersionId].filter(
+            (id) => id && !snapshots[id]
+        );
+        if (missing.length === 0) return;
+
+        Promise.all(
+            missing.map((id) => getWorkoutPlanVersionSnapshot(planId, id))
+        )
+            .then((results) => {
+                setSnapshots((prev) => {
+                    const next = { ...prev };
+                    results.forEach((result, index) => {
+                        if (result) next[missing[index]] = result.phases;
+                    });
+                    return next;
+                });
+            })
+            .catch((error) => {
+                console.error("Failed to load plan version:", error);
+                toast.error("Failed to load plan version");
+            });
+    }, [planId, fromVersionId, toVersionId, snapshots]);
+
+    const diff = useMemo(() => {
+        const from = snapshots[fromVersionId];
+        const to = snapshots[toVersionId];
+        if (!from || !to) return null;
+        return diffPlanVersions(from, to);
+    }, [snapshots, fromVersionId, toVersionId]);
+
+    const handleRestore = async (version: WorkoutPlanVersionSummary) => {
+        if (!planId) return;
+        if (
+            !window.confirm(
+                `Restore version ${version.versionNumber}? The current plan stays in the history, so this can be undone.`
+            )
+        ) {
+            return;
+        }
+        setRestoringVersionId(version.versionId);
+        try {
+            const result = await restoreWorkoutPlanVersion(
+                planId,
+                version.versionId
+            );
+            if (result.success) {
+                toast.success(`Restored version ${version.versionNumber}`);
+                await loadVersions();
+                onRestored?.();
+                router.refresh();
+            } else {
+                toast.error(
+                    result.conflict
+                        ? "The plan changed while restoring. Please try again."
+                        : result.error || "Failed to restore version"
+                );
+            }
+        } finally {
+            setRestoringVersionId(null);
+        }
+    };
+
+    const formatVersionLabel = (version: WorkoutPlanVersionSummary) =>
+        `v${version.versionNumber} · ${new Date(
+            version.createdAt
+        ).toLocaleString()}`;
+
+    return (
+        <Sheet open={open} onOpenChange={setOpen}>
+            <SheetTrigger asChild>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center gap-2 h-10"
+                    disabled={disabled || !planId}
+                >
+                    <History className="h-4 w-4" />
+                    History
+                </Button>
+            </SheetTrigger>
+            <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+                <SheetHeader>
+                    <SheetTitle>Plan History</SheetTitle>
+                    <SheetDescription>
+                        A snapshot is saved every time the plan changes.
+                        Compare any two versions or restore an older one.
+                    </SheetDescription>
+                </SheetHeader>
+
+                {isLoading && versions.length === 0 ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : versions.length === 0 ? (
+                    <p className="px-4 text-sm text-muted-foreground">
+                        No versions recorded yet.
+                    </p>
+                ) : (
+                    <div className="space-y-6 px-4 pb-4">
+                        {/* Compare */}
+                        <div className="space-y-3">
+                            <h3 className="text-sm font-semibold">Compare</h3>
+                            <div className="grid grid-cols-2 gap-2">
+                                <Select
+                                    value={fromVersionId}
+                                    onValueChange={setFromVersionId}
+                                >
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue placeholder="From" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {versions.map((version) => (
+                                            <SelectItem
+                                                key={version.versionId}
+                                                value={version.versionId}
+                                            >
+                                                {formatVersionLabel(version)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Select
+                                    value={toVersionId}
+                                    onValueChange={setToVersionId}
+                                >
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue placeholder="To" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {versions.map((version) => (
+                                            <SelectItem
+                                                key={version.versionId}
+                                                value={version.versionId}
+                                            >
+                                                {formatVersionLabel(version)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            {!diff ? (
+                                <div className="flex justify-center py-4">
+                                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                                </div>
+                            ) : diff.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">
+                                    No differences between these versions.
+                                </p>
+                            ) : (
+                                <div className="space-y-3 text-sm">
+                                    {diff.map((phase) => (
+                                        <div
+                                            key={phase.id}
+                                            className="rounded-md border p-2"
+                                        >
+                                            <div className="flex items-center gap-2 font-medium">
+                                                <StatusBadge
+                                                    status={phase.status}
+                                                />
+                                                {phase.name}
+                                            </div>
+                                            <FieldChanges
+                                                changes={phase.fieldChanges}
+                                            />
+                                            {phase.sessions.map((session) => (
+                                                <div
+                                                    key={session.id}
+                                                    className="ml-4 mt-2"
+                                                >
+                                                    <div className="flex items-center gap-2">
+                                                        <StatusBadge
+                                                            status={
+                                                                session.status
+                                                            }
+                                                        />
+                                                        {session.name}
+                                                    </div>
+                                                    <FieldChanges
+                                                        changes={
+                                                            session.fieldChanges
+                                                        }
+                                                    />
+                                                    {session.exercises.map(
+                                                        (exercise) => (
+                                                            <div
+                                                                key={
+                                                                    exercise.id
+                                                                }
+                                                                className="ml-4 mt-1"
+                                                            >
+                                                                <div className="flex items-center gap-2">
+                                                                    <StatusBadge
+                                                                        status={
+                                                                            exercise.status
+                                                                        }
+                                                                    />
+                                                                    {
+                                                                        exercise.name
+                                                                    }
+                                                                </div>
+                                                                <FieldChanges
+                                                                    changes={
+                                                                        exercise.fieldChanges
+                                                                    }
+                                                                />
+                                                            </div>
+                                                        )
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Version list */}
+                        <div className="space-y-2">
+                            <h3 className="text-sm font-semibold">Versions</h3>
+                            {versions.map((version, index) => (
+                                <div
+                                    key={version.versionId}
+                                    className="flex items-start justify-between gap-4 rounded-md border p-3"
+                                >
+                                    <div className="min-w-0 text-sm">
+                                        <p className="font-medium">
+                                            Version {version.versionNumber}
+                                            {index === 0 && " (current)"}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {new Date(
+                                                version.createdAt
+                                            ).toLocaleString()}
+                                            {version.createdByName &&
+                                                ` · ${version.createdByName}`}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {version.note ??
+                                                (version.changeCount !== null
+                                                    ? `${version.changeCount} change${
+                                                          version.changeCount ===
+                                                          1
+                                                              ? ""
+                                                              : "s"
+                                                      }`
+                                                    : "")}
+                                        </p>
+                                    </div>
+                                    {index > 0 && (
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() =>
+                                                handleRestore(version)
+                                            }
+                                            disabled={
+                                                restoringVersionId !== null
+                                            }
+                                        >
+                                            {restoringVersionId ===
+                                            version.versionId ? (
+                                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                            ) : (
+                                                <RotateCcw className="h-4 w-4 mr-2" />
+                                            )}
+                                            Restore
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </SheetContent>
+        </Sheet>
+    );
+};
+
+export default PlanVersionHistory;
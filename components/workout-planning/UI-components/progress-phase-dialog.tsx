@@ -0,0 +1,378 @@
+import { useEffect, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+    Phase,
+    PhaseProgressionPreview,
+    ProgressionChange,
+    ProgressionRule,
+    ProgressionScope,
+} from "../types";
+import {
+    getProgressionRules,
+    previewPhaseProgression,
+    saveProgressionRules,
+} from "@/actions/workout_progression_actions";
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+const SCOPE_LABELS: Record<ProgressionScope, string> = {
+    all: "All exercises",
+    compound: "Compound",
+    isolation: "Isolation",
+    bilateral: "Bilateral",
+    unilateral: "Unilateral",
+};
+
+const RULE_COPY: Record<
+    ProgressionRule["type"],
+    { title: string; fields: { key: string; label: string }[] }
+> = {
+    addSet: {
+        title: "Add sets",
+        fields: [
+            { key: "amount", label: "Sets to add" },
+            { key: "maxSets", label: "Max sets" },
+        ],
+    },
+    shiftReps: {
+        title: "Shift rep range",
+        fields: [
+            { key: "amount", label: "Shift by" },
+            { key: "minReps", label: "Min reps" },
+        ],
+    },
+    adjustRest: {
+        title: "Adjust rest",
+        fields: [
+            { key: "amount", label: "Change by (s)" },
+            { key: "minRest", label: "Min rest (s)" },
+        ],
+    },
+    loadTarget: {
+        title: "Load target from logged sets",
+        fields: [
+            { key: "increasePercent", label: "Increase (%)" },
+            { key: "roundTo", label: "Round to (kg)" },
+        ],
+    },
+};
+
+type ProgressPhaseDialogProps = {
+    phase: Phase | null;
+    clientId: string;
+    onCommit: (sourcePhaseId: string, progressedPhase: Phase) => void;
+    onCancel: () => void;
+};
+
+export function ProgressPhaseDialog({
+    phase,
+    clientId,
+    onCommit,
+    onCancel,
+}: ProgressPhaseDialogProps) {
+    const [rules, setRules] = useState<ProgressionRule[] | null>(null);
+    const [preview, setPreview] = useState<PhaseProgressionPreview | null>(
+        null
+    );
+    const [phaseName, setPhaseName] = useState("");
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [isSavingRules, setIsSavingRules] = useState(false);
+
+    // Load the trainer's rules each time the dialog opens
+    useEffect(() => {
+        if (!phase) return;
+        setRules(null);
+        setPreview(null);
+        setPhaseName("");
+        getProgressionRules()
+            .then(setRules)
+            .catch(() => toast.error("Failed to load progression rules"));
+    }, [phase]);
+
+    // Re-run the preview whenever the rules change
+    useEffect(() => {
+        if (!phase || !rules) return;
+        setIsPreviewing(true);
+        const timeout = setTimeout(() => {
+            previewPhaseProgression(clientId, phase, rules)
+                .then((result) => {
+                    setPreview(result);
+                    setPhaseName((current) => current || result.phase.name);
+                })
+                .catch(() => toast.error("Failed to preview progression"))
+                .finally(() => setIsPreviewing(false));
+        }, PREVIEW_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [phase, rules, clientId]);
+
+    if (!phase) return null;
+
+    const updateRule = (id: string, update: Partial<ProgressionRule>) =>
+        setRules((current) =>
+            (current ?? []).map((rule) =>
+                rule.id === id
+                    ? ({ ...rule, ...update } as ProgressionRule)
+                    : rule
+            )
+        );
+
+    const handleSaveRules = async () => {
+        if (!rules) return;
+        setIsSavingRules(true);
+        try {
+            const result = await saveProgressionRules(rules);
+            if (!result.success) {
+                toast.error(
+                    result.error || "Failed to save progression rules"
+                );
+                return;
+            }
+            toast.success("Progression rules saved as your defaults");
+        } finally {
+            setIsSavingRules(false);
+        }
+    };
+
+    const handleCommit = () => {
+        if (!preview) return;
+        onCommit(phase.id, {
+            ...preview.phase,
+            name: phaseName.trim() || preview.phase.name,
+        });
+    };
+
+    // Group changes by session, then exercise, keeping plan order
+    const groupedChanges = new Map<string, Map<string, ProgressionChange[]>>();
+    for (const change of preview?.changes ?? []) {
+        const session =
+            groupedChanges.get(change.sessionName) ??
+            new Map<string, ProgressionChange[]>();
+        groupedChanges.set(change.sessionName, session);
+        session.set(change.exerciseName, [
+            ...(session.get(change.exerciseName) ?? []),
+            change,
+        ]);
+    }
+
+    return (
+        <Dialog open onOpenChange={(open) => !open && onCancel()}>
+            <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Progress &quot;{phase.name}&quot;</DialogTitle>
+                    <DialogDescription>
+                        Create the next phase by applying your progression
+                        rules. Adjust the rules and review every change before
+                        the phase is added.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!rules ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <div className="grid gap-6 md:grid-cols-2">
+                        <div className="space-y-3">
+                            <h4 className="text-sm font-medium">Rules</h4>
+                            {rules.map((rule) => (
+                                <div
+                                    key={rule.id}
+                                    className="rounded-md border p-3 space-y-2"
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <Label
+                                            htmlFor={`rule-${rule.id}`}
+                                            className="font-medium"
+                                        >
+                                            {RULE_COPY[rule.type].title}
+                                        </Label>
+                                        <Switch
+                                            id={`rule-${rule.id}`}
+                                            checked={rule.enabled}
+                                            onCheckedChange={(enabled) =>
+                                                updateRule(rule.id, { enabled })
+                                            }
+                                        />
+                                    </div>
+                                    {rule.enabled && (
+                                        <div className="grid grid-cols-3 gap-2">
+                                            <Select
+                                                value={rule.scope}
+                                                onValueChange={(scope) =>
+                                                    updateRule(rule.id, {
+                                                        scope: scope as ProgressionScope,
+                                                    })
+                                                }
+                                            >
+                                                <SelectTrigger className="h-8 text-xs">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {Object.entries(
+                                                        SCOPE_LABELS
+                                                    ).map(([value, label]) => (
+                                                        <SelectItem
+                                                            key={value}
+                                                            value={value}
+                                                        >
+                                                            {label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                            {RULE_COPY[rule.type].fields.map(
+                                                (field) => (
+                                                    <div key={field.key}>
+                                                        <Input
+                                                            type="number"
+                                                            step="any"
+                                                            className="h-8 text-xs"
+                                                            aria-label={
+                                                                field.label
+                                                            }
+                                                            title={field.label}
+                                                            value={String(
+                                                                rule[
+                                                                    field.key as keyof ProgressionRule
+                                                                ]
+                                                            )}
+                                                            onChange={(e) =>
+                                                                updateRule(
+                                                                    rule.id,
+                                                                    {
+                                                                        [field.key]:
+                                                                            Number(
+                                                                                e
+                                                                                    .target
+                                                                                    .value
+                                                                            ) ||
+                                                                            0,
+                                                                    }
+                                                                )
+                                                            }
+                                                        />
+                                                        <span className="text-[10px] text-muted-foreground">
+                                                            {field.label}
+                                                        </span>
+                                                    </div>
+                                                )
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleSaveRules}
+                                disabled={isSavingRules}
+                            >
+                                {isSavingRules && (
+                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                )}
+                                Save as my defaults
+                            </Button>
+                        </div>
+
+                        <div className="space-y-3">
+                            <div className="space-y-1">
+                                <Label htmlFor="progressed-phase-name">
+                                    New phase name
+                                </Label>
+                                <Input
+                                    id="progressed-phase-name"
+                                    value={phaseName}
+                                    onChange={(e) =>
+                                        setPhaseName(e.target.value)
+                                    }
+                                />
+                            </div>
+                            <h4 className="text-sm font-medium flex items-center gap-2">
+                                Changes
+                                {isPreviewing && (
+                                    <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+                                )}
+                            </h4>
+                            {preview && groupedChanges.size === 0 && (
+                                <p className="text-sm text-muted-foreground">
+                                    No changes; the new phase will be a copy
+                                    of this one.
+                                </p>
+                            )}
+                            {Array.from(groupedChanges.entries()).map(
+                                ([sessionName, exercises]) => (
+                                    <div key={sessionName} className="space-y-1">
+                                        <div className="text-xs font-semibold uppercase text-muted-foreground">
+                                            {sessionName}
+                                        </div>
+                                        {Array.from(exercises.entries()).map(
+                                            ([exerciseName, changes]) => (
+                                                <div
+                                                    key={exerciseName}
+                                                    className="rounded-md border px-2 py-1 text-sm"
+                                                >
+                                                    <div className="font-medium">
+                                                        {exerciseName}
+                                                    </div>
+                                                    {changes.map(
+                                                        (change, index) => (
+                                                            <div
+                                                                key={index}
+                                                                className="text-xs text-muted-foreground"
+                                                            >
+                                                                {change.label}:{" "}
+                                                                {change.from ||
+                                                                    "—"}{" "}
+                                                                →{" "}
+                                                                <span className="text-foreground">
+                                                                    {change.to ||
+                                                                        "—"}
+                                                                </span>
+                                                            </div>
+                                                        )
+                                                    )}
+                                                </div>
+                                            )
+                                        )}
+                                    </div>
+                                )
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onCancel}>
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleCommit}
+                        disabled={!preview || isPreviewing}
+                    >
+                        Create Phase
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -14,6 +14,7 @@ import {
     // BicepsFlexed,
     Download,
     Dumbbell,
+    FileSpreadsheet,
     SquareDashedKanban,
     Upload,
 } from "lucide-react";
@@ -23,6 +24,25 @@ import {
     importWorkoutPlanFromCsv,
     downloadExercisesCsv,
 } from "../workout-utils/workout-plan-csv";
+import {
+    downloadWorkoutPlanXlsx,
+    importWorkoutPlanFromXlsx,
+    WorkoutPlanImportIssue,
+} from "../workout-utils/workout-plan-xlsx";
+import {
+    applyExerciseMappings,
+    createExerciseMatcher,
+    ExerciseNameMappings,
+    getUnmatchedImportExercises,
+    SUGGESTED_MATCH_SCORE,
+    UnmatchedImportExercise,
+} from "../workout-utils/exercise-matching";
+import ExerciseMappingReview from "./exercise-mapping-review";
+import {
+    getExerciseImportMappings,
+    saveExerciseImportMappings,
+} from "@/actions/exercise_import_mapping_actions";
+import { createExercise } from "@/actions/exercise_actions";
 import { toast } from "sonner";
 import type { SelectExercise } from "@/db/schemas";
 import Link from "next/link";
@@ -37,6 +57,7 @@ interface WorkoutPlanCsvImportExportProps {
     phases: Phase[];
     onImport: (phases: Phase[]) => void;
     clientId: string;
+    trainerId: string;
     disabled: boolean;
     exercises?: SelectExercise[];
 }
@@ -45,11 +66,24 @@ const WorkoutPlanCsvImportExport: React.FC<WorkoutPlanCsvImportExportProps> = ({
     phases,
     onImport,
     clientId,
+    trainerId,
     disabled,
     exercises = [],
 }) => {
     const [showConfirmDialog, setShowConfirmDialog] = useState(false);
     const [importedPhases, setImportedPhases] = useState<Phase[] | null>(null);
+    const [importIssues, setImportIssues] = useState<WorkoutPlanImportIssue[]>(
+        []
+    );
+    const [unmatchedExercises, setUnmatchedExercises] = useState<
+        UnmatchedImportExercise[]
+    >([]);
+    const [exerciseResolutions, setExerciseResolutions] = useState<
+        Record<string, SelectExercise>
+    >({});
+    const [createdExercises, setCreatedExercises] = useState<SelectExercise[]>(
+        []
+    );
     const [error, setError] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -136,50 +170,163 @@ const WorkoutPlanCsvImportExport: React.FC<WorkoutPlanCsvImportExportProps> = ({
         }
     };
 
-    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
-
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            try {
-                const content = e.target?.result as string;
-                const parsedPhases = importWorkoutPlanFromCsv(
-                    content,
-                    exercises
-                );
+    const handleExportXlsx = async () => {
+        try {
+            await downloadWorkoutPlanXlsx(
+                phases,
+                `workout-plan-${clientId}.xlsx`
+            );
+            toast.success(
+                `Workout plan exported (${phases.length} phases, one sheet each)`
+            );
+        } catch (err) {
+            console.error("Error exporting workout plan:", err);
+            toast.error(
+                err instanceof Error
+                    ? err.message
+                    : "Failed to export workout plan"
+            );
+        }
+    };
 
-                setImportedPhases(parsedPhases);
-                setError(null);
+    /**
+     * Opens the confirmation dialog, listing names that need mapping with
+     * the best candidate preselected when it's a close match
+     */
+    const showImportReview = (
+        parsedPhases: Phase[],
+        issues: WorkoutPlanImportIssue[],
+        mappings: ExerciseNameMappings
+    ) => {
+        const unmatched = getUnmatchedImportExercises(
+            parsedPhases,
+            createExerciseMatcher(exercises, mappings)
+        );
+        setImportedPhases(parsedPhases);
+        setImportIssues(issues);
+        setUnmatchedExercises(unmatched);
+        setExerciseResolutions(
+            Object.fromEntries(
+                unmatched.flatMap(({ normalizedName, candidates }) =>
+                    candidates[0]?.score >= SUGGESTED_MATCH_SCORE
+                        ? [[normalizedName, candidates[0].exercise]]
+                        : []
+                )
+            )
+        );
+        setError(null);
 
-                // Always show confirmation dialog to inform user about appending
-                setShowConfirmDialog(true);
-            } catch (err) {
-                console.error("Error importing workout plan:", err);
-                setError(
-                    (err as Error).message || "Failed to import workout plan"
-                );
-            }
-        };
+        // Always show confirmation dialog to inform user about appending
+        setShowConfirmDialog(true);
+    };
 
-        reader.readAsText(file);
+    const handleFileChange = async (
+        event: React.ChangeEvent<HTMLInputElement>
+    ) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
 
         // Reset file input
         if (fileInputRef.current) {
             fileInputRef.current.value = "";
         }
+
+        try {
+            const mappings = await getExerciseImportMappings();
+            if (file.name.toLowerCase().endsWith(".xlsx")) {
+                const result = await importWorkoutPlanFromXlsx(
+                    await file.arrayBuffer(),
+                    exercises,
+                    mappings
+                );
+                showImportReview(result.phases, result.issues, mappings);
+            } else {
+                const parsedPhases = importWorkoutPlanFromCsv(
+                    await file.text(),
+                    exercises,
+                    mappings
+                );
+                showImportReview(parsedPhases, [], mappings);
+            }
+        } catch (err) {
+            console.error("Error importing workout plan:", err);
+            setError((err as Error).message || "Failed to import workout plan");
+        }
+    };
+
+    const createMappedExercise = async (
+        normalizedName: string,
+        exerciseName: string
+    ) => {
+        const result = await createExercise({
+            exerciseName,
+            uploadedByUserId: trainerId,
+        });
+        if (!result.success || !result.data || Array.isArray(result.data)) {
+            toast.error(
+                `Failed to create exercise: ${result.error ?? "unknown error"}`
+            );
+            return;
+        }
+        const exercise = result.data;
+        setCreatedExercises((previous) => [...previous, exercise]);
+        setExerciseResolutions((previous) => ({
+            ...previous,
+            [normalizedName]: exercise,
+        }));
+        toast.success(
+            `Added "${exercise.exerciseName}" to the exercise library`
+        );
     };
 
     const confirmImport = () => {
         if (importedPhases) {
-            onImport(importedPhases);
+            onImport(
+                applyExerciseMappings(importedPhases, exerciseResolutions)
+            );
             setShowConfirmDialog(false);
             toast.success("Workout plan phases appended successfully");
+
+            // Confirmed names resolve on their own in future imports
+            if (unmatchedExercises.length > 0) {
+                saveExerciseImportMappings(
+                    unmatchedExercises.flatMap(
+                        ({ sourceName, normalizedName }) =>
+                            exerciseResolutions[normalizedName]
+                                ? [
+                                      {
+                                          sourceName,
+                                          exerciseId:
+                                              exerciseResolutions[
+                                                  normalizedName
+                                              ].exerciseId,
+                                      },
+                                  ]
+                                : []
+                    )
+                ).then((result) => {
+                    if (!result.success) {
+                        toast.warning(
+                            "Exercise mappings couldn't be remembered for next time"
+                        );
+                    }
+                });
+            }
         }
     };
 
+    const importErrorCount = importIssues.filter(
+        (issue) => issue.severity === "error"
+    ).length;
+    const unresolvedCount = unmatchedExercises.filter(
+        ({ normalizedName }) => !exerciseResolutions[normalizedName]
+    ).length;
+
     const cancelImport = () => {
         setImportedPhases(null);
+        setImportIssues([]);
+        setUnmatchedExercises([]);
+        setExerciseResolutions({});
         setShowConfirmDialog(false);
     };
 
@@ -197,6 +344,17 @@ const WorkoutPlanCsvImportExport: React.FC<WorkoutPlanCsvImportExportProps> = ({
                     Export CSV
                 </Button>
 
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleExportXlsx}
+                    className="flex items-center gap-2 h-10"
+                    disabled={disabled || phases.length === 0}
+                >
+                    <FileSpreadsheet className="h-4 w-4" />
+                    Export Excel
+                </Button>
+
                 <Button
                     variant="outline"
                     size="sm"
@@ -205,12 +363,12 @@ const WorkoutPlanCsvImportExport: React.FC<WorkoutPlanCsvImportExportProps> = ({
                     disabled={disabled}
                 >
                     <Download className="h-4 w-4" />
-                    Import CSV
+                    Import CSV / Excel
                     <input
                         type="file"
                         ref={fileInputRef}
                         onChange={handleFileChange}
-                        accept=".csv,.txt"
+                        accept=".csv,.txt,.xlsx"
                         className="hidden"
                     />
                 </Button>
@@ -258,7 +416,9 @@ const WorkoutPlanCsvImportExport: React.FC<WorkoutPlanCsvImportExportProps> = ({
             {error && (
                 <Alert variant="destructive">
                     <AlertCircle className="h-4 w-4" />
-                    <AlertDescription>{error}</AlertDescription>
+                    <AlertDescription className="whitespace-pre-line">
+                        {error}
+                    </AlertDescription>
                 </Alert>
             )}
 
@@ -267,13 +427,13 @@ const WorkoutPlanCsvImportExport: React.FC<WorkoutPlanCsvImportExportProps> = ({
                 open={showConfirmDialog}
                 onOpenChange={setShowConfirmDialog}
             >
-                <DialogContent>
+                <DialogContent className="sm:max-w-2xl">
                     <DialogHeader>
-                        <DialogTitle>Add Phases from CSV Import</DialogTitle>
+                        <DialogTitle>Add Imported Phases</DialogTitle>
                         <DialogDescription>
                             {phases.length > 0
                                 ? "The imported phases will be added as new phases to your existing workout plan. Your current phases will not be replaced or deleted. All imported phases will be deactivated by default."
-                                : "The imported phases will be added to create your workout plan. All phases will be deactivated by default."}
+                                : "The imported phases will be added to create your workout plan. Phases marked active in an Excel workbook stay active."}
                         </DialogDescription>
                     </DialogHeader>
 
@@ -304,13 +464,84 @@ const WorkoutPlanCsvImportExport: React.FC<WorkoutPlanCsvImportExportProps> = ({
                                 exercises
                             </li>
                         </ul>
+
+                        {importIssues.length > 0 && (
+                            <div className="mt-4 space-y-2">
+                                <p className="text-sm font-medium">
+                                    {importErrorCount > 0
+                                        ? `${importErrorCount} problem${
+                                              importErrorCount === 1 ? "" : "s"
+                                          } must be fixed in the file before importing:`
+                                        : "Review before importing:"}
+                                </p>
+                                <ul className="max-h-60 overflow-y-auto rounded-md border divide-y text-sm">
+                                    {importIssues.map((issue, index) => (
+                                        <li
+                                            key={index}
+                                            className="flex gap-2 px-3 py-2"
+                                        >
+                                            <AlertCircle
+                                                className={`h-4 w-4 shrink-0 mt-0.5 ${
+                                                    issue.severity === "error"
+                                                        ? "text-destructive"
+                                                        : "text-amber-500"
+                                                }`}
+                                            />
+                                            <span>
+                                                <span className="text-muted-foreground">
+                                                    {issue.sheet}
+                                                    {issue.row
+                                                        ? `, row ${issue.row}`
+                                                        : ""}
+                                                    :
+                                                </span>{" "}
+                                                {issue.message}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
+                        {unmatchedExercises.length > 0 && (
+                            <div className="mt-4 space-y-2">
+                                <p className="text-sm font-medium">
+                                    {unresolvedCount > 0
+                                        ? `Match ${unresolvedCount} exercise name${
+                                              unresolvedCount === 1 ? "" : "s"
+                                          } to the library:`
+                                        : "Confirm the exercise matches:"}
+                                </p>
+                                <ExerciseMappingReview
+                                    items={unmatchedExercises}
+                                    exercises={[
+                                        ...exercises,
+                                        ...createdExercises,
+                                    ]}
+                                    resolutions={exerciseResolutions}
+                                    onResolve={(normalizedName, exercise) =>
+                                        setExerciseResolutions((previous) => ({
+                                            ...previous,
+                                            [normalizedName]: exercise,
+                                        }))
+                                    }
+                                    onCreateExercise={createMappedExercise}
+                                />
+                            </div>
+                        )}
                     </div>
 
                     <DialogFooter>
                         <Button variant="outline" onClick={cancelImport}>
                             Cancel
                         </Button>
-                        <Button variant="default" onClick={confirmImport}>
+                        <Button
+                            variant="default"
+                            onClick={confirmImport}
+                            disabled={
+                                importErrorCount > 0 || unresolvedCount > 0
+                            }
+                        >
                             Add Phases
                         </Button>
                     </DialogFooter>
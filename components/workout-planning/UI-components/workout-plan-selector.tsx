@@ -0,0 +1,335 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectGroup,
+    SelectItem,
+    SelectLabel,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Archive,
+    ArchiveRestore,
+    Copy,
+    Dumbbell,
+    Loader2,
+    MoreHorizontal,
+    Pencil,
+    Plus,
+} from "lucide-react";
+import { toast } from "sonner";
+import { ClientWorkoutPlanSummary } from "../types";
+import {
+    createClientWorkoutPlan,
+    duplicateWorkoutPlan,
+    renameWorkoutPlan,
+    setWorkoutPlanArchived,
+} from "@/actions/workout_client_plan_actions";
+
+type NameDialogMode = "create" | "rename" | "duplicate";
+
+const DIALOG_COPY: Record<
+    NameDialogMode,
+    { title: string; description: string; submit: string }
+> = {
+    create: {
+        title: "New Plan",
+        description:
+            "Create another plan for this client, e.g. a home or rehab plan.",
+        submit: "Create Plan",
+    },
+    rename: {
+        title: "Rename Plan",
+        description: "Change the name shown in the plan selector.",
+        submit: "Save",
+    },
+    duplicate: {
+        title: "Duplicate Plan",
+        description:
+            "Copy every phase, session and exercise into a new active plan.",
+        submit: "Duplicate",
+    },
+};
+
+interface WorkoutPlanSelectorProps {
+    clientId: string;
+    plans: ClientWorkoutPlanSummary[];
+    selectedPlanId: string | null;
+}
+
+const WorkoutPlanSelector: React.FC<WorkoutPlanSelectorProps> = ({
+    clientId,
+    plans,
+    selectedPlanId,
+}) => {
+    const router = useRouter();
+    const pathname = usePathname();
+    const [dialogMode, setDialogMode] = useState<NameDialogMode | null>(null);
+    const [planName, setPlanName] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const selectedPlan = plans.find((plan) => plan.planId === selectedPlanId);
+    const activePlans = plans.filter((plan) => plan.isActive);
+    const archivedPlans = plans.filter((plan) => !plan.isActive);
+
+    const selectPlan = (planId: string | null) => {
+        router.push(planId ? `${pathname}?plan=${planId}` : pathname);
+    };
+
+    const openDialog = (mode: NameDialogMode) => {
+        setPlanName(
+            mode === "rename"
+                ? selectedPlan?.planName ?? ""
+                : mode === "duplicate"
+                ? `${selectedPlan?.planName ?? "Workout Plan"} (Copy)`
+                : ""
+        );
+        setDialogMode(mode);
+    };
+
+    const handleSubmit = async () => {
+        if (!dialogMode || !planName.trim()) return;
+        setIsSubmitting(true);
+        try {
+            if (dialogMode === "create") {
+                const result = await createClientWorkoutPlan(
+                    clientId,
+                    planName
+                );
+                if (!result.success || !result.planId) {
+                    toast.error(result.error || "Failed to create plan");
+                    return;
+                }
+                toast.success(`Created "${planName.trim()}"`);
+                selectPlan(result.planId);
+            } else if (dialogMode === "duplicate" && selectedPlan) {
+                const result = await duplicateWorkoutPlan(
+                    selectedPlan.planId,
+                    planName
+                );
+                if (!result.success || !result.planId) {
+                    toast.error(result.error || "Failed to duplicate plan");
+                    return;
+                }
+                toast.success(`Duplicated as "${planName.trim()}"`);
+                selectPlan(result.planId);
+            } else if (dialogMode === "rename" && selectedPlan) {
+                const result = await renameWorkoutPlan(
+                    selectedPlan.planId,
+                    planName
+                );
+                if (!result.success) {
+                    toast.error(result.error || "Failed to rename plan");
+                    return;
+                }
+                toast.success("Plan renamed");
+                router.refresh();
+            }
+            setDialogMode(null);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleToggleArchived = async () => {
+        if (!selectedPlan) return;
+        const archive = selectedPlan.isActive;
+        if (
+            archive &&
+            !window.confirm(
+                `Archive "${selectedPlan.planName}"? Its sessions will no longer be offered in the workout tracker. You can restore it later.`
+            )
+        ) {
+            return;
+        }
+
+        const result = await setWorkoutPlanArchived(
+            selectedPlan.planId,
+            archive
+        );
+        if (!result.success) {
+            toast.error(result.error || "Failed to update plan");
+            return;
+        }
+
+        toast.success(archive ? "Plan archived" : "Plan restored");
+        router.refresh();
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <Select
+                value={selectedPlanId ?? undefined}
+                onValueChange={selectPlan}
+                disabled={plans.length === 0}
+            >
+                <SelectTrigger className="w-64 h-10">
+                    <SelectValue placeholder="Select a plan" />
+                </SelectTrigger>
+                <SelectContent>
+                    {activePlans.length > 0 && (
+                        <SelectGroup>
+                            <SelectLabel>Active</SelectLabel>
+                            {activePlans.map((plan) => (
+                                <SelectItem
+                                    key={plan.planId}
+                                    value={plan.planId}
+                                >
+                                    {plan.planName}
+                                </SelectItem>
+                            ))}
+                        </SelectGroup>
+                    )}
+                    {archivedPlans.length > 0 && (
+                        <SelectGroup>
+                            <SelectLabel>Archived</SelectLabel>
+                            {archivedPlans.map((plan) => (
+                                <SelectItem
+                                    key={plan.planId}
+                                    value={plan.planId}
+                                    className="text-muted-foreground"
+                                >
+                                    {plan.planName}
+                                </SelectItem>
+                            ))}
+                        </SelectGroup>
+                    )}
+                </SelectContent>
+            </Select>
+
+            {selectedPlan && !selectedPlan.isActive && (
+                <span className="text-xs text-muted-foreground">Archived</span>
+            )}
+
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-10 w-10"
+                        aria-label="Plan actions"
+                    >
+                        <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                    <DropdownMenuItem onSelect={() => openDialog("create")}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        New Plan
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                        onSelect={() => openDialog("rename")}
+                        disabled={!selectedPlan}
+                    >
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                        onSelect={() => openDialog("duplicate")}
+                        disabled={!selectedPlan}
+                    >
+                        <Copy className="h-4 w-4 mr-2" />
+                        Duplicate
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                        onSelect={handleToggleArchived}
+                        disabled={!selectedPlan}
+                    >
+                        {selectedPlan && !selectedPlan.isActive ? (
+                            <>
+                                <ArchiveRestore className="h-4 w-4 mr-2" />
+                                Restore
+                            </>
+                        ) : (
+                            <>
+                                <Archive className="h-4 w-4 mr-2" />
+                                Archive
+                            </>
+                        )}
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem asChild>
+                        <Link href={`/record-workout?clientId=${clientId}`}>
+                            <Dumbbell className="h-4 w-4 mr-2" />
+                            Record Workout from Any Plan
+                        </Link>
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Dialog
+                open={dialogMode !== null}
+                onOpenChange={(open) => !open && setDialogMode(null)}
+            >
+                {dialogMode && (
+                    <DialogContent>
+                        <DialogHeader>
+                            <DialogTitle>
+                                {DIALOG_COPY[dialogMode].title}
+                            </DialogTitle>
+                            <DialogDescription>
+                                {DIALOG_COPY[dialogMode].description}
+                            </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-2">
+                            <Label htmlFor="plan-name">Plan name</Label>
+                            <Input
+                                id="plan-name"
+                                value={planName}
+                                onChange={(e) => setPlanName(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Enter") handleSubmit();
+                                }}
+                                placeholder="e.g. Home Plan"
+                                autoFocus
+                            />
+                        </div>
+                        <DialogFooter>
+                            <Button
+                                variant="outline"
+                                onClick={() => setDialogMode(null)}
+                                disabled={isSubmitting}
+                            >
+                                Cancel
+                            </Button>
+                            <Button
+                                onClick={handleSubmit}
+                                disabled={isSubmitting || !planName.trim()}
+                            >
+                                {isSubmitting && (
+                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                )}
+                                {DIALOG_COPY[dialogMode].submit}
+                            </Button>
+                        </DialogFooter>
+                    </DialogContent>
+                )}
+            </Dialog>
+        </div>
+    );
+};
+
+export default WorkoutPlanSelector;
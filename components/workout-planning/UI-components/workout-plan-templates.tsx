@@ -0,0 +1,325 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import {
+    DropdownMenu,
+    DropdownMenuTrigger,
+    DropdownMenuContent,
+    DropdownMenuItem,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { LayoutTemplate, Loader2, Save, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { WorkoutPlanTemplateSummary } from "../types";
+import {
+    applyWorkoutPlanTemplate,
+    deleteWorkoutPlanTemplate,
+    getWorkoutPlanTemplates,
+    saveWorkoutPlanAsTemplate,
+} from "@/actions/workout_template_actions";
+
+interface WorkoutPlanTemplatesProps {
+    planId?: string | null;
+    clientId: string;
+    hasPhases: boolean;
+    disabled: boolean;
+    onApplied?: (planId: string) => void;
+}
+
+const WorkoutPlanTemplates: React.FC<WorkoutPlanTemplatesProps> = ({
+    planId,
+    clientId,
+    hasPhases,
+    disabled,
+    onApplied,
+}) => {
+    const router = useRouter();
+
+    // Save-as-template dialog state
+    const [showSaveDialog, setShowSaveDialog] = useState(false);
+    const [templateName, setTemplateName] = useState("");
+    const [templateDescription, setTemplateDescription] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Browse dialog state
+    const [showBrowseDialog, setShowBrowseDialog] = useState(false);
+    const [search, setSearch] = useState("");
+    const [templates, setTemplates] = useState<WorkoutPlanTemplateSummary[]>(
+        []
+    );
+    const [isLoadingTemplates, setIsLoadingTemplates] = useState(false);
+    const [pendingTemplateId, setPendingTemplateId] = useState<string | null>(
+        null
+    );
+
+    const loadTemplates = useCallback(async (query: string) => {
+        setIsLoadingTemplates(true);
+        try {
+            setTemplates(await getWorkoutPlanTemplates(query));
+        } catch (error) {
+            console.error("Failed to load templates:", error);
+            toast.error("Failed to load templates");
+        } finally {
+            setIsLoadingTemplates(false);
+        }
+    }, []);
+
+    // Debounce the search so we don't hit the server on every keystroke
+    useEffect(() => {
+        if (!showBrowseDialog) return;
+        const timeout = setTimeout(() => loadTemplates(search), 300);
+        return () => clearTimeout(timeout);
+    }, [search, showBrowseDialog, loadTemplates]);
+
+    const handleSaveTemplate = async () => {
+        if (!planId) {
+            toast.error("No workout plan found. Please reload the page.");
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const result = await saveWorkoutPlanAsTemplate(
+                planId,
+                templateName,
+                templateDescription
+            );
+            if (result.success) {
+                toast.success(`Template "${templateName.trim()}" saved`);
+                setShowSaveDialog(false);
+                setTemplateName("");
+                setTemplateDescription("");
+            } else {
+                toast.error(result.error || "Failed to save template");
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleApplyTemplate = async (template: WorkoutPlanTemplateSummary) => {
+        setPendingTemplateId(template.templateId);
+        try {
+            const result = await applyWorkoutPlanTemplate(
+                template.templateId,
+                clientId,
+                planId ?? undefined
+            );
+            if (result.success && result.planId) {
+                toast.success(
+                    `Template "${template.name}" added to the workout plan`
+                );
+                setShowBrowseDialog(false);
+                onApplied?.(result.planId);
+                router.refresh();
+            } else {
+                toast.error(result.error || "Failed to apply template");
+            }
+        } finally {
+            setPendingTemplateId(null);
+        }
+    };
+
+    const handleDeleteTemplate = async (
+        template: WorkoutPlanTemplateSummary
+    ) => {
+        if (!window.confirm(`Delete template "${template.name}"?`)) return;
+        setPendingTemplateId(template.templateId);
+        try {
+            const result = await deleteWorkoutPlanTemplate(template.templateId);
+            if (result.success) {
+                setTemplates((prev) =>
+                    prev.filter((t) => t.templateId !== template.templateId)
+                );
+                toast.success("Template deleted");
+            } else {
+                toast.error(result.error || "Failed to delete template");
+            }
+        } finally {
+            setPendingTemplateId(null);
+        }
+    };
+
+    return (
+        <>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex items-center gap-2 h-10"
+                        disabled={disabled}
+                    >
+                        <LayoutTemplate className="h-4 w-4" />
+                        Templates
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                        disabled={!planId || !hasPhases}
+                        onClick={() => setShowSaveDialog(true)}
+                    >
+                        <Save className="h-4 w-4 mr-2" />
+                        Save Plan as Template
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setShowBrowseDialog(true)}>
+                        <Search className="h-4 w-4 mr-2" />
+                        Browse Templates
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            {/* Save as Template Dialog */}
+            <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Save Plan as Template</DialogTitle>
+                        <DialogDescription>
+                            All phases, sessions and exercises in this plan
+                            will be copied into a reusable template. Changes
+                            still being processed may not be included.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4 py-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="template-name">Name</Label>
+                            <Input
+                                id="template-name"
+                                value={templateName}
+                                onChange={(e) =>
+                                    setTemplateName(e.target.value)
+                                }
+                                placeholder="e.g. 12-week hypertrophy block"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="template-description">
+                                Description
+                            </Label>
+                            <Textarea
+                                id="template-description"
+                                value={templateDescription}
+                                onChange={(e) =>
+                                    setTemplateDescription(e.target.value)
+                                }
+                                placeholder="Optional"
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button
+                            variant="outline"
+                            onClick={() => setShowSaveDialog(false)}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleSaveTemplate}
+                            disabled={isSaving || !templateName.trim()}
+                        >
+                            {isSaving && (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            )}
+                            Save Template
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Browse Templates Dialog */}
+            <Dialog open={showBrowseDialog} onOpenChange={setShowBrowseDialog}>
+                <DialogContent className="sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>Workout Plan Templates</DialogTitle>
+                        <DialogDescription>
+                            Applying a template adds its phases to this
+                            client&apos;s plan. Existing phases are kept and
+                            the new phases are deactivated by default.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <Input
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search templates..."
+                    />
+
+                    <div className="max-h-[400px] overflow-y-auto space-y-2">
+                        {isLoadingTemplates && templates.length === 0 ? (
+                            <div className="flex justify-center py-8">
+                                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : templates.length === 0 ? (
+                            <p className="text-sm text-muted-foreground text-center py-8">
+                                No templates found
+                            </p>
+                        ) : (
+                            templates.map((template) => (
+                                <div
+                                    key={template.templateId}
+                                    className="flex items-start justify-between gap-4 rounded-md border p-3"
+                                >
+                                    <div className="min-w-0">
+                                        <p className="font-medium truncate">
+                                            {template.name}
+                                        </p>
+                                        {template.description && (
+                                            <p className="text-sm text-muted-foreground line-clamp-2">
+                                                {template.description}
+                                            </p>
+                                        )}
+                                        <p className="text-xs text-muted-foreground mt-1">
+                                            {template.phaseCount} phases ·{" "}
+                                            {template.sessionCount} sessions ·{" "}
+                                            {template.exerciseCount} exercises
+                                            {template.createdByName &&
+                                                ` · by ${template.createdByName}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex shrink-0 gap-2">
+                                        <Button
+                                            size="sm"
+                                            onClick={() =>
+                                                handleApplyTemplate(template)
+                                            }
+                                            disabled={pendingTemplateId !== null}
+                                        >
+                                            {pendingTemplateId ===
+                                                template.templateId && (
+                                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                            )}
+                                            Apply
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            onClick={() =>
+                                                handleDeleteTemplate(template)
+                                            }
+                                            disabled={pendingTemplateId !== null}
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+};
+
+export default WorkoutPlanTemplates;
@@ -4,7 +4,7 @@
  */
 
 import { toast } from "sonner";
-import { Exercise, Phase } from "./types";
+import { Exercise, Phase, WorkoutPlanFieldConflict } from "./types";
 import {
     confirmDeletePhase,
     deletePhase,
@@ -17,10 +17,21 @@ import {
     duplicateSession,
     toggleSessionExpansion,
 } from "./workout-utils/session-utils";
-import { addExercise, deleteExercise } from "./workout-utils/exercise-utils";
+import {
+    addExercise,
+    calculateSessionDuration,
+    deleteExercise,
+} from "./workout-utils/exercise-utils";
 import { WorkoutQueueIntegration } from "@/lib/workout-queue-integration";
 import { v4 as uuidv4 } from "uuid";
 import { UseExerciseEditStateReturn } from "./hooks/use-exercise-edit-state";
+import { updateWorkoutPlan } from "@/actions/workout_plan_actions";
+
+export interface PlanConflictState {
+    conflicts: WorkoutPlanFieldConflict[];
+    mergedPhases: Phase[];
+    serverUpdatedAt: Date;
+}
 
 export interface WorkoutPlanHandlersProps {
     // State setters
@@ -41,6 +52,7 @@ export interface WorkoutPlanHandlersProps {
     setLastKnownUpdatedAt: (value: Date | null) => void;
     setSavePerformed: (value: number) => void;
     setIsReorderingSessions: (value: boolean) => void;
+    setPlanConflict: (value: PlanConflictState | null) => void;
 
     // Exercise edit state
     exerciseEditState: UseExerciseEditStateReturn;
@@ -56,6 +68,7 @@ export interface WorkoutPlanHandlersProps {
     editingSession: string | null;
     editSessionValue: string;
     manualSaveInProgress: boolean;
+    timeMultipliers: Record<string, number>; // Exercises.timeMultiplier by exerciseId
 
     // Functions
     updatePhases: (
@@ -310,6 +323,35 @@ export function createWorkoutPlanHandlers(props: WorkoutPlanHandlersProps) {
         });
     };
 
+    const handleCommitProgressedPhase = async (
+        sourcePhaseId: string,
+        progressedPhase: Phase
+    ) => {
+        props.updatePhases([...props.latestPhasesRef.current, progressedPhase]);
+        props.setHasUnsavedChanges(true);
+
+        // A progressed phase is persisted exactly like a duplicate of its source
+        try {
+            if (props.planId) {
+                await WorkoutQueueIntegration.queuePhaseDuplicate(
+                    props.planId,
+                    props.client_id,
+                    props.trainer_id,
+                    sourcePhaseId,
+                    progressedPhase,
+                    props.lastKnownUpdatedAt || new Date()
+                );
+            }
+        } catch (error) {
+            console.error("Failed to queue progressed phase:", error);
+        }
+
+        toast.success(
+            `"${progressedPhase.name}" created and queued for processing.`,
+            { duration: 2000 }
+        );
+    };
+
     // ===== Session CRUD =====
     const addSessionHandler = async (phaseId: string) => {
         const currentPhases = props.latestPhasesRef.current;
@@ -467,6 +509,23 @@ export function createWorkoutPlanHandlers(props: WorkoutPlanHandlersProps) {
     };
 
     // ===== Exercise CRUD =====
+    // Exercise edits change the session's estimated duration; keep Sessions.sessionTime in step
+    const queueSessionDuration = async (phaseId: string, sessionId: string) => {
+        const session = props.latestPhasesRef.current
+            .find((p) => p.id === phaseId)
+            ?.sessions.find((s) => s.id === sessionId);
+        if (!props.planId || !session) return;
+
+        await WorkoutQueueIntegration.queueSessionUpdate(
+            props.planId,
+            phaseId,
+            sessionId,
+            props.client_id,
+            { sessionTime: session.duration },
+            props.lastKnownUpdatedAt || new Date()
+        );
+    };
+
     const handleSaveExercise = async (
         phaseId: string,
         sessionId: string,
@@ -597,10 +656,15 @@ export function createWorkoutPlanHandlers(props: WorkoutPlanHandlersProps) {
                             );
                             return orderValue;
                         })(),
+                        groupType: exerciseData.groupType ?? exercise.groupType,
+                        groupRounds:
+                            exerciseData.groupRounds ?? exercise.groupRounds,
+                        groupRest: exerciseData.groupRest ?? exercise.groupRest,
                     },
                     isNewExercise, // Use the state to determine create vs update
                     props.lastKnownUpdatedAt || new Date()
                 );
+                await queueSessionDuration(phaseId, sessionId);
 
                 const actionText = isNewExercise ? "created" : "updated";
                 toast.success(
@@ -626,6 +690,83 @@ export function createWorkoutPlanHandlers(props: WorkoutPlanHandlersProps) {
         props.setHasUnsavedChanges(true);
     };
 
+    // Grouping rewrites orders and group settings across a session, so
+    // every exercise that changed is saved
+    const handleRegroupExercises = async (
+        phaseId: string,
+        sessionId: string,
+        exercises: Exercise[]
+    ) => {
+        const currentPhases = props.latestPhasesRef.current;
+        const previous = new Map(
+            currentPhases
+                .find((p) => p.id === phaseId)
+                ?.sessions.find((s) => s.id === sessionId)
+                ?.exercises.map((exercise) => [exercise.id, exercise]) ?? []
+        );
+
+        props.updatePhases(
+            currentPhases.map((phase) =>
+                phase.id !== phaseId
+                    ? phase
+                    : {
+                          ...phase,
+                          sessions: phase.sessions.map((session) =>
+                              session.id !== sessionId
+                                  ? session
+                                  : {
+                                        ...session,
+                                        exercises,
+                                        duration: calculateSessionDuration(
+                                            exercises,
+                                            props.timeMultipliers
+                                        ),
+                                    }
+                          ),
+                      }
+            )
+        );
+        props.setHasUnsavedChanges(true);
+
+        const changed = exercises.filter((exercise) => {
+            const before = previous.get(exercise.id);
+            return (
+                before &&
+                exercise.exerciseId &&
+                (before.order !== exercise.order ||
+                    before.groupType !== exercise.groupType ||
+                    before.groupRounds !== exercise.groupRounds ||
+                    before.groupRest !== exercise.groupRest)
+            );
+        });
+
+        try {
+            if (props.planId && changed.length > 0) {
+                for (const exercise of changed) {
+                    await WorkoutQueueIntegration.queueExerciseSave(
+                        props.planId,
+                        phaseId,
+                        sessionId,
+                        exercise.id,
+                        props.client_id,
+                        {
+                            ...exercise,
+                            description: exercise.description || "New Exercise",
+                            motion: exercise.motion || "Unspecified",
+                            targetArea: exercise.targetArea || "Unspecified",
+                        },
+                        false,
+                        props.lastKnownUpdatedAt || new Date()
+                    );
+                }
+                await queueSessionDuration(phaseId, sessionId);
+            }
+        } catch (error) {
+            console.error("Failed to queue exercise grouping:", error);
+            // Don't show error to user as the operation succeeded locally
+        }
+    };
+
     const addExerciseHandler = async (phaseId: string, sessionId: string) => {
         const currentPhases = props.latestPhasesRef.current;
         const { updatedPhases, newExerciseId } = addExercise(
@@ -678,7 +819,13 @@ export function createWorkoutPlanHandlers(props: WorkoutPlanHandlersProps) {
             ?.exercises.find((e) => e.id === exerciseId);
 
         props.updatePhases(
-            deleteExercise(currentPhases, phaseId, sessionId, exerciseId)
+            deleteExercise(
+                currentPhases,
+                phaseId,
+                sessionId,
+                exerciseId,
+                props.timeMultipliers
+            )
         );
         props.setShowConfirm({ type: null });
         props.setHasUnsavedChanges(true);
@@ -703,6 +850,7 @@ export function createWorkoutPlanHandlers(props: WorkoutPlanHandlersProps) {
                     props.client_id,
                     props.lastKnownUpdatedAt || new Date()
                 );
+                await queueSessionDuration(phaseId, sessionId);
             }
         } catch (error) {
             console.error("Failed to queue exercise deletion:", error);
@@ -839,6 +987,94 @@ export function createWorkoutPlanHandlers(props: WorkoutPlanHandlersProps) {
         });
     };
 
+    // ===== Full Plan Save =====
+    // Saves the whole plan in one request. Stale saves are merged server-side;
+    // overlapping edits come back as conflicts for the resolution dialog.
+    const handleSavePlan = async (
+        phasesToSave: Phase[] = props.latestPhasesRef.current,
+        knownUpdatedAt: Date | null = props.lastKnownUpdatedAt
+    ) => {
+        const validation = props.validateWorkoutPlan(phasesToSave);
+        if (!validation.isValid) {
+            toast.error(`Cannot save: ${validation.errors[0]}`);
+            return;
+        }
+
+        props.setManualSaveInProgress(true);
+        try {
+            const result = await updateWorkoutPlan(
+                props.planId ?? undefined,
+                knownUpdatedAt ?? undefined,
+                {
+                    phases: phasesToSave,
+                    clientId: props.client_id,
+                    trainerId: props.trainer_id,
+                }
+            );
+
+            if (result.success) {
+                if (result.mergedPhases) {
+                    // Keep the local expand/collapse state on merged data
+                    const expanded = new Set(
+                        props.latestPhasesRef.current.flatMap((phase) => [
+                            ...(phase.isExpanded ? [phase.id] : []),
+                            ...phase.sessions
+                                .filter((session) => session.isExpanded)
+                                .map((session) => session.id),
+                        ])
+                    );
+                    props.updatePhases(
+                        result.mergedPhases.map((phase) => ({
+                            ...phase,
+                            isExpanded: expanded.has(phase.id),
+                            sessions: phase.sessions.map((session) => ({
+                                ...session,
+                                isExpanded: expanded.has(session.id),
+                            })),
+                        }))
+                    );
+                }
+                if (result.planId) props.setPlanId(result.planId);
+                props.setLastKnownUpdatedAt(
+                    result.updatedAt ? new Date(result.updatedAt) : new Date()
+                );
+                props.setHasUnsavedChanges(false);
+                props.setPlanConflict(null);
+                props.invalidateWorkoutPlanCache(props.client_id);
+                toast.success(
+                    result.merged
+                        ? "Plan saved and merged with changes made elsewhere."
+                        : "Plan saved."
+                );
+                return;
+            }
+
+            if (
+                result.conflicts?.length &&
+                result.mergedPhases &&
+                result.serverUpdatedAt
+            ) {
+                props.setPlanConflict({
+                    conflicts: result.conflicts,
+                    mergedPhases: result.mergedPhases,
+                    serverUpdatedAt: new Date(result.serverUpdatedAt),
+                });
+                return;
+            }
+
+            toast.error(
+                result.conflict
+                    ? "The plan was changed elsewhere. Reload the page before saving."
+                    : result.error || "Failed to save plan"
+            );
+        } catch (error) {
+            console.error("Failed to save workout plan:", error);
+            toast.error("Failed to save plan. Please try again.");
+        } finally {
+            props.setManualSaveInProgress(false);
+        }
+    };
+
     return {
         // Phase handlers
         handleAddPhase,
@@ -847,6 +1083,7 @@ export function createWorkoutPlanHandlers(props: WorkoutPlanHandlersProps) {
         handleDeletePhase,
         handleConfirmDeletePhase,
         handleDuplicatePhase,
+        handleCommitProgressedPhase,
         handleSavePhaseEdit,
 
         // Session handlers
@@ -859,9 +1096,13 @@ export function createWorkoutPlanHandlers(props: WorkoutPlanHandlersProps) {
 
         // Exercise handlers
         handleSaveExercise,
+        handleRegroupExercises,
         addExerciseHandler,
         deleteExerciseHandler,
         confirmDeleteExerciseHandler,
         handleExerciseEditEnd,
+
+        // Plan handlers
+        handleSavePlan,
     };
 }
@@ -1,6 +1,12 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, {
+    useState,
+    useEffect,
+    useRef,
+    useCallback,
+    useMemo,
+} from "react";
 import { useRouter } from "next/navigation";
 import { v4 as uuidv4 } from "uuid";
 import { toast } from "sonner";
@@ -11,13 +17,20 @@ import { PhaseList } from "./UI-components/PhaseList";
 import { DeleteConfirmationDialog } from "./UI-components/DeleteConfirmationDialog";
 import ExerciseTableInline from "./UI-components/ExerciseTableInline";
 import { mapWorkoutPlanResponseToPhase } from "./workout-utils/workout-utils";
+import { calculateSessionDuration } from "./workout-utils/exercise-utils";
 import { createWorkoutPlan } from "@/actions/workout_plan_actions";
 import { createWorkoutSessionLog } from "@/actions/workout_tracker_actions";
-import { createWorkoutPlanHandlers } from "./workout-plan-handlers";
+import {
+    createWorkoutPlanHandlers,
+    PlanConflictState,
+} from "./workout-plan-handlers";
 import { useWorkoutPlanValidation } from "./workout-plan-hooks";
 import { useWorkoutPlanCacheInvalidation } from "./hooks/use-workout-plan-cache";
 import { useExerciseEditState } from "./hooks/use-exercise-edit-state";
 import { sortPhasesByActiveStatus } from "./workout-utils/phase-utils";
+import { applyConflictResolutions } from "./workout-utils/plan-merge";
+import { PlanConflictDialog } from "./UI-components/plan-conflict-dialog";
+import { ProgressPhaseDialog } from "./UI-components/progress-phase-dialog";
 
 type WorkoutPlannerProps = {
     client_id: string;
@@ -32,6 +45,18 @@ function WorkoutPlanner({
     trainer_id,
     workoutPlan,
 }: WorkoutPlannerProps) {
+    // Exercises.timeMultiplier by exerciseId, for session duration estimates
+    const timeMultipliers = useMemo(
+        () =>
+            Object.fromEntries(
+                exercises.map((exercise) => [
+                    exercise.exerciseId,
+                    exercise.timeMultiplier ?? 1,
+                ])
+            ),
+        [exercises]
+    );
+
     // ===== Core State =====
     const [phases, setPhases] = useState<Phase[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -65,6 +90,16 @@ function WorkoutPlanner({
         exerciseId?: string;
     }>({ type: null });
 
+    // ===== Save Conflict State =====
+    const [planConflict, setPlanConflict] = useState<PlanConflictState | null>(
+        null
+    );
+
+    // ===== Progress Phase State =====
+    const [progressingPhaseId, setProgressingPhaseId] = useState<
+        string | null
+    >(null);
+
     // ===== Refs =====
     const latestPhasesRef = useRef<Phase[]>([]);
     const planCreationInProgressRef = useRef<boolean>(false);
@@ -110,7 +145,8 @@ function WorkoutPlanner({
                 setPlanId(workoutPlan.planId);
                 setLastKnownUpdatedAt(new Date(workoutPlan.updatedAt));
                 const mapped = mapWorkoutPlanResponseToPhase(
-                    workoutPlan as WorkoutPlanResponse
+                    workoutPlan as WorkoutPlanResponse,
+                    timeMultipliers
                 );
                 const sortedPhases = sortPhasesByActiveStatus(mapped);
                 const phasesWithSortedSessions = sortedPhases.map((phase) => ({
@@ -175,7 +211,14 @@ function WorkoutPlanner({
         } finally {
             setIsLoading(false);
         }
-    }, [workoutPlan, updatePhases, client_id, isCreatingPlan, trainer_id]);
+    }, [
+        workoutPlan,
+        timeMultipliers,
+        updatePhases,
+        client_id,
+        isCreatingPlan,
+        trainer_id,
+    ]);
 
     useEffect(() => {
         loadPlan();
@@ -209,6 +252,7 @@ function WorkoutPlanner({
         setSavePerformed: () => {}, // Dummy function since we don't use savePerformed
         setManualSaveInProgress,
         setIsReorderingSessions: () => {}, // Dummy function since we don't use isReorderingSessions
+        setPlanConflict,
 
         // Exercise edit state
         exerciseEditState,
@@ -224,6 +268,7 @@ function WorkoutPlanner({
         editingSession,
         editSessionValue,
         manualSaveInProgress,
+        timeMultipliers,
 
         // Functions
         updatePhases,
@@ -322,11 +367,11 @@ function WorkoutPlanner({
         [phases, client_id, router]
     );
 
-    // Calculate session duration helper
-    const calculateSessionDuration = (exercises: Exercise[]) => {
-        // Simple calculation - you can enhance this based on your needs
-        return exercises.length * 8; // 8 minutes per exercise as default
-    };
+    const estimateDuration = useCallback(
+        (sessionExercises: Exercise[]) =>
+            calculateSessionDuration(sessionExercises, timeMultipliers),
+        [timeMultipliers]
+    );
 
     // Render exercises table function
     const renderExercises = (phase: Phase, session: Session) => {
@@ -343,7 +388,7 @@ function WorkoutPlanner({
                 updatePhases={updatePhases}
                 phases={phases}
                 deleteExercise={handlers.deleteExerciseHandler}
-                calculateSessionDuration={calculateSessionDuration}
+                calculateSessionDuration={estimateDuration}
                 editingExerciseId={editingExerciseId}
                 onEditEnd={handleExerciseEditEnd}
                 onEditExercise={(exerciseId: string) =>
@@ -352,8 +397,10 @@ function WorkoutPlanner({
                 exercises={exercises}
                 setHasUnsavedChanges={setHasUnsavedChanges}
                 onSaveExercise={handlers.handleSaveExercise}
+                onRegroupExercises={handlers.handleRegroupExercises}
                 isSaving={isSaving}
                 isAnyOperationInProgress={manualSaveInProgress || isSaving}
+                clientId={client_id}
             />
         );
     };
@@ -368,6 +415,7 @@ function WorkoutPlanner({
                 <WorkoutToolbar
                     onAddPhase={handlers.handleAddPhase}
                     onReload={handleReload}
+                    onSavePlan={() => handlers.handleSavePlan()}
                     client_id={client_id}
                     trainer_id={trainer_id}
                     planId={planId}
@@ -404,6 +452,7 @@ function WorkoutPlanner({
                         onEditPhase={handleStartEditPhase}
                         onDeletePhase={handlers.handleDeletePhase}
                         onDuplicatePhase={handlers.handleDuplicatePhase}
+                        onProgressPhase={setProgressingPhaseId}
                         onToggleActivation={
                             handlers.handleTogglePhaseActivation
                         }
@@ -424,6 +473,7 @@ function WorkoutPlanner({
                         onMoveSession={() => {}} // TODO: Implement session move
                         onDragVisual={() => {}} // TODO: Implement drag visual
                         onRenderExercises={renderExercises}
+                        timeMultipliers={timeMultipliers}
                         editingSession={editingSession}
                         editSessionValue={editSessionValue}
                         onSaveSessionEdit={handlers.handleSaveSessionEdit}
@@ -442,6 +492,40 @@ function WorkoutPlanner({
                 onDeleteExercise={handlers.confirmDeleteExerciseHandler}
                 onCancel={() => setShowConfirm({ type: null })}
             />
+
+            <PlanConflictDialog
+                conflicts={planConflict?.conflicts ?? null}
+                exercises={exercises}
+                isSaving={manualSaveInProgress}
+                onResolve={(choices) => {
+                    if (!planConflict) return;
+                    handlers.handleSavePlan(
+                        applyConflictResolutions(
+                            planConflict.mergedPhases,
+                            planConflict.conflicts,
+                            choices
+                        ),
+                        planConflict.serverUpdatedAt
+                    );
+                }}
+                onCancel={() => setPlanConflict(null)}
+            />
+
+            <ProgressPhaseDialog
+                phase={
+                    phases.find((phase) => phase.id === progressingPhaseId) ??
+                    null
+                }
+                clientId={client_id}
+                onCommit={(sourcePhaseId, progressedPhase) => {
+                    setProgressingPhaseId(null);
+                    handlers.handleCommitProgressedPhase(
+                        sourcePhaseId,
+                        progressedPhase
+                    );
+                }}
+                onCancel={() => setProgressingPhaseId(null)}
+            />
         </div>
     );
 }
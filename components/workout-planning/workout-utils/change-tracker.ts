@@ -1,4 +1,5 @@
 import { Phase, Session, Exercise, WorkoutPlanChanges } from "../types";
+import { deriveTut } from "./tempo";
 
 /**
  * Tracks changes to a workout plan by comparing the current state with the previous state
@@ -421,7 +422,10 @@ export class WorkoutPlanChangeTracker {
             prev.repsMax !== curr.repsMax ||
             prev.restMin !== curr.restMin ||
             prev.restMax !== curr.restMax ||
-            prev.notes !== curr.notes
+            prev.notes !== curr.notes ||
+            prev.groupType !== curr.groupType ||
+            prev.groupRounds !== curr.groupRounds ||
+            prev.groupRest !== curr.groupRest
         );
     }
 
@@ -462,6 +466,19 @@ export class WorkoutPlanChangeTracker {
         if (prev.restMin !== curr.restMin) changes.restMin = curr.restMin;
         if (prev.restMax !== curr.restMax) changes.restMax = curr.restMax;
         if (prev.notes !== curr.notes) changes.notes = curr.notes;
+        if (prev.groupType !== curr.groupType)
+            changes.groupType = curr.groupType;
+        if (prev.groupRounds !== curr.groupRounds)
+            changes.groupRounds = curr.groupRounds;
+        if (prev.groupRest !== curr.groupRest)
+            changes.groupRest = curr.groupRest;
+        if (
+            changes.tempo !== undefined ||
+            changes.repsMin !== undefined ||
+            changes.repsMax !== undefined
+        ) {
+            changes.tut = deriveTut(curr)?.toString() ?? "";
+        }
 
         return changes;
     }
@@ -1,4 +1,5 @@
 import { Exercise, Phase, Session } from "../types";
+import { deriveTut, validateTempo } from "./tempo";
 
 /**
  * Adds default values to an exercise object to ensure all required fields are present
@@ -88,10 +89,16 @@ export function mapExerciseToDb(exercise: Exercise): Record<string, unknown> {
         repsMin: exercise.repsMin ? parseInt(exercise.repsMin, 10) : null,
         repsMax: exercise.repsMax ? parseInt(exercise.repsMax, 10) : null,
         tempo: exercise.tempo,
+        tut: deriveTut(exercise),
         restMin: exercise.restMin ? parseInt(exercise.restMin, 10) : null,
         restMax: exercise.restMax ? parseInt(exercise.restMax, 10) : null,
         customizations: exercise.customizations || exercise.additionalInfo,
         notes: exercise.notes,
+        groupType: exercise.groupType || null,
+        groupRounds: exercise.groupRounds
+            ? parseInt(exercise.groupRounds, 10)
+            : null,
+        groupRest: exercise.groupRest ? parseInt(exercise.groupRest, 10) : null,
     };
 }
 
@@ -154,6 +161,12 @@ export function validateExercise(exercise: Exercise): boolean {
         }
     }
 
+    const tempoError = validateTempo(exercise.tempo);
+    if (tempoError) {
+        console.error(tempoError);
+        return false;
+    }
+
     return true;
 }
 
@@ -323,7 +336,10 @@ export function diffExercises(
                 changes.repsMax = feExercise.repsMax;
             if (feExercise.tempo !== dbExercise.tempo)
                 changes.tempo = feExercise.tempo;
-            if (feExercise.tut !== dbExercise.tut) changes.tut = feExercise.tut;
+            // TUT follows tempo × reps, so stale stored values get corrected
+            const tut = deriveTut(feExercise);
+            if ((tut ?? 0) !== Number(dbExercise.tut || 0))
+                changes.tut = tut?.toString() ?? "";
             if (feExercise.restMin !== dbExercise.restMin)
                 changes.restMin = feExercise.restMin;
             if (feExercise.restMax !== dbExercise.restMax)
@@ -334,6 +350,15 @@ export function diffExercises(
                 changes.customizations = feExercise.additionalInfo;
             if (feExercise.notes !== dbExercise.notes)
                 changes.notes = feExercise.notes;
+            if ((feExercise.groupType ?? "") !== (dbExercise.groupType ?? ""))
+                changes.groupType = feExercise.groupType ?? "";
+            if (
+                (feExercise.groupRounds ?? "") !==
+                (dbExercise.groupRounds ?? "")
+            )
+                changes.groupRounds = feExercise.groupRounds ?? "";
+            if ((feExercise.groupRest ?? "") !== (dbExercise.groupRest ?? ""))
+                changes.groupRest = feExercise.groupRest ?? "";
             // Always include sessionId in changes for downstream logic
             changes.sessionId = feExercise.sessionId;
             // sessionId, description, additionalInfo, duration, sets, reps are not compared (sessionId is static, others are UI only/legacy)
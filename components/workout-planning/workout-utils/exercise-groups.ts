@@ -0,0 +1,170 @@
+import { Exercise, ExerciseGroupType } from "../types";
+
+export const EXERCISE_GROUP_LABELS: Record<ExerciseGroupType, string> = {
+    superset: "Superset",
+    giant_set: "Giant Set",
+    circuit: "Circuit",
+};
+
+/**
+ * A run of exercises performed together. Single exercises form a block of
+ * one with no type.
+ */
+export interface ExerciseBlock<T> {
+    key: string;
+    letter: string | null;
+    type: ExerciseGroupType | null;
+    exercises: T[];
+}
+
+type GroupableExercise = {
+    id: string;
+    order: string;
+    groupType?: ExerciseGroupType | "";
+};
+
+/**
+ * Group letter of an order like "A1"; exercises ordered "A1" and "A2" form
+ * a group, while plain "A" or numeric orders stand alone
+ */
+export const orderLetter = (order: string) =>
+    /^([A-Za-z]+)\d+$/.exec(order.trim())?.[1].toUpperCase() ?? null;
+
+/**
+ * Default group type for exercises that share an order letter but were
+ * grouped before group types existed
+ */
+const implicitGroupType = (size: number): ExerciseGroupType =>
+    size > 2 ? "giant_set" : "superset";
+
+/**
+ * Splits a session's exercises into blocks, keeping blocks in order of
+ * first appearance and members in their original order
+ */
+export function getExerciseBlocks<T extends GroupableExercise>(
+    exercises: T[]
+): ExerciseBlock<T>[] {
+    const blocks = new Map<string, ExerciseBlock<T>>();
+    exercises.forEach((exercise) => {
+        const letter = orderLetter(exercise.order);
+        const key = letter ?? `single-${exercise.id}`;
+        const block = blocks.get(key) ?? {
+            key,
+            letter,
+            type: null,
+            exercises: [],
+        };
+        block.exercises.push(exercise);
+        blocks.set(key, block);
+    });
+
+    return Array.from(blocks.values()).map((block) =>
+        block.exercises.length > 1
+            ? {
+                  ...block,
+                  type:
+                      block.exercises.find((exercise) => exercise.groupType)
+                          ?.groupType ||
+                      implicitGroupType(block.exercises.length),
+              }
+            : block
+    );
+}
+
+/**
+ * Order letter for the nth block: A…Z, then AA, AB, …
+ */
+function blockLetter(index: number): string {
+    const letter = String.fromCharCode(65 + (index % 26));
+    return index < 26 ? letter : blockLetter(Math.floor(index / 26) - 1) + letter;
+}
+
+/**
+ * Rewrites orders so each block gets its own letter: grouped exercises are
+ * numbered A1, A2…, single exercises get a bare letter. Group settings are
+ * cleared on exercises left on their own.
+ */
+function relabelBlocks(blocks: Exercise[][]): Exercise[] {
+    return blocks.flatMap((members, blockIndex) => {
+        const letter = blockLetter(blockIndex);
+        if (members.length === 1) {
+            return [
+                {
+                    ...members[0],
+                    order: letter,
+                    groupType: "" as const,
+                    groupRounds: "",
+                    groupRest: "",
+                },
+            ];
+        }
+        return members.map((exercise, index) => ({
+            ...exercise,
+            order: `${letter}${index + 1}`,
+        }));
+    });
+}
+
+/**
+ * Joins the block containing an exercise with the block after it. Two
+ * exercises become a superset, more become a giant set unless the group is
+ * already a circuit.
+ * @returns The session's exercises with new orders, or null when there is no next block
+ */
+export function groupWithNextBlock(
+    exercises: Exercise[],
+    exerciseId: string
+): Exercise[] | null {
+    const blocks = getExerciseBlocks(exercises);
+    const index = blocks.findIndex((block) =>
+        block.exercises.some((exercise) => exercise.id === exerciseId)
+    );
+    if (index === -1 || index === blocks.length - 1) return null;
+
+    const current = blocks[index];
+    const merged = [...current.exercises, ...blocks[index + 1].exercises];
+    const type: ExerciseGroupType =
+        current.type === "circuit" ? "circuit" : implicitGroupType(merged.length);
+    const settings = current.exercises[0];
+
+    return relabelBlocks([
+        ...blocks.slice(0, index).map((block) => block.exercises),
+        merged.map((exercise) => ({
+            ...exercise,
+            groupType: type,
+            groupRounds: settings.groupRounds ?? "",
+            groupRest: settings.groupRest ?? "",
+        })),
+        ...blocks.slice(index + 2).map((block) => block.exercises),
+    ]);
+}
+
+/**
+ * Splits a group back into single exercises
+ * @param key The block key (order letter) of the group
+ */
+export function ungroupBlock(exercises: Exercise[], key: string): Exercise[] {
+    return relabelBlocks(
+        getExerciseBlocks(exercises).flatMap((block) =>
+            block.key === key
+                ? block.exercises.map((exercise) => [exercise])
+                : [block.exercises]
+        )
+    );
+}
+
+/**
+ * Applies group settings to every member of a group
+ * @param key The block key (order letter) of the group
+ */
+export function updateBlockSettings(
+    exercises: Exercise[],
+    key: string,
+    settings: Pick<Exercise, "groupType" | "groupRounds" | "groupRest">
+): Exercise[] {
+    return exercises.map((exercise) =>
+        orderLetter(exercise.order) === key
+            ? { ...exercise, ...settings }
+            : exercise
+    );
+}
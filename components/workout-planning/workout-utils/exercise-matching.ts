@@ -0,0 +1,271 @@
+import type { SelectExercise, SelectExerciseWithAliases } from "@/db/schemas";
+import { Phase } from "../types";
+
+/**
+ * Abbreviations and spellings coaches use in spreadsheets, expanded before
+ * names are compared so "DB RDL" and "Dumbbell Romanian Deadlift" match
+ */
+const EXERCISE_NAME_SYNONYMS: Record<string, string> = {
+    db: "dumbbell",
+    dbs: "dumbbell",
+    bb: "barbell",
+    kb: "kettlebell",
+    kbs: "kettlebell",
+    bw: "bodyweight",
+    sa: "single arm",
+    sl: "single leg",
+    alt: "alternating",
+    incl: "incline",
+    decl: "decline",
+    ext: "extension",
+    ohp: "overhead press",
+    rdl: "romanian deadlift",
+    sldl: "stiff leg deadlift",
+    bss: "bulgarian split squat",
+    ghr: "glute ham raise",
+    pullup: "pull up",
+    pushup: "push up",
+    chinup: "chin up",
+    situp: "sit up",
+    stepup: "step up",
+};
+
+const MAX_CANDIDATES = 5;
+const MIN_CANDIDATE_SCORE = 0.3;
+
+/**
+ * Score from which the top candidate is preselected in the review step
+ */
+export const SUGGESTED_MATCH_SCORE = 0.6;
+
+/**
+ * Exercise names a coach has confirmed during earlier imports, keyed by
+ * normalised name, pointing at an exercise ID
+ */
+export type ExerciseNameMappings = Record<string, string>;
+
+export interface ExerciseMatchCandidate {
+    exercise: SelectExercise;
+    score: number; // 0-1, 1 for identical normalised names
+}
+
+/**
+ * An exercise name from an imported file that isn't in the library yet
+ */
+export interface UnmatchedImportExercise {
+    sourceName: string; // As written in the file
+    normalizedName: string;
+    rows: number; // Imported exercises using this name
+    candidates: ExerciseMatchCandidate[];
+}
+
+const singular = (token: string) =>
+    token.endsWith("sses")
+        ? token.slice(0, -2)
+        : token.length > 3 && token.endsWith("s") && !token.endsWith("ss")
+        ? token.slice(0, -1)
+        : token;
+
+/**
+ * Lowercases, strips accents and punctuation, expands abbreviations and
+ * drops plurals so names can be compared token by token
+ */
+export function normalizeExerciseName(name: string): string {
+    return name
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim()
+        .split(" ")
+        .flatMap((token) =>
+            (
+                EXERCISE_NAME_SYNONYMS[token] ??
+                EXERCISE_NAME_SYNONYMS[singular(token)] ??
+                token
+            ).split(" ")
+        )
+        .map(singular)
+        .filter(Boolean)
+        .join(" ");
+}
+
+const bigrams = (text: string) => {
+    const pairs = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+        const pair = text.slice(i, i + 2);
+        pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+    }
+    return pairs;
+};
+
+/**
+ * Dice coefficient over character pairs; tolerates typos like "bulgarain"
+ */
+function bigramSimilarity(a: string, b: string): number {
+    const pairsA = bigrams(a);
+    const pairsB = bigrams(b);
+    const total = Math.max(a.length - 1, 0) + Math.max(b.length - 1, 0);
+    if (total === 0) return a === b ? 1 : 0;
+
+    let shared = 0;
+    pairsA.forEach((count, pair) => {
+        shared += Math.min(count, pairsB.get(pair) ?? 0);
+    });
+    return (2 * shared) / total;
+}
+
+/**
+ * Similarity of two normalised names: token overlap, which ignores word
+ * order, blended with character similarity for misspellings
+ */
+export function exerciseNameSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    const tokensA = new Set(a.split(" "));
+    const tokensB = new Set(b.split(" "));
+    const shared = [...tokensA].filter((token) => tokensB.has(token)).length;
+    const tokenScore = (2 * shared) / (tokensA.size + tokensB.size);
+    const characterScore = bigramSimilarity(
+        [...tokensA].sort().join(" "),
+        [...tokensB].sort().join(" ")
+    );
+    return tokenScore * 0.5 + characterScore * 0.5;
+}
+
+/**
+ * Matches imported exercise names against the exercise library, by name
+ * or by any of an exercise's aliases
+ * @param exercises The exercise library
+ * @param mappings Names the coach confirmed in earlier imports
+ */
+export function createExerciseMatcher(
+    exercises: SelectExerciseWithAliases[],
+    mappings: ExerciseNameMappings = {}
+) {
+    const library = exercises.flatMap((exercise) =>
+        [exercise.exerciseName, ...(exercise.aliases ?? [])].map((name) => ({
+            exercise,
+            normalizedName: normalizeExerciseName(name),
+            isAlias: name !== exercise.exerciseName,
+        }))
+    );
+    const byId = new Map(
+        exercises.map((exercise) => [exercise.exerciseId, exercise])
+    );
+    // Aliases go in first so an exercise's own name wins any clash
+    const byName = new Map(
+        [
+            ...library.filter(({ isAlias }) => isAlias),
+            ...library.filter(({ isAlias }) => !isAlias),
+        ].map(({ exercise, normalizedName }) => [normalizedName, exercise])
+    );
+
+    return {
+        /**
+         * The library exercise a name resolves to without review: a
+         * remembered mapping, or an exercise with the same normalised name
+         * or alias
+         */
+        resolve(name: string): SelectExercise | null {
+            const normalizedName = normalizeExerciseName(name);
+            const mappedId = mappings[normalizedName];
+            return (
+                (mappedId ? byId.get(mappedId) : undefined) ??
+                byName.get(normalizedName) ??
+                null
+            );
+        },
+
+        /**
+         * Library exercises most similar to a name, best first
+         */
+        rank(name: string, limit = MAX_CANDIDATES): ExerciseMatchCandidate[] {
+            const normalizedName = normalizeExerciseName(name);
+            const best = new Map<string, ExerciseMatchCandidate>();
+            library.forEach(({ exercise, normalizedName: libraryName }) => {
+                const score = exerciseNameSimilarity(
+                    normalizedName,
+                    libraryName
+                );
+                if ((best.get(exercise.exerciseId)?.score ?? 0) < score) {
+                    best.set(exercise.exerciseId, { exercise, score });
+                }
+            });
+            return [...best.values()]
+                .filter(({ score }) => score >= MIN_CANDIDATE_SCORE)
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit);
+        },
+    };
+}
+
+export type ExerciseMatcher = ReturnType<typeof createExerciseMatcher>;
+
+/**
+ * Exercise names in imported phases that didn't resolve to a library
+ * exercise, once per name, with ranked candidates for the review step
+ */
+export function getUnmatchedImportExercises(
+    phases: Phase[],
+    matcher: ExerciseMatcher
+): UnmatchedImportExercise[] {
+    const unmatched = new Map<string, UnmatchedImportExercise>();
+    phases.forEach((phase) =>
+        phase.sessions.forEach((session) =>
+            session.exercises.forEach((exercise) => {
+                if (exercise.exerciseId || !exercise.description?.trim()) {
+                    return;
+                }
+                const normalizedName = normalizeExerciseName(
+                    exercise.description
+                );
+                const existing = unmatched.get(normalizedName);
+                if (existing) {
+                    existing.rows++;
+                    return;
+                }
+                unmatched.set(normalizedName, {
+                    sourceName: exercise.description.trim(),
+                    normalizedName,
+                    rows: 1,
+                    candidates: matcher.rank(exercise.description),
+                });
+            })
+        )
+    );
+    return [...unmatched.values()];
+}
+
+/**
+ * Points imported exercises at the library exercises chosen in the review
+ * step, taking the library name, motion and target area
+ * @param resolutions Chosen exercise by normalised imported name
+ */
+export function applyExerciseMappings(
+    phases: Phase[],
+    resolutions: Record<string, SelectExercise>
+): Phase[] {
+    return phases.map((phase) => ({
+        ...phase,
+        sessions: phase.sessions.map((session) => ({
+            ...session,
+            exercises: session.exercises.map((exercise) => {
+                if (exercise.exerciseId) return exercise;
+                const match =
+                    resolutions[
+                        normalizeExerciseName(exercise.description ?? "")
+                    ];
+                return match
+                    ? {
+                          ...exercise,
+                          exerciseId: match.exerciseId,
+                          description: match.exerciseName,
+                          motion: exercise.motion || match.motion || "",
+                          targetArea:
+                              exercise.targetArea || match.targetArea || "",
+                      }
+                    : exercise;
+            }),
+        })),
+    }));
+}
@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from "uuid";
 import type { Phase, Exercise } from "../types";
+import { estimateSessionDuration } from "./session-duration";
 // import { incrementOrder } from "@/lib/utils";
 
 export function addExercise(
@@ -72,7 +73,8 @@ export function deleteExercise(
     phases: Phase[],
     phaseId: string,
     sessionId: string,
-    exerciseId: string
+    exerciseId: string,
+    timeMultipliers: Record<string, number> = {}
 ): Phase[] {
     return phases.map((phase) =>
         phase.id !== phaseId
@@ -89,16 +91,23 @@ export function deleteExercise(
                       return {
                           ...session,
                           exercises: updatedExercises,
+                          duration: calculateSessionDuration(
+                              updatedExercises,
+                              timeMultipliers
+                          ),
                       };
                   }),
               }
     );
 }
 
-export function calculateSessionDuration(exercises: Exercise[]): number {
-    if (!exercises.length) return 0;
-    return exercises.reduce(
-        (total, exercise) => total + (exercise.duration || 8),
-        0
-    );
+/**
+ * Estimated session length in minutes, persisted as Sessions.sessionTime
+ * @param timeMultipliers Exercises.timeMultiplier keyed by exerciseId
+ */
+export function calculateSessionDuration(
+    exercises: Exercise[],
+    timeMultipliers: Record<string, number> = {}
+): number {
+    return estimateSessionDuration(exercises, timeMultipliers).totalMinutes;
 }
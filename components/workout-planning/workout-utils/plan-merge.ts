@@ -0,0 +1,389 @@
+import { Exercise, Phase, Session, WorkoutPlanFieldConflict } from "../types";
+
+type ConflictValue = WorkoutPlanFieldConflict["base"];
+export type ConflictChoice = "mine" | "theirs";
+
+interface FieldDef<T> {
+    field: keyof T & string;
+    label: string;
+}
+
+const PHASE_FIELDS: FieldDef<Phase>[] = [
+    { field: "name", label: "Name" },
+    { field: "isActive", label: "Active" },
+    { field: "orderNumber", label: "Order" },
+];
+
+const SESSION_FIELDS: FieldDef<Session>[] = [
+    { field: "name", label: "Name" },
+    { field: "duration", label: "Duration" },
+    { field: "orderNumber", label: "Order" },
+];
+
+const EXERCISE_FIELDS: FieldDef<Exercise>[] = [
+    { field: "exerciseId", label: "Exercise" },
+    { field: "description", label: "Description" },
+    { field: "order", label: "Order" },
+    { field: "motion", label: "Motion" },
+    { field: "targetArea", label: "Target Area" },
+    { field: "setsMin", label: "Sets Min" },
+    { field: "setsMax", label: "Sets Max" },
+    { field: "repsMin", label: "Reps Min" },
+    { field: "repsMax", label: "Reps Max" },
+    { field: "tempo", label: "Tempo" },
+    { field: "tut", label: "TUT" },
+    { field: "restMin", label: "Rest Min" },
+    { field: "restMax", label: "Rest Max" },
+    { field: "customizations", label: "Customizations" },
+    { field: "notes", label: "Notes" },
+    { field: "groupType", label: "Group" },
+    { field: "groupRounds", label: "Group Rounds" },
+    { field: "groupRest", label: "Group Rest" },
+];
+
+const DELETED_FIELD = "__deleted";
+
+const toConflictValue = (value: unknown): ConflictValue =>
+    value === undefined || value === null
+        ? null
+        : typeof value === "number" || typeof value === "boolean"
+        ? value
+        : String(value);
+
+// Snapshots store numbers as strings and missing values as "" - compare loosely
+const sameValue = (a: unknown, b: unknown) =>
+    String(a ?? "") === String(b ?? "");
+
+const fieldsDiffer = <T>(a: T, b: T, fields: FieldDef<T>[]) =>
+    fields.some(({ field }) => !sameValue(a[field], b[field]));
+
+interface ChildMerge<T> {
+    apply: (item: T) => T;
+    mineChanged: boolean;
+    theirsChanged: boolean;
+}
+
+interface ListMergeResult<T> {
+    items: T[];
+    mineChanged: boolean;
+    theirsChanged: boolean;
+}
+
+interface LevelConfig<T> {
+    entityType: WorkoutPlanFieldConflict["entityType"];
+    fields: FieldDef<T>[];
+    name: (item: T) => string;
+    mergeChildren?: (
+        base: T | undefined,
+        mine: T | undefined,
+        theirs: T | undefined,
+        path: string,
+        conflicts: WorkoutPlanFieldConflict[]
+    ) => ChildMerge<T>;
+}
+
+function mergeList<T extends { id: string }>(
+    base: T[],
+    mine: T[],
+    theirs: T[],
+    level: LevelConfig<T>,
+    parentPath: string,
+    conflicts: WorkoutPlanFieldConflict[]
+): ListMergeResult<T> {
+    const baseMap = new Map(base.map((item) => [item.id, item]));
+    const mineMap = new Map(mine.map((item) => [item.id, item]));
+    const theirsMap = new Map(theirs.map((item) => [item.id, item]));
+
+    // Keep the server's ordering and append anything only we know about
+    const ids = [
+        ...theirs.map((item) => item.id),
+        ...mine.map((item) => item.id).filter((id) => !theirsMap.has(id)),
+        ...base
+            .map((item) => item.id)
+            .filter((id) => !theirsMap.has(id) && !mineMap.has(id)),
+    ];
+
+    const items: T[] = [];
+    let mineChanged = false;
+    let theirsChanged = false;
+
+    for (const id of ids) {
+        const b = baseMap.get(id);
+        const m = mineMap.get(id);
+        const t = theirsMap.get(id);
+        const current = (t ?? m ?? b)!;
+        const path = parentPath
+            ? `${parentPath} › ${level.name(current)}`
+            : level.name(current);
+
+        const pushDeleteConflict = (deletedBy: ConflictChoice, kept: T) => {
+            conflicts.push({
+                id: `${level.entityType}:${id}:${DELETED_FIELD}`,
+                entityType: level.entityType,
+                entityId: id,
+                path,
+                field: DELETED_FIELD,
+                label: "Deleted",
+                base: false,
+                mine: deletedBy === "mine",
+                theirs: deletedBy === "theirs",
+                deletedBy,
+            });
+            items.push(kept);
+        };
+
+        // Added on one or both sides
+        if (!b) {
+            if (m && !t) {
+                mineChanged = true;
+                items.push(m);
+                continue;
+            }
+            if (t && !m) {
+                theirsChanged = true;
+                items.push(t);
+                continue;
+            }
+        }
+
+        // Deleted on one or both sides
+        if (b && !m && !t) {
+            mineChanged = true;
+            theirsChanged = true;
+            continue;
+        }
+
+        if (b && !m && t) {
+            mineChanged = true;
+            const children = level.mergeChildren?.(b, b, t, path, []);
+            const theirsModified =
+                fieldsDiffer(b, t, level.fields) ||
+                (children?.theirsChanged ?? false);
+            if (theirsModified) {
+                theirsChanged = true;
+                pushDeleteConflict("mine", t);
+            }
+            continue;
+        }
+
+        if (b && m && !t) {
+            theirsChanged = true;
+            const children = level.mergeChildren?.(b, m, b, path, []);
+            const mineModified =
+                fieldsDiffer(b, m, level.fields) ||
+                (children?.mineChanged ?? false);
+            if (mineModified) {
+                mineChanged = true;
+                pushDeleteConflict("theirs", m);
+            }
+            continue;
+        }
+
+        // Present on both sides (possibly added on both with the same ID)
+        const mineItem = m!;
+        const theirsItem = t!;
+        const merged = { ...theirsItem };
+
+        for (const { field, label } of level.fields) {
+            const baseValue = b ? b[field] : undefined;
+            const mineValue = mineItem[field];
+            const theirsValue = theirsItem[field];
+
+            if (sameValue(mineValue, theirsValue)) continue;
+
+            if (b && sameValue(mineValue, baseValue)) {
+                theirsChanged = true;
+                continue; // Only the server changed it - already in merged
+            }
+
+            if (b && sameValue(theirsValue, baseValue)) {
+                mineChanged = true;
+                merged[field] = mineValue;
+                continue;
+            }
+
+            mineChanged = true;
+            theirsChanged = true;
+            conflicts.push({
+                id: `${level.entityType}:${id}:${field}`,
+                entityType: level.entityType,
+                entityId: id,
+                path,
+                field,
+                label,
+                base: toConflictValue(baseValue),
+                mine: toConflictValue(mineValue),
+                theirs: toConflictValue(theirsValue),
+            });
+        }
+
+        const children = level.mergeChildren?.(
+            b,
+            mineItem,
+            theirsItem,
+            path,
+            conflicts
+        );
+        if (children) {
+            mineChanged = mineChanged || children.mineChanged;
+            theirsChanged = theirsChanged || children.theirsChanged;
+            items.push(children.apply(merged));
+        } else {
+            items.push(merged);
+        }
+    }
+
+    return { items, mineChanged, theirsChanged };
+}
+
+const exerciseLevel: LevelConfig<Exercise> = {
+    entityType: "exercise",
+    fields: EXERCISE_FIELDS,
+    name: (exercise) => exercise.description || exercise.order || "Exercise",
+};
+
+const sessionLevel: LevelConfig<Session> = {
+    entityType: "session",
+    fields: SESSION_FIELDS,
+    name: (session) => session.name,
+    mergeChildren: (base, mine, theirs, path, conflicts) => {
+        const result = mergeList(
+            base?.exercises ?? [],
+            mine?.exercises ?? [],
+            theirs?.exercises ?? [],
+            exerciseLevel,
+            path,
+            conflicts
+        );
+        return {
+            apply: (session) => ({
+                ...session,
+                exercises: result.items.map((exercise) => ({
+                    ...exercise,
+                    sessionId: session.id,
+                })),
+            }),
+            mineChanged: result.mineChanged,
+            theirsChanged: result.theirsChanged,
+        };
+    },
+};
+
+const phaseLevel: LevelConfig<Phase> = {
+    entityType: "phase",
+    fields: PHASE_FIELDS,
+    name: (phase) => phase.name,
+    mergeChildren: (base, mine, theirs, path, conflicts) => {
+        const result = mergeList(
+            base?.sessions ?? [],
+            mine?.sessions ?? [],
+            theirs?.sessions ?? [],
+            sessionLevel,
+            path,
+            conflicts
+        );
+        return {
+            apply: (phase) => ({
+                ...phase,
+                sessions: result.items.map((session) => ({
+                    ...session,
+                    phaseId: phase.id,
+                })),
+            }),
+            mineChanged: result.mineChanged,
+            theirsChanged: result.theirsChanged,
+        };
+    },
+};
+
+/**
+ * Three-way merges a locally edited plan with the server's current plan.
+ *
+ * Phases, sessions and exercises are matched by ID. A field changed on only
+ * one side since `base` is taken from that side; a field changed differently
+ * on both sides is reported as a conflict and keeps the server value in the
+ * merged result. Deleting something the other side edited is also a conflict.
+ * Items moved between parents are treated as a delete plus an add.
+ *
+ * @param base The plan as the client last loaded it
+ * @param mine The client's edited plan
+ * @param theirs The plan currently stored on the server
+ * @returns The merged phases and any conflicts needing a decision
+ */
+export function mergeWorkoutPlans(
+    base: Phase[],
+    mine: Phase[],
+    theirs: Phase[]
+): { phases: Phase[]; conflicts: WorkoutPlanFieldConflict[] } {
+    const conflicts: WorkoutPlanFieldConflict[] = [];
+    const result = mergeList(base, mine, theirs, phaseLevel, "", conflicts);
+    return { phases: result.items, conflicts };
+}
+
+/**
+ * Applies the coach's per-field choices to a merged plan.
+ * Conflicted fields in `mergedPhases` hold the server value, so only
+ * "mine" choices (and deletions) need to be written back.
+ * @param mergedPhases The merged plan returned alongside the conflicts
+ * @param conflicts The conflicts returned by the server
+ * @param choices Chosen side per conflict ID (unanswered conflicts keep the server value)
+ */
+export function applyConflictResolutions(
+    mergedPhases: Phase[],
+    conflicts: WorkoutPlanFieldConflict[],
+    choices: Record<string, ConflictChoice>
+): Phase[] {
+    const resolveFields = <T extends { id: string }>(
+        item: T,
+        entityType: WorkoutPlanFieldConflict["entityType"]
+    ): T | null => {
+        let resolved = item;
+        for (const conflict of conflicts) {
+            if (
+                conflict.entityType !== entityType ||
+                conflict.entityId !== item.id
+            ) {
+                continue;
+            }
+            const choice = choices[conflict.id] ?? "theirs";
+            if (conflict.field === DELETED_FIELD) {
+                if (choice === conflict.deletedBy) return null;
+                continue;
+            }
+            if (choice === "mine") {
+                resolved = { ...resolved, [conflict.field]: conflict.mine };
+            }
+        }
+        return resolved;
+    };
+
+    return mergedPhases.flatMap((phase) => {
+        const resolvedPhase = resolveFields(phase, "phase");
+        if (!resolvedPhase) return [];
+        return [
+            {
+                ...resolvedPhase,
+                sessions: resolvedPhase.sessions.flatMap((session) => {
+                    const resolvedSession = resolveFields(session, "session");
+                    if (!resolvedSession) return [];
+                    return [
+                        {
+                            ...resolvedSession,
+                            exercises: resolvedSession.exercises.flatMap(
+                                (exercise) => {
+                                    const resolvedExercise = resolveFields(
+                                        exercise,
+                                        "exercise"
+                                    );
+                                    return resolvedExercise
+                                        ? [resolvedExercise]
+                                        : [];
+                                }
+                            ),
+                        },
+                    ];
+                }),
+            },
+        ];
+    });
+}
@@ -0,0 +1,279 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+    Exercise,
+    ExercisePerformance,
+    Phase,
+    PhaseProgressionPreview,
+    ProgressionChange,
+    ProgressionRule,
+} from "../types";
+
+/**
+ * Rules used until a trainer saves their own
+ */
+export const DEFAULT_PROGRESSION_RULES: ProgressionRule[] = [
+    {
+        id: "add-set-compounds",
+        type: "addSet",
+        enabled: true,
+        scope: "compound",
+        amount: 1,
+        maxSets: 5,
+    },
+    {
+        id: "shift-reps-down",
+        type: "shiftReps",
+        enabled: true,
+        scope: "all",
+        amount: -2,
+        minReps: 3,
+    },
+    {
+        id: "shorten-rest",
+        type: "adjustRest",
+        enabled: false,
+        scope: "all",
+        amount: -15,
+        minRest: 30,
+    },
+    {
+        id: "load-target",
+        type: "loadTarget",
+        enabled: true,
+        scope: "all",
+        increasePercent: 2.5,
+        roundTo: 2.5,
+    },
+];
+
+export interface ProgressionContext {
+    movementTypes: Record<string, string | null>; // Exercises.movementType by exerciseId
+    performance: Record<string, ExercisePerformance>; // Last logged top set by lower-cased exercise name
+}
+
+// The whole line must match, so a trainer's own notes that happen to
+// mention a target load are never rewritten
+const LOAD_TARGET_LINE = /^\s*Target load:\s*(\d+(?:\.\d+)?)\s*kg\s*$/i;
+
+const FIELD_LABELS: Partial<Record<keyof Exercise, string>> = {
+    setsMin: "Sets Min",
+    setsMax: "Sets Max",
+    repsMin: "Reps Min",
+    repsMax: "Reps Max",
+    restMin: "Rest Min",
+    restMax: "Rest Max",
+    notes: "Load Target",
+};
+
+const parseNumber = (value: string | undefined) => {
+    if (value === undefined || value.trim() === "") return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Suggests a name for the next phase: "Phase 2" -> "Phase 3", otherwise appends "(Progressed)"
+ */
+export function nextPhaseName(name: string) {
+    const match = name.match(/^(.*?)(\d+)\s*$/);
+    return match
+        ? `${match[1]}${Number(match[2]) + 1}`
+        : `${name} (Progressed)`;
+}
+
+/**
+ * Replaces the "Target load: …kg" line in an exercise's notes where it
+ * stands, leaving every other line as written, or appends one if missing
+ */
+function withLoadTarget(notes: string | undefined, target: number) {
+    const line = `Target load: ${target}kg`;
+    if (!notes?.trim()) return line;
+
+    const lines = notes.split("\n");
+    const index = lines.findIndex((l) => LOAD_TARGET_LINE.test(l));
+    if (index === -1) return `${notes.replace(/\s+$/, "")}\n${line}`;
+    lines[index] = line;
+    return lines.join("\n");
+}
+
+/**
+ * Reads the value of the "Target load: …kg" line, if any
+ */
+function readLoadTarget(notes: string | undefined) {
+    for (const l of (notes ?? "").split("\n")) {
+        const match = l.match(LOAD_TARGET_LINE);
+        if (match) return `${match[1]}kg`;
+    }
+    return "";
+}
+
+const displayValue = (exercise: Exercise, key: keyof Exercise) =>
+    key === "notes"
+        ? readLoadTarget(exercise.notes)
+        : String(exercise[key] ?? "");
+
+// A limit only holds back a change heading towards it, and never moves a
+// value that is already past it
+const capped = (current: number, next: number, max: number) =>
+    next > current ? Math.max(current, Math.min(next, max)) : next;
+const floored = (current: number, next: number, min: number) =>
+    next < current ? Math.min(current, Math.max(next, min)) : next;
+
+function applyRule(
+    source: Exercise,
+    exercise: Exercise,
+    rule: ProgressionRule,
+    context: ProgressionContext
+): Exercise {
+    switch (rule.type) {
+        case "addSet": {
+            const shift = (value: string | undefined) => {
+                const current = parseNumber(value);
+                return current === null
+                    ? value
+                    : String(
+                          capped(current, current + rule.amount, rule.maxSets)
+                      );
+            };
+            return {
+                ...exercise,
+                setsMin: shift(exercise.setsMin),
+                setsMax: shift(exercise.setsMax),
+            };
+        }
+        case "shiftReps": {
+            const shift = (value: string | undefined) => {
+                const current = parseNumber(value);
+                return current === null || current === 0
+                    ? value
+                    : String(
+                          floored(current, current + rule.amount, rule.minReps)
+                      );
+            };
+            return {
+                ...exercise,
+                repsMin: shift(exercise.repsMin),
+                repsMax: shift(exercise.repsMax),
+            };
+        }
+        case "adjustRest": {
+            const shift = (value: string | undefined) => {
+                const current = parseNumber(value);
+                return current === null || current === 0
+                    ? value
+                    : String(
+                          floored(current, current + rule.amount, rule.minRest)
+                      );
+            };
+            return {
+                ...exercise,
+                restMin: shift(exercise.restMin),
+                restMax: shift(exercise.restMax),
+            };
+        }
+        case "loadTarget": {
+            const performance =
+                context.performance[
+                    (source.description ?? "").trim().toLowerCase()
+                ];
+            if (!performance || performance.weight <= 0) return exercise;
+
+            // Judge against the rep range the client was actually working in
+            const topOfRange =
+                parseNumber(source.repsMax) ?? parseNumber(source.repsMin);
+            const hitRange =
+                topOfRange !== null && performance.reps >= topOfRange;
+            const raw = hitRange
+                ? performance.weight * (1 + rule.increasePercent / 100)
+                : performance.weight;
+            const step = rule.roundTo > 0 ? rule.roundTo : 0.5;
+            const target = Math.round(raw / step) * step;
+
+            return { ...exercise, notes: withLoadTarget(exercise.notes, target) };
+        }
+    }
+}
+
+/**
+ * Builds the next phase from an existing one by applying progression rules
+ * to every exercise. The source phase is not modified; the result has new
+ * IDs and is inactive, ready to be added and queued like a duplicate.
+ * @param source The phase to progress from
+ * @param rules Rules to apply, in order (disabled rules are skipped)
+ * @param context Exercise movement types and the client's logged performance
+ */
+export function progressPhase(
+    source: Phase,
+    rules: ProgressionRule[],
+    context: ProgressionContext
+): PhaseProgressionPreview {
+    const newPhaseId = uuidv4();
+    const changes: ProgressionChange[] = [];
+    const activeRules = rules.filter((rule) => rule.enabled);
+
+    const sessions = source.sessions.map((session) => {
+        const newSessionId = uuidv4();
+
+        const exercises = session.exercises.map((sourceExercise) => {
+            let exercise: Exercise = {
+                ...sourceExercise,
+                id: uuidv4(),
+                sessionId: newSessionId,
+            };
+
+            for (const rule of activeRules) {
+                if (
+                    rule.scope !== "all" &&
+                    context.movementTypes[sourceExercise.exerciseId] !==
+                        rule.scope
+                ) {
+                    continue;
+                }
+
+                const before = exercise;
+                exercise = applyRule(sourceExercise, exercise, rule, context);
+
+                for (const [field, label] of Object.entries(FIELD_LABELS)) {
+                    const key = field as keyof Exercise;
+                    const from = displayValue(before, key);
+                    const to = displayValue(exercise, key);
+                    if (from !== to) {
+                        changes.push({
+                            sessionName: session.name,
+                            exerciseName:
+                                sourceExercise.description ||
+                                sourceExercise.order,
+                            field,
+                            label,
+                            from,
+                            to,
+                            ruleType: rule.type,
+                        });
+                    }
+                }
+            }
+
+            return exercise;
+        });
+
+        return {
+            ...session,
+            id: newSessionId,
+            phaseId: newPhaseId,
+            exercises,
+        };
+    });
+
+    return {
+        phase: {
+            ...source,
+            id: newPhaseId,
+            name: nextPhaseName(source.name),
+            isActive: false,
+            // Same timestamp-based ordering as duplicatePhase
+            orderNumber: Math.floor(Date.now() / 10000),
+            sessions,
+        },
+        changes,
+    };
+}
@@ -0,0 +1,126 @@
+import {
+    Exercise,
+    SessionDurationBlock,
+    SessionDurationEstimate,
+} from "../types";
+import { EXERCISE_GROUP_LABELS, getExerciseBlocks } from "./exercise-groups";
+import { parseTempoSeconds } from "./tempo";
+
+const DEFAULT_SETS = 3;
+const DEFAULT_REPS = 10;
+const DEFAULT_SECONDS_PER_REP = 4; // A controlled "2 0 2 0" when no tempo is set
+const DEFAULT_REST_SECONDS = 60;
+const SETUP_SECONDS = 60; // Getting set up for each exercise or superset
+const SUPERSET_SWITCH_SECONDS = 15; // Moving between exercises within a round
+
+/**
+ * Midpoint of a min/max pair of numeric strings, using whichever is set
+ */
+function rangeMidpoint(
+    min: string | undefined,
+    max: string | undefined,
+    fallback: number
+) {
+    const values = [min, max]
+        .map((value) => parseFloat(value ?? ""))
+        .filter((value) => Number.isFinite(value) && value >= 0);
+    if (values.length === 0) return fallback;
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Estimates how long a session takes from each exercise's sets, reps, tempo
+ * and rest. Work time is scaled by the exercise's timeMultiplier (e.g. 2 for
+ * unilateral lifts done one side at a time). Grouped exercises share rounds:
+ * rest is taken once per round, after the last exercise, and circuits run
+ * every exercise once per round.
+ * @param exercises The session's exercises, in order
+ * @param timeMultipliers Exercises.timeMultiplier keyed by exerciseId
+ */
+export function estimateSessionDuration(
+    exercises: Exercise[],
+    timeMultipliers: Record<string, number> = {}
+): SessionDurationEstimate {
+    const blocks: SessionDurationBlock[] = getExerciseBlocks(exercises).map(
+        ({ key, type, exercises: members }) => {
+            let rounds = 0;
+            let workSeconds = 0;
+            let restPerRound = 0;
+            const circuitRounds = parseInt(members[0].groupRounds ?? "", 10);
+
+            for (const exercise of members) {
+                const sets = Math.max(
+                    1,
+                    Math.round(
+                        rangeMidpoint(
+                            exercise.setsMin || exercise.sets,
+                            exercise.setsMax,
+                            DEFAULT_SETS
+                        )
+                    )
+                );
+                const reps = rangeMidpoint(
+                    exercise.repsMin || exercise.reps,
+                    exercise.repsMax,
+                    DEFAULT_REPS
+                );
+                const tempoSeconds = parseTempoSeconds(exercise.tempo);
+                const tut = parseFloat(exercise.tut ?? "");
+                const setSeconds =
+                    tempoSeconds !== null
+                        ? reps * tempoSeconds
+                        : Number.isFinite(tut) && tut > 0
+                        ? tut
+                        : reps * DEFAULT_SECONDS_PER_REP;
+                const multiplier = timeMultipliers[exercise.exerciseId] || 1;
+
+                // Circuits repeat every exercise once per round
+                const performedSets =
+                    type === "circuit" && circuitRounds ? circuitRounds : sets;
+                rounds = Math.max(rounds, performedSets);
+                workSeconds += performedSets * setSeconds * multiplier;
+                restPerRound = Math.max(
+                    restPerRound,
+                    rangeMidpoint(
+                        exercise.restMin || exercise.rest,
+                        exercise.restMax,
+                        DEFAULT_REST_SECONDS
+                    )
+                );
+            }
+
+            const groupRest = parseFloat(members[0].groupRest ?? "");
+            if (type && Number.isFinite(groupRest) && groupRest >= 0) {
+                restPerRound = groupRest;
+            }
+
+            // No rest after the final round; the setup of the next block covers it
+            const restSeconds = (rounds - 1) * restPerRound;
+            const transitionSeconds =
+                SETUP_SECONDS +
+                rounds * (members.length - 1) * SUPERSET_SWITCH_SECONDS;
+
+            return {
+                label:
+                    type !== null
+                        ? `${EXERCISE_GROUP_LABELS[type]} ${key}`
+                        : members[0].description || "Exercise",
+                exerciseNames: members.map(
+                    (exercise) => exercise.description || "Exercise"
+                ),
+                rounds,
+                workSeconds,
+                restSeconds,
+                transitionSeconds,
+                totalSeconds: workSeconds + restSeconds + transitionSeconds,
+            };
+        }
+    );
+
+    const totalSeconds = blocks.reduce(
+        (total, block) => total + block.totalSeconds,
+        0
+    );
+
+    return { totalMinutes: Math.round(totalSeconds / 60), blocks };
+}
@@ -0,0 +1,118 @@
+import { Exercise } from "../types";
+
+/**
+ * A tempo phase in seconds, or "X" for explosive
+ */
+export type TempoPhase = number | "X";
+
+/**
+ * Four-phase tempo, written "eccentric pause concentric pause", e.g. "3 1 X 0"
+ * for a three second lowering, a one second pause at the bottom, an explosive
+ * lift and no pause at the top
+ */
+export interface Tempo {
+    eccentric: TempoPhase;
+    bottomPause: TempoPhase;
+    concentric: TempoPhase;
+    topPause: TempoPhase;
+}
+
+export const TEMPO_FORMAT_HINT =
+    'Four phases in seconds, e.g. "3 1 X 0" (lower, pause, lift, pause; X = explosive)';
+
+const EXPLOSIVE_PHASE_SECONDS = 1;
+const MAX_PHASE_SECONDS = 30;
+
+/**
+ * Parses a tempo written with spaces, dashes or other separators
+ * ("3 0 1 0", "3-0-1-0") or as four characters ("30X0")
+ * @returns null when the tempo is empty or doesn't follow the grammar
+ */
+export function parseTempo(tempo?: string): Tempo | null {
+    const value = tempo?.trim();
+    if (!value) return null;
+
+    const parts = /^[0-9xX]{4}$/.test(value)
+        ? value.split("")
+        : value.split(/[\s\-/.,:]+/);
+    if (parts.length !== 4) return null;
+
+    const phases: TempoPhase[] = [];
+    for (const part of parts) {
+        if (/^[xX]$/.test(part)) {
+            phases.push("X");
+        } else if (/^\d{1,2}$/.test(part) && Number(part) <= MAX_PHASE_SECONDS) {
+            phases.push(Number(part));
+        } else {
+            return null;
+        }
+    }
+
+    const [eccentric, bottomPause, concentric, topPause] = phases;
+    return { eccentric, bottomPause, concentric, topPause };
+}
+
+/**
+ * Checks a tempo against the grammar. An empty tempo is allowed.
+ * @returns An error message, or null when the tempo is valid
+ */
+export function validateTempo(tempo?: string): string | null {
+    if (!tempo?.trim() || parseTempo(tempo)) return null;
+    return `Invalid tempo "${tempo.trim()}". ${TEMPO_FORMAT_HINT}`;
+}
+
+/**
+ * Writes a tempo in the canonical "3 1 X 0" form
+ */
+export function formatTempo(tempo: Tempo): string {
+    return [tempo.eccentric, tempo.bottomPause, tempo.concentric, tempo.topPause]
+        .map(String)
+        .join(" ");
+}
+
+/**
+ * Canonical form of a tempo string, leaving unparseable input as typed
+ */
+export function normalizeTempo(tempo?: string): string {
+    const parsed = parseTempo(tempo);
+    return parsed ? formatTempo(parsed) : tempo?.trim() ?? "";
+}
+
+/**
+ * Seconds per rep for a tempo; "X" counts as one second
+ * @returns null when the tempo is missing or invalid
+ */
+export function parseTempoSeconds(tempo?: string): number | null {
+    const parsed = parseTempo(tempo);
+    if (!parsed) return null;
+
+    return [
+        parsed.eccentric,
+        parsed.bottomPause,
+        parsed.concentric,
+        parsed.topPause,
+    ].reduce<number>(
+        (seconds, phase) =>
+            seconds + (phase === "X" ? EXPLOSIVE_PHASE_SECONDS : phase),
+        0
+    );
+}
+
+/**
+ * Time under tension per set in seconds: seconds per rep from the tempo
+ * times the top of the rep range. Falls back to the stored TUT when the
+ * tempo or reps can't be read.
+ */
+export function deriveTut(
+    exercise: Pick<Exercise, "tempo" | "repsMin" | "repsMax" | "reps" | "tut">
+): number | null {
+    const secondsPerRep = parseTempoSeconds(exercise.tempo);
+    const reps = parseInt(
+        exercise.repsMax || exercise.repsMin || exercise.reps || "",
+        10
+    );
+    if (secondsPerRep !== null && reps > 0) return secondsPerRep * reps;
+
+    const stored = parseInt(exercise.tut ?? "", 10);
+    return Number.isFinite(stored) && stored > 0 ? stored : null;
+}
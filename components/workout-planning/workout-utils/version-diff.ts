@@ -0,0 +1,234 @@
+import { Exercise, Phase, Session } from "../types";
+
+export type VersionDiffStatus = "added" | "removed" | "modified";
+
+export interface VersionFieldChange {
+    field: string;
+    label: string;
+    from: string;
+    to: string;
+}
+
+export interface ExerciseVersionDiff {
+    id: string;
+    name: string;
+    status: VersionDiffStatus;
+    fieldChanges: VersionFieldChange[];
+}
+
+export interface SessionVersionDiff {
+    id: string;
+    name: string;
+    status: VersionDiffStatus;
+    fieldChanges: VersionFieldChange[];
+    exercises: ExerciseVersionDiff[];
+}
+
+export interface PhaseVersionDiff {
+    id: string;
+    name: string;
+    status: VersionDiffStatus;
+    fieldChanges: VersionFieldChange[];
+    sessions: SessionVersionDiff[];
+}
+
+const EXERCISE_FIELDS: { field: keyof Exercise; label: string }[] = [
+    { field: "description", label: "Exercise" },
+    { field: "order", label: "Order" },
+    { field: "motion", label: "Motion" },
+    { field: "targetArea", label: "Target Area" },
+    { field: "setsMin", label: "Sets Min" },
+    { field: "setsMax", label: "Sets Max" },
+    { field: "repsMin", label: "Reps Min" },
+    { field: "repsMax", label: "Reps Max" },
+    { field: "tempo", label: "Tempo" },
+    { field: "tut", label: "TUT" },
+    { field: "restMin", label: "Rest Min" },
+    { field: "restMax", label: "Rest Max" },
+    { field: "customizations", label: "Customizations" },
+    { field: "notes", label: "Notes" },
+    { field: "groupType", label: "Group" },
+    { field: "groupRounds", label: "Group Rounds" },
+    { field: "groupRest", label: "Group Rest" },
+];
+
+const SESSION_FIELDS: { field: keyof Session; label: string }[] = [
+    { field: "name", label: "Name" },
+    { field: "duration", label: "Duration" },
+    { field: "orderNumber", label: "Order" },
+];
+
+const PHASE_FIELDS: { field: keyof Phase; label: string }[] = [
+    { field: "name", label: "Name" },
+    { field: "isActive", label: "Active" },
+    { field: "orderNumber", label: "Order" },
+];
+
+const normalise = (value: unknown) =>
+    value === undefined || value === null ? "" : String(value);
+
+function compareFields<T>(
+    from: T,
+    to: T,
+    fields: { field: keyof T; label: string }[]
+): VersionFieldChange[] {
+    return fields
+        .filter(({ field }) => normalise(from[field]) !== normalise(to[field]))
+        .map(({ field, label }) => ({
+            field: String(field),
+            label,
+            from: normalise(from[field]),
+            to: normalise(to[field]),
+        }));
+}
+
+/**
+ * Pairs items from two lists by ID, then falls back to a secondary key
+ * for anything left over (restores re-create exercises with new IDs).
+ */
+function pairItems<T extends { id: string }>(
+    fromItems: T[],
+    toItems: T[],
+    fallbackKey?: (item: T) => string
+) {
+    const pairs: { from?: T; to?: T }[] = [];
+    const toById = new Map(toItems.map((item) => [item.id, item]));
+    const unmatchedFrom: T[] = [];
+    const matchedTo = new Set<string>();
+
+    for (const item of fromItems) {
+        const match = toById.get(item.id);
+        if (match) {
+            pairs.push({ from: item, to: match });
+            matchedTo.add(match.id);
+        } else {
+            unmatchedFrom.push(item);
+        }
+    }
+
+    const unmatchedTo = toItems.filter((item) => !matchedTo.has(item.id));
+
+    for (const item of unmatchedFrom) {
+        const index = fallbackKey
+            ? unmatchedTo.findIndex(
+                  (candidate) => fallbackKey(candidate) === fallbackKey(item)
+              )
+            : -1;
+        if (index >= 0) {
+            pairs.push({ from: item, to: unmatchedTo[index] });
+            unmatchedTo.splice(index, 1);
+        } else {
+            pairs.push({ from: item });
+        }
+    }
+
+    unmatchedTo.forEach((item) => pairs.push({ to: item }));
+
+    return pairs;
+}
+
+function diffExerciseLists(
+    fromExercises: Exercise[],
+    toExercises: Exercise[]
+): ExerciseVersionDiff[] {
+    return pairItems(
+        fromExercises,
+        toExercises,
+        (e) => `${e.exerciseId}|${e.order}`
+    ).flatMap(({ from, to }): ExerciseVersionDiff[] => {
+        const item = (to ?? from)!;
+        const name = item.description || item.exerciseId;
+        if (!from) {
+            return [{ id: item.id, name, status: "added", fieldChanges: [] }];
+        }
+        if (!to) {
+            return [{ id: item.id, name, status: "removed", fieldChanges: [] }];
+        }
+        const fieldChanges = compareFields(from, to, EXERCISE_FIELDS);
+        return fieldChanges.length > 0
+            ? [{ id: item.id, name, status: "modified", fieldChanges }]
+            : [];
+    });
+}
+
+function diffSessionLists(
+    fromSessions: Session[],
+    toSessions: Session[]
+): SessionVersionDiff[] {
+    return pairItems(fromSessions, toSessions).flatMap(
+        ({ from, to }): SessionVersionDiff[] => {
+            const item = (to ?? from)!;
+            if (!from || !to) {
+                return [
+                    {
+                        id: item.id,
+                        name: item.name,
+                        status: from ? "removed" : "added",
+                        fieldChanges: [],
+                        exercises: diffExerciseLists(
+                            from?.exercises ?? [],
+                            to?.exercises ?? []
+                        ),
+                    },
+                ];
+            }
+            const fieldChanges = compareFields(from, to, SESSION_FIELDS);
+            const exercises = diffExerciseLists(from.exercises, to.exercises);
+            return fieldChanges.length > 0 || exercises.length > 0
+                ? [
+                      {
+                          id: item.id,
+                          name: item.name,
+                          status: "modified",
+                          fieldChanges,
+                          exercises,
+                      },
+                  ]
+                : [];
+        }
+    );
+}
+
+/**
+ * Computes a phase -> session -> exercise level diff between two plan snapshots.
+ * Only phases, sessions and exercises that differ are returned.
+ * @param fromPhases The older snapshot
+ * @param toPhases The newer snapshot
+ */
+export function diffPlanVersions(
+    fromPhases: Phase[],
+    toPhases: Phase[]
+): PhaseVersionDiff[] {
+    return pairItems(fromPhases, toPhases).flatMap(
+        ({ from, to }): PhaseVersionDiff[] => {
+            const item = (to ?? from)!;
+            if (!from || !to) {
+                return [
+                    {
+                        id: item.id,
+                        name: item.name,
+                        status: from ? "removed" : "added",
+                        fieldChanges: [],
+                        sessions: diffSessionLists(
+                            from?.sessions ?? [],
+                            to?.sessions ?? []
+                        ),
+                    },
+                ];
+            }
+            const fieldChanges = compareFields(from, to, PHASE_FIELDS);
+            const sessions = diffSessionLists(from.sessions, to.sessions);
+            return fieldChanges.length > 0 || sessions.length > 0
+                ? [
+                      {
+                          id: item.id,
+                          name: item.name,
+                          status: "modified",
+                          fieldChanges,
+                          sessions,
+                      },
+                  ]
+                : [];
+        }
+    );
+}
@@ -1,6 +1,12 @@
 import { Phase, Session, Exercise } from "../types";
 import { v4 as uuidv4 } from "uuid";
 import type { SelectExercise } from "@/db/schemas";
+import { calculateSessionDuration } from "./exercise-utils";
+import { deriveTut, normalizeTempo, validateTempo } from "./tempo";
+import {
+    createExerciseMatcher,
+    ExerciseNameMappings,
+} from "./exercise-matching";
 
 // Define the CSV column structure
 export interface WorkoutPlanCsvRow {
@@ -179,11 +185,14 @@ export function exportWorkoutPlanToCsv(phases: Phase[]): string {
  * Parses a CSV string into workout plan data
  * @param csvContent The CSV content to parse
  * @param exercisesList Optional list of exercises to match descriptions with
- * @returns Structured workout plan phases
+ * @param mappings Exercise names the coach mapped in earlier imports
+ * @returns Structured workout plan phases; exercises that didn't match have
+ * an empty exerciseId
  */
 export function importWorkoutPlanFromCsv(
     csvContent: string,
-    exercisesList?: SelectExercise[]
+    exercisesList?: SelectExercise[],
+    mappings?: ExerciseNameMappings
 ): Phase[] {
     // Split CSV into lines
     const lines = csvContent.split(/\r?\n/);
@@ -290,20 +299,34 @@ export function importWorkoutPlanFromCsv(
         })
         .filter((row): row is WorkoutPlanCsvRow => row !== null);
 
+    // Reject the file if any tempo doesn't follow the grammar, listing each row
+    const tempoErrors = csvRows.flatMap((row) => {
+        const error = validateTempo(row.Tempo);
+        return error
+            ? [`${row.SessionName} / ${row.ExerciseDescription}: ${error}`]
+            : [];
+    });
+    if (tempoErrors.length > 0) {
+        throw new Error(tempoErrors.join("\n"));
+    }
+
     // Convert CSV rows to phases structure
-    return convertCsvRowsToPhases(csvRows, exercisesList);
+    return convertCsvRowsToPhases(csvRows, exercisesList, mappings);
 }
 
 /**
  * Converts CSV rows to workout plan phases
  * @param csvRows The CSV rows to convert
  * @param exercisesList Optional list of exercises to match descriptions with
+ * @param mappings Exercise names the coach mapped in earlier imports
  * @returns Structured workout plan phases
  */
 function convertCsvRowsToPhases(
     csvRows: WorkoutPlanCsvRow[],
-    exercisesList?: SelectExercise[]
+    exercisesList?: SelectExercise[],
+    mappings?: ExerciseNameMappings
 ): Phase[] {
+    const matcher = createExerciseMatcher(exercisesList ?? [], mappings);
     const phases: Phase[] = [];
     const phaseMap = new Map<string, Phase>();
     const sessionMap = new Map<string, Session>();
@@ -345,7 +368,7 @@ function convertCsvRowsToPhases(
             session = {
                 id: uuidv4(),
                 name: sessionName,
-                duration: 0, // Will be calculated later
+                duration: 0, // Calculated once all exercises are added
                 isExpanded: true,
                 orderNumber: sessionOrder, // Set order number for session
                 exercises: [],
@@ -363,68 +386,35 @@ function convertCsvRowsToPhases(
         let targetArea = "";
         let exerciseId = "";
 
-        // Try to find matching exercise in the exercises list
-        if (
-            exercisesList &&
-            Array.isArray(exercisesList) &&
-            exercisesList.length > 0
-        ) {
-            // First try exact match (case-insensitive)
-            let matchingExercise = exercisesList.find(
-                (ex) =>
-                    ex.exerciseName &&
-                    ex.exerciseName.toLowerCase().trim() ===
-                        row.ExerciseDescription.toLowerCase().trim()
-            );
-
-            // If no exact match, try partial match
-            if (!matchingExercise) {
-                matchingExercise = exercisesList.find(
-                    (ex) =>
-                        ex.exerciseName &&
-                        row.ExerciseDescription.toLowerCase().includes(
-                            ex.exerciseName.toLowerCase()
-                        )
-                );
-            }
-
-            // If still no match, try the other way around
-            if (!matchingExercise) {
-                matchingExercise = exercisesList.find(
-                    (ex) =>
-                        ex.exerciseName &&
-                        ex.exerciseName
-                            .toLowerCase()
-                            .includes(row.ExerciseDescription.toLowerCase())
-                );
-            }
-
-            if (matchingExercise) {
-                console.log(
-                    `Matched exercise: "${row.ExerciseDescription}" with "${matchingExercise.exerciseName}"`
-                );
-                motion = matchingExercise.motion || "";
-                targetArea = matchingExercise.targetArea || "";
-                exerciseId = matchingExercise.exerciseId || "";
-            } else {
-                console.log(
-                    `No match found for exercise: "${row.ExerciseDescription}"`
-                );
-            }
+        // Exact (normalised) names and remembered mappings resolve here;
+        // anything else is left for the coach to map in the review step
+        const matchingExercise = matcher.resolve(row.ExerciseDescription);
+        if (matchingExercise) {
+            motion = matchingExercise.motion || "";
+            targetArea = matchingExercise.targetArea || "";
+            exerciseId = matchingExercise.exerciseId || "";
         }
 
+        const tempo = normalizeTempo(row.Tempo);
         const exercise: Exercise = {
             id: uuidv4(),
             order: row.ExerciseOrder,
             motion: motion,
             targetArea: targetArea,
             exerciseId: exerciseId,
-            description: row.ExerciseDescription,
+            description:
+                matchingExercise?.exerciseName ?? row.ExerciseDescription,
             setsMin: row.SetsMin,
             setsMax: row.SetsMax,
             repsMin: row.RepsMin,
             repsMax: row.RepsMax,
-            tempo: row.Tempo,
+            tempo,
+            tut:
+                deriveTut({
+                    tempo,
+                    repsMin: row.RepsMin,
+                    repsMax: row.RepsMax,
+                })?.toString() ?? "",
             restMin: row.RestMin,
             restMax: row.RestMax,
             additionalInfo: row.Customizations,
@@ -435,6 +425,13 @@ function convertCsvRowsToPhases(
         session.exercises.push(exercise);
     });
 
+    const timeMultipliers = Object.fromEntries(
+        (exercisesList ?? []).map((exercise) => [
+            exercise.exerciseId,
+            exercise.timeMultiplier ?? 1,
+        ])
+    );
+
     // Assign timestamp-based order numbers to phases based on their appearance in CSV
     // Use the same pattern as the rest of the codebase: timestamp/10000 + index
     phases.forEach((phase, index) => {
@@ -454,6 +451,10 @@ function convertCsvRowsToPhases(
                 const orderB = parseInt(b.order) || 0;
                 return orderA - orderB;
             });
+            session.duration = calculateSessionDuration(
+                session.exercises,
+                timeMultipliers
+            );
         });
     });
 
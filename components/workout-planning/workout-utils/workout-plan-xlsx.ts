@@ -0,0 +1,480 @@
+import type { Workbook, Worksheet } from "exceljs";
+import { v4 as uuidv4 } from "uuid";
+import type { SelectExercise } from "@/db/schemas";
+import { Exercise, ExerciseGroupType, Phase, Session } from "../types";
+import { calculateSessionDuration } from "./exercise-utils";
+import { EXERCISE_GROUP_LABELS } from "./exercise-groups";
+import { deriveTut, normalizeTempo, validateTempo } from "./tempo";
+import {
+    createExerciseMatcher,
+    ExerciseNameMappings,
+} from "./exercise-matching";
+
+/**
+ * A problem found while reading a workbook. Errors block the import,
+ * warnings are shown but the plan can still be added.
+ */
+export interface WorkoutPlanImportIssue {
+    sheet: string;
+    row?: number;
+    severity: "error" | "warning";
+    message: string;
+}
+
+export interface WorkoutPlanXlsxImport {
+    phases: Phase[];
+    issues: WorkoutPlanImportIssue[];
+}
+
+const OVERVIEW_SHEET = "Plan";
+const OVERVIEW_COLUMNS = ["Sheet", "Phase", "Active"];
+
+// One row per exercise; sessions without exercises get a row with only the session columns.
+// Rows belong to the same session when they share its order and name, so
+// sessions with the same name stay apart.
+const PHASE_COLUMNS = [
+    { header: "Session", width: 24 },
+    { header: "Session Order", width: 14 },
+    { header: "Session Minutes", width: 16 },
+    { header: "Order", width: 8 },
+    { header: "Exercise", width: 36 },
+    { header: "Exercise ID", width: 38 },
+    { header: "Motion", width: 18 },
+    { header: "Target Area", width: 18 },
+    { header: "Sets Min", width: 10 },
+    { header: "Sets Max", width: 10 },
+    { header: "Reps Min", width: 10 },
+    { header: "Reps Max", width: 10 },
+    { header: "Tempo", width: 10 },
+    { header: "TUT", width: 8 },
+    { header: "Rest Min", width: 10 },
+    { header: "Rest Max", width: 10 },
+    { header: "Group Type", width: 12 },
+    { header: "Group Rounds", width: 14 },
+    { header: "Group Rest", width: 12 },
+    { header: "Customizations", width: 40 },
+    { header: "Notes", width: 40 },
+] as const;
+
+type PhaseColumn = (typeof PHASE_COLUMNS)[number]["header"];
+
+const XLSX_MIME_TYPE =
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// exceljs is large, so it is only loaded when a workbook is read or written
+async function createWorkbook(): Promise<Workbook> {
+    const ExcelJS = (await import("exceljs")).default;
+    return new ExcelJS.Workbook();
+}
+
+/**
+ * Excel sheet names are limited to 31 characters, can't contain []:*?/\
+ * and must be unique (case-insensitive)
+ */
+function uniqueSheetName(name: string, used: Set<string>): string {
+    const base =
+        name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Phase";
+    let candidate = base;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+        const suffix = ` (${n})`;
+        candidate = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+}
+
+/**
+ * Numeric strings are written as numbers so they stay editable as numbers
+ * in Excel; everything else is written as text
+ */
+function toCellValue(value: string | number | undefined) {
+    if (value === undefined || value === "") return null;
+    if (typeof value === "number") return value;
+    return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+}
+
+function styleHeader(sheet: Worksheet) {
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+}
+
+function exerciseToRow(
+    session: Session,
+    sessionOrder: number,
+    exercise?: Exercise
+): Record<PhaseColumn, string | number | null> {
+    return {
+        Session: session.name,
+        "Session Order": sessionOrder,
+        "Session Minutes": toCellValue(session.duration),
+        Order: toCellValue(exercise?.order),
+        Exercise: exercise?.description || null,
+        "Exercise ID": exercise?.exerciseId || null,
+        Motion: exercise?.motion || null,
+        "Target Area": exercise?.targetArea || null,
+        "Sets Min": toCellValue(exercise?.setsMin),
+        "Sets Max": toCellValue(exercise?.setsMax),
+        "Reps Min": toCellValue(exercise?.repsMin),
+        "Reps Max": toCellValue(exercise?.repsMax),
+        Tempo: exercise?.tempo || null,
+        TUT: toCellValue(exercise?.tut),
+        "Rest Min": toCellValue(exercise?.restMin),
+        "Rest Max": toCellValue(exercise?.restMax),
+        "Group Type": exercise?.groupType
+            ? EXERCISE_GROUP_LABELS[exercise.groupType]
+            : null,
+        "Group Rounds": toCellValue(exercise?.groupRounds),
+        "Group Rest": toCellValue(exercise?.groupRest),
+        Customizations:
+            exercise?.additionalInfo || exercise?.customizations || null,
+        Notes: exercise?.notes || null,
+    };
+}
+
+/**
+ * Builds an .xlsx workbook with an overview sheet listing every phase and
+ * one sheet per phase holding its sessions and exercises
+ * @param phases The workout plan phases to export
+ * @returns The workbook file contents
+ */
+export async function exportWorkoutPlanToXlsx(
+    phases: Phase[]
+): Promise<ArrayBuffer> {
+    if (!phases || phases.length === 0) {
+        throw new Error("No workout plan data to export");
+    }
+
+    const workbook = await createWorkbook();
+    const overview = workbook.addWorksheet(OVERVIEW_SHEET);
+    overview.columns = OVERVIEW_COLUMNS.map((header) => ({
+        header,
+        key: header,
+        width: header === "Phase" ? 32 : 12,
+    }));
+    styleHeader(overview);
+
+    const usedNames = new Set([OVERVIEW_SHEET.toLowerCase()]);
+    for (const phase of phases) {
+        const sheetName = uniqueSheetName(phase.name, usedNames);
+        overview.addRow({
+            Sheet: sheetName,
+            Phase: phase.name,
+            Active: phase.isActive ? "Yes" : "No",
+        });
+
+        const sheet = workbook.addWorksheet(sheetName);
+        sheet.columns = PHASE_COLUMNS.map(({ header, width }) => ({
+            header,
+            key: header,
+            width,
+        }));
+        styleHeader(sheet);
+
+        const sessions = [...phase.sessions].sort(
+            (a, b) => (a.orderNumber ?? 0) - (b.orderNumber ?? 0)
+        );
+        // Positions rather than stored order numbers, which can repeat
+        sessions.forEach((session, index) => {
+            if (session.exercises.length === 0) {
+                sheet.addRow(exerciseToRow(session, index + 1));
+            }
+            for (const exercise of session.exercises) {
+                sheet.addRow(exerciseToRow(session, index + 1, exercise));
+            }
+        });
+    }
+
+    return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+}
+
+/**
+ * Downloads the workout plan as an .xlsx file
+ * @param phases The workout plan phases to download
+ * @param filename The name of the file to download
+ */
+export async function downloadWorkoutPlanXlsx(
+    phases: Phase[],
+    filename: string = "workout-plan.xlsx"
+): Promise<void> {
+    const buffer = await exportWorkoutPlanToXlsx(phases);
+    const blob = new Blob([buffer], { type: XLSX_MIME_TYPE });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", filename);
+    link.style.visibility = "hidden";
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads a header row into a map of column name -> column number
+ */
+function readHeader(sheet: Worksheet): Map<string, number> {
+    const columns = new Map<string, number>();
+    sheet.getRow(1).eachCell((cell, columnNumber) => {
+        columns.set(cell.text.trim().toLowerCase(), columnNumber);
+    });
+    return columns;
+}
+
+const GROUP_TYPES_BY_NAME = new Map<string, ExerciseGroupType>(
+    (Object.keys(EXERCISE_GROUP_LABELS) as ExerciseGroupType[]).flatMap(
+        (type) => [
+            [type, type],
+            [EXERCISE_GROUP_LABELS[type].toLowerCase(), type],
+        ]
+    )
+);
+
+/**
+ * Parses a workbook exported by exportWorkoutPlanToXlsx, or authored by hand
+ * with one sheet per phase, and checks it against the exercise library.
+ * Nothing is applied; the caller shows the issues and decides.
+ * @param data The .xlsx file contents
+ * @param exercisesList Exercise library used to resolve exercise names and IDs
+ * @param mappings Exercise names the coach mapped in earlier imports
+ */
+export async function importWorkoutPlanFromXlsx(
+    data: ArrayBuffer,
+    exercisesList: SelectExercise[] = [],
+    mappings?: ExerciseNameMappings
+): Promise<WorkoutPlanXlsxImport> {
+    const workbook = await createWorkbook();
+    try {
+        await workbook.xlsx.load(data);
+    } catch {
+        throw new Error("Could not read the file. Please upload an .xlsx workbook.");
+    }
+
+    const issues: WorkoutPlanImportIssue[] = [];
+    const exercisesById = new Map(
+        exercisesList.map((exercise) => [exercise.exerciseId, exercise])
+    );
+    const matcher = createExerciseMatcher(exercisesList, mappings);
+    const timeMultipliers = Object.fromEntries(
+        exercisesList.map((exercise) => [
+            exercise.exerciseId,
+            exercise.timeMultiplier ?? 1,
+        ])
+    );
+
+    // Phases listed on the overview sheet come first, in its order; any other
+    // sheet is treated as an inactive phase named after the sheet
+    const phaseSheets: { sheet: Worksheet; name: string; isActive: boolean }[] =
+        [];
+    const overview = workbook.getWorksheet(OVERVIEW_SHEET);
+    if (overview) {
+        const columns = readHeader(overview);
+        overview.eachRow((row, rowNumber) => {
+            if (rowNumber === 1) return;
+            const text = (column: string) => {
+                const columnNumber = columns.get(column);
+                return columnNumber ? row.getCell(columnNumber).text.trim() : "";
+            };
+            const sheetName = text("sheet");
+            if (!sheetName) return;
+
+            const sheet = workbook.getWorksheet(sheetName);
+            if (!sheet) {
+                issues.push({
+                    sheet: OVERVIEW_SHEET,
+                    row: rowNumber,
+                    severity: "warning",
+                    message: `Sheet "${sheetName}" not found; phase skipped`,
+                });
+                return;
+            }
+            phaseSheets.push({
+                sheet,
+                name: text("phase") || sheetName,
+                isActive: /^(yes|true|1)$/i.test(text("active")),
+            });
+        });
+    }
+    workbook.eachSheet((sheet) => {
+        if (
+            sheet !== overview &&
+            !phaseSheets.some((phaseSheet) => phaseSheet.sheet === sheet)
+        ) {
+            phaseSheets.push({ sheet, name: sheet.name, isActive: false });
+        }
+    });
+
+    if (phaseSheets.length === 0) {
+        throw new Error("The workbook has no phase sheets.");
+    }
+
+    const baseTimestamp = Math.floor(Date.now() / 10000);
+    const phases = phaseSheets.map(({ sheet, name, isActive }, index) => {
+        const phase: Phase = {
+            id: uuidv4(),
+            name,
+            isActive,
+            isExpanded: true,
+            orderNumber: baseTimestamp + index,
+            sessions: [],
+        };
+        const sessionsByKey = new Map<string, Session>();
+        const sessionMinutes = new Map<Session, number>();
+        const columns = readHeader(sheet);
+
+        const missing = PHASE_COLUMNS.filter(
+            ({ header }) =>
+                (header === "Session" || header === "Exercise") &&
+                !columns.has(header.toLowerCase())
+        );
+        if (missing.length > 0) {
+            issues.push({
+                sheet: sheet.name,
+                severity: "error",
+                message: `Missing column${missing.length > 1 ? "s" : ""}: ${missing
+                    .map(({ header }) => header)
+                    .join(", ")}`,
+            });
+            return phase;
+        }
+
+        sheet.eachRow((row, rowNumber) => {
+            if (rowNumber === 1) return;
+            const text = (column: PhaseColumn) => {
+                const columnNumber = columns.get(column.toLowerCase());
+                return columnNumber ? row.getCell(columnNumber).text.trim() : "";
+            };
+            const report = (
+                message: string,
+                severity: WorkoutPlanImportIssue["severity"] = "error"
+            ) => issues.push({ sheet: sheet.name, row: rowNumber, severity, message });
+
+            const sessionName = text("Session");
+            const description = text("Exercise");
+            if (!sessionName && !description) return;
+            if (!sessionName) {
+                report(`"${description}" has no session`);
+                return;
+            }
+
+            const sessionKey = `${text("Session Order")}\u0000${sessionName}`;
+            let session = sessionsByKey.get(sessionKey);
+            if (!session) {
+                const order = parseInt(text("Session Order"), 10);
+                session = {
+                    id: uuidv4(),
+                    name: sessionName,
+                    duration: 0,
+                    isExpanded: true,
+                    orderNumber: Number.isFinite(order)
+                        ? order
+                        : phase.sessions.length,
+                    exercises: [],
+                };
+                const minutes = parseFloat(text("Session Minutes"));
+                if (Number.isFinite(minutes)) {
+                    sessionMinutes.set(session, minutes);
+                }
+                sessionsByKey.set(sessionKey, session);
+                phase.sessions.push(session);
+            }
+            if (!description) return;
+
+            // Resolve the exercise by ID first, then by name; unknown names
+            // are left for the coach to map in the review step
+            const exerciseIdText = text("Exercise ID");
+            const libraryExercise =
+                exercisesById.get(exerciseIdText) ??
+                matcher.resolve(description);
+
+            const ranges = [
+                ["Sets Min", "Sets Max"],
+                ["Reps Min", "Reps Max"],
+                ["Rest Min", "Rest Max"],
+            ] as const;
+            for (const [minColumn, maxColumn] of ranges) {
+                const min = text(minColumn);
+                const max = text(maxColumn);
+                const invalid = [min, max].filter(
+                    (value) => value && !/^\d+$/.test(value)
+                );
+                if (invalid.length > 0) {
+                    report(
+                        `${minColumn.replace(" Min", "")} must be whole numbers (got ${invalid.join(", ")})`
+                    );
+                } else if (min && max && Number(min) > Number(max)) {
+                    report(
+                        `${minColumn.replace(" Min", "")} range ${min}-${max} has min above max`
+                    );
+                }
+            }
+
+            const tempoError = validateTempo(text("Tempo"));
+            if (tempoError) report(tempoError);
+
+            const groupTypeText = text("Group Type");
+            const groupType = groupTypeText
+                ? GROUP_TYPES_BY_NAME.get(groupTypeText.toLowerCase())
+                : "";
+            if (groupType === undefined) {
+                report(`Unknown group type "${groupTypeText}"`);
+            }
+            for (const column of ["Group Rounds", "Group Rest"] as const) {
+                const value = text(column);
+                if (value && !/^\d+$/.test(value)) {
+                    report(`${column} must be a whole number (got ${value})`);
+                }
+            }
+
+            const exercise: Exercise = {
+                id: uuidv4(),
+                order: text("Order"),
+                exerciseId: libraryExercise?.exerciseId ?? "",
+                description: libraryExercise?.exerciseName ?? description,
+                motion: text("Motion") || libraryExercise?.motion || "",
+                targetArea:
+                    text("Target Area") || libraryExercise?.targetArea || "",
+                setsMin: text("Sets Min"),
+                setsMax: text("Sets Max"),
+                repsMin: text("Reps Min"),
+                repsMax: text("Reps Max"),
+                tempo: normalizeTempo(text("Tempo")),
+                tut: text("TUT"),
+                restMin: text("Rest Min"),
+                restMax: text("Rest Max"),
+                groupType: groupType ?? "",
+                groupRounds: text("Group Rounds"),
+                groupRest: text("Group Rest"),
+                additionalInfo: text("Customizations"),
+                customizations: text("Customizations"),
+                notes: text("Notes"),
+            };
+
+            const derivedTut = tempoError ? null : deriveTut(exercise);
+            if (derivedTut !== null && String(derivedTut) !== exercise.tut) {
+                if (exercise.tut) {
+                    report(
+                        `TUT ${exercise.tut} doesn't match tempo × reps; using ${derivedTut}`,
+                        "warning"
+                    );
+                }
+                exercise.tut = String(derivedTut);
+            }
+
+            session.exercises.push(exercise);
+        });
+
+        phase.sessions.sort(
+            (a, b) => (a.orderNumber ?? 0) - (b.orderNumber ?? 0)
+        );
+        for (const session of phase.sessions) {
+            session.duration =
+                sessionMinutes.get(session) ??
+                calculateSessionDuration(session.exercises, timeMultipliers);
+        }
+        return phase;
+    });
+
+    return { phases, issues };
+}
@@ -2,9 +2,11 @@ import { Exercise, Phase, WorkoutPlanResponse } from "../types";
 import { v4 as uuidv4 } from "uuid";
 import { getWorkoutPlanByClientId } from "@/actions/workout_client_actions";
 import { sortPhasesByActiveStatus } from "./phase-utils";
+import { calculateSessionDuration } from "./exercise-utils";
 
 export function mapWorkoutPlanResponseToPhase(
-    response: WorkoutPlanResponse
+    response: WorkoutPlanResponse,
+    timeMultipliers: Record<string, number> = {}
 ): Phase[] {
     return response.phases.map((phase) => {
         const phaseId = phase.id;
@@ -71,16 +73,13 @@ export function mapWorkoutPlanResponseToPhase(
                         };
                     }) || [];
 
-                const calculatedDuration =
-                    exercises.reduce(
-                        (total, ex) => total + (ex.duration || 8),
-                        0
-                    ) || 0;
-
                 return {
                     id: sessionId,
                     name: session.name || "Unnamed Session",
-                    duration: calculatedDuration,
+                    duration: calculateSessionDuration(
+                        exercises,
+                        timeMultipliers
+                    ),
                     isExpanded: Boolean(session.isExpanded),
                     exercises,
                     // Add phaseId to ensure parent-child relationship
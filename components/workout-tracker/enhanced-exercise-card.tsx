@@ -3,12 +3,19 @@
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 
-import { ChevronDown, ChevronUp, Trash2, Plus, ArrowLeftRight } from "lucide-react";
+import { ChevronDown, ChevronUp, Trash2, Plus, ArrowLeftRight, PlayCircle, Check } from "lucide-react";
 import { Exercise, ExerciseSet } from "@/types/workout-tracker-types";
 import React, { useEffect, useState } from "react";
 import { SelectExercise } from "@/db/schemas";
 import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import ExerciseDropdown from "../workout-planning/UI-components/exercise-table/ExerciseDropdown";
+import { ExerciseVideoPreview } from "@/components/exercise-media/exercise-video-preview";
+import { ExerciseSubstitutesPanel } from "@/components/exercise-substitution/exercise-substitutes-panel";
+import { formatRestDuration, restAgainstRange } from "./rest-timer-bar";
+import { SET_TYPE_LABELS, SetTypeSelect, TempoAdherenceIcon, TempoAdherenceToggle } from "./set-effort-fields";
+import { SetType } from "@/db/schemas";
+import { PreviousPerformance } from "@/actions/previous_performance_actions";
+import { latestSessionSets, suggestSetTarget, summarizeSets, workingSetNumbers } from "@/lib/set-progression";
 
 interface PastSessionDetails {
     id: string;
@@ -19,6 +26,11 @@ interface PastSessionDetails {
     notes: string;
     setOrderMarker: string;
     entryTime: string | null;
+    restSeconds?: number | null;
+    setType?: SetType;
+    rpe?: number | null;
+    rir?: number | null;
+    tempoAdhered?: boolean | null;
 }
 
 interface EnhancedExerciseCardProps {
@@ -32,10 +44,14 @@ interface EnhancedExerciseCardProps {
     ) => void;
     onAddSet: (exerciseId: string) => void;
     onDeleteSet: (exerciseId: string, setId: string) => void;
+    onToggleSetCompleted: (exerciseId: string, setId: string) => void;
+    onUpdateSetDetails: (exerciseId: string, setId: string, changes: Partial<ExerciseSet>) => void;
     onDeleteExercise: (exerciseId: string) => void;
     pastSessionDetails: PastSessionDetails[][];
     onReplaceExercise: (exerciseId: string, exercise: Exercise) => void;
     allExercises: SelectExercise[];
+    clientId?: string;
+    previousPerformance?: PreviousPerformance;
 }
 
 function UnMemoizedEnhancedExerciseCard({
@@ -44,15 +60,20 @@ function UnMemoizedEnhancedExerciseCard({
     onUpdateSetValue,
     onAddSet,
     onDeleteSet,
+    onToggleSetCompleted,
+    onUpdateSetDetails,
     onDeleteExercise,
     onReplaceExercise,
     pastSessionDetails,
-    allExercises
+    allExercises,
+    clientId,
+    previousPerformance
 }: EnhancedExerciseCardProps) {
     // Calculate max reps for input validation only
     const [currentExerciseInstances, setCurrentExerciseInstances] = useState<PastSessionDetails[][]>([]);
     const maxReps =
         parseInt(exercise.repRange.split("-")[1] || exercise.repRange) || 12;
+    const lastTime = previousPerformance ? summarizeSets(latestSessionSets(previousPerformance)) : "";
 
     useEffect(()=>{
         const currentExerciseInstances = pastSessionDetails.map((entry: PastSessionDetails[]) => {
@@ -79,6 +100,7 @@ function UnMemoizedEnhancedExerciseCard({
                             </h3>
                             <div className="text-sm text-muted-foreground">
                                 {exercise.setRange} Sets × {exercise.repRange} Reps
+                                {lastTime && <span> · Last time: {lastTime}</span>}
                             </div>
                         </div>
                     </div>
@@ -103,9 +125,13 @@ function UnMemoizedEnhancedExerciseCard({
                         onUpdateSetValue={onUpdateSetValue} 
                         onDeleteExercise={onDeleteExercise} 
                         onDeleteSet={onDeleteSet}
+                        onToggleSetCompleted={onToggleSetCompleted}
+                        onUpdateSetDetails={onUpdateSetDetails}
                         currentExerciseInstances={currentExerciseInstances}
                         onReplaceExercise={onReplaceExercise}
                         allExercises={allExercises}
+                        clientId={clientId}
+                        previousPerformance={previousPerformance}
                     />
                 )}
             </div>
@@ -113,7 +139,7 @@ function UnMemoizedEnhancedExerciseCard({
     );
 }
 
-const ExerciseExpanded = ({exercise, onAddSet, maxReps, onUpdateSetValue, onDeleteSet, currentExerciseInstances, onDeleteExercise, onReplaceExercise, allExercises}: {   
+const ExerciseExpanded = ({exercise, onAddSet, maxReps, onUpdateSetValue, onDeleteSet, onToggleSetCompleted, onUpdateSetDetails, currentExerciseInstances, onDeleteExercise, onReplaceExercise, allExercises, clientId, previousPerformance}: {   
     exercise: Exercise;
     onUpdateSetValue: (
         exerciseId: string,
@@ -123,11 +149,15 @@ const ExerciseExpanded = ({exercise, onAddSet, maxReps, onUpdateSetValue, onDele
     ) => void;
     onAddSet: (exerciseId: string) => void;
     onDeleteSet: (exerciseId: string, setId: string) => void;
+    onToggleSetCompleted: (exerciseId: string, setId: string) => void;
+    onUpdateSetDetails: (exerciseId: string, setId: string, changes: Partial<ExerciseSet>) => void;
     onDeleteExercise: (exerciseId: string) => void;
     maxReps: number;
     currentExerciseInstances:PastSessionDetails[][];
     onReplaceExercise: (exerciseId: string, exercise: Exercise) => void;
     allExercises: SelectExercise[];
+    clientId?: string;
+    previousPerformance?: PreviousPerformance;
     }) => {
 
     const today = new Date();
@@ -142,6 +172,8 @@ const ExerciseExpanded = ({exercise, onAddSet, maxReps, onUpdateSetValue, onDele
 
     // Group Current Exercises
     const sessionsGroupedByDate = groupByDate(currentExerciseInstances);
+    const [showDemo, setShowDemo] = useState(false);
+    const hasDemo = !!(exercise.videoUrl || exercise.imageUrl);
     return (
         <div className="border-t border-border">
             {/* Exercise Details */}
@@ -182,7 +214,18 @@ const ExerciseExpanded = ({exercise, onAddSet, maxReps, onUpdateSetValue, onDele
                         </div>
                     </div>
                     <div className="flex flex-row">
-                        <ReplaceExerciseSheet onReplaceExercise={onReplaceExercise} allExercises={allExercises} currentExercise={exercise}/>
+                        {hasDemo && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className={`cursor-pointer h-10 w-10 p-0 ${showDemo ? "bg-primary/10" : ""}`}
+                                onClick={() => setShowDemo(!showDemo)}
+                                title={showDemo ? "Hide demo" : "Show demo"}
+                            >
+                                <PlayCircle className="h-4 w-4" />
+                            </Button>
+                        )}
+                        <ReplaceExerciseSheet onReplaceExercise={onReplaceExercise} allExercises={allExercises} currentExercise={exercise} clientId={clientId}/>
                         <div className="cursor-pointer" onClick={()=>{
                             onDeleteExercise(exercise.id);
                         }}>
@@ -198,6 +241,19 @@ const ExerciseExpanded = ({exercise, onAddSet, maxReps, onUpdateSetValue, onDele
                     </div>
                 </div>
 
+                {/* Demo - played inline so the exercise stays in view */}
+                {hasDemo && showDemo && (
+                    <div className="mt-3 pt-3 border-t border-border max-w-xl">
+                        <ExerciseVideoPreview
+                            url={exercise.videoUrl || null}
+                            imageUrl={exercise.imageUrl}
+                            posterUrl={exercise.thumbnailUrl}
+                            title={exercise.name}
+                            autoPlay
+                        />
+                    </div>
+                )}
+
                 {/* Customizations - Full width if present */}
                 {exercise.customizations &&
                     exercise.customizations.trim() && (
@@ -223,11 +279,11 @@ const ExerciseExpanded = ({exercise, onAddSet, maxReps, onUpdateSetValue, onDele
                             <div className="w-3 h-3 bg-green-400 rounded-full"/>
                         </div>
                         <div className="flex flex-row">
-                            <EntryTable exercise={exercise.sets} isEditable={true} maxReps={maxReps} onUpdateSetValue={onUpdateSetValue} onDeleteSet={onDeleteSet} exerciseId={exercise.id} onAddSet={onAddSet}/>
+                            <EntryTable exercise={exercise.sets} isEditable={true} maxReps={maxReps} onUpdateSetValue={onUpdateSetValue} onDeleteSet={onDeleteSet} onToggleSetCompleted={onToggleSetCompleted} onUpdateSetDetails={onUpdateSetDetails} exerciseId={exercise.id} onAddSet={onAddSet} restMin={exercise.restMin} restMax={exercise.restMax} previousPerformance={previousPerformance} repsMin={exercise.repsMin} repsMax={exercise.repsMax}/>
                         </div>
                     </div>
                     {Object.entries(sessionsGroupedByDate).length > 0 ?
-                        Object.entries(sessionsGroupedByDate).map(([date, sets], index) => <ExerciseInstancesInPastWorkouts key={index} date={date} sets={sets}/>): 
+                        Object.entries(sessionsGroupedByDate).map(([date, sets], index) => <ExerciseInstancesInPastWorkouts key={index} date={date} sets={sets} restMin={exercise.restMin} restMax={exercise.restMax}/>): 
                         <div className="flex flex-col items-center justify-center w-auto p-4">
                             <p className="text-primary">No Workout History Available for this Exercise</p>
                         </div>
@@ -238,12 +294,12 @@ const ExerciseExpanded = ({exercise, onAddSet, maxReps, onUpdateSetValue, onDele
     )
 };
 
-const ExerciseInstancesInPastWorkouts = ({sets, date}: {sets: PastSessionDetails[], date: string}) => {
+const ExerciseInstancesInPastWorkouts = ({sets, date, restMin, restMax}: {sets: PastSessionDetails[], date: string, restMin?: number, restMax?: number}) => {
     return (
         <div className="flex flex-col w-auto border-[0.2px] border-gray-300 p-4">
             <h3>{date}</h3>
             <div className="flex flex-row overflow-x-auto">
-                <EntryTable exercise={sets.sort((a,b) => a.entryTime && b.entryTime ? new Date(a.entryTime).getTime() - new Date(b.entryTime).getTime() : 0)} isEditable={false} />
+                <EntryTable exercise={sets.sort((a,b) => a.entryTime && b.entryTime ? new Date(a.entryTime).getTime() - new Date(b.entryTime).getTime() : 0)} isEditable={false} restMin={restMin} restMax={restMax} />
             </div>
         </div>
     )
@@ -255,8 +311,15 @@ const EntryTable = ({
         maxReps, 
         onUpdateSetValue, 
         onDeleteSet, 
+        onToggleSetCompleted,
+        onUpdateSetDetails,
         exerciseId,
-        onAddSet
+        onAddSet,
+        restMin,
+        restMax,
+        previousPerformance,
+        repsMin,
+        repsMax
     } : {
         exercise: PastSessionDetails[] | ExerciseSet[], 
         isEditable:boolean, 
@@ -268,9 +331,17 @@ const EntryTable = ({
             value: string
         ) => void, 
         onDeleteSet?: (exerciseId: string, setId: string) => void,
+        onToggleSetCompleted?: (exerciseId: string, setId: string) => void,
+        onUpdateSetDetails?: (exerciseId: string, setId: string, changes: Partial<ExerciseSet>) => void,
         exerciseId?: string
         onAddSet?: (exerciseId: string) => void;
+        restMin?: number;
+        restMax?: number;
+        previousPerformance?: PreviousPerformance;
+        repsMin?: number;
+        repsMax?: number;
     }) => {
+    const workingNumbers = workingSetNumbers(exercise);
     return (
         <div className="w-full">
             <table className="w-full">
@@ -279,12 +350,30 @@ const EntryTable = ({
                         <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
                             SET
                         </th>
+                        {previousPerformance && <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                            LAST → TARGET
+                        </th>}
                         <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
                             REPS
                         </th>
                         <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground min-w-28">
                             WEIGHT (KG)
                         </th>
+                        <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                            TYPE
+                        </th>
+                        <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                            RPE
+                        </th>
+                        <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                            RIR
+                        </th>
+                        <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                            TEMPO
+                        </th>
+                        <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                            REST
+                        </th>
                         <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
                             NOTES
                         </th>
@@ -297,16 +386,47 @@ const EntryTable = ({
                     {/* Render ONLY existing sets - no empty rows, no filling up */}
                     {exercise.map((set: PastSessionDetails | ExerciseSet, index: number) => {
                         const setNumber = index + 1;
+                        const isCompleted = "completed" in set && !!set.completed;
+                        const restFit = set.restSeconds != null ? restAgainstRange(set.restSeconds, restMin, restMax) : null;
+                        const canEditDetails = !!(exerciseId && isEditable && onUpdateSetDetails);
+                        // The same working set last time, and what to aim for today
+                        const workingNumber = workingNumbers[index];
+                        const previous = workingNumber ? previousPerformance?.[workingNumber]?.[0] : undefined;
+                        const target = suggestSetTarget(previous, repsMin, repsMax);
                         return (
                             <tr
                                 key={set.id}
-                                className="border-b border-border hover:bg-muted/30 transition-colors"
+                                className={`border-b border-border hover:bg-muted/30 transition-colors ${set.setType === "warm-up" ? "text-muted-foreground" : ""}`}
                             >
                                 <td className="py-3 px-2">
-                                    <span className="font-medium text-primary">
-                                        {setNumber}
-                                    </span>
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-medium text-primary">
+                                            {setNumber}
+                                        </span>
+                                        {exerciseId && isEditable && onToggleSetCompleted &&
+                                        <Button
+                                            variant={isCompleted ? "default" : "outline"}
+                                            size="sm"
+                                            className="cursor-pointer h-8 w-8 p-0"
+                                            onClick={() => onToggleSetCompleted(exerciseId, set.id)}
+                                            title={isCompleted ? "Mark set as not done" : "Complete set and start rest"}
+                                        >
+                                            <Check className="h-4 w-4" />
+                                        </Button>}
+                                    </div>
                                 </td>
+                                {previousPerformance && <td className="py-3 px-2 text-sm whitespace-nowrap">
+                                    {previous ?
+                                    <div>
+                                        <div className="text-muted-foreground">
+                                            {previous.reps} × {previous.weight ?? 0}kg
+                                        </div>
+                                        {target && <div className="font-medium text-primary" title={target.reason}>
+                                            → {target.reps} × {target.weight}kg
+                                        </div>}
+                                    </div> :
+                                    <span className="text-muted-foreground">-</span>}
+                                </td>}
                                 <td className="py-3 px-2">
                                     {exerciseId && isEditable && maxReps && onUpdateSetValue ? 
                                     <Input
@@ -323,7 +443,7 @@ const EntryTable = ({
                                                     e.target.value
                                                 );
                                             }}
-                                            placeholder="0"
+                                            placeholder={target?.reps.toString() ?? previous?.reps?.toString() ?? "0"}
                                         />
                                     : <span className="font-medium text-primary">
                                         {set.reps}
@@ -346,12 +466,68 @@ const EntryTable = ({
                                                 e.target.value
                                             );
                                         }}
-                                        placeholder="0"
+                                        placeholder={target?.weight.toString() ?? previous?.weight?.toString() ?? "0"}
                                     /> :
                                     <span className="font-medium text-primary">
                                         {set.weight}
                                     </span>}
                                 </td>
+                                <td className="py-3 px-2">
+                                    {canEditDetails ?
+                                    <SetTypeSelect
+                                        value={set.setType}
+                                        onChange={(setType) => onUpdateSetDetails(exerciseId, set.id, { setType })}
+                                    /> :
+                                    <span className="font-medium text-primary">
+                                        {SET_TYPE_LABELS[set.setType ?? "working"]}
+                                    </span>}
+                                </td>
+                                <td className="py-3 px-2">
+                                    {canEditDetails ?
+                                    <Input
+                                        type="number"
+                                        min="1"
+                                        max="10"
+                                        step="0.5"
+                                        className="w-20 h-10"
+                                        value={set.rpe ?? ""}
+                                        onChange={(e) => onUpdateSetDetails(exerciseId, set.id, { rpe: e.target.value })}
+                                        placeholder="-"
+                                    /> :
+                                    <span className="font-medium text-primary">
+                                        {set.rpe ?? "-"}
+                                    </span>}
+                                </td>
+                                <td className="py-3 px-2">
+                                    {canEditDetails ?
+                                    <Input
+                                        type="number"
+                                        min="0"
+                                        className="w-20 h-10"
+                                        value={set.rir ?? ""}
+                                        onChange={(e) => onUpdateSetDetails(exerciseId, set.id, { rir: e.target.value })}
+                                        placeholder="-"
+                                    /> :
+                                    <span className="font-medium text-primary">
+                                        {set.rir ?? "-"}
+                                    </span>}
+                                </td>
+                                <td className="py-3 px-2">
+                                    {canEditDetails ?
+                                    <TempoAdherenceToggle
+                                        value={set.tempoAdhered}
+                                        onChange={(tempoAdhered) => onUpdateSetDetails(exerciseId, set.id, { tempoAdhered })}
+                                    /> :
+                                    <span className="font-medium text-primary">
+                                        <TempoAdherenceIcon value={set.tempoAdhered} />
+                                    </span>}
+                                </td>
+                                <td className="py-3 px-2">
+                                    {set.restSeconds != null &&
+                                    <span className={`font-medium ${restFit === "within" ? "text-green-600" : restFit ? "text-amber-600" : "text-primary"}`} title={restFit === "short" ? "Shorter than prescribed" : restFit === "long" ? "Longer than prescribed" : undefined}>
+                                        {formatRestDuration(set.restSeconds)}
+                                    </span>}
+                                </td>
                                 <td className={`py-3 px-2 ${set.notes && set.notes !== "" ? "min-w-64" : "w-auto"}`}>
                                     {exerciseId && isEditable && maxReps && onUpdateSetValue ? <Input
                                         type="text"
@@ -397,7 +573,7 @@ const EntryTable = ({
                                 {exercise.length + 1}
                             </span>
                         </td>        
-                        <td className="col-span-3" colSpan={3}>
+                        <td className="col-span-3" colSpan={previousPerformance ? 9 : 8}>
                             <Button
                                 variant="default"
                                 size="lg"
@@ -475,10 +651,11 @@ function getDayWithOrdinal(day: number): string {
     return day + (s[(v - 20) % 10] || s[v] || s[0]);
 }
 
-const ReplaceExerciseSheet = ({onReplaceExercise, allExercises, currentExercise}: {
+const ReplaceExerciseSheet = ({onReplaceExercise, allExercises, currentExercise, clientId}: {
         onReplaceExercise: (exerciseId: string, exercise: Exercise) => void;
         allExercises: SelectExercise[];
-        currentExercise: Exercise
+        currentExercise: Exercise;
+        clientId?: string;
 }) => {
     const [selectedExercise, setSelectedExercise] = useState<SelectExercise>();
     return (
@@ -495,7 +672,7 @@ const ReplaceExerciseSheet = ({onReplaceExercise, allExercises, currentExercise}
                     </Button>
                 </div>
             </SheetTrigger>
-            <SheetContent side="right" className="w-full">
+            <SheetContent side="right" className="w-full overflow-y-auto">
                 <SheetHeader>
                 <SheetTitle>Replace Exercise</SheetTitle>
                 <SheetDescription>
@@ -517,6 +694,17 @@ const ReplaceExerciseSheet = ({onReplaceExercise, allExercises, currentExercise}
                             <label htmlFor="name" className="text-right">Current Exercise</label>
                             <Input value={currentExercise.name} disabled/>                  
                         </div>
+                        <div className="py-2 w-full flex flex-col items-start gap-2">
+                            <label className="text-right">Suggested Substitutes</label>
+                            <div className="w-full">
+                                <ExerciseSubstitutesPanel
+                                    exerciseId={currentExercise.exerciseId}
+                                    clientId={clientId}
+                                    selectedId={selectedExercise?.exerciseId}
+                                    onSelect={setSelectedExercise}
+                                />
+                            </div>
+                        </div>
                         <div className="py-2 w-full flex flex-col items-start gap-2">
                             <label htmlFor="name" className="text-right">New Exercise</label>
                             <ExerciseDropdown
@@ -538,12 +726,20 @@ const ReplaceExerciseSheet = ({onReplaceExercise, allExercises, currentExercise}
                         onReplaceExercise(currentExercise.id || "", {
                             customizations: "",
                             id: selectedExercise?.exerciseId,
+                            exerciseId: selectedExercise?.exerciseId,
                             isExpanded: true,
                             name: selectedExercise?.exerciseName,
+                            videoUrl: selectedExercise.videoUrl ?? undefined,
+                            imageUrl: selectedExercise.imageUrl ?? undefined,
+                            thumbnailUrl: selectedExercise.thumbnailUrl ?? undefined,
                             notes: "",
                             order: currentExercise.order,
                             repRange: '8-10',
+                            repsMin: 8,
+                            repsMax: 10,
                             restTime: '45-60s',
+                            restMin: 45,
+                            restMax: 60,
                             setOrderMarker: currentExercise.setOrderMarker,
                             setRange: "3",
                             sets: [],
@@ -0,0 +1,323 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import { Exercise, ExerciseSet } from "@/types/workout-tracker-types";
+import { ExerciseGroupType } from "@/types/workout-plan-types";
+import { EXERCISE_GROUP_LABELS } from "@/components/workout-planning/workout-utils/exercise-groups";
+import { SetTypeSelect, TempoAdherenceToggle } from "./set-effort-fields";
+
+interface ExerciseGroupCardProps {
+    letter: string;
+    type: ExerciseGroupType;
+    exercises: Exercise[];
+    onUpdateSetValue: (
+        exerciseId: string,
+        setId: string,
+        field: "reps" | "weight" | "notes",
+        value: string
+    ) => void;
+    onUpdateSetDetails: (
+        exerciseId: string,
+        setId: string,
+        changes: Partial<ExerciseSet>
+    ) => void;
+    onAddSet: (exerciseId: string) => void;
+    onDeleteSet: (exerciseId: string, setId: string) => void;
+}
+
+/**
+ * Records a superset, giant set or circuit round by round, alternating
+ * between the grouped exercises one set at a time
+ */
+function UnMemoizedExerciseGroupCard({
+    letter,
+    type,
+    exercises,
+    onUpdateSetValue,
+    onUpdateSetDetails,
+    onAddSet,
+    onDeleteSet,
+}: ExerciseGroupCardProps) {
+    const roundCount = Math.max(
+        0,
+        ...exercises.map((exercise) => exercise.sets.length)
+    );
+    const rounds = Array.from({ length: roundCount }, (_, round) =>
+        exercises.flatMap((exercise) =>
+            exercise.sets[round] ? [{ exercise, set: exercise.sets[round] }] : []
+        )
+    );
+
+    // The first set without reps and weight, going round by round
+    const nextSetId = rounds
+        .flat()
+        .find(({ set }) => !(set.reps && set.weight))?.set.id;
+    const currentRound = nextSetId
+        ? rounds.findIndex((entries) =>
+              entries.some(({ set }) => set.id === nextSetId)
+          ) + 1
+        : roundCount;
+
+    const groupRest = exercises[0]?.groupRest;
+    const restLabel =
+        groupRest !== undefined && groupRest !== null
+            ? `${groupRest}s`
+            : exercises[exercises.length - 1]?.restTime;
+
+    return (
+        <div className="w-full mb-2 bg-card rounded-lg overflow-hidden shadow-md border border-border border-l-4 border-l-primary">
+            {/* Group Header */}
+            <div className="flex items-center justify-between p-4">
+                <div className="flex items-center gap-3">
+                    <span className="text-lg font-bold text-primary">
+                        {letter}
+                    </span>
+                    <div>
+                        <h3 className="text-lg font-semibold">
+                            {EXERCISE_GROUP_LABELS[type]}
+                        </h3>
+                        <div className="text-sm text-muted-foreground">
+                            {exercises
+                                .map(
+                                    (exercise) =>
+                                        `${exercise.setOrderMarker ?? exercise.order} ${exercise.name}`
+                                )
+                                .join(" → ")}
+                        </div>
+                    </div>
+                </div>
+                <div className="text-right text-sm text-muted-foreground">
+                    <div className="font-medium text-foreground">
+                        Round {currentRound} of {roundCount}
+                    </div>
+                    {restLabel && <div>Rest {restLabel} after each round</div>}
+                </div>
+            </div>
+
+            {/* Round-by-round set table */}
+            <div className="p-4 border-t border-border overflow-x-auto">
+                <table className="w-full">
+                    <thead>
+                        <tr className="border-b border-border">
+                            <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                                ROUND
+                            </th>
+                            <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                                EXERCISE
+                            </th>
+                            <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                                REPS
+                            </th>
+                            <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground min-w-28">
+                                WEIGHT (KG)
+                            </th>
+                            <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                                TYPE
+                            </th>
+                            <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                                RPE
+                            </th>
+                            <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                                RIR
+                            </th>
+                            <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                                TEMPO
+                            </th>
+                            <th className="text-left py-3 px-2 text-sm font-semibold text-muted-foreground">
+                                NOTES
+                            </th>
+                            <th className="text-right py-3 px-2 text-sm font-semibold text-muted-foreground">
+                                ACTION
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rounds.map((entries, round) =>
+                            entries.map(({ exercise, set }, index) => (
+                                <tr
+                                    key={set.id}
+                                    className={`border-b border-border transition-colors ${
+                                        set.id === nextSetId
+                                            ? "bg-primary/10"
+                                            : "hover:bg-muted/30"
+                                    } ${
+                                        index === entries.length - 1
+                                            ? "border-b-2"
+                                            : ""
+                                    }`}
+                                >
+                                    <td className="py-3 px-2">
+                                        {index === 0 && (
+                                            <span className="font-medium text-primary">
+                                                {round + 1}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="py-3 px-2 text-sm">
+                                        <span className="font-medium text-primary mr-2">
+                                            {exercise.setOrderMarker ??
+                                                exercise.order}
+                                        </span>
+                                        {exercise.name}
+                                        <div className="text-xs text-muted-foreground">
+                                            {exercise.repRange} reps ·{" "}
+                                            {exercise.tempo}
+                                        </div>
+                                    </td>
+                                    <td className="py-3 px-2">
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            className="w-20 h-10"
+                                            value={set.reps || ""}
+                                            onChange={(e) =>
+                                                onUpdateSetValue(
+                                                    exercise.id,
+                                                    set.id,
+                                                    "reps",
+                                                    e.target.value
+                                                )
+                                            }
+                                            placeholder="0"
+                                        />
+                                    </td>
+                                    <td className="py-3 px-2">
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            step="0.5"
+                                            className="w-24 h-10"
+                                            value={set.weight || ""}
+                                            onChange={(e) =>
+                                                onUpdateSetValue(
+                                                    exercise.id,
+                                                    set.id,
+                                                    "weight",
+                                                    e.target.value
+                                                )
+                                            }
+                                            placeholder="0"
+                                        />
+                                    </td>
+                                    <td className="py-3 px-2">
+                                        <SetTypeSelect
+                                            value={set.setType}
+                                            onChange={(setType) =>
+                                                onUpdateSetDetails(
+                                                    exercise.id,
+                                                    set.id,
+                                                    { setType }
+                                                )
+                                            }
+                                        />
+                                    </td>
+                                    <td className="py-3 px-2">
+                                        <Input
+                                            type="number"
+                                            min="1"
+                                            max="10"
+                                            step="0.5"
+                                            className="w-20 h-10"
+                                            value={set.rpe ?? ""}
+                                            onChange={(e) =>
+                                                onUpdateSetDetails(
+                                                    exercise.id,
+                                                    set.id,
+                                                    { rpe: e.target.value }
+                                                )
+                                            }
+                                            placeholder="-"
+                                        />
+                                    </td>
+                                    <td className="py-3 px-2">
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            className="w-20 h-10"
+                                            value={set.rir ?? ""}
+                                            onChange={(e) =>
+                                                onUpdateSetDetails(
+                                                    exercise.id,
+                                                    set.id,
+                                                    { rir: e.target.value }
+                                                )
+                                            }
+                                            placeholder="-"
+                                        />
+                                    </td>
+                                    <td className="py-3 px-2">
+                                        <TempoAdherenceToggle
+                                            value={set.tempoAdhered}
+                                            onChange={(tempoAdhered) =>
+                                                onUpdateSetDetails(
+                                                    exercise.id,
+                                                    set.id,
+                                                    { tempoAdhered }
+                                                )
+                                            }
+                                        />
+                                    </td>
+                                    <td className="py-3 px-2">
+                                        <Input
+                                            type="text"
+                                            className="w-48 h-10"
+                                            value={set.notes || ""}
+                                            onChange={(e) =>
+                                                onUpdateSetValue(
+                                                    exercise.id,
+                                                    set.id,
+                                                    "notes",
+                                                    e.target.value
+                                                )
+                                            }
+                                            placeholder="Notes..."
+                                        />
+                                    </td>
+                                    <td className="py-3 px-2 text-right">
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="text-destructive hover:text-destructive hover:bg-destructive/10 cursor-pointer h-10 w-10 p-0"
+                                            onClick={() =>
+                                                onDeleteSet(exercise.id, set.id)
+                                            }
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                        <tr>
+                            <td className="py-3 px-2">
+                                <span className="font-medium text-primary">
+                                    {roundCount + 1}
+                                </span>
+                            </td>
+                            <td colSpan={9} className="py-3 px-2">
+                                <Button
+                                    variant="default"
+                                    size="lg"
+                                    onClick={() =>
+                                        exercises.forEach((exercise) =>
+                                            onAddSet(exercise.id)
+                                        )
+                                    }
+                                    className="cursor-pointer h-10 px-4"
+                                >
+                                    <Plus className="h-5 w-5 mr-2" />
+                                    Add Round
+                                </Button>
+                            </td>
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
+export const ExerciseGroupCard = React.memo(UnMemoizedExerciseGroupCard);
@@ -0,0 +1,64 @@
+"use client";
+
+import React from "react";
+import { toast } from "sonner";
+import { Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+    BrokenPersonalRecord,
+    PERSONAL_RECORD_LABELS,
+    formatRecordValue,
+} from "@/lib/strength-metrics";
+
+/**
+ * One toast per exercise, with a PR badge for each record its sets broke
+ */
+export function showPersonalRecordToasts(records: BrokenPersonalRecord[]) {
+    const byExercise = new Map<string, BrokenPersonalRecord[]>();
+    records.forEach((record) => {
+        const key = record.exerciseId;
+        byExercise.set(key, [...(byExercise.get(key) ?? []), record]);
+    });
+
+    byExercise.forEach((exerciseRecords) => {
+        toast.success(
+            `New PR${exerciseRecords.length > 1 ? "s" : ""}: ${
+                exerciseRecords[0].exerciseName
+            }`,
+            {
+                icon: <Trophy className="h-4 w-4 text-amber-500" />,
+                description: (
+                    <div className="mt-1 flex flex-col gap-1">
+                        {exerciseRecords.map((record) => (
+                            <div
+                                key={`${record.recordType}:${record.atWeight}`}
+                                className="flex items-center gap-2"
+                            >
+                                <Badge className="bg-amber-500 text-white">
+                                    PR
+                                </Badge>
+                                <span>
+                                    {PERSONAL_RECORD_LABELS[record.recordType]}:{" "}
+                                    {formatRecordValue(
+                                        record.recordType,
+                                        record.value,
+                                        record.atWeight
+                                    )}
+                                </span>
+                                <span className="text-muted-foreground">
+                                    (was{" "}
+                                    {formatRecordValue(
+                                        record.recordType,
+                                        record.previousValue,
+                                        record.atWeight
+                                    )}
+                                    )
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                ),
+            }
+        );
+    });
+}
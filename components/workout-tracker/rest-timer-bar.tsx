@@ -0,0 +1,125 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Timer, X } from "lucide-react";
+import { ActiveRest } from "@/hooks/use-rest-timer";
+
+export function formatRestDuration(seconds: number) {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+/**
+ * Where a rest falls against the prescribed range, for colouring it
+ */
+export function restAgainstRange(
+    seconds: number,
+    minSeconds?: number,
+    maxSeconds?: number
+): "short" | "within" | "long" | null {
+    if (!maxSeconds) return null;
+    if (seconds < (minSeconds ?? 0)) return "short";
+    if (seconds > maxSeconds) return "long";
+    return "within";
+}
+
+interface RestTimerBarProps {
+    rest: ActiveRest | null;
+    elapsed: number;
+    onStop: () => void;
+}
+
+/**
+ * Floating countdown for the rest after a completed set, with the
+ * prescribed minimum and maximum marked on its progress bar
+ */
+export function RestTimerBar({ rest, elapsed, onStop }: RestTimerBarProps) {
+    if (!rest) return null;
+
+    const { minSeconds, maxSeconds } = rest;
+    const hasRange = maxSeconds > 0;
+    const isOver = hasRange && elapsed >= maxSeconds;
+    const isReady = elapsed >= minSeconds;
+
+    const status = !hasRange
+        ? "Resting"
+        : isOver
+        ? "Rest over"
+        : isReady
+        ? "Ready when you are"
+        : "Resting";
+    const display = !hasRange
+        ? formatRestDuration(elapsed)
+        : isOver
+        ? `+${formatRestDuration(elapsed - maxSeconds)}`
+        : formatRestDuration(maxSeconds - elapsed);
+
+    return (
+        <div className="fixed bottom-8 left-4 z-40 w-72 rounded-lg border border-border bg-card p-4 shadow-lg">
+            <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Timer className="h-3 w-3" />
+                        <span className="truncate">
+                            Rest after {rest.exerciseName}
+                        </span>
+                    </div>
+                    <div
+                        className={`text-3xl font-bold tabular-nums ${
+                            isOver
+                                ? "text-destructive"
+                                : isReady && hasRange
+                                ? "text-green-600"
+                                : "text-foreground"
+                        }`}
+                    >
+                        {display}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                        {status}
+                    </div>
+                </div>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 cursor-pointer"
+                    onClick={onStop}
+                    title="End rest"
+                >
+                    <X className="h-4 w-4" />
+                </Button>
+            </div>
+
+            {hasRange && (
+                <div className="mt-3">
+                    <div className="relative h-2 rounded-full bg-muted">
+                        <div
+                            className={`h-2 rounded-full transition-all ${
+                                isOver ? "bg-destructive" : "bg-primary"
+                            }`}
+                            style={{
+                                width: `${Math.min(
+                                    100,
+                                    (elapsed / maxSeconds) * 100
+                                )}%`,
+                            }}
+                        />
+                        {minSeconds > 0 && minSeconds < maxSeconds && (
+                            <div
+                                className="absolute -top-1 h-4 w-0.5 bg-foreground"
+                                style={{
+                                    left: `${(minSeconds / maxSeconds) * 100}%`,
+                                }}
+                            />
+                        )}
+                    </div>
+                    <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+                        <span>Min {formatRestDuration(minSeconds)}</span>
+                        <span>Max {formatRestDuration(maxSeconds)}</span>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
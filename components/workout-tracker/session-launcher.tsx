@@ -0,0 +1,127 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronRight } from "lucide-react";
+import { LaunchableSession } from "@/types/workout-plan-types";
+
+interface SessionLauncherProps {
+    clientId: string;
+    sessions: LaunchableSession[];
+    scheduledToday?: string[]; // Session IDs planned for today on the client's calendar
+}
+
+/**
+ * Lists the sessions of every active plan so a workout can be
+ * started from any of them, grouped by plan and phase
+ */
+export function SessionLauncher({
+    clientId,
+    sessions,
+    scheduledToday = [],
+}: SessionLauncherProps) {
+    const plans = new Map<
+        string,
+        {
+            planName: string;
+            phases: Map<
+                string,
+                {
+                    phaseName: string;
+                    isActive: boolean;
+                    sessions: LaunchableSession[];
+                }
+            >;
+        }
+    >();
+
+    for (const session of sessions) {
+        let plan = plans.get(session.planId);
+        if (!plan) {
+            plan = { planName: session.planName, phases: new Map() };
+            plans.set(session.planId, plan);
+        }
+        let phase = plan.phases.get(session.phaseId);
+        if (!phase) {
+            phase = {
+                phaseName: session.phaseName,
+                isActive: session.phaseIsActive,
+                sessions: [],
+            };
+            plan.phases.set(session.phaseId, phase);
+        }
+        phase.sessions.push(session);
+    }
+
+    return (
+        <div className="min-h-screen bg-background text-foreground p-4 sm:p-8">
+            <div className="mx-auto max-w-2xl space-y-4">
+                <h1 className="text-xl font-bold">Start a Workout</h1>
+                {plans.size === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        This client has no active plans with sessions.
+                    </p>
+                ) : (
+                    Array.from(plans.entries()).map(([planId, plan]) => (
+                        <Card key={planId}>
+                            <CardHeader>
+                                <CardTitle>{plan.planName}</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                {Array.from(plan.phases.entries()).map(
+                                    ([phaseId, phase]) => (
+                                        <div key={phaseId} className="space-y-1">
+                                            <div className="flex items-center gap-2 text-sm font-medium">
+                                                {phase.phaseName}
+                                                {phase.isActive && (
+                                                    <Badge variant="secondary">
+                                                        Active
+                                                    </Badge>
+                                                )}
+                                            </div>
+                                            {phase.sessions.map((session) => (
+                                                <Link
+                                                    key={session.sessionId}
+                                                    href={`/record-workout?${new URLSearchParams(
+                                                        {
+                                                            clientId,
+                                                            phaseId,
+                                                            sessionId:
+                                                                session.sessionId,
+                                                        }
+                                                    ).toString()}`}
+                                                    className="flex items-center justify-between rounded-md border px-3 py-2 text-sm hover:bg-muted"
+                                                >
+                                                    <span>
+                                                        {session.sessionName}
+                                                        {scheduledToday.includes(
+                                                            session.sessionId
+                                                        ) && (
+                                                            <Badge className="ml-2">
+                                                                Today
+                                                            </Badge>
+                                                        )}
+                                                        <span className="ml-2 text-xs text-muted-foreground">
+                                                            {
+                                                                session.exerciseCount
+                                                            }{" "}
+                                                            exercise
+                                                            {session.exerciseCount ===
+                                                            1
+                                                                ? ""
+                                                                : "s"}
+                                                        </span>
+                                                    </span>
+                                                    <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                                                </Link>
+                                            ))}
+                                        </div>
+                                    )
+                                )}
+                            </CardContent>
+                        </Card>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Check, Minus, X } from "lucide-react";
+import { SetType } from "@/db/schemas";
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+    "warm-up": "Warm-up",
+    working: "Working",
+    drop: "Drop",
+    failure: "Failure",
+};
+
+export function SetTypeSelect({
+    value,
+    onChange,
+}: {
+    value?: SetType;
+    onChange: (setType: SetType) => void;
+}) {
+    return (
+        <Select
+            value={value ?? "working"}
+            onValueChange={(next) => onChange(next as SetType)}
+        >
+            <SelectTrigger className="h-10 w-28">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                {Object.entries(SET_TYPE_LABELS).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>
+                        {label}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
+
+/**
+ * Three-way toggle for whether the prescribed tempo was kept: not checked,
+ * kept, or missed
+ */
+export function TempoAdherenceToggle({
+    value,
+    onChange,
+}: {
+    value?: boolean | null;
+    onChange: (tempoAdhered: boolean | null) => void;
+}) {
+    const next = value == null ? true : value ? false : null;
+    return (
+        <Button
+            variant="outline"
+            size="sm"
+            className={`cursor-pointer h-10 w-10 p-0 ${
+                value === true
+                    ? "text-green-600"
+                    : value === false
+                    ? "text-destructive"
+                    : "text-muted-foreground"
+            }`}
+            onClick={() => onChange(next)}
+            title={
+                value == null
+                    ? "Tempo not checked"
+                    : value
+                    ? "Tempo kept"
+                    : "Tempo missed"
+            }
+        >
+            <TempoAdherenceIcon value={value} />
+        </Button>
+    );
+}
+
+export function TempoAdherenceIcon({ value }: { value?: boolean | null }) {
+    if (value == null) return <Minus className="h-4 w-4" />;
+    return value ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />;
+}
+
+/**
+ * One-line read-only summary of a logged set's effort, e.g.
+ * "Warm-up · RPE 8 · RIR 2 · Tempo kept"
+ */
+export function describeSetEffort({
+    setType,
+    rpe,
+    rir,
+    tempoAdhered,
+}: {
+    setType?: SetType | null;
+    rpe?: number | null;
+    rir?: number | null;
+    tempoAdhered?: boolean | null;
+}) {
+    return [
+        setType && setType !== "working" ? SET_TYPE_LABELS[setType] : null,
+        rpe != null ? `RPE ${rpe}` : null,
+        rir != null ? `RIR ${rir}` : null,
+        tempoAdhered != null
+            ? tempoAdhered
+                ? "Tempo kept"
+                : "Tempo missed"
+            : null,
+    ]
+        .filter(Boolean)
+        .join(" · ");
+}
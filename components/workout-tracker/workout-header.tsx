@@ -18,7 +18,7 @@ interface WorkoutHeaderProps {
     timer: string;
     showPastWorkouts: boolean;
     pastSessionsCount: number;
-    saveStatus: "idle" | "saving" | "saved" | "error";
+    saveStatus: "idle" | "saving" | "saved" | "error" | "offline";
     pendingOperations: number;
     onExit: () => void;
     onTogglePastWorkouts: () => void;
@@ -41,6 +41,11 @@ export function WorkoutHeader({
 }: WorkoutHeaderProps) {
     // const [selectedExercise, setSelectedExercise] = useState<SelectExercise>();
     const getStatusMessage = () => {
+        if (saveStatus === "offline") {
+            return pendingOperations > 0
+                ? `Offline - ${pendingOperations} changes saved on this device`
+                : "Offline";
+        }
         if (pendingOperations > 0) {
             return `* ${pendingOperations} unsaved changes`;
         }
@@ -57,6 +62,7 @@ export function WorkoutHeader({
     };
 
     const getStatusColor = () => {
+        if (saveStatus === "offline") return "text-orange-500";
         if (pendingOperations > 0) return "text-yellow-500";
         switch (saveStatus) {
             case "saving":
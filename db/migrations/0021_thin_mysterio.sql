@@ -0,0 +1,3 @@
+ALTER TABLE "ExercisePlans" ADD COLUMN "is_template" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "ExercisePlans" ADD COLUMN "description" text;--> statement-breakpoint
+CREATE INDEX "idx_plans_template" ON "ExercisePlans" USING btree ("is_template");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "WorkoutPlanVersions" (
+	"version_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"plan_id" uuid NOT NULL,
+	"version_number" integer NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"changes" jsonb,
+	"note" text,
+	"created_by_user_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "uq_plan_version" UNIQUE("plan_id","version_number")
+);
+--> statement-breakpoint
+ALTER TABLE "WorkoutPlanVersions" ADD CONSTRAINT "WorkoutPlanVersions_plan_id_ExercisePlans_plan_id_fk" FOREIGN KEY ("plan_id") REFERENCES "public"."ExercisePlans"("plan_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "WorkoutPlanVersions" ADD CONSTRAINT "WorkoutPlanVersions_created_by_user_id_Users_user_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."Users"("user_id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_plan_versions_plan" ON "WorkoutPlanVersions" USING btree ("plan_id","version_number" DESC NULLS LAST);
\ No newline at end of file
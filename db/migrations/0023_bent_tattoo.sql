@@ -0,0 +1 @@
+ALTER TABLE "WorkoutPlanVersions" ADD COLUMN "plan_updated_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "TrainerProgressionRules" (
+	"trainer_id" text PRIMARY KEY NOT NULL,
+	"rules" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "TrainerProgressionRules" ADD CONSTRAINT "TrainerProgressionRules_trainer_id_Users_user_id_fk" FOREIGN KEY ("trainer_id") REFERENCES "public"."Users"("user_id") ON DELETE cascade ON UPDATE cascade;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "PhaseSchedules" (
+	"phase_id" uuid PRIMARY KEY NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ScheduledSessions" (
+	"scheduled_session_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"scheduled_date" date,
+	"replaces_date" date,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "SessionWeekdays" (
+	"session_id" uuid PRIMARY KEY NOT NULL,
+	"weekdays" integer[] NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "PhaseSchedules" ADD CONSTRAINT "PhaseSchedules_phase_id_Phases_phase_id_fk" FOREIGN KEY ("phase_id") REFERENCES "public"."Phases"("phase_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ScheduledSessions" ADD CONSTRAINT "ScheduledSessions_session_id_Sessions_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."Sessions"("session_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "SessionWeekdays" ADD CONSTRAINT "SessionWeekdays_session_id_Sessions_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."Sessions"("session_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_scheduled_session_date" ON "ScheduledSessions" USING btree ("session_id","scheduled_date");
\ No newline at end of file
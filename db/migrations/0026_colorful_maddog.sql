@@ -0,0 +1,11 @@
+CREATE TABLE "CalendarFeedTokens" (
+	"token" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"feed_type" text NOT NULL,
+	"created_by_user_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "CalendarFeedTokens" ADD CONSTRAINT "CalendarFeedTokens_user_id_Users_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."Users"("user_id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "CalendarFeedTokens" ADD CONSTRAINT "CalendarFeedTokens_created_by_user_id_Users_user_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."Users"("user_id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_calendar_feed_user_type" ON "CalendarFeedTokens" USING btree ("user_id","feed_type");
\ No newline at end of file
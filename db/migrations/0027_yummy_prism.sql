@@ -0,0 +1,3 @@
+ALTER TABLE "ExercisePlanExercises" ADD COLUMN "group_type" text;--> statement-breakpoint
+ALTER TABLE "ExercisePlanExercises" ADD COLUMN "group_rounds" integer;--> statement-breakpoint
+ALTER TABLE "ExercisePlanExercises" ADD COLUMN "group_rest" integer;
\ No newline at end of file
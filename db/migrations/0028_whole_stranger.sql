@@ -0,0 +1,11 @@
+CREATE TABLE "ExerciseImportMappings" (
+	"mapping_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"trainer_id" text NOT NULL,
+	"source_name" text NOT NULL,
+	"exercise_id" uuid NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ExerciseImportMappings" ADD CONSTRAINT "ExerciseImportMappings_trainer_id_Users_user_id_fk" FOREIGN KEY ("trainer_id") REFERENCES "public"."Users"("user_id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "ExerciseImportMappings" ADD CONSTRAINT "ExerciseImportMappings_exercise_id_Exercises_exercise_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."Exercises"("exercise_id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_exercise_import_mapping" ON "ExerciseImportMappings" USING btree ("trainer_id","source_name");
\ No newline at end of file
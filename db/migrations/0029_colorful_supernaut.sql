@@ -0,0 +1,10 @@
+CREATE TABLE "ExerciseAliases" (
+	"alias_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"exercise_id" uuid NOT NULL,
+	"alias" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ExerciseAliases" ADD CONSTRAINT "ExerciseAliases_exercise_id_Exercises_exercise_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."Exercises"("exercise_id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_exercise_aliases_exercise" ON "ExerciseAliases" USING btree ("exercise_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_exercise_alias" ON "ExerciseAliases" USING btree (lower("alias"));
\ No newline at end of file
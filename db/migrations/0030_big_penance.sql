@@ -0,0 +1,3 @@
+ALTER TABLE "WorkoutSessionDetails" ADD COLUMN "exercise_id" uuid;--> statement-breakpoint
+ALTER TABLE "WorkoutSessionDetails" ADD CONSTRAINT "WorkoutSessionDetails_exercise_id_Exercises_exercise_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."Exercises"("exercise_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_details_exerciseid" ON "WorkoutSessionDetails" USING btree ("exercise_id");
\ No newline at end of file
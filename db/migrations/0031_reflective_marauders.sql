@@ -0,0 +1,18 @@
+CREATE TYPE "public"."exercise_review_status_enum" AS ENUM('pending', 'approved', 'rejected', 'changes-requested');--> statement-breakpoint
+CREATE TABLE "ExerciseReviews" (
+	"review_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"exercise_id" uuid NOT NULL,
+	"changed_by_user_id" text,
+	"from_status" "exercise_review_status_enum",
+	"to_status" "exercise_review_status_enum" NOT NULL,
+	"comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "Exercises" ADD COLUMN "review_status" "exercise_review_status_enum" DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "Exercises" ADD COLUMN "review_comment" text;--> statement-breakpoint
+ALTER TABLE "ExerciseReviews" ADD CONSTRAINT "ExerciseReviews_exercise_id_Exercises_exercise_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."Exercises"("exercise_id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "ExerciseReviews" ADD CONSTRAINT "ExerciseReviews_changed_by_user_id_Users_user_id_fk" FOREIGN KEY ("changed_by_user_id") REFERENCES "public"."Users"("user_id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_exercise_reviews_exercise" ON "ExerciseReviews" USING btree ("exercise_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_exercises_review_status" ON "Exercises" USING btree ("review_status");--> statement-breakpoint
+UPDATE "Exercises" SET "review_status" = 'approved' WHERE "approved_by_admin" = true;
\ No newline at end of file
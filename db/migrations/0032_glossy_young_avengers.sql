@@ -0,0 +1,2 @@
+ALTER TABLE "Exercises" ADD COLUMN "image_url" text;--> statement-breakpoint
+ALTER TABLE "Exercises" ADD COLUMN "thumbnail_url" text;
\ No newline at end of file
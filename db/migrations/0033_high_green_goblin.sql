@@ -0,0 +1,67 @@
+CREATE TYPE "public"."difficulty_level_enum" AS ENUM('beginner', 'intermediate', 'advanced');--> statement-breakpoint
+CREATE TYPE "public"."movement_pattern_enum" AS ENUM('squat', 'hinge', 'lunge', 'horizontal-push', 'vertical-push', 'horizontal-pull', 'vertical-pull', 'carry', 'rotation', 'anti-rotation', 'single-joint', 'conditioning');--> statement-breakpoint
+CREATE TYPE "public"."muscle_role_enum" AS ENUM('primary', 'secondary');--> statement-breakpoint
+CREATE TABLE "Equipment" (
+	"equipment_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"name" text NOT NULL,
+	CONSTRAINT "Equipment_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "ExerciseEquipment" (
+	"exercise_equipment_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"exercise_id" uuid NOT NULL,
+	"equipment_id" uuid NOT NULL,
+	CONSTRAINT "uq_exercise_equipment" UNIQUE("exercise_id","equipment_id")
+);
+--> statement-breakpoint
+CREATE TABLE "ExerciseMuscleGroups" (
+	"exercise_muscle_group_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"exercise_id" uuid NOT NULL,
+	"muscle_group_id" uuid NOT NULL,
+	"role" "muscle_role_enum" NOT NULL,
+	CONSTRAINT "uq_exercise_muscle_group" UNIQUE("exercise_id","muscle_group_id")
+);
+--> statement-breakpoint
+CREATE TABLE "MuscleGroups" (
+	"muscle_group_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"name" text NOT NULL,
+	"region" text NOT NULL,
+	CONSTRAINT "MuscleGroups_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "Exercises" ADD COLUMN "difficulty" "difficulty_level_enum";--> statement-breakpoint
+ALTER TABLE "Exercises" ADD COLUMN "movement_pattern" "movement_pattern_enum";--> statement-breakpoint
+ALTER TABLE "ExerciseEquipment" ADD CONSTRAINT "ExerciseEquipment_exercise_id_Exercises_exercise_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."Exercises"("exercise_id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "ExerciseEquipment" ADD CONSTRAINT "ExerciseEquipment_equipment_id_Equipment_equipment_id_fk" FOREIGN KEY ("equipment_id") REFERENCES "public"."Equipment"("equipment_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ExerciseMuscleGroups" ADD CONSTRAINT "ExerciseMuscleGroups_exercise_id_Exercises_exercise_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."Exercises"("exercise_id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "ExerciseMuscleGroups" ADD CONSTRAINT "ExerciseMuscleGroups_muscle_group_id_MuscleGroups_muscle_group_id_fk" FOREIGN KEY ("muscle_group_id") REFERENCES "public"."MuscleGroups"("muscle_group_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_exercise_equipment_equipment" ON "ExerciseEquipment" USING btree ("equipment_id");--> statement-breakpoint
+CREATE INDEX "idx_exercise_muscle_groups_muscle" ON "ExerciseMuscleGroups" USING btree ("muscle_group_id","role");--> statement-breakpoint
+CREATE INDEX "idx_exercises_difficulty" ON "Exercises" USING btree ("difficulty");--> statement-breakpoint
+CREATE INDEX "idx_exercises_movement_pattern" ON "Exercises" USING btree ("movement_pattern");--> statement-breakpoint
+INSERT INTO "Equipment" ("name") VALUES
+	('Barbell'), ('Dumbbell'), ('Kettlebell'), ('Cable'), ('Machine'), ('Smith Machine'),
+	('EZ Bar'), ('Trap Bar'), ('Resistance Band'), ('Bodyweight'), ('Bench'), ('Pull-up Bar'),
+	('Suspension Trainer'), ('Medicine Ball'), ('Stability Ball'), ('Landmine'), ('Sled'), ('Box'), ('Plate')
+ON CONFLICT ("name") DO NOTHING;--> statement-breakpoint
+INSERT INTO "MuscleGroups" ("name", "region") VALUES
+	('Chest', 'Upper Body'), ('Upper Back', 'Upper Body'), ('Lats', 'Upper Body'), ('Traps', 'Upper Body'),
+	('Front Delts', 'Upper Body'), ('Side Delts', 'Upper Body'), ('Rear Delts', 'Upper Body'),
+	('Biceps', 'Upper Body'), ('Triceps', 'Upper Body'), ('Forearms', 'Upper Body'),
+	('Abs', 'Core'), ('Obliques', 'Core'), ('Lower Back', 'Core'),
+	('Glutes', 'Lower Body'), ('Quads', 'Lower Body'), ('Hamstrings', 'Lower Body'), ('Adductors', 'Lower Body'),
+	('Abductors', 'Lower Body'), ('Calves', 'Lower Body'), ('Hip Flexors', 'Lower Body')
+ON CONFLICT ("name") DO NOTHING;--> statement-breakpoint
+-- Seed primary muscles from the free-text target area where it names a muscle group
+INSERT INTO "ExerciseMuscleGroups" ("exercise_id", "muscle_group_id", "role")
+SELECT e."exercise_id", m."muscle_group_id", 'primary'
+FROM "Exercises" e
+JOIN "MuscleGroups" m ON lower(trim(e."targetArea")) IN (lower(m."name"), rtrim(lower(m."name"), 's'))
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+-- Seed equipment from exercise names that mention it
+INSERT INTO "ExerciseEquipment" ("exercise_id", "equipment_id")
+SELECT e."exercise_id", q."equipment_id"
+FROM "Exercises" e
+JOIN "Equipment" q ON e."exercise_name" ~* ('\m' || CASE q."name" WHEN 'Resistance Band' THEN 'band' ELSE lower(q."name") END || 's?\M')
+WHERE q."name" IN ('Barbell', 'Dumbbell', 'Kettlebell', 'Cable', 'Machine', 'Smith Machine', 'EZ Bar', 'Trap Bar', 'Resistance Band', 'Landmine')
+ON CONFLICT DO NOTHING;
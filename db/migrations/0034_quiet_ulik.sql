@@ -0,0 +1,18 @@
+CREATE TABLE "ClientExerciseAvoidances" (
+	"avoidance_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"client_id" text NOT NULL,
+	"exercise_id" uuid,
+	"muscle_group_id" uuid,
+	"equipment_id" uuid,
+	"reason" text,
+	"created_by_user_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "chk_client_avoidance_target" CHECK (num_nonnulls("ClientExerciseAvoidances"."exercise_id", "ClientExerciseAvoidances"."muscle_group_id", "ClientExerciseAvoidances"."equipment_id") = 1)
+);
+--> statement-breakpoint
+ALTER TABLE "ClientExerciseAvoidances" ADD CONSTRAINT "ClientExerciseAvoidances_client_id_Users_user_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."Users"("user_id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "ClientExerciseAvoidances" ADD CONSTRAINT "ClientExerciseAvoidances_exercise_id_Exercises_exercise_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."Exercises"("exercise_id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "ClientExerciseAvoidances" ADD CONSTRAINT "ClientExerciseAvoidances_muscle_group_id_MuscleGroups_muscle_group_id_fk" FOREIGN KEY ("muscle_group_id") REFERENCES "public"."MuscleGroups"("muscle_group_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ClientExerciseAvoidances" ADD CONSTRAINT "ClientExerciseAvoidances_equipment_id_Equipment_equipment_id_fk" FOREIGN KEY ("equipment_id") REFERENCES "public"."Equipment"("equipment_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ClientExerciseAvoidances" ADD CONSTRAINT "ClientExerciseAvoidances_created_by_user_id_Users_user_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."Users"("user_id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_client_avoidances_client" ON "ClientExerciseAvoidances" USING btree ("client_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "WorkoutSessionDetails" ADD COLUMN "rest_seconds" integer;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TYPE "public"."set_type_enum" AS ENUM('warm-up', 'working', 'drop', 'failure');--> statement-breakpoint
+ALTER TABLE "WorkoutSessionDetails" ADD COLUMN "set_type" "set_type_enum" DEFAULT 'working' NOT NULL;--> statement-breakpoint
+ALTER TABLE "WorkoutSessionDetails" ADD COLUMN "rpe" real;--> statement-breakpoint
+ALTER TABLE "WorkoutSessionDetails" ADD COLUMN "rir" integer;--> statement-breakpoint
+ALTER TABLE "WorkoutSessionDetails" ADD COLUMN "tempo_adhered" boolean;--> statement-breakpoint
+ALTER TABLE "WorkoutSessionDetails" ADD CONSTRAINT "chk_details_rpe" CHECK ("WorkoutSessionDetails"."rpe" IS NULL OR "WorkoutSessionDetails"."rpe" BETWEEN 1 AND 10);--> statement-breakpoint
+ALTER TABLE "WorkoutSessionDetails" ADD CONSTRAINT "chk_details_rir" CHECK ("WorkoutSessionDetails"."rir" IS NULL OR "WorkoutSessionDetails"."rir" >= 0);
\ No newline at end of file
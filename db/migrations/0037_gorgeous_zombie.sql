@@ -0,0 +1,58 @@
+CREATE TYPE "public"."personal_record_type_enum" AS ENUM('weight', 'reps-at-weight', 'e1rm', 'volume');--> statement-breakpoint
+CREATE TABLE "PersonalRecords" (
+	"record_id" uuid PRIMARY KEY DEFAULT uuid_generate_v4() NOT NULL,
+	"client_id" text NOT NULL,
+	"exercise_id" uuid NOT NULL,
+	"record_type" "personal_record_type_enum" NOT NULL,
+	"at_weight" real,
+	"value" real NOT NULL,
+	"weight" real,
+	"reps" integer,
+	"workout_detail_id" uuid,
+	"achieved_at" timestamp NOT NULL,
+	CONSTRAINT "uq_personal_record" UNIQUE NULLS NOT DISTINCT("client_id","exercise_id","record_type","at_weight")
+);
+--> statement-breakpoint
+ALTER TABLE "WorkoutSessionDetails" ADD COLUMN "estimated_one_rep_max" real;--> statement-breakpoint
+ALTER TABLE "PersonalRecords" ADD CONSTRAINT "PersonalRecords_client_id_Users_user_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."Users"("user_id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "PersonalRecords" ADD CONSTRAINT "PersonalRecords_exercise_id_Exercises_exercise_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."Exercises"("exercise_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "PersonalRecords" ADD CONSTRAINT "PersonalRecords_workout_detail_id_WorkoutSessionDetails_workout_detail_id_fk" FOREIGN KEY ("workout_detail_id") REFERENCES "public"."WorkoutSessionDetails"("workout_detail_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_personal_records_client" ON "PersonalRecords" USING btree ("client_id");--> statement-breakpoint
+-- Backfill estimated one-rep maxes with the default (Epley) formula; with ONE_REP_MAX_FORMULA=brzycki, run `npm run recompute:personal-records` after migrating
+UPDATE "WorkoutSessionDetails"
+SET "estimated_one_rep_max" = CASE WHEN "reps" = 1 THEN "weight" ELSE round(("weight" * (1 + "reps" / 30.0))::numeric, 1) END
+WHERE "reps" > 0 AND "weight" > 0;--> statement-breakpoint
+-- Seed personal records from logged history, leaving out warm-ups; the earliest set wins a tie
+WITH s AS (
+	SELECT l."user_id", d."exercise_id", d."workout_detail_id", d."weight", d."reps", d."estimated_one_rep_max",
+		coalesce(d."entry_time", l."start_time") AS "achieved_at"
+	FROM "WorkoutSessionDetails" d
+	JOIN "WorkoutSessionsLog" l ON l."workout_session_log_id" = d."workout_session_log_id"
+	WHERE d."exercise_id" IS NOT NULL AND d."set_type" <> 'warm-up' AND d."reps" > 0
+)
+INSERT INTO "PersonalRecords" ("client_id", "exercise_id", "record_type", "at_weight", "value", "weight", "reps", "workout_detail_id", "achieved_at")
+(SELECT DISTINCT ON ("user_id", "exercise_id")
+	"user_id", "exercise_id", 'weight'::"personal_record_type_enum", NULL::real, "weight", "weight", "reps", "workout_detail_id", "achieved_at"
+FROM s WHERE "weight" > 0
+ORDER BY "user_id", "exercise_id", "weight" DESC, "achieved_at")
+UNION ALL
+(SELECT "user_id", "exercise_id", 'reps-at-weight'::"personal_record_type_enum", "at_weight", "reps", "weight", "reps", "workout_detail_id", "achieved_at"
+FROM (SELECT DISTINCT ON ("user_id", "exercise_id", coalesce("weight", 0))
+	"user_id", "exercise_id", coalesce("weight", 0) AS "at_weight", "weight", "reps", "workout_detail_id", "achieved_at"
+	FROM s
+	ORDER BY "user_id", "exercise_id", coalesce("weight", 0), "reps" DESC, "achieved_at") r
+-- Only where no heavier weight was lifted for as many reps
+WHERE NOT EXISTS (
+	SELECT 1 FROM s h
+	WHERE h."user_id" = r."user_id" AND h."exercise_id" = r."exercise_id" AND coalesce(h."weight", 0) > r."at_weight" AND h."reps" >= r."reps"
+))
+UNION ALL
+(SELECT DISTINCT ON ("user_id", "exercise_id")
+	"user_id", "exercise_id", 'e1rm'::"personal_record_type_enum", NULL::real, "estimated_one_rep_max", "weight", "reps", "workout_detail_id", "achieved_at"
+FROM s WHERE "weight" > 0
+ORDER BY "user_id", "exercise_id", "estimated_one_rep_max" DESC, "achieved_at")
+UNION ALL
+(SELECT DISTINCT ON ("user_id", "exercise_id")
+	"user_id", "exercise_id", 'volume'::"personal_record_type_enum", NULL::real, "reps" * "weight", "weight", "reps", "workout_detail_id", "achieved_at"
+FROM s WHERE "weight" > 0
+ORDER BY "user_id", "exercise_id", "reps" * "weight" DESC, "achieved_at");
\ No newline at end of file
@@ -4,12 +4,15 @@ import {
     integer, // Keep integer for non-key fields like orderNumber, reps, sets etc.
     boolean,
     timestamp,
+    date,
     real,
     unique,
     uuid,
+    jsonb,
     pgEnum,
     index,
     uniqueIndex, // Import pgEnum
+    check,
 } from "drizzle-orm/pg-core";
 
 export const genderEnum = pgEnum("gender_enum", [
@@ -25,6 +28,53 @@ export const movementTypeEnum = pgEnum("movement_type_enum", [
     "compound",
     "isolation",
 ]);
+
+export const exerciseReviewStatusEnum = pgEnum("exercise_review_status_enum", [
+    "pending",
+    "approved",
+    "rejected",
+    "changes-requested",
+]);
+
+export const difficultyLevelEnum = pgEnum("difficulty_level_enum", [
+    "beginner",
+    "intermediate",
+    "advanced",
+]);
+
+export const movementPatternEnum = pgEnum("movement_pattern_enum", [
+    "squat",
+    "hinge",
+    "lunge",
+    "horizontal-push",
+    "vertical-push",
+    "horizontal-pull",
+    "vertical-pull",
+    "carry",
+    "rotation",
+    "anti-rotation",
+    "single-joint",
+    "conditioning",
+]);
+
+export const muscleRoleEnum = pgEnum("muscle_role_enum", [
+    "primary",
+    "secondary",
+]);
+
+export const setTypeEnum = pgEnum("set_type_enum", [
+    "warm-up",
+    "working",
+    "drop",
+    "failure",
+]);
+
+export const personalRecordTypeEnum = pgEnum("personal_record_type_enum", [
+    "weight", // Heaviest weight lifted
+    "reps-at-weight", // Most reps at a given weight
+    "e1rm", // Highest estimated one-rep max
+    "volume", // Most reps × weight in one set
+]);
 import { relations, sql } from "drizzle-orm"; // Import sql from drizzle-orm
 
 // -- Users Table --
@@ -108,8 +158,16 @@ export const Exercises = pgTable(
                 onUpdate: "cascade",
             }),
         uploadDate: timestamp("upload_date").defaultNow().notNull(),
-        approvedByAdmin: boolean("approved_by_admin"), // Nullable
+        approvedByAdmin: boolean("approved_by_admin"), // Nullable; true only while reviewStatus is "approved"
+        reviewStatus: exerciseReviewStatusEnum("review_status")
+            .default("pending")
+            .notNull(),
+        reviewComment: text("review_comment"), // Latest reviewer comment, shown to the uploader
+        difficulty: difficultyLevelEnum("difficulty"),
+        movementPattern: movementPatternEnum("movement_pattern"),
         videoUrl: text("videoUrl"),
+        imageUrl: text("image_url"),
+        thumbnailUrl: text("thumbnail_url"), // Small preview of the video or image
         motion: text("motion"),
         targetArea: text("targetArea"),
         movementType: movementTypeEnum("movement_type"),
@@ -119,11 +177,215 @@ export const Exercises = pgTable(
         index("idx_exercises_name").on(table.exerciseName),
         index("idx_exercises_uploader").on(table.uploadedByUserId),
         index("idx_exercises_approved").on(table.approvedByAdmin),
+        index("idx_exercises_review_status").on(table.reviewStatus),
+        index("idx_exercises_difficulty").on(table.difficulty),
+        index("idx_exercises_movement_pattern").on(table.movementPattern),
     ]
 );
 
 export type InsertExercise = typeof Exercises.$inferInsert;
 export type SelectExercise = typeof Exercises.$inferSelect;
+export type ExerciseReviewStatus =
+    (typeof exerciseReviewStatusEnum.enumValues)[number];
+export type DifficultyLevel = (typeof difficultyLevelEnum.enumValues)[number];
+export type MovementPattern = (typeof movementPatternEnum.enumValues)[number];
+
+// -- ExerciseReviews Table --
+// Audit trail of review decisions and resubmissions for library exercises
+export const ExerciseReviews = pgTable(
+    "ExerciseReviews",
+    {
+        reviewId: uuid("review_id")
+            .primaryKey()
+            .default(sql`uuid_generate_v4()`),
+        exerciseId: uuid("exercise_id")
+            .notNull()
+            .references(() => Exercises.exerciseId, {
+                onDelete: "cascade",
+                onUpdate: "cascade",
+            }),
+        changedByUserId: text("changed_by_user_id").references(
+            () => Users.userId,
+            { onDelete: "set null", onUpdate: "cascade" }
+        ), // The reviewer, or the uploader when resubmitting
+        fromStatus: exerciseReviewStatusEnum("from_status"),
+        toStatus: exerciseReviewStatusEnum("to_status").notNull(),
+        comment: text("comment"),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("idx_exercise_reviews_exercise").on(
+            table.exerciseId,
+            table.createdAt
+        ),
+    ]
+);
+
+export type InsertExerciseReview = typeof ExerciseReviews.$inferInsert;
+export type SelectExerciseReview = typeof ExerciseReviews.$inferSelect;
+
+// -- ExerciseAliases Table --
+// Other names for a library exercise ("RDL" for "Romanian Deadlift"), used by search and import
+export const ExerciseAliases = pgTable(
+    "ExerciseAliases",
+    {
+        aliasId: uuid("alias_id")
+            .primaryKey()
+            .default(sql`uuid_generate_v4()`),
+        exerciseId: uuid("exercise_id")
+            .notNull()
+            .references(() => Exercises.exerciseId, {
+                onDelete: "cascade",
+                onUpdate: "cascade",
+            }),
+        alias: text("alias").notNull(),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("idx_exercise_aliases_exercise").on(table.exerciseId),
+        // An alias can only name one exercise
+        uniqueIndex("uq_exercise_alias").on(sql`lower(${table.alias})`),
+    ]
+);
+
+export type InsertExerciseAlias = typeof ExerciseAliases.$inferInsert;
+export type SelectExerciseAlias = typeof ExerciseAliases.$inferSelect;
+
+// -- Equipment Table --
+// Lookup list of equipment an exercise can need
+export const Equipment = pgTable("Equipment", {
+    equipmentId: uuid("equipment_id")
+        .primaryKey()
+        .default(sql`uuid_generate_v4()`),
+    name: text("name").unique().notNull(),
+});
+
+export type SelectEquipment = typeof Equipment.$inferSelect;
+
+// -- MuscleGroups Table --
+export const MuscleGroups = pgTable("MuscleGroups", {
+    muscleGroupId: uuid("muscle_group_id")
+        .primaryKey()
+        .default(sql`uuid_generate_v4()`),
+    name: text("name").unique().notNull(),
+    region: text("region").notNull(), // "Upper Body", "Core" or "Lower Body", for grouping in pickers
+});
+
+export type SelectMuscleGroup = typeof MuscleGroups.$inferSelect;
+
+// -- ExerciseEquipment Table (Many-to-Many) --
+export const ExerciseEquipment = pgTable(
+    "ExerciseEquipment",
+    {
+        exerciseEquipmentId: uuid("exercise_equipment_id")
+            .primaryKey()
+            .default(sql`uuid_generate_v4()`),
+        exerciseId: uuid("exercise_id")
+            .notNull()
+            .references(() => Exercises.exerciseId, {
+                onDelete: "cascade",
+                onUpdate: "cascade",
+            }),
+        equipmentId: uuid("equipment_id")
+            .notNull()
+            .references(() => Equipment.equipmentId, { onDelete: "cascade" }),
+    },
+    (table) => [
+        unique("uq_exercise_equipment").on(table.exerciseId, table.equipmentId),
+        index("idx_exercise_equipment_equipment").on(table.equipmentId),
+    ]
+);
+
+// -- ExerciseMuscleGroups Table (Many-to-Many) --
+export const ExerciseMuscleGroups = pgTable(
+    "ExerciseMuscleGroups",
+    {
+        exerciseMuscleGroupId: uuid("exercise_muscle_group_id")
+            .primaryKey()
+            .default(sql`uuid_generate_v4()`),
+        exerciseId: uuid("exercise_id")
+            .notNull()
+            .references(() => Exercises.exerciseId, {
+                onDelete: "cascade",
+                onUpdate: "cascade",
+            }),
+        muscleGroupId: uuid("muscle_group_id")
+            .notNull()
+            .references(() => MuscleGroups.muscleGroupId, {
+                onDelete: "cascade",
+            }),
+        role: muscleRoleEnum("role").notNull(),
+    },
+    (table) => [
+        // A muscle is either primary or secondary for an exercise, not both
+        unique("uq_exercise_muscle_group").on(
+            table.exerciseId,
+            table.muscleGroupId
+        ),
+        index("idx_exercise_muscle_groups_muscle").on(
+            table.muscleGroupId,
+            table.role
+        ),
+    ]
+);
+
+// -- ClientExerciseAvoidances Table --
+// What a coach doesn't want suggested to a client (injury, preference,
+// no access). Each row names exactly one of an exercise, muscle group or
+// piece of equipment.
+export const ClientExerciseAvoidances = pgTable(
+    "ClientExerciseAvoidances",
+    {
+        avoidanceId: uuid("avoidance_id")
+            .primaryKey()
+            .default(sql`uuid_generate_v4()`),
+        clientId: text("client_id")
+            .notNull()
+            .references(() => Users.userId, {
+                onDelete: "cascade",
+                onUpdate: "cascade",
+            }),
+        exerciseId: uuid("exercise_id").references(() => Exercises.exerciseId, {
+            onDelete: "cascade",
+            onUpdate: "cascade",
+        }),
+        muscleGroupId: uuid("muscle_group_id").references(
+            () => MuscleGroups.muscleGroupId,
+            { onDelete: "cascade" }
+        ),
+        equipmentId: uuid("equipment_id").references(
+            () => Equipment.equipmentId,
+            { onDelete: "cascade" }
+        ),
+        reason: text("reason"),
+        createdByUserId: text("created_by_user_id").references(
+            () => Users.userId,
+            { onDelete: "set null", onUpdate: "cascade" }
+        ),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("idx_client_avoidances_client").on(table.clientId),
+        check(
+            "chk_client_avoidance_target",
+            sql`num_nonnulls(${table.exerciseId}, ${table.muscleGroupId}, ${table.equipmentId}) = 1`
+        ),
+    ]
+);
+
+export type SelectClientExerciseAvoidance =
+    typeof ClientExerciseAvoidances.$inferSelect;
+
+// An equipment item or muscle group attached to an exercise
+export type TaxonomyTag = { id: string; name: string };
+
+// A library exercise with its aliases and taxonomy attached
+export type SelectExerciseWithAliases = SelectExercise & {
+    aliases?: string[];
+    equipment?: TaxonomyTag[];
+    primaryMuscles?: TaxonomyTag[];
+    secondaryMuscles?: TaxonomyTag[];
+};
 
 // -- ExercisePlans Table --
 export const ExercisePlans = pgTable(
@@ -147,11 +409,14 @@ export const ExercisePlans = pgTable(
                 onUpdate: "cascade",
             }), // Nullable
         isActive: boolean("is_active").default(false),
+        isTemplate: boolean("is_template").default(false).notNull(), // Trainer-owned template, not assigned to a client
+        description: text("description"),
     },
     (table) => [
         index("idx_plans_creator").on(table.createdByUserId),
         index("idx_plans_assigned").on(table.assignedToUserId),
         index("idx_plans_active").on(table.isActive),
+        index("idx_plans_template").on(table.isTemplate),
     ]
 );
 
@@ -233,6 +498,9 @@ export const ExercisePlanExercises = pgTable(
         setOrderMarker: text("setOrderMarker"),
         customizations: text("customizations"),
         notes: text("notes").default(""), // Changed default to empty string
+        groupType: text("group_type"), // "superset" | "giant_set" | "circuit"; null when ungrouped
+        groupRounds: integer("group_rounds"), // Circuit rounds
+        groupRest: integer("group_rest"), // Seconds of rest after each round of the group
     },
     (table) => [
         index("idx_session_exercise_order")
@@ -247,6 +515,43 @@ export type InsertExercisePlanExercise =
 export type SelectExercisePlanExercise =
     typeof ExercisePlanExercises.$inferSelect;
 
+// -- WorkoutPlanVersions Table --
+// Immutable snapshots of a plan, written after every successful save
+export const WorkoutPlanVersions = pgTable(
+    "WorkoutPlanVersions",
+    {
+        versionId: uuid("version_id")
+            .primaryKey()
+            .default(sql`uuid_generate_v4()`),
+        planId: uuid("plan_id")
+            .notNull()
+            .references(() => ExercisePlans.planId, { onDelete: "cascade" }),
+        versionNumber: integer("version_number").notNull(),
+        snapshot: jsonb("snapshot").notNull(), // Full Phase[] state after the save
+        changes: jsonb("changes"), // WorkoutPlanChanges that produced this version
+        note: text("note"),
+        planUpdatedAt: timestamp("plan_updated_at"), // ExercisePlans.updatedAt this snapshot corresponds to
+        createdByUserId: text("created_by_user_id").references(
+            () => Users.userId,
+            {
+                onDelete: "set null",
+                onUpdate: "cascade",
+            }
+        ),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        unique("uq_plan_version").on(table.planId, table.versionNumber),
+        index("idx_plan_versions_plan").on(
+            table.planId,
+            table.versionNumber.desc()
+        ),
+    ]
+);
+
+export type InsertWorkoutPlanVersion = typeof WorkoutPlanVersions.$inferInsert;
+export type SelectWorkoutPlanVersion = typeof WorkoutPlanVersions.$inferSelect;
+
 // -- BMCMeasurements Table --
 export const BMCMeasurements = pgTable(
     "BMCMeasurements",
@@ -380,7 +685,9 @@ export const WorkoutSessionDetails = pgTable(
         workoutSessionLogId: uuid("workout_session_log_id") // Changed to uuid
             .notNull()
             .references(() => WorkoutSessionsLog.workoutSessionLogId),
-        // exerciseId: uuid("exercise_id").notNull(), // Removed as per user request
+        exerciseId: uuid("exercise_id").references(() => Exercises.exerciseId, {
+            onDelete: "set null",
+        }), // Null for history logged before the link, or names not in the library
         exerciseName: text("exercise_name").notNull(),
         sets: integer("sets"), // Keep integer
         reps: integer("reps"), // Keep integer
@@ -389,10 +696,25 @@ export const WorkoutSessionDetails = pgTable(
         coachNote: text("coach_note"),
         setOrderMarker: text("setOrderMarker"), // Added setOrderMarker field
         entryTime: timestamp("entry_time").defaultNow(),
+        restSeconds: integer("rest_seconds"), // Rest actually taken after the set
+        setType: setTypeEnum("set_type").default("working").notNull(),
+        rpe: real("rpe"), // Rate of perceived exertion, 1-10 in half steps
+        rir: integer("rir"), // Reps in reserve
+        tempoAdhered: boolean("tempo_adhered"), // Null when tempo wasn't checked
+        estimatedOneRepMax: real("estimated_one_rep_max"),
     },
     (table) => [
         index("idx_details_logid").on(table.workoutSessionLogId),
         index("idx_details_exercisename").on(table.exerciseName),
+        index("idx_details_exerciseid").on(table.exerciseId),
+        check(
+            "chk_details_rpe",
+            sql`${table.rpe} IS NULL OR ${table.rpe} BETWEEN 1 AND 10`
+        ),
+        check(
+            "chk_details_rir",
+            sql`${table.rir} IS NULL OR ${table.rir} >= 0`
+        ),
     ]
 );
 
@@ -400,6 +722,52 @@ export type InsertWorkoutSessionDetail =
     typeof WorkoutSessionDetails.$inferInsert;
 export type SelectWorkoutSessionDetail =
     typeof WorkoutSessionDetails.$inferSelect;
+export type SetType = (typeof setTypeEnum.enumValues)[number];
+
+// PersonalRecords Table (Each client's best sets per exercise, kept current as sets are saved)
+export const PersonalRecords = pgTable(
+    "PersonalRecords",
+    {
+        recordId: uuid("record_id")
+            .primaryKey()
+            .default(sql`uuid_generate_v4()`),
+        clientId: text("client_id")
+            .notNull()
+            .references(() => Users.userId, {
+                onDelete: "cascade",
+                onUpdate: "cascade",
+            }),
+        exerciseId: uuid("exercise_id")
+            .notNull()
+            .references(() => Exercises.exerciseId, { onDelete: "cascade" }),
+        recordType: personalRecordTypeEnum("record_type").notNull(),
+        atWeight: real("at_weight"), // Only for reps-at-weight records
+        value: real("value").notNull(),
+        weight: real("weight"),
+        reps: integer("reps"),
+        workoutDetailId: uuid("workout_detail_id").references(
+            () => WorkoutSessionDetails.workoutDetailId,
+            { onDelete: "set null" }
+        ),
+        achievedAt: timestamp("achieved_at").notNull(),
+    },
+    (table) => [
+        unique("uq_personal_record")
+            .on(
+                table.clientId,
+                table.exerciseId,
+                table.recordType,
+                table.atWeight
+            )
+            .nullsNotDistinct(),
+        index("idx_personal_records_client").on(table.clientId),
+    ]
+);
+
+export type InsertPersonalRecord = typeof PersonalRecords.$inferInsert;
+export type SelectPersonalRecord = typeof PersonalRecords.$inferSelect;
+export type PersonalRecordType =
+    (typeof personalRecordTypeEnum.enumValues)[number];
 
 // --- NEW TABLES ---
 // TrainerClients Table (Explicit trainer-client relationships)
@@ -435,6 +803,137 @@ export const TrainerClients = pgTable(
 export type InsertTrainerClient = typeof TrainerClients.$inferInsert;
 export type SelectTrainerClient = typeof TrainerClients.$inferSelect;
 
+// TrainerProgressionRules Table (Per-trainer "progress phase" rule configuration)
+export const TrainerProgressionRules = pgTable("TrainerProgressionRules", {
+    trainerId: text("trainer_id")
+        .primaryKey()
+        .references(() => Users.userId, {
+            onDelete: "cascade",
+            onUpdate: "cascade",
+        }),
+    rules: jsonb("rules").notNull(), // ProgressionRule[]
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type InsertTrainerProgressionRules =
+    typeof TrainerProgressionRules.$inferInsert;
+export type SelectTrainerProgressionRules =
+    typeof TrainerProgressionRules.$inferSelect;
+
+// PhaseSchedules Table (Date range over which a phase's weekly pattern repeats)
+export const PhaseSchedules = pgTable("PhaseSchedules", {
+    phaseId: uuid("phase_id")
+        .primaryKey()
+        .references(() => Phases.phaseId, { onDelete: "cascade" }),
+    startDate: date("start_date", { mode: "string" }).notNull(),
+    endDate: date("end_date", { mode: "string" }), // Open-ended when null
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type InsertPhaseSchedule = typeof PhaseSchedules.$inferInsert;
+export type SelectPhaseSchedule = typeof PhaseSchedules.$inferSelect;
+
+// SessionWeekdays Table (Recurring weekly pattern for a session)
+export const SessionWeekdays = pgTable("SessionWeekdays", {
+    sessionId: uuid("session_id")
+        .primaryKey()
+        .references(() => Sessions.sessionId, { onDelete: "cascade" }),
+    weekdays: integer("weekdays").array().notNull(), // 0 = Sunday ... 6 = Saturday
+});
+
+export type InsertSessionWeekdays = typeof SessionWeekdays.$inferInsert;
+export type SelectSessionWeekdays = typeof SessionWeekdays.$inferSelect;
+
+// ScheduledSessions Table (Explicit dates, reschedules and skips of recurring occurrences)
+export const ScheduledSessions = pgTable(
+    "ScheduledSessions",
+    {
+        scheduledSessionId: uuid("scheduled_session_id")
+            .primaryKey()
+            .default(sql`uuid_generate_v4()`),
+        sessionId: uuid("session_id")
+            .notNull()
+            .references(() => Sessions.sessionId, { onDelete: "cascade" }),
+        scheduledDate: date("scheduled_date", { mode: "string" }), // Null when the occurrence is skipped
+        replacesDate: date("replaces_date", { mode: "string" }), // Recurring occurrence this row moves or skips
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("idx_scheduled_session_date").on(
+            table.sessionId,
+            table.scheduledDate
+        ),
+    ]
+);
+
+export type InsertScheduledSession = typeof ScheduledSessions.$inferInsert;
+export type SelectScheduledSession = typeof ScheduledSessions.$inferSelect;
+
+// CalendarFeedTokens Table (Secret tokens for subscribing to .ics feeds)
+export const CalendarFeedTokens = pgTable(
+    "CalendarFeedTokens",
+    {
+        token: text("token").primaryKey(),
+        userId: text("user_id") // The client, or the coach for a coach feed
+            .notNull()
+            .references(() => Users.userId, {
+                onDelete: "cascade",
+                onUpdate: "cascade",
+            }),
+        feedType: text("feed_type").notNull(), // "client" | "coach"
+        createdByUserId: text("created_by_user_id").references(
+            () => Users.userId,
+            { onDelete: "set null", onUpdate: "cascade" }
+        ),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        uniqueIndex("uq_calendar_feed_user_type").on(
+            table.userId,
+            table.feedType
+        ),
+    ]
+);
+
+export type InsertCalendarFeedToken = typeof CalendarFeedTokens.$inferInsert;
+export type SelectCalendarFeedToken = typeof CalendarFeedTokens.$inferSelect;
+
+// -- ExerciseImportMappings Table --
+// Exercise names from imported plans that a coach has matched to a library exercise
+export const ExerciseImportMappings = pgTable(
+    "ExerciseImportMappings",
+    {
+        mappingId: uuid("mapping_id")
+            .primaryKey()
+            .default(sql`uuid_generate_v4()`),
+        trainerId: text("trainer_id")
+            .notNull()
+            .references(() => Users.userId, {
+                onDelete: "cascade",
+                onUpdate: "cascade",
+            }),
+        sourceName: text("source_name").notNull(), // Normalised name from the file
+        exerciseId: uuid("exercise_id")
+            .notNull()
+            .references(() => Exercises.exerciseId, {
+                onDelete: "cascade",
+                onUpdate: "cascade",
+            }),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [
+        uniqueIndex("uq_exercise_import_mapping").on(
+            table.trainerId,
+            table.sourceName
+        ),
+    ]
+);
+
+export type InsertExerciseImportMapping =
+    typeof ExerciseImportMappings.$inferInsert;
+export type SelectExerciseImportMapping =
+    typeof ExerciseImportMappings.$inferSelect;
+
 // --- RELATIONS ---
 // Relations should automatically work with the updated UUID types
 
@@ -482,9 +981,87 @@ export const exercisesRelations = relations(Exercises, ({ one, many }) => ({
         relationName: "UploadedExercises",
     }),
     planExercises: many(ExercisePlanExercises),
-    workoutSessionDetails: many(WorkoutSessionDetails), // Relation might need adjustment if FK removed
+    workoutSessionDetails: many(WorkoutSessionDetails),
+    aliases: many(ExerciseAliases),
+    reviews: many(ExerciseReviews),
+    equipment: many(ExerciseEquipment),
+    muscleGroups: many(ExerciseMuscleGroups),
 }));
 
+export const clientExerciseAvoidancesRelations = relations(
+    ClientExerciseAvoidances,
+    ({ one }) => ({
+        client: one(Users, {
+            fields: [ClientExerciseAvoidances.clientId],
+            references: [Users.userId],
+        }),
+        exercise: one(Exercises, {
+            fields: [ClientExerciseAvoidances.exerciseId],
+            references: [Exercises.exerciseId],
+        }),
+        muscleGroup: one(MuscleGroups, {
+            fields: [ClientExerciseAvoidances.muscleGroupId],
+            references: [MuscleGroups.muscleGroupId],
+        }),
+        equipment: one(Equipment, {
+            fields: [ClientExerciseAvoidances.equipmentId],
+            references: [Equipment.equipmentId],
+        }),
+    })
+);
+
+export const exerciseEquipmentRelations = relations(
+    ExerciseEquipment,
+    ({ one }) => ({
+        exercise: one(Exercises, {
+            fields: [ExerciseEquipment.exerciseId],
+            references: [Exercises.exerciseId],
+        }),
+        equipment: one(Equipment, {
+            fields: [ExerciseEquipment.equipmentId],
+            references: [Equipment.equipmentId],
+        }),
+    })
+);
+
+export const exerciseMuscleGroupsRelations = relations(
+    ExerciseMuscleGroups,
+    ({ one }) => ({
+        exercise: one(Exercises, {
+            fields: [ExerciseMuscleGroups.exerciseId],
+            references: [Exercises.exerciseId],
+        }),
+        muscleGroup: one(MuscleGroups, {
+            fields: [ExerciseMuscleGroups.muscleGroupId],
+            references: [MuscleGroups.muscleGroupId],
+        }),
+    })
+);
+
+export const exerciseReviewsRelations = relations(
+    ExerciseReviews,
+    ({ one }) => ({
+        exercise: one(Exercises, {
+            fields: [ExerciseReviews.exerciseId],
+            references: [Exercises.exerciseId],
+        }),
+        changedBy: one(Users, {
+            fields: [ExerciseReviews.changedByUserId],
+            references: [Users.userId],
+        }),
+    })
+);
+
+export const exerciseAliasesRelations = relations(
+    ExerciseAliases,
+    ({ one }) => ({
+        exercise: one(Exercises, {
+            fields: [ExerciseAliases.exerciseId],
+            references: [Exercises.exerciseId],
+        }),
+    })
+);
+
 // ExercisePlans Relations
 export const exercisePlansRelations = relations(
     ExercisePlans,
@@ -500,6 +1077,21 @@ export const exercisePlansRelations = relations(
             relationName: "AssignedPlans",
         }),
         phases: many(Phases),
+        versions: many(WorkoutPlanVersions),
+    })
+);
+
+export const workoutPlanVersionsRelations = relations(
+    WorkoutPlanVersions,
+    ({ one }) => ({
+        plan: one(ExercisePlans, {
+            fields: [WorkoutPlanVersions.planId],
+            references: [ExercisePlans.planId],
+        }),
+        createdBy: one(Users, {
+            fields: [WorkoutPlanVersions.createdByUserId],
+            references: [Users.userId],
+        }),
     })
 );
 
@@ -594,6 +1186,9 @@ export const workoutSessionDetailsRelations = relations(
             fields: [WorkoutSessionDetails.workoutSessionLogId],
             references: [WorkoutSessionsLog.workoutSessionLogId],
         }),
-        // Exercise relation intentionally removed as exerciseId column is removed from WorkoutSessionDetails
+        exercise: one(Exercises, {
+            fields: [WorkoutSessionDetails.exerciseId],
+            references: [Exercises.exerciseId],
+        }),
     })
 );
@@ -14,6 +14,12 @@ import {
     Users,
     WorkoutSessionDetails,
     WorkoutSessionsLog,
+    WorkoutPlanVersions,
+    TrainerProgressionRules,
+    PhaseSchedules,
+    SessionWeekdays,
+    ScheduledSessions,
+    CalendarFeedTokens,
 } from "./schemas";
 
 // Load environment variables first (especially important for worker context)
@@ -53,6 +59,12 @@ export function getDb() {
             WorkoutSessionDetails,
             WorkoutSessionsLog,
             BMCMeasurements,
+            WorkoutPlanVersions,
+            TrainerProgressionRules,
+            PhaseSchedules,
+            SessionWeekdays,
+            ScheduledSessions,
+            CalendarFeedTokens,
         },
     });
 }
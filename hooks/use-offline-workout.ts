@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import {
+    enqueueWorkoutOperation,
+    getWorkoutSnapshot,
+    isOfflineStorageAvailable,
+    pruneWorkoutSnapshots,
+} from "@/lib/workout-outbox";
+
+const SERVICE_WORKER_URL = "/record-workout-sw.js";
+const SERVICE_WORKER_SCOPE = "/record-workout";
+const SERVICE_WORKER_CACHE_PREFIX = "record-workout-";
+
+/**
+ * Works out which workout log the page is recording into. The URL's log
+ * wins over the one rendered into the page, since a page served from the
+ * offline cache carries whichever log it was cached with. When offline and
+ * that log has already ended here, a new one is started on the device and
+ * created on the server once there's signal.
+ */
+export function useOfflineWorkoutSession({
+    serverWorkoutSessionLogId,
+    userId,
+    sessionName,
+}: {
+    serverWorkoutSessionLogId: string | null;
+    userId?: string;
+    sessionName: string;
+}) {
+    const [workoutSessionLogId, setWorkoutSessionLogId] = useState<
+        string | null
+    >(null);
+    const [isResolving, setIsResolving] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const resolve = async () => {
+            const url = new URL(window.location.href);
+            const urlLogId = url.searchParams.get("workoutSessionLogId");
+            let logId = urlLogId || serverWorkoutSessionLogId;
+
+            if (isOfflineStorageAvailable()) {
+                try {
+                    await pruneWorkoutSnapshots();
+                    const snapshot = logId
+                        ? await getWorkoutSnapshot(logId)
+                        : null;
+                    if (!navigator.onLine && snapshot?.endedAt && userId) {
+                        logId = uuidv4();
+                        await enqueueWorkoutOperation({
+                            type: "start-session",
+                            workoutSessionLogId: logId,
+                            userId,
+                            sessionName,
+                            startedAt: new Date().toISOString(),
+                        });
+                    }
+                } catch (error) {
+                    console.error("Failed to read offline workouts:", error);
+                }
+            }
+
+            // Keep the log in the URL so a reload records into the same one
+            if (logId && logId !== urlLogId) {
+                url.searchParams.set("workoutSessionLogId", logId);
+                window.history.replaceState(window.history.state, "", url);
+            }
+
+            if (!cancelled) {
+                setWorkoutSessionLogId(logId);
+                setIsResolving(false);
+            }
+        };
+
+        resolve();
+        return () => {
+            cancelled = true;
+        };
+    }, [serverWorkoutSessionLogId, userId, sessionName]);
+
+    return { workoutSessionLogId, isResolving };
+}
+
+/**
+ * Registers the record-workout service worker and has it cache this page
+ * and the scripts it loaded, so the page opens again without signal
+ */
+export function useRecordWorkoutServiceWorker(enabled: boolean) {
+    useEffect(() => {
+        if (
+            !enabled ||
+            process.env.NODE_ENV !== "production" ||
+            !("serviceWorker" in navigator)
+        ) {
+            return;
+        }
+
+        navigator.serviceWorker
+            .register(SERVICE_WORKER_URL, { scope: SERVICE_WORKER_SCOPE })
+            .then(() => navigator.serviceWorker.ready)
+            .then((registration) => {
+                const assets = performance
+                    .getEntriesByType("resource")
+                    .map((entry) => entry.name)
+                    .filter((name) => name.includes("/_next/static/"));
+                registration.active?.postMessage({
+                    type: "CACHE_PAGE",
+                    url: window.location.href,
+                    assets,
+                });
+            })
+            .catch((error) =>
+                console.error("Failed to register offline support:", error)
+            );
+    }, [enabled]);
+}
+
+/**
+ * Deletes the pages and scripts the service worker cached, so the next
+ * person to sign in on this device can't open them without signal
+ */
+export async function clearRecordWorkoutCache() {
+    if (typeof caches === "undefined") return;
+    const keys = await caches.keys();
+    await Promise.all(
+        keys
+            .filter((key) => key.startsWith(SERVICE_WORKER_CACHE_PREFIX))
+            .map((key) => caches.delete(key))
+    );
+}
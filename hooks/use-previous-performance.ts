@@ -0,0 +1,43 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { getPreviousPerformance } from "@/actions/previous_performance_actions";
+
+/**
+ * Last few sessions of each library exercise in the workout being recorded,
+ * keyed by exercise ID then set number. Past sessions don't change during a
+ * workout, so they're fetched once.
+ */
+export function usePreviousPerformance({
+    clientId,
+    exerciseIds,
+    workoutSessionLogId,
+}: {
+    clientId?: string;
+    exerciseIds: (string | undefined)[];
+    workoutSessionLogId: string | null;
+}) {
+    // A stable key, as the exercise list is rebuilt on every set change
+    const idsKey = Array.from(
+        new Set(exerciseIds.filter((id): id is string => !!id))
+    )
+        .sort()
+        .join(",");
+
+    const { data } = useQuery({
+        queryKey: [
+            "previousPerformance",
+            clientId,
+            idsKey,
+            workoutSessionLogId,
+        ],
+        queryFn: () =>
+            getPreviousPerformance(clientId!, idsKey.split(","), {
+                excludeWorkoutSessionLogId: workoutSessionLogId ?? undefined,
+            }),
+        enabled: !!clientId && idsKey.length > 0,
+        staleTime: Infinity,
+    });
+
+    return data ?? {};
+}
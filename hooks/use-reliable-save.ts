@@ -2,76 +2,68 @@
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { toast } from "sonner";
+import { syncWorkoutOperation } from "@/actions/workout_tracker_actions";
 import {
-    logWorkoutSet,
-    updateWorkoutSet,
-    deleteWorkoutSet,
-} from "@/actions/workout_tracker_actions";
-
-interface SaveOperation {
-    id: string;
-    type: "create" | "update" | "delete";
-    exerciseId: string;
-    setId: string;
-    data: {
-        exerciseName: string;
-        setNumber: number;
-        reps: number;
-        weight: number;
-        notes?: string;
-        setOrderMarker?: string;
-    };
-    timestamp: number;
-    retryCount: number;
-}
+    WorkoutReplayResult,
+    countQueuedWorkoutOperations,
+    discardQueuedWorkoutOperations,
+    enqueueWorkoutOperation,
+    isOfflineStorageAvailable,
+    replayWorkoutOutbox,
+    subscribeToWorkoutOutbox,
+} from "@/lib/workout-outbox";
+import {
+    WorkoutOutboxOperation,
+    WorkoutSyncConflict,
+} from "@/types/workout-tracker-types";
+import { BrokenPersonalRecord } from "@/lib/strength-metrics";
 
 interface UseReliableSaveProps {
     workoutSessionLogId: string | null;
-    onSaveSuccess?: (operation: SaveOperation) => void;
-    onSaveError?: (operation: SaveOperation, error: Error) => void;
+    onPersonalRecords?: (records: BrokenPersonalRecord[]) => void;
 }
 
+const NOTHING_REPLAYED: WorkoutReplayResult = {
+    applied: 0,
+    conflicts: [],
+    personalRecords: [],
+    remaining: 0,
+};
+
+/**
+ * Saves workout changes through the IndexedDB outbox, so they survive
+ * reloads and lost signal, and replays it whenever the connection returns.
+ * Without device storage, changes go straight to the server instead.
+ */
 export function useReliableSave({
     workoutSessionLogId,
-    onSaveSuccess,
-    onSaveError,
+    onPersonalRecords,
 }: UseReliableSaveProps) {
     const [isSaving, setIsSaving] = useState(false);
     const [saveStatus, setSaveStatus] = useState<
-        "idle" | "saving" | "saved" | "error"
+        "idle" | "saving" | "saved" | "error" | "offline"
     >("idle");
-    const [pendingOperations, setPendingOperations] = useState<SaveOperation[]>(
-        []
-    );
+    const [pendingOperations, setPendingOperations] = useState(0);
+    const [conflicts, setConflicts] = useState<WorkoutSyncConflict[]>([]);
+    const [isOnline, setIsOnline] = useState(true);
 
-    const saveQueueRef = useRef<SaveOperation[]>([]);
-    const isProcessingRef = useRef(false);
     const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-    const processQueueRef = useRef<() => void>(() => {});
-
-    // Local storage key for offline backup
-    const localStorageKey = `workout-backup-${workoutSessionLogId}`;
-
-    // Save to local storage for offline support
-    const saveToLocalStorage = useCallback(
-        (operations: SaveOperation[]) => {
-            if (!workoutSessionLogId) return;
-
-            try {
-                localStorage.setItem(
-                    localStorageKey,
-                    JSON.stringify({
-                        operations,
-                        timestamp: Date.now(),
-                        sessionId: workoutSessionLogId,
-                    })
-                );
-            } catch (error) {
-                console.error("Failed to save to localStorage:", error);
-            }
-        },
-        [localStorageKey, workoutSessionLogId]
+    const retryCountRef = useRef(0);
+    const processQueueRef = useRef<() => Promise<WorkoutReplayResult>>(
+        async () => NOTHING_REPLAYED
     );
+    const onPersonalRecordsRef = useRef(onPersonalRecords);
+
+    const refreshPending = useCallback(async () => {
+        if (!isOfflineStorageAvailable() || !workoutSessionLogId) return;
+        try {
+            setPendingOperations(
+                await countQueuedWorkoutOperations(workoutSessionLogId)
+            );
+        } catch (error) {
+            console.error("Failed to read the workout outbox:", error);
+        }
+    }, [workoutSessionLogId]);
 
     // Schedule retry with exponential backoff
     const scheduleRetry = useCallback(() => {
@@ -80,9 +72,10 @@ export function useReliableSave({
         }
 
         const delay = Math.min(
-            1000 * Math.pow(2, saveQueueRef.current[0]?.retryCount || 0),
+            1000 * Math.pow(2, retryCountRef.current),
             30000
         );
+        retryCountRef.current++;
 
         retryTimeoutRef.current = setTimeout(() => {
             // Use ref to avoid stale closure and circular dependency issues
@@ -90,183 +83,144 @@ export function useReliableSave({
         }, delay);
     }, []);
 
-    // Process the save queue
+    // Replay the outbox in order
     const processQueue = useCallback(async () => {
-        if (
-            isProcessingRef.current ||
-            saveQueueRef.current.length === 0 ||
-            !workoutSessionLogId
-        ) {
-            return;
+        if (!isOfflineStorageAvailable()) return NOTHING_REPLAYED;
+        if (!navigator.onLine) {
+            // Replayed by the "online" listener instead
+            setSaveStatus("offline");
+            return {
+                ...NOTHING_REPLAYED,
+                remaining: await countQueuedWorkoutOperations(),
+            };
         }
 
-        isProcessingRef.current = true;
         setIsSaving(true);
         setSaveStatus("saving");
 
-        const operations = [...saveQueueRef.current];
-        const successfulOperations: SaveOperation[] = [];
-        const failedOperations: SaveOperation[] = [];
-
-        for (const operation of operations) {
-            try {
-                switch (operation.type) {
-                    case "create":
-                        await logWorkoutSet(
-                            workoutSessionLogId,
-                            operation.data.exerciseName,
-                            operation.data.setNumber,
-                            operation.data.reps,
-                            operation.data.weight,
-                            operation.data.notes,
-                            operation.data.setOrderMarker
-                        );
-                        break;
-
-                    case "update":
-                        await updateWorkoutSet(operation.setId, {
-                            reps: operation.data.reps,
-                            weight: operation.data.weight,
-                            coachNote: operation.data.notes,
-                        });
-                        break;
-
-                    case "delete":
-                        await deleteWorkoutSet(operation.setId);
-                        break;
-                }
+        try {
+            const result = await replayWorkoutOutbox();
 
-                successfulOperations.push(operation);
-                onSaveSuccess?.(operation);
-            } catch (error) {
-                console.error(
-                    `Failed to process ${operation.type} operation:`,
-                    error
+            if (result.conflicts.length > 0) {
+                setConflicts((prev) => [...prev, ...result.conflicts]);
+                result.conflicts.forEach((conflict) =>
+                    toast.warning(conflict.message)
                 );
-
-                // Increment retry count
-                const updatedOperation = {
-                    ...operation,
-                    retryCount: operation.retryCount + 1,
-                };
-
-                // Only retry up to 3 times
-                if (updatedOperation.retryCount < 3) {
-                    failedOperations.push(updatedOperation);
-                } else {
-                    console.error(
-                        "Max retries reached for operation:",
-                        operation
-                    );
-                    onSaveError?.(operation, error as Error);
-                }
             }
-        }
-
-        // Update the queue with failed operations
-        saveQueueRef.current = failedOperations;
-        setPendingOperations(failedOperations);
 
-        // Update local storage
-        saveToLocalStorage(failedOperations);
+            if (result.personalRecords.length > 0) {
+                onPersonalRecordsRef.current?.(result.personalRecords);
+            }
 
-        // Update status
-        if (failedOperations.length === 0) {
-            setSaveStatus("saved");
-            // Clear localStorage on successful save
-            try {
-                localStorage.removeItem(localStorageKey);
-            } catch (error) {
-                console.error("Failed to clear localStorage:", error);
+            if (result.remaining === 0) {
+                retryCountRef.current = 0;
+                setSaveStatus("saved");
+            } else {
+                setSaveStatus(navigator.onLine ? "error" : "offline");
+                scheduleRetry();
             }
-        } else {
+            return result;
+        } catch (error) {
+            console.error("Failed to replay the workout outbox:", error);
             setSaveStatus("error");
-            // Schedule retry for failed operations
             scheduleRetry();
+            return NOTHING_REPLAYED;
+        } finally {
+            setIsSaving(false);
+            refreshPending();
         }
-
-        setIsSaving(false);
-        isProcessingRef.current = false;
-
-        // Show appropriate toast
-        if (successfulOperations.length > 0) {
-            toast.success(`Saved ${successfulOperations.length} changes`);
-        }
-        if (failedOperations.length > 0) {
-            toast.error(
-                `${failedOperations.length} changes failed to save. Retrying...`
-            );
-        }
-    }, [
-        workoutSessionLogId,
-        onSaveSuccess,
-        onSaveError,
-        saveToLocalStorage,
-        localStorageKey,
-        scheduleRetry,
-    ]);
+    }, [scheduleRetry, refreshPending]);
 
     // Update the ref whenever processQueue changes
     useEffect(() => {
         processQueueRef.current = processQueue;
     }, [processQueue]);
 
-    // Load from local storage on mount
     useEffect(() => {
-        if (!workoutSessionLogId) return;
+        onPersonalRecordsRef.current = onPersonalRecords;
+    }, [onPersonalRecords]);
 
-        try {
-            const stored = localStorage.getItem(localStorageKey);
-            if (stored) {
-                const { operations } = JSON.parse(stored);
-                if (operations && operations.length > 0) {
-                    setPendingOperations(operations);
-                    saveQueueRef.current = [...operations];
-                    // Auto-process pending operations (use ref to avoid dependency loop)
-                    processQueueRef.current();
+    // Pick up anything left from earlier visits and track connectivity
+    useEffect(() => {
+        setIsOnline(navigator.onLine);
+        refreshPending();
+        processQueueRef.current();
+
+        const unsubscribe = isOfflineStorageAvailable()
+            ? subscribeToWorkoutOutbox(refreshPending)
+            : () => {};
+        const handleOnline = () => {
+            setIsOnline(true);
+            retryCountRef.current = 0;
+            processQueueRef.current();
+        };
+        const handleOffline = () => {
+            setIsOnline(false);
+            setSaveStatus("offline");
+        };
+        window.addEventListener("online", handleOnline);
+        window.addEventListener("offline", handleOffline);
+
+        return () => {
+            unsubscribe();
+            window.removeEventListener("online", handleOnline);
+            window.removeEventListener("offline", handleOffline);
+        };
+    }, [refreshPending]);
+
+    // Send an operation straight to the server, for when the outbox can't
+    // be written (private browsing, storage full or blocked)
+    const sendOperation = useCallback(
+        async (operation: WorkoutOutboxOperation) => {
+            setIsSaving(true);
+            setSaveStatus("saving");
+            try {
+                const result = await syncWorkoutOperation(operation);
+                if (result.status === "conflict") {
+                    const message =
+                        result.message ?? "A change could not be saved";
+                    setConflicts((prev) => [...prev, { operation, message }]);
+                    toast.warning(message);
+                } else if (result.personalRecords?.length) {
+                    onPersonalRecordsRef.current?.(result.personalRecords);
                 }
+                setSaveStatus("saved");
+            } catch (error) {
+                console.error("Failed to save workout operation:", error);
+                setSaveStatus(navigator.onLine ? "error" : "offline");
+                toast.error("This change could not be saved");
+            } finally {
+                setIsSaving(false);
             }
-        } catch (error) {
-            console.error("Failed to load from localStorage:", error);
-        }
-    }, [workoutSessionLogId, localStorageKey]); // Removed processQueue dependency
+        },
+        []
+    );
 
-    // Add operation to queue
+    // Add operation to the outbox and try to send it
     const queueOperation = useCallback(
-        (operation: Omit<SaveOperation, "timestamp" | "retryCount">) => {
-            const fullOperation: SaveOperation = {
-                ...operation,
-                timestamp: Date.now(),
-                retryCount: 0,
-            };
-
-            saveQueueRef.current.push(fullOperation);
-            setPendingOperations((prev) => [...prev, fullOperation]);
-
-            // Save to localStorage immediately
-            saveToLocalStorage([...saveQueueRef.current]);
-
-            // Process queue
+        async (operation: WorkoutOutboxOperation) => {
+            try {
+                await enqueueWorkoutOperation(operation);
+            } catch (error) {
+                console.error("Failed to queue workout operation:", error);
+                await sendOperation(operation);
+                return;
+            }
             processQueue();
         },
-        [saveToLocalStorage, processQueue]
+        [processQueue, sendOperation]
     );
 
     // Manual save trigger
-    const saveNow = useCallback(() => {
-        processQueue();
-    }, [processQueue]);
+    const saveNow = useCallback(() => processQueue(), [processQueue]);
 
-    // Clear all pending operations (for testing/debugging)
-    const clearPending = useCallback(() => {
-        saveQueueRef.current = [];
-        setPendingOperations([]);
-        try {
-            localStorage.removeItem(localStorageKey);
-        } catch (error) {
-            console.error("Failed to clear localStorage:", error);
-        }
-    }, [localStorageKey]);
+    // Drop this workout's queued changes
+    const clearPending = useCallback(async () => {
+        if (!workoutSessionLogId || !isOfflineStorageAvailable()) return;
+        await discardQueuedWorkoutOperations(workoutSessionLogId);
+    }, [workoutSessionLogId]);
+
+    const dismissConflicts = useCallback(() => setConflicts([]), []);
 
     // Cleanup on unmount
     useEffect(() => {
@@ -280,9 +234,12 @@ export function useReliableSave({
     return {
         isSaving,
         saveStatus,
-        pendingOperations: pendingOperations.length,
+        pendingOperations,
+        conflicts,
+        isOnline,
         queueOperation,
         saveNow,
         clearPending,
+        dismissConflicts,
     };
 }
@@ -0,0 +1,132 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+
+export interface ActiveRest {
+    exerciseId: string;
+    setId: string; // The completed set the rest follows
+    exerciseName: string;
+    minSeconds: number;
+    maxSeconds: number;
+    startedAt: number;
+}
+
+interface UseRestTimerProps {
+    // Called with the rest actually taken once it ends
+    onRestEnd: (rest: ActiveRest, seconds: number) => void;
+}
+
+const secondsSince = (startedAt: number) =>
+    Math.round((Date.now() - startedAt) / 1000);
+
+/**
+ * Counts down the prescribed rest after a completed set, then keeps counting
+ * so the rest actually taken can be recorded. Lives at page level so it
+ * keeps running while the coach moves between exercises.
+ */
+export function useRestTimer({ onRestEnd }: UseRestTimerProps) {
+    const [rest, setRest] = useState<ActiveRest | null>(null);
+    const [elapsed, setElapsed] = useState(0);
+    const restRef = useRef<ActiveRest | null>(null);
+    const onRestEndRef = useRef(onRestEnd);
+    const hasSignalledRef = useRef(false);
+    // Created on the tap that starts the rest, as browsers only allow
+    // audio after a user gesture
+    const audioContextRef = useRef<AudioContext | null>(null);
+
+    useEffect(() => {
+        onRestEndRef.current = onRestEnd;
+    }, [onRestEnd]);
+
+    const signalRestOver = useCallback(() => {
+        navigator.vibrate?.([300, 150, 300]);
+
+        const context = audioContextRef.current;
+        if (!context) return;
+        [0, 0.35].forEach((offset) => {
+            const oscillator = context.createOscillator();
+            const gain = context.createGain();
+            oscillator.frequency.value = 880;
+            gain.gain.setValueAtTime(0.2, context.currentTime + offset);
+            gain.gain.exponentialRampToValueAtTime(
+                0.001,
+                context.currentTime + offset + 0.25
+            );
+            oscillator.connect(gain).connect(context.destination);
+            oscillator.start(context.currentTime + offset);
+            oscillator.stop(context.currentTime + offset + 0.25);
+        });
+    }, []);
+
+    // Time is measured from the start rather than counted, so it stays
+    // right when the tab is throttled in the background
+    useEffect(() => {
+        if (!rest) return;
+
+        const tick = () => {
+            const seconds = secondsSince(rest.startedAt);
+            setElapsed(seconds);
+            if (
+                rest.maxSeconds > 0 &&
+                seconds >= rest.maxSeconds &&
+                !hasSignalledRef.current
+            ) {
+                hasSignalledRef.current = true;
+                signalRestOver();
+            }
+        };
+
+        tick();
+        const interval = setInterval(tick, 1000);
+        return () => clearInterval(interval);
+    }, [rest, signalRestOver]);
+
+    // Ends the rest and records how long it was
+    const stopRest = useCallback(() => {
+        const current = restRef.current;
+        if (!current) return;
+        restRef.current = null;
+        setRest(null);
+        onRestEndRef.current(current, secondsSince(current.startedAt));
+    }, []);
+
+    // Ends the rest without recording it, e.g. when its set is unticked
+    const cancelRest = useCallback(() => {
+        restRef.current = null;
+        setRest(null);
+    }, []);
+
+    const startRest = useCallback(
+        (next: Omit<ActiveRest, "startedAt">) => {
+            // Completing the next set ends the rest before it
+            stopRest();
+
+            if (!audioContextRef.current && "AudioContext" in window) {
+                audioContextRef.current = new AudioContext();
+            }
+            audioContextRef.current?.resume().catch(() => {});
+
+            const started = { ...next, startedAt: Date.now() };
+            restRef.current = started;
+            hasSignalledRef.current = false;
+            setElapsed(0);
+            setRest(started);
+        },
+        [stopRest]
+    );
+
+    // Release the audio context on unmount
+    useEffect(() => {
+        return () => {
+            audioContextRef.current?.close().catch(() => {});
+        };
+    }, []);
+
+    return {
+        rest,
+        elapsed,
+        startRest,
+        stopRest,
+        cancelRest,
+    };
+}
@@ -2,29 +2,47 @@
 
 import { useState, useEffect, useCallback, useRef, startTransition } from "react";
 import { toast } from "sonner";
-import {
-    logWorkoutSet,
-    updateWorkoutSet,
-    deleteWorkoutSet,
-} from "@/actions/workout_tracker_actions";
+import { v4 as uuidv4 } from "uuid";
 import {
     Exercise,
     ExerciseSet,
+    SetEffort,
     WorkoutData,
     PastSessionDetail,
 } from "@/types/workout-tracker-types";
 import { useReliableSave } from "./use-reliable-save";
+import { BrokenPersonalRecord } from "@/lib/strength-metrics";
+import {
+    getWorkoutSnapshot,
+    isOfflineStorageAvailable,
+    saveWorkoutSnapshot,
+} from "@/lib/workout-outbox";
 
 interface UseWorkoutDataProps {
     initialWorkoutData: WorkoutData;
     workoutSessionDetails: PastSessionDetail[];
     workoutSessionLogId: string | null;
+    // Called with the records broken by sets once they reach the server
+    onPersonalRecords?: (records: BrokenPersonalRecord[]) => void;
+}
+
+// Out-of-range RPE or RIR is left blank rather than failing the save
+function toSetEffort(set: ExerciseSet): SetEffort {
+    const rpe = parseFloat(set.rpe ?? "");
+    const rir = parseInt(set.rir ?? "");
+    return {
+        setType: set.setType ?? "working",
+        rpe: rpe >= 1 && rpe <= 10 ? rpe : null,
+        rir: rir >= 0 ? rir : null,
+        tempoAdhered: set.tempoAdhered ?? null,
+    };
 }
 
 export function useWorkoutData({
     initialWorkoutData,
     workoutSessionDetails,
     workoutSessionLogId,
+    onPersonalRecords,
 }: UseWorkoutDataProps) {
     const [exercises, setExercises] = useState<Exercise[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -36,35 +54,24 @@ export function useWorkoutData({
     const triggerDebouncedSaveRef = useRef<() => void>(() => {});
     const DEBOUNCE_DELAY = 5000; // 5 seconds
 
-    // Initialize reliable save system - Unused @Variables
-    const { isSaving, saveStatus, pendingOperations, saveNow } =
-        useReliableSave({
-            workoutSessionLogId,
-            onSaveSuccess: (operation) => {
-                console.log("Save successful:", operation);
-                // Update UI to reflect successful save
-                setExercises((prev) =>
-                    prev.map((ex) =>
-                        ex.id === operation.exerciseId
-                            ? {
-                                  ...ex,
-                                  sets: ex.sets.map((set) =>
-                                      set.id === operation.setId
-                                          ? { ...set, isNew: false }
-                                          : set
-                                  ),
-                              }
-                            : ex
-                    )
-                );
-            },
-            onSaveError: (operation, error) => {
-                console.error("Save failed:", operation, error);
-                toast.error(
-                    `Failed to save set ${operation.data.setNumber}. Retrying...`
-                );
-            },
-        });
+    // Every set change goes through the device outbox
+    const {
+        isSaving,
+        saveStatus,
+        pendingOperations,
+        conflicts,
+        isOnline,
+        queueOperation,
+        saveNow,
+        clearPending,
+        dismissConflicts,
+    } = useReliableSave({ workoutSessionLogId, onPersonalRecords });
+
+    // The workout the loaded sets belong to; the device copy isn't
+    // written until they've loaded, so it can't be overwritten by placeholders
+    const loadedLogIdRef = useRef<string | null>(null);
+    const sessionId = initialWorkoutData?.session?.sessionId;
+    const clientId = initialWorkoutData?.client?.userId;
 
     // Load workout data on component mount
     useEffect(() => {
@@ -105,12 +112,17 @@ export function useWorkoutData({
                                 parseInt(setRange.split("-")[1] || setRange) ||
                                 3;
                             const minSets = ex.setsMin || 3;
-                            // Use the maximum sets to determine number of initial rows
-                            const numSets = Math.max(maxSets, minSets);
+                            // Use the maximum sets to determine number of initial rows,
+                            // or one set per round for circuits
+                            const numSets =
+                                ex.groupType === "circuit" && ex.groupRounds
+                                    ? ex.groupRounds
+                                    : Math.max(maxSets, minSets);
 
                             for (let i = 0; i < numSets; i++) {
                                 initialSets.push({
-                                    id: `temp-${ex.planExerciseId}-${i}`,
+                                    // Generated here so the set keeps its ID once logged, offline or not
+                                    id: uuidv4(),
                                     reps: "",
                                     weight: "",
                                     isNew: true,
@@ -119,19 +131,30 @@ export function useWorkoutData({
 
                             return {
                                 id: ex.planExerciseId,
+                                exerciseId: ex.exerciseId,
                                 name:
                                     ex.exerciseDetails?.exerciseName ||
                                     `Exercise ${index + 1}`,
+                                videoUrl: ex.exerciseDetails?.videoUrl,
+                                imageUrl: ex.exerciseDetails?.imageUrl,
+                                thumbnailUrl: ex.exerciseDetails?.thumbnailUrl,
                                 order: ex.setOrderMarker || `${index + 1}`,
                                 sets: initialSets,
                                 setRange,
                                 repRange,
+                                repsMin: ex.repsMin,
+                                repsMax: ex.repsMax,
                                 tempo: ex.tempo || "3 0 1 0",
                                 restTime: restRange,
+                                restMin: ex.restMin,
+                                restMax: ex.restMax,
                                 notes: ex.notes || "",
                                 isExpanded: true, // Start expanded
                                 setOrderMarker: ex.setOrderMarker,
                                 customizations: ex.customizations || "",
+                                groupType: ex.groupType,
+                                groupRounds: ex.groupRounds,
+                                groupRest: ex.groupRest,
                             };
                         });
 
@@ -161,6 +184,12 @@ export function useWorkoutData({
                                         reps: detail.reps?.toString() || "",
                                         weight: detail.weight?.toString() || "",
                                         notes: detail.coachNote || "",
+                                        restSeconds:
+                                            detail.restSeconds ?? undefined,
+                                        setType: detail.setType,
+                                        rpe: detail.rpe?.toString() || "",
+                                        rir: detail.rir?.toString() || "",
+                                        tempoAdhered: detail.tempoAdhered,
                                         isNew: false, // These are existing sets
                                     })
                                 );
@@ -190,7 +219,15 @@ export function useWorkoutData({
                         }
                     );
 
-                    setExercises(sortedExercises);
+                    // The device copy is the latest view of this workout,
+                    // including sets that haven't reached the server yet
+                    const snapshot =
+                        workoutSessionLogId && isOfflineStorageAvailable()
+                            ? await getWorkoutSnapshot(workoutSessionLogId)
+                            : null;
+
+                    setExercises(snapshot?.exercises ?? sortedExercises);
+                    loadedLogIdRef.current = workoutSessionLogId;
                 }
             } catch (error) {
                 console.error("Error loading workout data:", error);
@@ -200,7 +237,27 @@ export function useWorkoutData({
         };
 
         loadWorkoutData();
-    }, [initialWorkoutData, workoutSessionDetails]);
+    }, [initialWorkoutData, workoutSessionDetails, workoutSessionLogId]);
+
+    // Keep the device copy current so a reload without signal loses nothing
+    useEffect(() => {
+        if (
+            isLoading ||
+            !workoutSessionLogId ||
+            loadedLogIdRef.current !== workoutSessionLogId ||
+            !isOfflineStorageAvailable()
+        ) {
+            return;
+        }
+        saveWorkoutSnapshot({
+            workoutSessionLogId,
+            sessionId,
+            clientId,
+            exercises,
+        }).catch((error) =>
+            console.error("Failed to store workout on the device:", error)
+        );
+    }, [exercises, isLoading, workoutSessionLogId, sessionId, clientId]);
 
     // triggerDebouncedSave will be defined after save functions
 
@@ -282,6 +339,48 @@ export function useWorkoutData({
         [workoutSessionLogId]
     );
 
+    const patchSet = useCallback(
+        (exerciseId: string, setId: string, changes: Partial<ExerciseSet>) => {
+            setExercises((prev) =>
+                prev.map((ex) =>
+                    ex.id === exerciseId
+                        ? {
+                              ...ex,
+                              sets: ex.sets.map((s) =>
+                                  s.id === setId ? { ...s, ...changes } : s
+                              ),
+                          }
+                        : ex
+                )
+            );
+        },
+        []
+    );
+
+    // Completion only lives on the device; it drives the rest timer
+    const setSetCompleted = useCallback(
+        (exerciseId: string, setId: string, completed: boolean) =>
+            patchSet(exerciseId, setId, { completed }),
+        [patchSet]
+    );
+
+    // Set type, RPE/RIR, tempo and rest, saved like reps and weight
+    const updateSetDetails = useCallback(
+        (exerciseId: string, setId: string, changes: Partial<ExerciseSet>) => {
+            patchSet(exerciseId, setId, changes);
+            setTimeout(() => {
+                triggerDebouncedSaveRef.current();
+            }, 0);
+        },
+        [patchSet]
+    );
+
+    const recordSetRest = useCallback(
+        (exerciseId: string, setId: string, restSeconds: number) =>
+            updateSetDetails(exerciseId, setId, { restSeconds }),
+        [updateSetDetails]
+    );
+
     // autoSaveOnDefocus removed - using debounced save instead
 
     const addSet = async (exerciseId: string) => {
@@ -293,25 +392,25 @@ export function useWorkoutData({
         const exercise = exercises.find((ex) => ex.id === exerciseId);
         if (!exercise) return;
 
-        // Generate a temporary ID for the new set
-        const tempId = `temp-${exerciseId}-${Date.now()}`;
+        const setId = uuidv4();
 
         // Calculate set number before state update to avoid stale closure issues
         const setNumber = exercise.sets.length + 1;
 
-        // Update local state first
-        setExercises(
-            exercises.map((ex) =>
+        // Update local state first; functional so adding a round to every
+        // exercise in a group doesn't drop sets
+        setExercises((prev) =>
+            prev.map((ex) =>
                 ex.id === exerciseId
                     ? {
                           ...ex,
                           sets: [
                               ...ex.sets,
                               {
-                                  id: tempId,
+                                  id: setId,
                                   reps: "0",
                                   weight: "0",
-                                  isNew: true,
+                                  isNew: false,
                               },
                           ],
                       }
@@ -319,53 +418,20 @@ export function useWorkoutData({
             )
         );
 
-        try {
-            // Log the new set to the database
-            const result = await logWorkoutSet(
-                workoutSessionLogId,
-                exercise.name,
-                setNumber,
-                0, // reps (default to 0)
-                0, // weight (default to 0)
-                exercise.notes,
-                exercise.setOrderMarker
-            );
-
-            // Update the temporary ID with the real one from the database
-            setExercises((prev) =>
-                prev.map((ex) =>
-                    ex.id === exerciseId
-                        ? {
-                              ...ex,
-                              sets: ex.sets.map((s) =>
-                                  s.id === tempId
-                                      ? {
-                                            ...s,
-                                            id: result.workoutDetailId,
-                                            isNew: false,
-                                        }
-                                      : s
-                              ),
-                          }
-                        : ex
-                )
-            );
-        } catch (error) {
-            console.error("Error adding set:", error);
-            toast.error("Failed to add set");
-
-            // Remove the temporary set on error
-            setExercises((prev) =>
-                prev.map((ex) =>
-                    ex.id === exerciseId
-                        ? {
-                              ...ex,
-                              sets: ex.sets.filter((s) => s.id !== tempId),
-                          }
-                        : ex
-                )
-            );
-        }
+        // Log the new set, or hold it on the device until there's signal
+        await queueOperation({
+            type: "create-set",
+            workoutSessionLogId,
+            workoutDetailId: setId,
+            exerciseName: exercise.name,
+            exerciseId: exercise.exerciseId,
+            setNumber,
+            reps: 0, // reps (default to 0)
+            weight: 0, // weight (default to 0)
+            notes: exercise.notes,
+            setOrderMarker: exercise.setOrderMarker,
+            entryTime: new Date().toISOString(),
+        });
     };
 
     const deleteSet = async (exerciseId: string, setId: string) => {
@@ -386,28 +452,13 @@ export function useWorkoutData({
             )
         );
 
-        // If it's not a new set, delete from database
-        if (!set.isNew && !setId.startsWith("temp-")) {
-            try {
-                await deleteWorkoutSet(setId);
-            } catch (error) {
-                console.error("Error deleting set:", error);
-                toast.error("Failed to delete set");
-
-                // Restore the set on error
-                setExercises((prev) =>
-                    prev.map((ex) =>
-                        ex.id === exerciseId
-                            ? {
-                                  ...ex,
-                                  sets: [...ex.sets, set].sort((a, b) =>
-                                      a.id.localeCompare(b.id)
-                                  ),
-                              }
-                            : ex
-                    )
-                );
-            }
+        // If it's been logged, delete it there too
+        if (!set.isNew && workoutSessionLogId) {
+            await queueOperation({
+                type: "delete-set",
+                workoutSessionLogId,
+                workoutDetailId: setId,
+            });
         }
     };
 
@@ -494,42 +545,39 @@ export function useWorkoutData({
             console.log(JSON.stringify(newSetsData, null, 2));
         }
 
-        // Save each unsaved set
+        // Queue each unsaved set under the ID it already has
         for (const { exercise, set } of unsavedSets) {
             const setNumber = exercise.sets.indexOf(set) + 1;
-            const result = await logWorkoutSet(
+            await queueOperation({
+                type: "create-set",
                 workoutSessionLogId,
-                exercise.name,
+                workoutDetailId: set.id,
+                exerciseName: exercise.name,
+                exerciseId: exercise.exerciseId,
                 setNumber,
-                parseInt(set.reps) || 0,
-                parseFloat(set.weight) || 0,
-                set.notes || undefined, // Use individual set notes, not exercise notes
-                exercise.setOrderMarker
-            );
-
-            // Update the set to mark it as saved
-            setExercises((prev) =>
-                prev.map((ex) =>
-                    ex.id === exercise.id
-                        ? {
-                              ...ex,
-                              sets: ex.sets.map((s) =>
-                                  s.id === set.id
-                                      ? {
-                                            ...s,
-                                            id: result.workoutDetailId,
-                                            isNew: false,
-                                        }
-                                      : s
-                              ),
-                          }
-                        : ex
-                )
-            );
+                reps: parseInt(set.reps) || 0,
+                weight: parseFloat(set.weight) || 0,
+                notes: set.notes || undefined, // Use individual set notes, not exercise notes
+                setOrderMarker: exercise.setOrderMarker,
+                entryTime: new Date().toISOString(),
+                restSeconds: set.restSeconds,
+                effort: toSetEffort(set),
+            });
         }
 
+        // Mark the sets as saved
+        const queuedIds = new Set(unsavedSets.map(({ set }) => set.id));
+        setExercises((prev) =>
+            prev.map((ex) => ({
+                ...ex,
+                sets: ex.sets.map((s) =>
+                    queuedIds.has(s.id) ? { ...s, isNew: false } : s
+                ),
+            }))
+        );
+
         return unsavedSets.length;
-    }, [workoutSessionLogId, exercises]);
+    }, [workoutSessionLogId, exercises, queueOperation]);
 
     const saveAllSetDetails = useCallback(async () => {
         if (!workoutSessionLogId) {
@@ -546,11 +594,7 @@ export function useWorkoutData({
         exercises.forEach((exercise) => {
             exercise.sets.forEach((set, index) => {
                 // Only update existing sets (not new ones) that have non-zero reps
-                if (
-                    !set.isNew &&
-                    !set.id.startsWith("temp-") &&
-                    parseInt(set.reps) > 0
-                ) {
+                if (!set.isNew && parseInt(set.reps) > 0) {
                     setsToUpdate.push({
                         exercise,
                         set,
@@ -578,38 +622,28 @@ export function useWorkoutData({
                 coachNote: set.notes || null, // Prioritize individual set notes
             },
             isNew: set.isNew,
-            isTemp: set.id.startsWith("temp-"),
         }));
 
         console.log("🔄 SAVE QUEUE - Sets to be updated in database:");
         console.log(JSON.stringify(queueData, null, 2));
 
-        // Update each set with current details
-        for (const { exercise, set, setNumber } of setsToUpdate) {
-            try {
-                await updateWorkoutSet(set.id, {
-                    reps: parseInt(set.reps) || 0,
-                    weight: parseFloat(set.weight) || 0,
-                    coachNote: set.notes || null, // Use individual set notes only
-                });
-                console.log(
-                    `✅ Updated set ${setNumber} for ${exercise.name}: ${
-                        set.reps
-                    } reps @ ${set.weight} weight, notes: "${
-                        set.notes || "none"
-                    }"`
-                );
-            } catch (error) {
-                console.error(
-                    `❌ Failed to update set ${setNumber} for ${exercise.name}:`,
-                    error
-                );
-                throw error; // Re-throw to handle in the calling function
-            }
+        // Queue each set's current details; edits to a set still waiting
+        // in the outbox are merged into it
+        for (const { set } of setsToUpdate) {
+            await queueOperation({
+                type: "update-set",
+                workoutSessionLogId,
+                workoutDetailId: set.id,
+                reps: parseInt(set.reps) || 0,
+                weight: parseFloat(set.weight) || 0,
+                notes: set.notes || null, // Use individual set notes only
+                restSeconds: set.restSeconds ?? null,
+                effort: toSetEffort(set),
+            });
         }
 
         return setsToUpdate.length;
-    }, [workoutSessionLogId, exercises]);
+    }, [workoutSessionLogId, exercises, queueOperation]);
 
     // Debounced auto-save function (defined after save functions)
     const triggerDebouncedSave = useCallback(() => {
@@ -673,6 +707,9 @@ export function useWorkoutData({
         isLoading,
         toggleExerciseExpansion,
         updateSetValue,
+        setSetCompleted,
+        updateSetDetails,
+        recordSetRest,
         addSet,
         deleteSet,
         saveUnsavedSets,
@@ -681,7 +718,12 @@ export function useWorkoutData({
         isSaving,
         saveStatus,
         pendingOperations,
+        conflicts,
+        isOnline,
+        queueOperation,
         saveNow,
+        clearPending,
+        dismissConflicts,
         // Debounced auto-save
         isSyncing,
         hasUnsavedChanges,
@@ -0,0 +1,300 @@
+/**
+ * Calendar feed builder
+ * Turns a client's logged workouts and active phase into iCalendar events
+ * for the token-protected .ics subscription route.
+ */
+
+import "server-only";
+import { db } from "@/db/xata";
+import {
+    CalendarFeedTokens,
+    ExercisePlans,
+    Phases,
+    PhaseSchedules,
+    Sessions,
+    SessionWeekdays,
+    TrainerClients,
+    Users,
+    WorkoutSessionDetails,
+    WorkoutSessionsLog,
+} from "@/db/schemas";
+import { and, asc, desc, eq, gte, inArray } from "drizzle-orm";
+import { addDays, addMinutes, parseISO, startOfWeek, subDays } from "date-fns";
+import { buildIcsCalendar, formatIcsDateTime, IcsEvent } from "./ics";
+import { CalendarFeedType } from "@/types/workout-schedule-types";
+
+const COMPLETED_HISTORY_DAYS = 180;
+const DEFAULT_SESSION_MINUTES = 60;
+const SUGGESTED_START_HOUR = 18; // Local time in the subscriber's calendar
+
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Training days used to spread a phase's sessions over the week when it has no schedule
+const ROTATION_DAYS: Record<number, number[]> = {
+    1: [1],
+    2: [1, 4],
+    3: [1, 3, 5],
+    4: [1, 2, 4, 5],
+    5: [1, 2, 3, 4, 5],
+    6: [1, 2, 3, 4, 5, 6],
+    7: [1, 2, 3, 4, 5, 6, 0],
+};
+
+/**
+ * Looks up the feed a subscription token grants access to
+ * @param token The secret token from the feed URL
+ * @returns The feed owner and type, or null for unknown tokens
+ */
+export async function resolveCalendarFeedToken(token: string) {
+    const rows = await db
+        .select({
+            userId: CalendarFeedTokens.userId,
+            feedType: CalendarFeedTokens.feedType,
+            fullName: Users.fullName,
+        })
+        .from(CalendarFeedTokens)
+        .innerJoin(Users, eq(Users.userId, CalendarFeedTokens.userId))
+        .where(eq(CalendarFeedTokens.token, token))
+        .limit(1);
+
+    if (!rows.length) return null;
+    return { ...rows[0], feedType: rows[0].feedType as CalendarFeedType };
+}
+
+/**
+ * Completed workouts with every logged set in the description
+ */
+async function getCompletedSessionEvents(
+    clients: Map<string, string | null> // clientId -> summary prefix
+): Promise<IcsEvent[]> {
+    const logs = await db
+        .select({
+            workoutSessionLogId: WorkoutSessionsLog.workoutSessionLogId,
+            userId: WorkoutSessionsLog.userId,
+            sessionName: WorkoutSessionsLog.sessionName,
+            startTime: WorkoutSessionsLog.startTime,
+            endTime: WorkoutSessionsLog.endTime,
+        })
+        .from(WorkoutSessionsLog)
+        .where(
+            and(
+                inArray(WorkoutSessionsLog.userId, Array.from(clients.keys())),
+                gte(
+                    WorkoutSessionsLog.startTime,
+                    subDays(new Date(), COMPLETED_HISTORY_DAYS)
+                )
+            )
+        )
+        .orderBy(desc(WorkoutSessionsLog.startTime));
+
+    if (logs.length === 0) return [];
+
+    const details = await db
+        .select({
+            workoutSessionLogId: WorkoutSessionDetails.workoutSessionLogId,
+            exerciseName: WorkoutSessionDetails.exerciseName,
+            reps: WorkoutSessionDetails.reps,
+            weight: WorkoutSessionDetails.weight,
+        })
+        .from(WorkoutSessionDetails)
+        .where(
+            inArray(
+                WorkoutSessionDetails.workoutSessionLogId,
+                logs.map((log) => log.workoutSessionLogId)
+            )
+        )
+        .orderBy(asc(WorkoutSessionDetails.entryTime));
+
+    // logId -> exercise name -> "reps×weight" per set, in logged order
+    const setsByLog = new Map<string, Map<string, string[]>>();
+    for (const detail of details) {
+        const exercises =
+            setsByLog.get(detail.workoutSessionLogId) ??
+            new Map<string, string[]>();
+        setsByLog.set(detail.workoutSessionLogId, exercises);
+        const set = `${detail.reps ?? 0}${
+            detail.weight ? `×${detail.weight}kg` : " reps"
+        }`;
+        exercises.set(detail.exerciseName, [
+            ...(exercises.get(detail.exerciseName) ?? []),
+            set,
+        ]);
+    }
+
+    return logs.map((log) => {
+        const prefix = clients.get(log.userId);
+        const exercises = setsByLog.get(log.workoutSessionLogId);
+        return {
+            uid: `log-${log.workoutSessionLogId}@movement-admin`,
+            summary: `${prefix ? `${prefix}: ` : ""}${log.sessionName} ✓`,
+            description: exercises
+                ? Array.from(exercises.entries())
+                      .map(([name, sets]) => `${name}: ${sets.join(", ")}`)
+                      .join("\n")
+                : "No sets logged",
+            start: log.startTime,
+            end:
+                log.endTime ??
+                addMinutes(log.startTime, DEFAULT_SESSION_MINUTES),
+        };
+    });
+}
+
+/**
+ * Weekly recurring events for the sessions of each client's active phase.
+ * Uses the phase's weekly schedule when one is set, otherwise spreads the
+ * sessions over the week as a suggested rotation starting this week.
+ */
+async function getActivePhaseRotationEvents(
+    clients: Map<string, string | null>
+): Promise<IcsEvent[]> {
+    const rows = await db
+        .select({
+            clientId: ExercisePlans.assignedToUserId,
+            phaseId: Phases.phaseId,
+            phaseName: Phases.phaseName,
+            scheduleStart: PhaseSchedules.startDate,
+            scheduleEnd: PhaseSchedules.endDate,
+            sessionId: Sessions.sessionId,
+            sessionName: Sessions.sessionName,
+            sessionTime: Sessions.sessionTime,
+            weekdays: SessionWeekdays.weekdays,
+        })
+        .from(ExercisePlans)
+        .innerJoin(Phases, eq(Phases.planId, ExercisePlans.planId))
+        .innerJoin(Sessions, eq(Sessions.phaseId, Phases.phaseId))
+        .leftJoin(PhaseSchedules, eq(PhaseSchedules.phaseId, Phases.phaseId))
+        .leftJoin(
+            SessionWeekdays,
+            eq(SessionWeekdays.sessionId, Sessions.sessionId)
+        )
+        .where(
+            and(
+                inArray(
+                    ExercisePlans.assignedToUserId,
+                    Array.from(clients.keys())
+                ),
+                eq(ExercisePlans.isTemplate, false),
+                eq(ExercisePlans.isActive, true),
+                eq(Phases.isActive, true)
+            )
+        )
+        .orderBy(asc(Phases.phaseId), asc(Sessions.orderNumber));
+
+    const phases = new Map<string, typeof rows>();
+    for (const row of rows) {
+        phases.set(row.phaseId, [...(phases.get(row.phaseId) ?? []), row]);
+    }
+
+    const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
+    const events: IcsEvent[] = [];
+
+    for (const sessions of phases.values()) {
+        const scheduled = sessions[0].scheduleStart !== null;
+        const rotation = ROTATION_DAYS[Math.min(sessions.length, 7)];
+
+        sessions.forEach((session, index) => {
+            const prefix = clients.get(session.clientId ?? "");
+            const minutes = session.sessionTime || DEFAULT_SESSION_MINUTES;
+
+            let firstDay: Date;
+            let rrule: string;
+
+            if (scheduled) {
+                const weekdays = session.weekdays ?? [];
+                if (weekdays.length === 0) return;
+                firstDay = parseISO(session.scheduleStart as string);
+                while (!weekdays.includes(firstDay.getDay())) {
+                    firstDay = addDays(firstDay, 1);
+                }
+                rrule = `FREQ=WEEKLY;BYDAY=${weekdays
+                    .map((day) => ICS_WEEKDAYS[day])
+                    .join(",")}`;
+                if (session.scheduleEnd) {
+                    const until = parseISO(session.scheduleEnd);
+                    until.setHours(23, 59);
+                    rrule += `;UNTIL=${formatIcsDateTime(until, true)}`;
+                }
+            } else {
+                // Sessions beyond one per training day repeat every few weeks
+                const weekday = rotation[index % rotation.length];
+                const weekOffset = Math.floor(index / rotation.length);
+                const interval = Math.ceil(sessions.length / rotation.length);
+                firstDay = addDays(
+                    weekStart,
+                    weekOffset * 7 + ((weekday + 6) % 7) // Days after Monday
+                );
+                rrule = `FREQ=WEEKLY;INTERVAL=${interval};BYDAY=${ICS_WEEKDAYS[weekday]}`;
+            }
+
+            const start = new Date(firstDay);
+            start.setHours(SUGGESTED_START_HOUR, 0, 0, 0);
+
+            events.push({
+                uid: `session-${session.sessionId}@movement-admin`,
+                summary: `${prefix ? `${prefix}: ` : ""}${session.sessionName}`,
+                description: `${session.phaseName}${
+                    scheduled ? "" : " (suggested rotation)"
+                }\nEstimated duration: ${Math.round(minutes)} min`,
+                start,
+                end: addMinutes(start, minutes),
+                floating: true,
+                rrule,
+            });
+        });
+    }
+
+    return events;
+}
+
+/**
+ * Builds the .ics document for a single client
+ */
+export async function buildClientCalendarFeed(
+    clientId: string,
+    clientName: string
+) {
+    const clients = new Map<string, string | null>([[clientId, null]]);
+    const [completed, rotation] = await Promise.all([
+        getCompletedSessionEvents(clients),
+        getActivePhaseRotationEvents(clients),
+    ]);
+
+    return buildIcsCalendar(`${clientName} – Workouts`, [
+        ...rotation,
+        ...completed,
+    ]);
+}
+
+/**
+ * Builds the .ics document aggregating every active client of a coach,
+ * with each event prefixed by the client's name
+ */
+export async function buildCoachCalendarFeed(
+    trainerId: string,
+    trainerName: string
+) {
+    const rows = await db
+        .select({ clientId: TrainerClients.clientId, fullName: Users.fullName })
+        .from(TrainerClients)
+        .innerJoin(Users, eq(Users.userId, TrainerClients.clientId))
+        .where(
+            and(
+                eq(TrainerClients.trainerId, trainerId),
+                eq(TrainerClients.isActive, true)
+            )
+        );
+
+    const calendarName = `${trainerName} – Client Workouts`;
+    if (rows.length === 0) return buildIcsCalendar(calendarName, []);
+
+    const clients = new Map<string, string | null>(
+        rows.map((row) => [row.clientId, row.fullName])
+    );
+    const [completed, rotation] = await Promise.all([
+        getCompletedSessionEvents(clients),
+        getActivePhaseRotationEvents(clients),
+    ]);
+
+    return buildIcsCalendar(calendarName, [...rotation, ...completed]);
+}
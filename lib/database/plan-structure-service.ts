@@ -0,0 +1,147 @@
+/**
+ * Plan structure service
+ * Bulk copy/delete of a plan's phase -> session -> exercise rows.
+ * Shared by templates and plan duplication; free of Next.js dependencies.
+ */
+
+import type { workerDb } from "./worker-db";
+import {
+    Phases,
+    Sessions,
+    ExercisePlanExercises,
+} from "./worker-schemas";
+import { asc, eq, inArray } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+
+type DbConnection = Pick<typeof workerDb, "select" | "insert" | "delete">;
+
+/**
+ * Deep copies every phase, session and exercise row of one plan into another.
+ * New IDs are generated for all rows so the copy shares nothing with the source.
+ * @param tx Active transaction (or db handle)
+ * @param sourcePlanId Plan to copy from
+ * @param targetPlanId Plan to copy into (must already exist)
+ * @param options.orderOffset Added to every phase order number (avoids unique_plan_order clashes)
+ * @param options.deactivatePhases Insert all copied phases as inactive
+ */
+export async function copyPlanStructure(
+    tx: DbConnection,
+    sourcePlanId: string,
+    targetPlanId: string,
+    options: { orderOffset?: number; deactivatePhases?: boolean } = {}
+) {
+    const { orderOffset = 0, deactivatePhases = false } = options;
+
+    const sourcePhases = await tx
+        .select()
+        .from(Phases)
+        .where(eq(Phases.planId, sourcePlanId))
+        .orderBy(asc(Phases.orderNumber));
+
+    if (sourcePhases.length === 0) {
+        return { phases: 0, sessions: 0, exercises: 0 };
+    }
+
+    const phaseIdMap = new Map<string, string>();
+    const phasesToInsert = sourcePhases.map((phase, index) => {
+        const newPhaseId = uuidv4();
+        phaseIdMap.set(phase.phaseId, newPhaseId);
+        return {
+            phaseId: newPhaseId,
+            planId: targetPlanId,
+            phaseName: phase.phaseName,
+            orderNumber: orderOffset > 0 ? orderOffset + index : phase.orderNumber,
+            isActive: deactivatePhases ? false : phase.isActive,
+        };
+    });
+
+    const sourceSessions = await tx
+        .select()
+        .from(Sessions)
+        .where(inArray(Sessions.phaseId, Array.from(phaseIdMap.keys())));
+
+    const sessionIdMap = new Map<string, string>();
+    const sessionsToInsert = sourceSessions.map((session) => {
+        const newSessionId = uuidv4();
+        sessionIdMap.set(session.sessionId, newSessionId);
+        return {
+            sessionId: newSessionId,
+            phaseId: phaseIdMap.get(session.phaseId)!,
+            sessionName: session.sessionName,
+            orderNumber: session.orderNumber,
+            sessionTime: session.sessionTime,
+        };
+    });
+
+    const sourceExercises =
+        sessionIdMap.size > 0
+            ? await tx
+                  .select()
+                  .from(ExercisePlanExercises)
+                  .where(
+                      inArray(
+                          ExercisePlanExercises.sessionId,
+                          Array.from(sessionIdMap.keys())
+                      )
+                  )
+            : [];
+
+    const exercisesToInsert = sourceExercises.map((exercise) => ({
+        ...exercise,
+        planExerciseId: uuidv4(),
+        sessionId: sessionIdMap.get(exercise.sessionId)!,
+    }));
+
+    await tx.insert(Phases).values(phasesToInsert);
+
+    if (sessionsToInsert.length > 0) {
+        await tx.insert(Sessions).values(sessionsToInsert);
+    }
+
+    // Split into chunks to avoid potential query size limits
+    const chunkSize = 100;
+    for (let i = 0; i < exercisesToInsert.length; i += chunkSize) {
+        await tx
+            .insert(ExercisePlanExercises)
+            .values(exercisesToInsert.slice(i, i + chunkSize));
+    }
+
+    return {
+        phases: phasesToInsert.length,
+        sessions: sessionsToInsert.length,
+        exercises: exercisesToInsert.length,
+    };
+}
+
+/**
+ * Deletes all phases, sessions and exercises belonging to a plan
+ * @param tx Active transaction (or db handle)
+ * @param planId Plan whose contents should be removed
+ */
+export async function deletePlanStructure(
+    tx: DbConnection,
+    planId: string
+) {
+    const phaseRows = await tx
+        .select({ phaseId: Phases.phaseId })
+        .from(Phases)
+        .where(eq(Phases.planId, planId));
+    const phaseIds = phaseRows.map((p) => p.phaseId);
+
+    if (phaseIds.length === 0) return;
+
+    const sessionRows = await tx
+        .select({ sessionId: Sessions.sessionId })
+        .from(Sessions)
+        .where(inArray(Sessions.phaseId, phaseIds));
+    const sessionIds = sessionRows.map((s) => s.sessionId);
+
+    if (sessionIds.length > 0) {
+        await tx
+            .delete(ExercisePlanExercises)
+            .where(inArray(ExercisePlanExercises.sessionId, sessionIds));
+        await tx.delete(Sessions).where(inArray(Sessions.sessionId, sessionIds));
+    }
+
+    await tx.delete(Phases).where(inArray(Phases.phaseId, phaseIds));
+}
@@ -0,0 +1,203 @@
+/**
+ * Plan version service
+ * Records immutable snapshots of a workout plan after each save.
+ * Kept free of Next.js dependencies so both server actions and
+ * queue workers can call it inside their own transactions.
+ */
+
+import type { workerDb } from "./worker-db";
+import {
+    ExercisePlans,
+    Phases,
+    Sessions,
+    ExercisePlanExercises,
+    Exercises,
+    WorkoutPlanVersions,
+} from "./worker-schemas";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import {
+    ExerciseGroupType,
+    Phase,
+    WorkoutPlanChanges,
+} from "../../types/workout-plan-types";
+
+/**
+ * Any drizzle database or transaction handle able to select and insert.
+ * Both the Next.js db and the worker db (and their transactions) satisfy this.
+ */
+type DbConnection = Pick<typeof workerDb, "select" | "insert">;
+
+const toStringValue = (value: number | null | undefined) =>
+    value !== null && value !== undefined ? value.toString() : "";
+
+/**
+ * Reads the full phase -> session -> exercise tree of a plan
+ * in the same shape the planner uses
+ */
+export async function loadPlanSnapshot(
+    conn: DbConnection,
+    planId: string
+): Promise<Phase[]> {
+    const phaseRows = await conn
+        .select()
+        .from(Phases)
+        .where(eq(Phases.planId, planId))
+        .orderBy(asc(Phases.orderNumber));
+
+    if (phaseRows.length === 0) return [];
+
+    const sessionRows = await conn
+        .select()
+        .from(Sessions)
+        .where(
+            inArray(
+                Sessions.phaseId,
+                phaseRows.map((p) => p.phaseId)
+            )
+        )
+        .orderBy(asc(Sessions.orderNumber));
+
+    const exerciseRows =
+        sessionRows.length > 0
+            ? await conn
+                  .select({
+                      planExercise: ExercisePlanExercises,
+                      exerciseName: Exercises.exerciseName,
+                  })
+                  .from(ExercisePlanExercises)
+                  .leftJoin(
+                      Exercises,
+                      eq(ExercisePlanExercises.exerciseId, Exercises.exerciseId)
+                  )
+                  .where(
+                      inArray(
+                          ExercisePlanExercises.sessionId,
+                          sessionRows.map((s) => s.sessionId)
+                      )
+                  )
+                  .orderBy(asc(ExercisePlanExercises.setOrderMarker))
+            : [];
+
+    return phaseRows.map((phase) => ({
+        id: phase.phaseId,
+        planId,
+        name: phase.phaseName,
+        orderNumber: phase.orderNumber,
+        isActive: phase.isActive ?? false,
+        isExpanded: false,
+        sessions: sessionRows
+            .filter((session) => session.phaseId === phase.phaseId)
+            .map((session) => ({
+                id: session.sessionId,
+                phaseId: phase.phaseId,
+                name: session.sessionName,
+                duration: session.sessionTime ?? 0,
+                orderNumber: session.orderNumber,
+                isExpanded: false,
+                exercises: exerciseRows
+                    .filter(
+                        (row) =>
+                            row.planExercise.sessionId === session.sessionId
+                    )
+                    .map(({ planExercise, exerciseName }) => ({
+                        id: planExercise.planExerciseId,
+                        sessionId: session.sessionId,
+                        exerciseId: planExercise.exerciseId,
+                        order: planExercise.setOrderMarker ?? "",
+                        motion: planExercise.motion ?? "",
+                        targetArea: planExercise.targetArea ?? "",
+                        description: exerciseName ?? "",
+                        setsMin: toStringValue(planExercise.setsMin),
+                        setsMax: toStringValue(planExercise.setsMax),
+                        repsMin: toStringValue(planExercise.repsMin),
+                        repsMax: toStringValue(planExercise.repsMax),
+                        restMin: toStringValue(planExercise.restMin),
+                        restMax: toStringValue(planExercise.restMax),
+                        tut: toStringValue(planExercise.tut),
+                        tempo: planExercise.tempo ?? "",
+                        customizations: planExercise.customizations ?? "",
+                        additionalInfo: planExercise.customizations ?? "",
+                        notes: planExercise.notes ?? "",
+                        groupType: (planExercise.groupType ??
+                            "") as ExerciseGroupType | "",
+                        groupRounds: toStringValue(planExercise.groupRounds),
+                        groupRest: toStringValue(planExercise.groupRest),
+                    })),
+            })),
+    }));
+}
+
+/**
+ * Writes a new immutable version of a plan.
+ * Call this inside the same transaction as the save, after the plan's
+ * updatedAt has been bumped: the row lock taken by that update serialises
+ * concurrent saves so version numbers never collide.
+ * @param conn Database or transaction handle
+ * @param planId The plan that was saved
+ * @param changes The changes applied by the save (null when unknown)
+ * @param options.userId The user who made the save, if known
+ * @param options.note Short description, e.g. "Restored from version 3"
+ * @returns The new version number
+ */
+export async function recordPlanVersion(
+    conn: DbConnection,
+    planId: string,
+    changes: WorkoutPlanChanges | null,
+    options: { userId?: string | null; note?: string | null } = {}
+): Promise<number> {
+    const snapshot = await loadPlanSnapshot(conn, planId);
+
+    const latest = await conn
+        .select({ versionNumber: WorkoutPlanVersions.versionNumber })
+        .from(WorkoutPlanVersions)
+        .where(eq(WorkoutPlanVersions.planId, planId))
+        .orderBy(desc(WorkoutPlanVersions.versionNumber))
+        .limit(1);
+
+    const versionNumber = (latest[0]?.versionNumber ?? 0) + 1;
+
+    const plan = await conn
+        .select({ updatedAt: ExercisePlans.updatedAt })
+        .from(ExercisePlans)
+        .where(eq(ExercisePlans.planId, planId))
+        .limit(1);
+
+    await conn.insert(WorkoutPlanVersions).values({
+        planId,
+        versionNumber,
+        snapshot,
+        changes,
+        note: options.note ?? null,
+        planUpdatedAt: plan[0]?.updatedAt ?? null,
+        createdByUserId: options.userId ?? null,
+        createdAt: new Date(),
+    });
+
+    return versionNumber;
+}
+
+/**
+ * Finds the snapshot saved when the plan had the given updatedAt,
+ * i.e. the state a client last loaded. Used as the merge base when
+ * a save arrives with a stale timestamp.
+ * @returns The snapshot, or null if no version matches (e.g. pre-history plans)
+ */
+export async function findPlanSnapshotAt(
+    conn: DbConnection,
+    planId: string,
+    planUpdatedAt: Date
+): Promise<Phase[] | null> {
+    const rows = await conn
+        .select({ snapshot: WorkoutPlanVersions.snapshot })
+        .from(WorkoutPlanVersions)
+        .where(
+            and(
+                eq(WorkoutPlanVersions.planId, planId),
+                eq(WorkoutPlanVersions.planUpdatedAt, planUpdatedAt)
+            )
+        )
+        .orderBy(desc(WorkoutPlanVersions.versionNumber))
+        .limit(1);
+
+    return rows.length ? (rows[0].snapshot as Phase[]) : null;
+}
@@ -20,6 +20,7 @@ import {
     Users,
     WorkoutSessionDetails,
     WorkoutSessionsLog,
+    WorkoutPlanVersions,
 } from "./worker-schemas";
 
 // Load environment variables for worker context
@@ -61,6 +62,7 @@ export function createWorkerDb() {
             WorkoutSessionDetails,
             WorkoutSessionsLog,
             BMCMeasurements,
+            WorkoutPlanVersions,
         },
     });
 }
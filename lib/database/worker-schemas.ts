@@ -13,6 +13,7 @@ import {
     real,
     unique,
     uuid,
+    jsonb,
     pgEnum,
     index,
     uniqueIndex,
@@ -158,11 +159,14 @@ export const ExercisePlans = pgTable(
             }
         ),
         isActive: boolean("is_active").default(false),
+        isTemplate: boolean("is_template").default(false).notNull(),
+        description: text("description"),
     },
     (table) => [
         index("idx_plans_creator").on(table.createdByUserId),
         index("idx_plans_assigned").on(table.assignedToUserId),
         index("idx_plans_active").on(table.isActive),
+        index("idx_plans_template").on(table.isTemplate),
     ]
 );
 
@@ -235,6 +239,9 @@ export const ExercisePlanExercises = pgTable(
         setOrderMarker: text("setOrderMarker"),
         customizations: text("customizations"),
         notes: text("notes").default(""),
+        groupType: text("group_type"),
+        groupRounds: integer("group_rounds"),
+        groupRest: integer("group_rest"),
     },
     (table) => [
         index("idx_session_exercise_order")
@@ -263,6 +270,39 @@ export const Goals = pgTable("Goals", {
     createdDate: timestamp("created_date").defaultNow().notNull(),
 });
 
+// WorkoutPlanVersions Table
+export const WorkoutPlanVersions = pgTable(
+    "WorkoutPlanVersions",
+    {
+        versionId: uuid("version_id")
+            .primaryKey()
+            .default(sql`uuid_generate_v4()`),
+        planId: uuid("plan_id")
+            .notNull()
+            .references(() => ExercisePlans.planId, { onDelete: "cascade" }),
+        versionNumber: integer("version_number").notNull(),
+        snapshot: jsonb("snapshot").notNull(), // Full Phase[] state after the save
+        changes: jsonb("changes"), // WorkoutPlanChanges that produced this version
+        note: text("note"),
+        planUpdatedAt: timestamp("plan_updated_at"), // ExercisePlans.updatedAt this snapshot corresponds to
+        createdByUserId: text("created_by_user_id").references(
+            () => Users.userId,
+            {
+                onDelete: "set null",
+                onUpdate: "cascade",
+            }
+        ),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        unique("uq_plan_version").on(table.planId, table.versionNumber),
+        index("idx_plan_versions_plan").on(
+            table.planId,
+            table.versionNumber.desc()
+        ),
+    ]
+);
+
 // BMCMeasurements Table
 export const BMCMeasurements = pgTable(
     "BMCMeasurements",
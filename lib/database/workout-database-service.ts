@@ -13,6 +13,8 @@ import {
 } from "./worker-schemas";
 import { eq, inArray } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
+import { recordPlanVersion } from "./plan-version-service";
+import { deriveTut } from "../../components/workout-planning/workout-utils/tempo";
 import {
     WorkoutPlanActionResponse,
     WorkoutPlanChanges,
@@ -25,7 +27,8 @@ import {
  */
 export async function applyWorkoutPlanChangesWorker(
     planId: string,
-    changes: WorkoutPlanChanges
+    changes: WorkoutPlanChanges,
+    userId?: string
 ): Promise<WorkoutPlanActionResponse> {
     try {
         // Skip processing if there are no actual changes
@@ -177,6 +180,8 @@ export async function applyWorkoutPlanChangesWorker(
                 }
                 if (exerciseUpdate.changes.tempo !== undefined) {
                     updateData.tempo = exerciseUpdate.changes.tempo;
+                    // Saves carry tempo and reps together, so TUT can be derived
+                    updateData.tut = deriveTut(exerciseUpdate.changes);
                 }
                 if (exerciseUpdate.changes.restMin !== undefined) {
                     updateData.restMin =
@@ -197,6 +202,18 @@ export async function applyWorkoutPlanChangesWorker(
                     updateData.setOrderMarker = exerciseUpdate.changes.order;
                     updateData.exerciseOrder = 0; // Keep as 0 as requested
                 }
+                if (exerciseUpdate.changes.groupType !== undefined) {
+                    updateData.groupType =
+                        exerciseUpdate.changes.groupType || null;
+                }
+                if (exerciseUpdate.changes.groupRounds !== undefined) {
+                    updateData.groupRounds =
+                        parseInt(exerciseUpdate.changes.groupRounds) || null;
+                }
+                if (exerciseUpdate.changes.groupRest !== undefined) {
+                    updateData.groupRest =
+                        parseInt(exerciseUpdate.changes.groupRest) || null;
+                }
 
                 if (Object.keys(updateData).length > 0) {
                     await tx
@@ -255,6 +272,7 @@ export async function applyWorkoutPlanChangesWorker(
                         repsMax:
                             parseInt(exerciseData.exercise.repsMax || "0") || 0,
                         tempo: exerciseData.exercise.tempo || "",
+                        tut: deriveTut(exerciseData.exercise),
                         restMin:
                             parseInt(exerciseData.exercise.restMin || "0") || 0,
                         restMax:
@@ -266,6 +284,13 @@ export async function applyWorkoutPlanChangesWorker(
                         notes: exerciseData.exercise.notes || "",
                         exerciseOrder: 0, // Redundant field for future use
                         setOrderMarker: exerciseData.exercise.order || "",
+                        groupType: exerciseData.exercise.groupType || null,
+                        groupRounds:
+                            parseInt(exerciseData.exercise.groupRounds || "") ||
+                            null,
+                        groupRest:
+                            parseInt(exerciseData.exercise.groupRest || "") ||
+                            null,
                     })
                 );
 
@@ -283,6 +308,8 @@ export async function applyWorkoutPlanChangesWorker(
                 .set({ updatedAt: now })
                 .where(eq(ExercisePlans.planId, planId));
 
+            await recordPlanVersion(tx, planId, changes, { userId });
+
             return {
                 success: true,
                 planId: planId,
@@ -354,12 +381,16 @@ export async function createWorkoutPlanWorker(
             repsMin?: number;
             repsMax?: number;
             tempo?: string;
+            tut?: number | null;
             restMin?: number;
             restMax?: number;
             customizations?: string;
             notes?: string;
             exerciseOrder?: number;
             setOrderMarker?: string;
+            groupType?: string | null;
+            groupRounds?: number | null;
+            groupRest?: number | null;
         }[] = [];
 
         // Process phases, sessions, and exercises
@@ -393,6 +424,7 @@ export async function createWorkoutPlanWorker(
                         repsMin: parseInt(exercise.repsMin || "0", 10) || 0,
                         repsMax: parseInt(exercise.repsMax || "0", 10) || 0,
                         tempo: exercise.tempo || "",
+                        tut: deriveTut(exercise),
                         restMin: parseInt(exercise.restMin || "0", 10) || 0,
                         restMax: parseInt(exercise.restMax || "0", 10) || 0,
                         customizations:
@@ -402,6 +434,9 @@ export async function createWorkoutPlanWorker(
                         notes: exercise.notes || "",
                         exerciseOrder: 0, // Redundant field for future use
                         setOrderMarker: exercise.order || "",
+                        groupType: exercise.groupType || null,
+                        groupRounds: parseInt(exercise.groupRounds || "") || null,
+                        groupRest: parseInt(exercise.groupRest || "") || null,
                     });
                 }
             }
@@ -438,6 +473,11 @@ export async function createWorkoutPlanWorker(
                 }
             }
 
+            await recordPlanVersion(tx, planId, null, {
+                userId: trainerId,
+                note: "Plan created",
+            });
+
             return {
                 success: true,
                 planId: planId,
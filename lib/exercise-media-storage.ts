@@ -0,0 +1,103 @@
+import "server-only";
+import { mkdir, readFile, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { ID } from "node-appwrite";
+import { createAdminClient } from "@/appwrite/config";
+
+/**
+ * Where exercise videos, images and thumbnails are kept. Appwrite storage
+ * in production; a folder on disk in development, or when
+ * EXERCISE_MEDIA_STORAGE=local, so uploads work without an Appwrite key.
+ */
+export interface ExerciseMediaStorage {
+    /** Stores a file and returns the URL it can be viewed at */
+    save(file: File): Promise<string>;
+    /** Removes a file previously returned by save; ignores other URLs */
+    remove(url: string): Promise<void>;
+}
+
+export const LOCAL_MEDIA_ROUTE = "/api/exercise-media";
+
+const localMediaDir = () =>
+    path.resolve(process.env.EXERCISE_MEDIA_DIR || ".media/exercises");
+
+const bucketId = () =>
+    process.env.NEXT_PUBLIC_STORAGE_EXERCISE_MEDIA || "exercise_media";
+
+// Taken from the validated type rather than the name the browser sent
+const EXTENSIONS: Record<string, string> = {
+    "video/mp4": ".mp4",
+    "video/webm": ".webm",
+    "video/quicktime": ".mov",
+    "image/jpeg": ".jpg",
+    "image/png": ".png",
+    "image/webp": ".webp",
+    "image/gif": ".gif",
+};
+
+const extensionOf = (file: File) => EXTENSIONS[file.type] ?? "";
+
+const appwriteStorage: ExerciseMediaStorage = {
+    async save(file) {
+        const { storage } = await createAdminClient();
+        const created = await storage.createFile(bucketId(), ID.unique(), file);
+        return `${
+            process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT
+        }/storage/buckets/${bucketId()}/files/${created.$id}/view?project=${
+            process.env.NEXT_PUBLIC_PROJECT_ID
+        }`;
+    },
+
+    async remove(url) {
+        const match = url.match(
+            /\/storage\/buckets\/([^/]+)\/files\/([^/]+)\//
+        );
+        if (!match || match[1] !== bucketId()) return;
+        const { storage } = await createAdminClient();
+        await storage.deleteFile(match[1], match[2]);
+    },
+};
+
+const localDiskStorage: ExerciseMediaStorage = {
+    async save(file) {
+        const fileName = `${ID.unique()}${extensionOf(file)}`;
+        await mkdir(localMediaDir(), { recursive: true });
+        await writeFile(
+            path.join(localMediaDir(), fileName),
+            Buffer.from(await file.arrayBuffer())
+        );
+        return `${LOCAL_MEDIA_ROUTE}/${fileName}`;
+    },
+
+    async remove(url) {
+        if (!url.startsWith(`${LOCAL_MEDIA_ROUTE}/`)) return;
+        const fileName = path.basename(url);
+        await rm(path.join(localMediaDir(), fileName), { force: true });
+    },
+};
+
+export function getExerciseMediaStorage(): ExerciseMediaStorage {
+    const useLocal =
+        process.env.EXERCISE_MEDIA_STORAGE === "local" ||
+        (process.env.NODE_ENV !== "production" &&
+            !process.env.NEXT_PUBLIC_APPWRITE_AUTH_API);
+    return useLocal ? localDiskStorage : appwriteStorage;
+}
+
+/**
+ * Reads a file written by the local stand-in
+ * @returns null when the name is invalid or the file doesn't exist
+ */
+export async function readLocalExerciseMedia(
+    fileName: string
+): Promise<{ data: Buffer; size: number } | null> {
+    // Names are generated by save(); anything else could escape the folder
+    if (!/^[a-z0-9]+(\.[a-z0-9]+)?$/i.test(fileName)) return null;
+    const filePath = path.join(localMediaDir(), fileName);
+    try {
+        const { size } = await stat(filePath);
+        return { data: await readFile(filePath), size };
+    } catch {
+        return null;
+    }
+}
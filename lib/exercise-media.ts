@@ -0,0 +1,48 @@
+/**
+ * Upload rules for exercise demo media, shared by the upload form and the
+ * upload API
+ */
+
+export const EXERCISE_VIDEO_TYPES = [
+    "video/mp4",
+    "video/webm",
+    "video/quicktime",
+];
+export const EXERCISE_IMAGE_TYPES = [
+    "image/jpeg",
+    "image/png",
+    "image/webp",
+    "image/gif",
+];
+
+export const MAX_EXERCISE_VIDEO_SIZE = 100 * 1024 * 1024; // 100MB
+export const MAX_EXERCISE_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
+
+export const EXERCISE_THUMBNAIL_WIDTH = 320;
+export const EXERCISE_THUMBNAIL_HEIGHT = 180;
+
+export interface ExerciseMediaUpload {
+    kind: "video" | "image";
+    url: string;
+    thumbnailUrl: string | null;
+}
+
+/**
+ * Why a file can't be used as exercise media, or null when it can
+ */
+export function validateExerciseMedia(file: {
+    type: string;
+    size: number;
+}): string | null {
+    if (EXERCISE_VIDEO_TYPES.includes(file.type)) {
+        return file.size > MAX_EXERCISE_VIDEO_SIZE
+            ? "Video is too large (max 100MB)"
+            : null;
+    }
+    if (EXERCISE_IMAGE_TYPES.includes(file.type)) {
+        return file.size > MAX_EXERCISE_IMAGE_SIZE
+            ? "Image is too large (max 10MB)"
+            : null;
+    }
+    return "File must be a video (MP4, WebM or MOV) or an image (JPEG, PNG, WebP or GIF)";
+}
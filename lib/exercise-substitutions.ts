@@ -0,0 +1,118 @@
+import type { SelectExerciseWithAliases, TaxonomyTag } from "@/db/schemas";
+
+/**
+ * Ranks library exercises as stand-ins for another one, for when the
+ * equipment is taken or the client can't do the planned movement
+ */
+
+const WEIGHTS = {
+    targetArea: 0.4,
+    motion: 0.25,
+    movement: 0.15,
+    equipment: 0.2,
+};
+
+// Below this a suggestion shares too little with the original to be useful
+export const MIN_SUBSTITUTE_SCORE = 0.3;
+
+export interface SubstituteScore {
+    score: number; // 0-1
+    reasons: string[];
+}
+
+const sameText = (a?: string | null, b?: string | null) =>
+    !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const tagIds = (tags?: TaxonomyTag[]) => new Set(tags?.map((tag) => tag.id));
+
+function overlap(a?: TaxonomyTag[], b?: TaxonomyTag[]) {
+    const ids = tagIds(b);
+    const shared = (a ?? []).filter((tag) => ids.has(tag.id));
+    const union = new Set([...(a ?? []), ...(b ?? [])].map((tag) => tag.id));
+    return { shared, ratio: union.size ? shared.length / union.size : 0 };
+}
+
+export function scoreSubstitute(
+    current: SelectExerciseWithAliases,
+    candidate: SelectExerciseWithAliases
+): SubstituteScore {
+    const reasons: string[] = [];
+    let score = 0;
+
+    // Target area: shared primary muscles when both are tagged, otherwise
+    // the free-text target area
+    if (current.primaryMuscles?.length && candidate.primaryMuscles?.length) {
+        const muscles = overlap(
+            current.primaryMuscles,
+            candidate.primaryMuscles
+        );
+        score += WEIGHTS.targetArea * muscles.ratio;
+        if (muscles.shared.length) {
+            reasons.push(
+                `Works ${muscles.shared.map((tag) => tag.name).join(", ")}`
+            );
+        }
+    } else if (sameText(current.targetArea, candidate.targetArea)) {
+        score += WEIGHTS.targetArea;
+        reasons.push(`Same target area (${candidate.targetArea})`);
+    }
+
+    if (sameText(current.motion, candidate.motion)) {
+        score += WEIGHTS.motion;
+        reasons.push(`Same motion (${candidate.motion})`);
+    }
+
+    // Movement: type, and pattern where both have one
+    const hasPatterns =
+        !!current.movementPattern && !!candidate.movementPattern;
+    const sameType =
+        !!current.movementType &&
+        current.movementType === candidate.movementType;
+    const samePattern =
+        hasPatterns && current.movementPattern === candidate.movementPattern;
+    score +=
+        WEIGHTS.movement *
+        (hasPatterns
+            ? (Number(sameType) + Number(samePattern)) / 2
+            : Number(sameType));
+    if (samePattern) reasons.push("Same movement pattern");
+    if (sameType) reasons.push(`Also ${candidate.movementType}`);
+
+    if (current.equipment?.length && candidate.equipment?.length) {
+        const equipment = overlap(current.equipment, candidate.equipment);
+        score += WEIGHTS.equipment * equipment.ratio;
+        if (equipment.shared.length) {
+            reasons.push(
+                `Uses ${equipment.shared.map((tag) => tag.name).join(", ")}`
+            );
+        }
+    }
+
+    return { score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * What a client should not be offered. Muscles cover both primary and
+ * secondary use, so an injured area isn't loaded indirectly.
+ */
+export interface SubstituteExclusions {
+    exerciseIds: string[];
+    muscleGroupIds: string[];
+    equipmentIds: string[];
+}
+
+export function isExcludedSubstitute(
+    candidate: SelectExerciseWithAliases,
+    exclusions: SubstituteExclusions
+): boolean {
+    const muscles = tagIds([
+        ...(candidate.primaryMuscles ?? []),
+        ...(candidate.secondaryMuscles ?? []),
+    ]);
+    const equipment = tagIds(candidate.equipment);
+    return (
+        exclusions.exerciseIds.includes(candidate.exerciseId) ||
+        exclusions.muscleGroupIds.some((id) => muscles.has(id)) ||
+        exclusions.equipmentIds.some((id) => equipment.has(id))
+    );
+}
@@ -0,0 +1,129 @@
+import type {
+    DifficultyLevel,
+    MovementPattern,
+    SelectEquipment,
+    SelectExerciseWithAliases,
+    SelectMuscleGroup,
+} from "@/db/schemas";
+
+export interface ExerciseTaxonomy {
+    equipment: SelectEquipment[];
+    muscleGroups: SelectMuscleGroup[];
+}
+
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+    beginner: "Beginner",
+    intermediate: "Intermediate",
+    advanced: "Advanced",
+};
+
+export const MOVEMENT_PATTERN_LABELS: Record<MovementPattern, string> = {
+    squat: "Squat",
+    hinge: "Hinge",
+    lunge: "Lunge",
+    "horizontal-push": "Horizontal Push",
+    "vertical-push": "Vertical Push",
+    "horizontal-pull": "Horizontal Pull",
+    "vertical-pull": "Vertical Pull",
+    carry: "Carry",
+    rotation: "Rotation",
+    "anti-rotation": "Anti-Rotation",
+    "single-joint": "Single Joint",
+    conditioning: "Conditioning",
+};
+
+export interface FacetOption {
+    value: string;
+    label: string;
+    group?: string;
+}
+
+/**
+ * Multi-select filters over the taxonomy. Values within a facet are
+ * alternatives; different facets must all match.
+ */
+export const EXERCISE_FACETS = [
+    { id: "equipment", label: "Equipment" },
+    { id: "primaryMuscle", label: "Primary Muscle" },
+    { id: "secondaryMuscle", label: "Secondary Muscle" },
+    { id: "difficulty", label: "Difficulty" },
+    { id: "movementPattern", label: "Movement Pattern" },
+] as const;
+
+export type ExerciseFacetId = (typeof EXERCISE_FACETS)[number]["id"];
+export type ExerciseFacetSelection = Partial<Record<ExerciseFacetId, string[]>>;
+
+export const isExerciseFacet = (id: string): id is ExerciseFacetId =>
+    EXERCISE_FACETS.some((facet) => facet.id === id);
+
+const toOptions = (labels: Record<string, string>): FacetOption[] =>
+    Object.entries(labels).map(([value, label]) => ({ value, label }));
+
+export function getFacetOptions(
+    facet: ExerciseFacetId,
+    taxonomy: ExerciseTaxonomy | undefined
+): FacetOption[] {
+    switch (facet) {
+        case "equipment":
+            return (taxonomy?.equipment ?? []).map((item) => ({
+                value: item.equipmentId,
+                label: item.name,
+            }));
+        case "primaryMuscle":
+        case "secondaryMuscle":
+            return (taxonomy?.muscleGroups ?? []).map((muscle) => ({
+                value: muscle.muscleGroupId,
+                label: muscle.name,
+                group: muscle.region,
+            }));
+        case "difficulty":
+            return toOptions(DIFFICULTY_LABELS);
+        case "movementPattern":
+            return toOptions(MOVEMENT_PATTERN_LABELS);
+    }
+}
+
+/**
+ * Whether a planner exercise has every selected facet
+ */
+export function matchesExerciseFacets(
+    exercise: SelectExerciseWithAliases,
+    selection: ExerciseFacetSelection
+): boolean {
+    const tagIds: Record<ExerciseFacetId, (string | null)[]> = {
+        equipment: exercise.equipment?.map((tag) => tag.id) ?? [],
+        primaryMuscle: exercise.primaryMuscles?.map((tag) => tag.id) ?? [],
+        secondaryMuscle: exercise.secondaryMuscles?.map((tag) => tag.id) ?? [],
+        difficulty: [exercise.difficulty],
+        movementPattern: [exercise.movementPattern],
+    };
+    return Object.entries(selection).every(
+        ([facet, values]) =>
+            !values?.length ||
+            values.some((value) =>
+                tagIds[facet as ExerciseFacetId].includes(value)
+            )
+    );
+}
+
+/**
+ * Names, aliases and taxonomy labels an exercise can be searched by, so a
+ * search like "dumbbell, glutes, beginner" narrows on each term
+ */
+export function getExerciseSearchTerms(
+    exercise: SelectExerciseWithAliases
+): string[] {
+    return [
+        exercise.exerciseName,
+        ...(exercise.aliases ?? []),
+        ...(exercise.equipment ?? []).map((tag) => tag.name),
+        ...(exercise.primaryMuscles ?? []).map((tag) => tag.name),
+        ...(exercise.secondaryMuscles ?? []).map((tag) => tag.name),
+        exercise.difficulty ? DIFFICULTY_LABELS[exercise.difficulty] : "",
+        exercise.movementPattern
+            ? MOVEMENT_PATTERN_LABELS[exercise.movementPattern]
+            : "",
+    ]
+        .filter(Boolean)
+        .map((term) => term.toLowerCase());
+}
@@ -0,0 +1,97 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for subscription feeds
+ */
+
+export interface IcsEvent {
+    uid: string;
+    summary: string;
+    description?: string;
+    start: Date;
+    end: Date;
+    floating?: boolean; // Local wall-clock time in the subscriber's time zone instead of UTC
+    rrule?: string; // e.g. "FREQ=WEEKLY;BYDAY=MO,TH"
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Formats a date as an iCalendar DATE-TIME, in UTC unless floating
+ */
+export function formatIcsDateTime(date: Date, floating = false) {
+    if (floating) {
+        return (
+            `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+            `T${pad(date.getHours())}${pad(date.getMinutes())}00`
+        );
+    }
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+const escapeText = (value: string) =>
+    value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+
+/**
+ * Folds content lines longer than 75 octets as required by the spec
+ */
+function foldLine(line: string) {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74; // Continuations start with a space
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = "";
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+/**
+ * Serializes events into a VCALENDAR document
+ * @param name Calendar name shown by subscribing apps
+ * @param events Events to include
+ */
+export function buildIcsCalendar(name: string, events: IcsEvent[]) {
+    const stamp = formatIcsDateTime(new Date());
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Movement Admin//Workout Calendar//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(name)}`,
+    ];
+
+    for (const event of events) {
+        const dateProperty = (property: string, date: Date) =>
+            `${property}:${formatIcsDateTime(date, event.floating)}`;
+
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${event.uid}`,
+            `DTSTAMP:${stamp}`,
+            dateProperty("DTSTART", event.start),
+            dateProperty("DTEND", event.end),
+            `SUMMARY:${escapeText(event.summary)}`
+        );
+        if (event.description) {
+            lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        }
+        if (event.rrule) {
+            lines.push(`RRULE:${event.rrule}`);
+        }
+        lines.push("END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,185 @@
+/**
+ * Personal records
+ * Keeps each client's PersonalRecords rows in line with their logged sets,
+ * recomputing an exercise's records whenever one of its sets is saved.
+ */
+
+import { db } from "@/db/xata";
+import {
+    Exercises,
+    PersonalRecords,
+    SelectPersonalRecord,
+    WorkoutSessionDetails,
+    WorkoutSessionsLog,
+} from "@/db/schemas";
+import { and, eq, gt, ne, sql } from "drizzle-orm";
+import {
+    BrokenPersonalRecord,
+    DEFAULT_ONE_REP_MAX_FORMULA,
+    OneRepMaxFormula,
+    PersonalRecord,
+    findPersonalRecords,
+    recordsBrokenBy,
+} from "./strength-metrics";
+
+export const oneRepMaxFormula = (): OneRepMaxFormula =>
+    process.env.ONE_REP_MAX_FORMULA?.toLowerCase() === "brzycki"
+        ? "brzycki"
+        : DEFAULT_ONE_REP_MAX_FORMULA;
+
+const sameRecords = (
+    stored: SelectPersonalRecord[],
+    current: PersonalRecord[]
+) => {
+    const describe = (records: (SelectPersonalRecord | PersonalRecord)[]) =>
+        records
+            .map(
+                (record) =>
+                    `${record.recordType}:${record.atWeight}:${record.value}:${record.workoutDetailId}`
+            )
+            .sort()
+            .join("|");
+    return describe(stored) === describe(current);
+};
+
+/**
+ * Recomputes a client's records for one exercise from all their non-warm-up
+ * sets of it. Safe to call repeatedly for the same set.
+ *
+ * @param clientId - The client who logged the set
+ * @param exerciseId - The library exercise the set was of
+ * @param workoutDetailId - The set just saved, to report the records it broke
+ * @returns Records the saved set beat
+ */
+export async function refreshPersonalRecords(
+    clientId: string,
+    exerciseId: string,
+    workoutDetailId?: string
+): Promise<BrokenPersonalRecord[]> {
+    const broken = await db.transaction(async (tx) => {
+        // Concurrent refreshes of the same records would otherwise both
+        // delete and re-insert them, and one would hit uq_personal_record
+        await tx.execute(
+            sql`SELECT pg_advisory_xact_lock(hashtext(${`${clientId}:${exerciseId}`}))`
+        );
+
+        const sets = await tx
+            .select({
+                workoutDetailId: WorkoutSessionDetails.workoutDetailId,
+                reps: WorkoutSessionDetails.reps,
+                weight: WorkoutSessionDetails.weight,
+                entryTime: WorkoutSessionDetails.entryTime,
+                startTime: WorkoutSessionsLog.startTime,
+            })
+            .from(WorkoutSessionDetails)
+            .innerJoin(
+                WorkoutSessionsLog,
+                eq(
+                    WorkoutSessionDetails.workoutSessionLogId,
+                    WorkoutSessionsLog.workoutSessionLogId
+                )
+            )
+            .where(
+                and(
+                    eq(WorkoutSessionsLog.userId, clientId),
+                    eq(WorkoutSessionDetails.exerciseId, exerciseId),
+                    ne(WorkoutSessionDetails.setType, "warm-up"),
+                    gt(WorkoutSessionDetails.reps, 0)
+                )
+            );
+
+        const stored = await tx
+            .select()
+            .from(PersonalRecords)
+            .where(
+                and(
+                    eq(PersonalRecords.clientId, clientId),
+                    eq(PersonalRecords.exerciseId, exerciseId)
+                )
+            );
+
+        const current = findPersonalRecords(
+            sets.map((set) => ({
+                workoutDetailId: set.workoutDetailId,
+                reps: set.reps,
+                weight: set.weight,
+                achievedAt: set.entryTime ?? set.startTime,
+            })),
+            oneRepMaxFormula()
+        );
+
+        if (!sameRecords(stored, current)) {
+            await tx
+                .delete(PersonalRecords)
+                .where(
+                    and(
+                        eq(PersonalRecords.clientId, clientId),
+                        eq(PersonalRecords.exerciseId, exerciseId)
+                    )
+                );
+            if (current.length > 0) {
+                await tx.insert(PersonalRecords).values(
+                    current.map((record) => ({
+                        ...record,
+                        clientId,
+                        exerciseId,
+                    }))
+                );
+            }
+        }
+
+        return workoutDetailId
+            ? recordsBrokenBy(workoutDetailId, stored, current)
+            : [];
+    });
+
+    if (broken.length === 0) return [];
+
+    const [exercise] = await db
+        .select({ exerciseName: Exercises.exerciseName })
+        .from(Exercises)
+        .where(eq(Exercises.exerciseId, exerciseId))
+        .limit(1);
+
+    return broken.map((record) => ({
+        exerciseId,
+        exerciseName: exercise?.exerciseName ?? "",
+        recordType: record.recordType,
+        atWeight: record.atWeight,
+        value: record.value,
+        previousValue: record.previousValue,
+    }));
+}
+
+/**
+ * Recomputes an exercise's records for every client who has logged it, for
+ * when sets are moved onto the exercise in bulk. One client's failure is
+ * logged and doesn't stop the others.
+ *
+ * @param exerciseId - The library exercise whose records to recompute
+ * @returns How many clients' records were refreshed
+ */
+export async function refreshExercisePersonalRecords(exerciseId: string) {
+    const clients = await db
+        .selectDistinct({ clientId: WorkoutSessionsLog.userId })
+        .from(WorkoutSessionDetails)
+        .innerJoin(
+            WorkoutSessionsLog,
+            eq(
+                WorkoutSessionDetails.workoutSessionLogId,
+                WorkoutSessionsLog.workoutSessionLogId
+            )
+        )
+        .where(eq(WorkoutSessionDetails.exerciseId, exerciseId));
+
+    let refreshed = 0;
+    for (const { clientId } of clients) {
+        try {
+            await refreshPersonalRecords(clientId, exerciseId);
+            refreshed++;
+        } catch (error) {
+            console.error("Error refreshing personal records:", error);
+        }
+    }
+    return refreshed;
+}
@@ -64,6 +64,12 @@ export class ExerciseProcessors {
                                     additionalInfo:
                                         message.data.exercise.additionalInfo ||
                                         "",
+                                    groupType:
+                                        message.data.exercise.groupType || "",
+                                    groupRounds:
+                                        message.data.exercise.groupRounds || "",
+                                    groupRest:
+                                        message.data.exercise.groupRest || "",
                                 },
                             },
                         ],
@@ -98,6 +104,14 @@ export class ExerciseProcessors {
                     order: message.data.exercise.order || "",
                     additionalInfo: message.data.exercise.additionalInfo || "",
                 };
+                // Older messages carry no group fields; leave grouping untouched
+                if (message.data.exercise.groupType !== undefined) {
+                    exerciseChanges.groupType = message.data.exercise.groupType;
+                    exerciseChanges.groupRounds =
+                        message.data.exercise.groupRounds || "";
+                    exerciseChanges.groupRest =
+                        message.data.exercise.groupRest || "";
+                }
 
                 changes = {
                     created: {
@@ -126,7 +140,8 @@ export class ExerciseProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
@@ -198,7 +213,8 @@ export class ExerciseProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
@@ -90,7 +90,8 @@ export class PhaseProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
@@ -187,7 +188,8 @@ export class PhaseProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
@@ -278,7 +280,8 @@ export class PhaseProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
@@ -353,6 +356,10 @@ export class PhaseProcessors {
                                                 exercise.additionalInfo || "",
                                             notes: exercise.notes || "",
                                             order: exercise.order || "",
+                                            groupType: exercise.groupType || "",
+                                            groupRounds: exercise.groupRounds || "",
+                                            groupRest: exercise.groupRest || "",
+                                            tut: exercise.tut || "",
                                         })
                                     ),
                                 })
@@ -384,6 +391,10 @@ export class PhaseProcessors {
                                 additionalInfo: exercise.additionalInfo || "",
                                 notes: exercise.notes || "",
                                 order: exercise.order || "",
+                                groupType: exercise.groupType || "",
+                                groupRounds: exercise.groupRounds || "",
+                                groupRest: exercise.groupRest || "",
+                                tut: exercise.tut || "",
                             })),
                         },
                     })),
@@ -407,6 +418,10 @@ export class PhaseProcessors {
                                 additionalInfo: exercise.additionalInfo || "",
                                 notes: exercise.notes || "",
                                 order: exercise.order || "",
+                                groupType: exercise.groupType || "",
+                                groupRounds: exercise.groupRounds || "",
+                                groupRest: exercise.groupRest || "",
+                                tut: exercise.tut || "",
                             },
                         }))
                     ),
@@ -435,7 +450,8 @@ export class PhaseProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
@@ -540,7 +556,8 @@ export class PhaseProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
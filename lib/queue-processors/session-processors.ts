@@ -58,7 +58,8 @@ export class SessionProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
@@ -110,7 +111,12 @@ export class SessionProcessors {
                     sessions: [
                         {
                             id: message.data.sessionId,
-                            changes: message.data.changes,
+                            changes: {
+                                name: message.data.changes.name,
+                                orderNumber: message.data.changes.orderNumber,
+                                // Sessions.sessionTime is the session's duration
+                                duration: message.data.changes.sessionTime,
+                            },
                         },
                     ],
                     exercises: [],
@@ -125,7 +131,8 @@ export class SessionProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
@@ -206,7 +213,8 @@ export class SessionProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
@@ -282,6 +290,10 @@ export class SessionProcessors {
                                             exercise.additionalInfo || "",
                                         notes: exercise.notes || "",
                                         order: exercise.order || "",
+                                        groupType: exercise.groupType || "",
+                                        groupRounds: exercise.groupRounds || "",
+                                        groupRest: exercise.groupRest || "",
+                                        tut: exercise.tut || "",
                                     })
                                 ),
                             },
@@ -306,6 +318,10 @@ export class SessionProcessors {
                             additionalInfo: exercise.additionalInfo || "",
                             notes: exercise.notes || "",
                             order: exercise.order || "",
+                            groupType: exercise.groupType || "",
+                            groupRounds: exercise.groupRounds || "",
+                            groupRest: exercise.groupRest || "",
+                            tut: exercise.tut || "",
                         },
                     })),
                 },
@@ -328,7 +344,8 @@ export class SessionProcessors {
             // Apply the changes using the simplified service (no concurrency control)
             const result = await applyWorkoutPlanChangesWorker(
                 message.data.planId,
-                changes
+                changes,
+                message.userId
             );
 
             if (result.success) {
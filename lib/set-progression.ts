@@ -0,0 +1,137 @@
+import type { SetType } from "@/db/schemas";
+
+/**
+ * Suggests today's target for a set from how the same set went last time,
+ * using double progression: add reps across the prescribed range, then add
+ * weight and drop back to the bottom of the range.
+ */
+
+export const DEFAULT_WEIGHT_INCREMENT = 2.5; // kg
+
+export interface PreviousSet {
+    workoutSessionLogId: string;
+    date: string;
+    setNumber: number;
+    reps: number | null;
+    weight: number | null;
+    rpe: number | null;
+    rir: number | null;
+    setType: SetType;
+}
+
+export interface SetTarget {
+    reps: number;
+    weight: number;
+    reason: string;
+}
+
+// A set taken to failure has nothing left to add next time
+const wasToFailure = (set: PreviousSet) =>
+    set.setType === "failure" ||
+    (set.rpe !== null && set.rpe >= 10) ||
+    set.rir === 0;
+
+export function suggestSetTarget(
+    previous: PreviousSet | undefined,
+    repsMin: number | undefined,
+    repsMax: number | undefined,
+    weightIncrement = DEFAULT_WEIGHT_INCREMENT
+): SetTarget | null {
+    if (!previous || !previous.reps || previous.setType === "warm-up") {
+        return null;
+    }
+
+    const weight = previous.weight ?? 0;
+    const min = repsMin ?? repsMax ?? previous.reps;
+    const max = repsMax ?? min;
+
+    if (previous.reps >= max) {
+        return weight > 0
+            ? {
+                  reps: min,
+                  weight: weight + weightIncrement,
+                  reason: `Hit ${max} reps last time, so add weight`,
+              }
+            : {
+                  reps: previous.reps + 1,
+                  weight,
+                  reason: "Top of the range with bodyweight, so add a rep",
+              };
+    }
+
+    if (previous.reps < min) {
+        return {
+            reps: min,
+            weight,
+            reason: `Short of ${min} reps last time`,
+        };
+    }
+
+    if (wasToFailure(previous)) {
+        return {
+            reps: previous.reps,
+            weight,
+            reason: "Went to failure last time, so match it",
+        };
+    }
+
+    return {
+        reps: Math.min(previous.reps + 1, max),
+        weight,
+        reason: "Add a rep",
+    };
+}
+
+/**
+ * Each set's number among the working sets, or null for a warm-up, so
+ * today's sets line up with last time's however many warm-ups were done
+ */
+export function workingSetNumbers(sets: { setType?: SetType }[]) {
+    let count = 0;
+    return sets.map((set) => (set.setType === "warm-up" ? null : ++count));
+}
+
+/**
+ * "3×8 @ 80kg" style summary of a session's sets, grouping sets that share
+ * reps and weight and leaving out warm-ups
+ */
+export function summarizeSets(sets: PreviousSet[]) {
+    const groups: { reps: number; weight: number; count: number }[] = [];
+    sets.filter((set) => set.setType !== "warm-up" && set.reps).forEach(
+        (set) => {
+            const reps = set.reps ?? 0;
+            const weight = set.weight ?? 0;
+            const last = groups[groups.length - 1];
+            if (last && last.reps === reps && last.weight === weight) {
+                last.count++;
+            } else {
+                groups.push({ reps, weight, count: 1 });
+            }
+        }
+    );
+    return groups
+        .map(
+            ({ reps, weight, count }) =>
+                `${count > 1 ? `${count}×` : ""}${reps}${
+                    weight ? ` @ ${weight}kg` : ""
+                }`
+        )
+        .join(", ");
+}
+
+/**
+ * The sets of the most recent session in a set-number keyed history
+ */
+export function latestSessionSets(bySetNumber: Record<number, PreviousSet[]>) {
+    const latest = Object.values(bySetNumber)
+        .map((sets) => sets[0])
+        .reduce<PreviousSet | undefined>(
+            (newest, set) => (!newest || set.date > newest.date ? set : newest),
+            undefined
+        );
+    if (!latest) return [];
+    return Object.values(bySetNumber)
+        .flat()
+        .filter((set) => set.workoutSessionLogId === latest.workoutSessionLogId)
+        .sort((a, b) => a.setNumber - b.setNumber);
+}
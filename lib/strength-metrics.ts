@@ -0,0 +1,192 @@
+import type { PersonalRecordType } from "@/db/schemas";
+
+/**
+ * Estimated one-rep max and personal records, worked out from logged sets.
+ * Epley suits higher-rep sets a little better and Brzycki lower-rep ones;
+ * both agree closely at around ten reps.
+ */
+
+export type OneRepMaxFormula = "epley" | "brzycki";
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = "epley";
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+    weight: "Heaviest weight",
+    "reps-at-weight": "Most reps",
+    e1rm: "Estimated 1RM",
+    volume: "Best set volume",
+};
+
+export function estimateOneRepMax(
+    weight: number | null | undefined,
+    reps: number | null | undefined,
+    formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): number | null {
+    if (!weight || !reps || weight <= 0 || reps <= 0) return null;
+    if (reps === 1) return weight;
+
+    const estimate =
+        formula === "brzycki"
+            ? // Undefined from 37 reps, and meaningless well before
+              reps < 37
+                ? (weight * 36) / (37 - reps)
+                : null
+            : weight * (1 + reps / 30);
+    return estimate === null ? null : Math.round(estimate * 10) / 10;
+}
+
+export interface RecordableSet {
+    workoutDetailId: string;
+    reps: number | null;
+    weight: number | null;
+    achievedAt: Date;
+}
+
+export interface PersonalRecord {
+    recordType: PersonalRecordType;
+    atWeight: number | null; // Only for reps-at-weight records
+    value: number;
+    weight: number | null;
+    reps: number | null;
+    workoutDetailId: string;
+    achievedAt: Date;
+}
+
+/**
+ * A record the set just saved has beaten, for announcing in the tracker
+ */
+export interface BrokenPersonalRecord {
+    exerciseId: string;
+    exerciseName: string;
+    recordType: PersonalRecordType;
+    atWeight: number | null;
+    value: number;
+    previousValue: number;
+}
+
+const recordKey = (record: Pick<PersonalRecord, "recordType" | "atWeight">) =>
+    `${record.recordType}:${record.atWeight ?? ""}`;
+
+/**
+ * The best set of each record type. Warm-ups should already be left out.
+ * The earliest set wins a tie, so repeating a best doesn't move the record.
+ * Most reps at a weight is only kept where it beats every heavier weight,
+ * so there's one record per step down the client's strength curve rather
+ * than one for every weight ever lifted.
+ */
+export function findPersonalRecords(
+    sets: RecordableSet[],
+    formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): PersonalRecord[] {
+    const best = new Map<string, PersonalRecord>();
+    const consider = (record: PersonalRecord) => {
+        const key = recordKey(record);
+        const current = best.get(key);
+        if (!current || record.value > current.value) {
+            best.set(key, record);
+        }
+    };
+
+    [...sets]
+        .sort((a, b) => a.achievedAt.getTime() - b.achievedAt.getTime())
+        .forEach((set) => {
+            if (!set.reps || set.reps <= 0) return;
+            const base = {
+                weight: set.weight,
+                reps: set.reps,
+                workoutDetailId: set.workoutDetailId,
+                achievedAt: set.achievedAt,
+            };
+
+            // Bodyweight sets count towards most reps only
+            consider({
+                ...base,
+                recordType: "reps-at-weight",
+                atWeight: set.weight ?? 0,
+                value: set.reps,
+            });
+            if (!set.weight || set.weight <= 0) return;
+
+            consider({
+                ...base,
+                recordType: "weight",
+                atWeight: null,
+                value: set.weight,
+            });
+            consider({
+                ...base,
+                recordType: "volume",
+                atWeight: null,
+                value: set.reps * set.weight,
+            });
+            const e1rm = estimateOneRepMax(set.weight, set.reps, formula);
+            if (e1rm !== null) {
+                consider({
+                    ...base,
+                    recordType: "e1rm",
+                    atWeight: null,
+                    value: e1rm,
+                });
+            }
+        });
+
+    let heavierReps = 0;
+    const dominated = new Set(
+        Array.from(best.values())
+            .filter((record) => record.recordType === "reps-at-weight")
+            .sort((a, b) => (b.atWeight ?? 0) - (a.atWeight ?? 0))
+            .filter((record) => {
+                if (record.value > heavierReps) {
+                    heavierReps = record.value;
+                    return false;
+                }
+                return true;
+            })
+    );
+    return Array.from(best.values()).filter((record) => !dominated.has(record));
+}
+
+/**
+ * Records the given set now holds that beat an earlier record of the same
+ * kind. Setting a first record, or matching one, isn't announced.
+ */
+export function recordsBrokenBy(
+    workoutDetailId: string,
+    previous: Pick<PersonalRecord, "recordType" | "atWeight" | "value">[],
+    current: PersonalRecord[]
+) {
+    const previousByKey = new Map(
+        previous.map((record) => [recordKey(record), record.value])
+    );
+    return current.flatMap((record) => {
+        const previousValue = previousByKey.get(recordKey(record));
+        return record.workoutDetailId === workoutDetailId &&
+            previousValue !== undefined &&
+            record.value > previousValue
+            ? [{ ...record, previousValue }]
+            : [];
+    });
+}
+
+/**
+ * "100kg × 5", or "12 reps" for a bodyweight set
+ */
+export function describeRecordSet(weight: number | null, reps: number | null) {
+    if (!weight) return `${reps ?? 0} reps`;
+    return `${weight}kg × ${reps ?? 0}`;
+}
+
+export function formatRecordValue(
+    recordType: PersonalRecordType,
+    value: number,
+    atWeight: number | null
+) {
+    switch (recordType) {
+        case "reps-at-weight":
+            return atWeight
+                ? `${value} reps @ ${atWeight}kg`
+                : `${value} reps (bodyweight)`;
+        default:
+            return `${value}kg`;
+    }
+}
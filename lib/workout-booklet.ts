@@ -0,0 +1,665 @@
+/**
+ * Workout booklet builder
+ * Lays out a client's workout plan as a printable PDF: a cover page with
+ * the client's goals, then one page per session with the prescription,
+ * blank boxes to log weight and reps, and a QR code for each exercise video.
+ */
+
+import "server-only";
+import { db } from "@/db/xata";
+import { Exercises, Users } from "@/db/schemas";
+import { eq, inArray } from "drizzle-orm";
+import { format, parseISO } from "date-fns";
+import QRCode from "qrcode";
+import {
+    PDFDocument,
+    PDFFont,
+    PDFImage,
+    PDFPage,
+    rgb,
+    StandardFonts,
+} from "pdf-lib";
+import { getWorkoutPlanByClientId } from "@/actions/workout_client_actions";
+import { getGoalCategoriesByUserId } from "@/actions/goals_actions";
+import {
+    EXERCISE_GROUP_LABELS,
+    getExerciseBlocks,
+} from "@/components/workout-planning/workout-utils/exercise-groups";
+import { WorkoutPlanResponse } from "@/types/workout-plan-types";
+
+type BookletSession = WorkoutPlanResponse["phases"][number]["sessions"][number];
+type BookletExercise = BookletSession["exercises"][number];
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 24;
+
+const QR_SIZE = 64;
+const ORDER_COLUMN = 30;
+const LOG_LABEL_WIDTH = 34;
+const LOG_HEADER_HEIGHT = 12;
+const LOG_ROW_HEIGHT = 18;
+const MAX_LOG_CELL_WIDTH = 52;
+const DEFAULT_LOGGED_SETS = 3;
+
+const TEXT = rgb(0.1, 0.1, 0.1);
+const MUTED = rgb(0.45, 0.45, 0.45);
+const RULE = rgb(0.8, 0.8, 0.8);
+const ACCENT = rgb(0.15, 0.35, 0.7);
+
+interface BookletFonts {
+    regular: PDFFont;
+    bold: PDFFont;
+    italic: PDFFont;
+}
+
+/**
+ * Drops characters the standard PDF fonts can't encode (emoji, most
+ * non-Latin scripts) so user-entered notes never break the export
+ */
+function printable(font: PDFFont, text: string): string {
+    const supported = new Set(font.getCharacterSet());
+    return Array.from(text.replace(/\s+/g, " "))
+        .map((char) => (supported.has(char.codePointAt(0)!) ? char : "?"))
+        .join("");
+}
+
+/**
+ * Splits text into lines no wider than maxWidth, breaking on spaces and
+ * hard-breaking words that are too long on their own
+ */
+function wrapText(
+    text: string,
+    font: PDFFont,
+    size: number,
+    maxWidth: number
+): string[] {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of printable(font, text).trim().split(" ")) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+            line = candidate;
+            continue;
+        }
+        if (line) lines.push(line);
+        line = word;
+        while (font.widthOfTextAtSize(line, size) > maxWidth) {
+            let cut = line.length - 1;
+            while (
+                cut > 1 &&
+                font.widthOfTextAtSize(line.slice(0, cut), size) > maxWidth
+            ) {
+                cut--;
+            }
+            lines.push(line.slice(0, cut));
+            line = line.slice(cut);
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+}
+
+/**
+ * "8-10" for a range, "8" when both ends match or only one is set
+ */
+function formatRange(min?: string, max?: string, legacy?: string): string {
+    const low = min?.trim();
+    const high = max?.trim();
+    if (low && high && low !== high) return `${low}-${high}`;
+    return low || high || legacy?.trim() || "";
+}
+
+/**
+ * Number of log columns to print: the top of the set range, or the number
+ * of rounds for exercises in a circuit
+ */
+function loggedSetCount(exercise: BookletExercise): number {
+    const rounds =
+        exercise.groupType === "circuit"
+            ? parseInt(exercise.groupRounds ?? "", 10)
+            : NaN;
+    const sets = parseInt(
+        exercise.setsMax || exercise.setsMin || exercise.sets || "",
+        10
+    );
+    const count = rounds > 0 ? rounds : sets > 0 ? sets : DEFAULT_LOGGED_SETS;
+    return Math.min(count, 10);
+}
+
+function prescription(exercise: BookletExercise): string {
+    const sets = formatRange(exercise.setsMin, exercise.setsMax, exercise.sets);
+    const reps = formatRange(exercise.repsMin, exercise.repsMax, exercise.reps);
+    const rest = formatRange(exercise.restMin, exercise.restMax, exercise.rest);
+    return [
+        sets && `Sets ${sets}`,
+        reps && `Reps ${reps}`,
+        exercise.tempo && `Tempo ${exercise.tempo}`,
+        rest && `Rest ${rest}s`,
+    ]
+        .filter(Boolean)
+        .join("  ·  ");
+}
+
+function exerciseNotes(exercise: BookletExercise): string[] {
+    return [
+        exercise.customizations?.trim() &&
+            `Cues: ${exercise.customizations.trim()}`,
+        exercise.notes?.trim() && `Notes: ${exercise.notes.trim()}`,
+    ].filter((note): note is string => Boolean(note));
+}
+
+/**
+ * QR codes for exercise videos, generated once per URL
+ */
+function createQrCodeCache(pdf: PDFDocument) {
+    const cache = new Map<string, Promise<PDFImage | null>>();
+    return (url: string | null | undefined) => {
+        if (!url || !/^https?:\/\//i.test(url.trim())) return null;
+        const key = url.trim();
+        if (!cache.has(key)) {
+            cache.set(
+                key,
+                QRCode.toBuffer(key, { margin: 1, width: 192 })
+                    .then((png) => pdf.embedPng(png))
+                    .catch((error) => {
+                        console.error("Error generating video QR code:", error);
+                        return null;
+                    })
+            );
+        }
+        return cache.get(key)!;
+    };
+}
+
+/**
+ * Writes the cover page: client name, plan overview and goals by category
+ */
+function drawCover(
+    pdf: PDFDocument,
+    fonts: BookletFonts,
+    clientName: string,
+    plan: WorkoutPlanResponse,
+    goalCategories: Awaited<ReturnType<typeof getGoalCategoriesByUserId>>
+) {
+    let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN - 80;
+
+    const ensureSpace = (height: number) => {
+        if (y - height >= MARGIN + FOOTER_HEIGHT) return;
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+    };
+
+    page.drawText("Training Program", {
+        x: MARGIN,
+        y,
+        size: 30,
+        font: fonts.bold,
+        color: ACCENT,
+    });
+    y -= 36;
+    page.drawText(printable(fonts.bold, clientName), {
+        x: MARGIN,
+        y,
+        size: 20,
+        font: fonts.bold,
+        color: TEXT,
+    });
+    y -= 20;
+    page.drawText(`Printed ${format(new Date(), "d MMMM yyyy")}`, {
+        x: MARGIN,
+        y,
+        size: 10,
+        font: fonts.regular,
+        color: MUTED,
+    });
+    y -= 40;
+
+    page.drawText("Phases", {
+        x: MARGIN,
+        y,
+        size: 14,
+        font: fonts.bold,
+        color: TEXT,
+    });
+    y -= 20;
+    for (const phase of plan.phases) {
+        ensureSpace(16);
+        const sessions = phase.sessions.length;
+        const label = `${phase.name}${phase.isActive ? " (current)" : ""}  ·  ${sessions} session${sessions === 1 ? "" : "s"}`;
+        page.drawText(printable(fonts.regular, label), {
+            x: MARGIN + 10,
+            y,
+            size: 11,
+            font: phase.isActive ? fonts.bold : fonts.regular,
+            color: TEXT,
+        });
+        y -= 16;
+    }
+    y -= 24;
+
+    ensureSpace(40);
+    page.drawText("Goals", {
+        x: MARGIN,
+        y,
+        size: 14,
+        font: fonts.bold,
+        color: TEXT,
+    });
+    y -= 20;
+
+    const categories = goalCategories.filter(
+        (category) => category.goals.length
+    );
+    if (!categories.length) {
+        page.drawText("No goals recorded yet.", {
+            x: MARGIN + 10,
+            y,
+            size: 11,
+            font: fonts.italic,
+            color: MUTED,
+        });
+        return;
+    }
+
+    for (const category of categories) {
+        ensureSpace(36);
+        const title =
+            category.type.charAt(0).toUpperCase() + category.type.slice(1);
+        page.drawText(printable(fonts.bold, title), {
+            x: MARGIN + 10,
+            y,
+            size: 12,
+            font: fonts.bold,
+            color: ACCENT,
+        });
+        y -= 16;
+
+        for (const goal of category.goals) {
+            const suffix = [
+                goal.deadline &&
+                    `by ${format(parseISO(goal.deadline), "d MMM yyyy")}`,
+                goal.completed && "achieved",
+            ]
+                .filter(Boolean)
+                .join(", ");
+            const lines = wrapText(
+                `${goal.description}${suffix ? ` (${suffix})` : ""}`,
+                fonts.regular,
+                11,
+                CONTENT_WIDTH - 34
+            );
+            ensureSpace(lines.length * 14 + 4);
+            page.drawText("•", {
+                x: MARGIN + 18,
+                y,
+                size: 11,
+                font: fonts.regular,
+                color: TEXT,
+            });
+            for (const line of lines) {
+                page.drawText(line, {
+                    x: MARGIN + 30,
+                    y,
+                    size: 11,
+                    font: fonts.regular,
+                    color: goal.completed ? MUTED : TEXT,
+                });
+                y -= 14;
+            }
+            y -= 4;
+        }
+        y -= 10;
+    }
+}
+
+/**
+ * Writes a session on as many pages as it needs, starting a new page
+ * rather than splitting an exercise
+ */
+async function drawSession(
+    pdf: PDFDocument,
+    fonts: BookletFonts,
+    phaseName: string,
+    session: BookletSession,
+    videoUrls: Map<string, string>,
+    qrCodeFor: ReturnType<typeof createQrCodeCache>
+) {
+    let page: PDFPage;
+    let y = 0;
+
+    const startPage = (continued: boolean) => {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+        page.drawText(printable(fonts.regular, phaseName), {
+            x: MARGIN,
+            y: y - 10,
+            size: 10,
+            font: fonts.regular,
+            color: MUTED,
+        });
+        page.drawText(
+            printable(
+                fonts.bold,
+                `${session.name}${continued ? " (continued)" : ""}`
+            ),
+            { x: MARGIN, y: y - 30, size: 18, font: fonts.bold, color: TEXT }
+        );
+        const meta = [
+            session.duration ? `~${session.duration} min` : "",
+            "Date: ____________",
+        ]
+            .filter(Boolean)
+            .join("     ");
+        page.drawText(meta, {
+            x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(meta, 10),
+            y: y - 30,
+            size: 10,
+            font: fonts.regular,
+            color: MUTED,
+        });
+        y -= 44;
+        page.drawLine({
+            start: { x: MARGIN, y },
+            end: { x: PAGE_WIDTH - MARGIN, y },
+            thickness: 1,
+            color: ACCENT,
+        });
+        y -= 14;
+    };
+    startPage(false);
+
+    const ensureSpace = (height: number) => {
+        if (y - height >= MARGIN + FOOTER_HEIGHT) return;
+        startPage(true);
+    };
+
+    if (!session.exercises.length) {
+        page!.drawText("No exercises in this session yet.", {
+            x: MARGIN,
+            y: y - 12,
+            size: 11,
+            font: fonts.italic,
+            color: MUTED,
+        });
+        return;
+    }
+
+    for (const block of getExerciseBlocks(session.exercises)) {
+        if (block.type) {
+            const first = block.exercises[0];
+            const rounds =
+                block.type === "circuit" && first.groupRounds
+                    ? `${first.groupRounds} rounds`
+                    : "";
+            const rest = first.groupRest
+                ? `rest ${first.groupRest}s after each round`
+                : "";
+            const label = [
+                `${block.letter}  ${EXERCISE_GROUP_LABELS[block.type]}`,
+                rounds,
+                rest,
+            ]
+                .filter(Boolean)
+                .join("  ·  ");
+            ensureSpace(22);
+            page!.drawText(printable(fonts.bold, label), {
+                x: MARGIN,
+                y: y - 10,
+                size: 10,
+                font: fonts.bold,
+                color: ACCENT,
+            });
+            y -= 18;
+        }
+
+        for (const exercise of block.exercises) {
+            const url = exercise.exerciseId
+                ? videoUrls.get(exercise.exerciseId)
+                : undefined;
+            const qrCode = await qrCodeFor(url);
+            const textWidth =
+                CONTENT_WIDTH - ORDER_COLUMN - (qrCode ? QR_SIZE + 12 : 0);
+
+            const nameLines = wrapText(
+                exercise.description || "Exercise",
+                fonts.bold,
+                12,
+                textWidth
+            );
+            const detailLines = wrapText(
+                prescription(exercise),
+                fonts.regular,
+                9.5,
+                textWidth
+            );
+            const noteLines = exerciseNotes(exercise).flatMap((note) =>
+                wrapText(note, fonts.italic, 9, textWidth)
+            );
+            const textHeight =
+                nameLines.length * 15 +
+                detailLines.length * 12 +
+                noteLines.length * 11;
+            const logHeight = LOG_HEADER_HEIGHT + LOG_ROW_HEIGHT * 2;
+            const height =
+                Math.max(
+                    textHeight + 8 + logHeight,
+                    qrCode ? QR_SIZE + 14 : 0
+                ) + 16;
+
+            ensureSpace(height);
+            const top = y;
+            const x = MARGIN + ORDER_COLUMN;
+
+            page!.drawText(printable(fonts.bold, exercise.order), {
+                x: MARGIN,
+                y: y - 12,
+                size: 12,
+                font: fonts.bold,
+                color: ACCENT,
+            });
+            for (const line of nameLines) {
+                page!.drawText(line, {
+                    x,
+                    y: y - 12,
+                    size: 12,
+                    font: fonts.bold,
+                    color: TEXT,
+                });
+                y -= 15;
+            }
+            for (const line of detailLines) {
+                page!.drawText(line, {
+                    x,
+                    y: y - 9,
+                    size: 9.5,
+                    font: fonts.regular,
+                    color: TEXT,
+                });
+                y -= 12;
+            }
+            for (const line of noteLines) {
+                page!.drawText(line, {
+                    x,
+                    y: y - 9,
+                    size: 9,
+                    font: fonts.italic,
+                    color: MUTED,
+                });
+                y -= 11;
+            }
+            y -= 8;
+
+            // Log grid: a column per set, rows for weight and reps
+            const sets = loggedSetCount(exercise);
+            const cellWidth = Math.min(
+                MAX_LOG_CELL_WIDTH,
+                (textWidth - LOG_LABEL_WIDTH) / sets
+            );
+            for (let set = 0; set < sets; set++) {
+                const cellX = x + LOG_LABEL_WIDTH + set * cellWidth;
+                page!.drawText(`Set ${set + 1}`, {
+                    x: cellX + 3,
+                    y: y - 9,
+                    size: 7.5,
+                    font: fonts.regular,
+                    color: MUTED,
+                });
+                for (let row = 0; row < 2; row++) {
+                    page!.drawRectangle({
+                        x: cellX,
+                        y: y - LOG_HEADER_HEIGHT - LOG_ROW_HEIGHT * (row + 1),
+                        width: cellWidth,
+                        height: LOG_ROW_HEIGHT,
+                        borderColor: RULE,
+                        borderWidth: 0.75,
+                    });
+                }
+            }
+            ["kg", "reps"].forEach((label, row) => {
+                page!.drawText(label, {
+                    x,
+                    y: y - LOG_HEADER_HEIGHT - LOG_ROW_HEIGHT * (row + 1) + 6,
+                    size: 8,
+                    font: fonts.regular,
+                    color: MUTED,
+                });
+            });
+            y -= logHeight;
+
+            if (qrCode) {
+                const qrX = PAGE_WIDTH - MARGIN - QR_SIZE;
+                page!.drawImage(qrCode, {
+                    x: qrX,
+                    y: top - QR_SIZE - 2,
+                    width: QR_SIZE,
+                    height: QR_SIZE,
+                });
+                const caption = "Scan for video";
+                page!.drawText(caption, {
+                    x:
+                        qrX +
+                        (QR_SIZE -
+                            fonts.regular.widthOfTextAtSize(caption, 7)) /
+                            2,
+                    y: top - QR_SIZE - 11,
+                    size: 7,
+                    font: fonts.regular,
+                    color: MUTED,
+                });
+            }
+
+            y = top - height;
+            page!.drawLine({
+                start: { x: MARGIN, y: y + 8 },
+                end: { x: PAGE_WIDTH - MARGIN, y: y + 8 },
+                thickness: 0.5,
+                color: RULE,
+            });
+        }
+    }
+}
+
+/**
+ * Builds the printable program booklet for a client's plan
+ * @param clientId The client whose plan to print
+ * @param planId A specific plan; defaults to the client's active plan
+ * @returns The PDF bytes, or null when the client has no plan
+ */
+export async function buildWorkoutBooklet(
+    clientId: string,
+    planId?: string
+): Promise<Uint8Array | null> {
+    const plan = await getWorkoutPlanByClientId(clientId, planId);
+    if (Array.isArray(plan)) return null;
+
+    const exerciseIds = [
+        ...new Set(
+            plan.phases.flatMap((phase) =>
+                phase.sessions.flatMap((session) =>
+                    session.exercises.flatMap((exercise) =>
+                        exercise.exerciseId ? [exercise.exerciseId] : []
+                    )
+                )
+            )
+        ),
+    ];
+
+    const [client, goalCategories, videos] = await Promise.all([
+        db
+            .select({ fullName: Users.fullName })
+            .from(Users)
+            .where(eq(Users.userId, clientId))
+            .limit(1),
+        getGoalCategoriesByUserId(clientId),
+        exerciseIds.length
+            ? db
+                  .select({
+                      exerciseId: Exercises.exerciseId,
+                      videoUrl: Exercises.videoUrl,
+                  })
+                  .from(Exercises)
+                  .where(inArray(Exercises.exerciseId, exerciseIds))
+            : Promise.resolve([]),
+    ]);
+
+    const clientName = client[0]?.fullName ?? "Client";
+    const videoUrls = new Map(
+        videos.flatMap((video) =>
+            video.videoUrl ? [[video.exerciseId, video.videoUrl] as const] : []
+        )
+    );
+
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(`Training Program - ${clientName}`);
+    const fonts: BookletFonts = {
+        regular: await pdf.embedFont(StandardFonts.Helvetica),
+        bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+        italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+    };
+    const qrCodeFor = createQrCodeCache(pdf);
+
+    drawCover(pdf, fonts, clientName, plan, goalCategories);
+    for (const phase of plan.phases) {
+        for (const session of phase.sessions) {
+            await drawSession(
+                pdf,
+                fonts,
+                phase.name,
+                session,
+                videoUrls,
+                qrCodeFor
+            );
+        }
+    }
+
+    // Footer on every page once the page count is known
+    const pages = pdf.getPages();
+    const footerName = printable(fonts.regular, clientName);
+    pages.forEach((page, index) => {
+        const pageLabel = `${index + 1} / ${pages.length}`;
+        page.drawText(footerName, {
+            x: MARGIN,
+            y: MARGIN - 12,
+            size: 8,
+            font: fonts.regular,
+            color: MUTED,
+        });
+        page.drawText(pageLabel, {
+            x:
+                PAGE_WIDTH -
+                MARGIN -
+                fonts.regular.widthOfTextAtSize(pageLabel, 8),
+            y: MARGIN - 12,
+            size: 8,
+            font: fonts.regular,
+            color: MUTED,
+        });
+    });
+
+    return pdf.save();
+}
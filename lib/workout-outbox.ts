@@ -0,0 +1,373 @@
+import { syncWorkoutOperation } from "@/actions/workout_tracker_actions";
+import type { BrokenPersonalRecord } from "@/lib/strength-metrics";
+import type {
+    Exercise,
+    QueuedWorkoutOperation,
+    WorkoutOutboxOperation,
+    WorkoutSyncConflict,
+} from "@/types/workout-tracker-types";
+
+/**
+ * Device-side storage for the record-workout page, kept in IndexedDB so it
+ * survives reloads without signal: an outbox of changes waiting for the
+ * server, replayed oldest first, and a snapshot of each workout's sets.
+ */
+
+const DB_NAME = "gymflow-workouts";
+const DB_VERSION = 1;
+const OUTBOX = "outbox";
+const SNAPSHOTS = "snapshots";
+
+// An operation that keeps failing while online is dropped and reported
+const MAX_ONLINE_ATTEMPTS = 5;
+const SNAPSHOT_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+export interface WorkoutSnapshot {
+    workoutSessionLogId: string;
+    sessionId?: string;
+    clientId?: string;
+    exercises: Exercise[];
+    updatedAt: number;
+    endedAt?: number;
+}
+
+export interface WorkoutReplayResult {
+    applied: number;
+    conflicts: WorkoutSyncConflict[];
+    personalRecords: BrokenPersonalRecord[];
+    remaining: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let replaying: Promise<WorkoutReplayResult> | null = null;
+let replayRequested = false;
+// The operation currently being sent, which must not be merged into
+let inFlightSeq: number | null = null;
+const listeners = new Set<() => void>();
+
+export const isOfflineStorageAvailable = () => typeof indexedDB !== "undefined";
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            db.createObjectStore(OUTBOX, {
+                keyPath: "seq",
+                autoIncrement: true,
+            }).createIndex(
+                "workoutSessionLogId",
+                "operation.workoutSessionLogId"
+            );
+            db.createObjectStore(SNAPSHOTS, {
+                keyPath: "workoutSessionLogId",
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function transaction<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => Promise<T>
+): Promise<T> {
+    const db = await openDb();
+    const tx = db.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+    const result = await run(tx.objectStore(storeName));
+    await done;
+    return result;
+}
+
+function notify() {
+    listeners.forEach((listener) => listener());
+}
+
+/**
+ * Calls the listener whenever the outbox changes, e.g. to refresh a
+ * pending count. Returns an unsubscribe function.
+ */
+export function subscribeToWorkoutOutbox(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+const setIdOf = (operation: WorkoutOutboxOperation) =>
+    "workoutDetailId" in operation ? operation.workoutDetailId : null;
+
+/**
+ * Queues an operation. Edits to a set that hasn't been sent yet are folded
+ * into its queued create or update, and deleting such a set drops its
+ * queued operations entirely, so a long offline session stays small.
+ */
+export async function enqueueWorkoutOperation(
+    operation: WorkoutOutboxOperation
+) {
+    await transaction(OUTBOX, "readwrite", async (store) => {
+        const setId = setIdOf(operation);
+        const queued = setId
+            ? (
+                  await toPromise<QueuedWorkoutOperation[]>(
+                      store
+                          .index("workoutSessionLogId")
+                          .getAll(operation.workoutSessionLogId)
+                  )
+              ).filter(
+                  (item) =>
+                      item.seq !== inFlightSeq &&
+                      setIdOf(item.operation) === setId
+              )
+            : [];
+
+        if (operation.type === "update-set") {
+            const target = queued.findLast(
+                (item) =>
+                    item.operation.type === "create-set" ||
+                    item.operation.type === "update-set"
+            );
+            if (target) {
+                store.put({
+                    ...target,
+                    operation: {
+                        ...target.operation,
+                        reps: operation.reps,
+                        weight: operation.weight,
+                        ...(target.operation.type === "create-set"
+                            ? {
+                                  notes: operation.notes ?? undefined,
+                                  restSeconds:
+                                      operation.restSeconds ?? undefined,
+                              }
+                            : {
+                                  notes: operation.notes,
+                                  restSeconds: operation.restSeconds,
+                              }),
+                        ...(operation.effort && {
+                            effort: operation.effort,
+                        }),
+                    },
+                });
+                return;
+            }
+        }
+
+        if (operation.type === "delete-set") {
+            queued
+                .filter((item) => item.operation.type !== "delete-set")
+                .forEach((item) => store.delete(item.seq));
+            // Never reached the server, so there is nothing to delete there
+            if (queued.some((item) => item.operation.type === "create-set")) {
+                return;
+            }
+        }
+
+        store.add({ operation, queuedAt: Date.now(), attempts: 0 });
+    });
+    notify();
+}
+
+export async function countQueuedWorkoutOperations(
+    workoutSessionLogId?: string
+): Promise<number> {
+    return transaction(OUTBOX, "readonly", (store) =>
+        toPromise(
+            workoutSessionLogId
+                ? store.index("workoutSessionLogId").count(workoutSessionLogId)
+                : store.count()
+        )
+    );
+}
+
+/**
+ * Drops everything still queued for a workout, e.g. when the coach quits
+ * without saving
+ */
+export async function discardQueuedWorkoutOperations(
+    workoutSessionLogId: string
+) {
+    await transaction(OUTBOX, "readwrite", async (store) => {
+        const keys = await toPromise(
+            store.index("workoutSessionLogId").getAllKeys(workoutSessionLogId)
+        );
+        keys.filter((key) => key !== inFlightSeq).forEach((key) =>
+            store.delete(key)
+        );
+    });
+    notify();
+}
+
+async function replay(): Promise<WorkoutReplayResult & { failed: boolean }> {
+    let applied = 0;
+    let failed = false;
+    const conflicts: WorkoutSyncConflict[] = [];
+    const personalRecords: BrokenPersonalRecord[] = [];
+
+    while (true) {
+        const next = await transaction(OUTBOX, "readonly", async (store) => {
+            const cursor = await toPromise(store.openCursor());
+            return (cursor?.value as QueuedWorkoutOperation) ?? null;
+        });
+        if (!next) break;
+
+        inFlightSeq = next.seq;
+        try {
+            const result = await syncWorkoutOperation(next.operation);
+            if (result.status === "conflict") {
+                conflicts.push({
+                    operation: next.operation,
+                    message: result.message ?? "A change could not be saved",
+                });
+            } else {
+                applied++;
+                personalRecords.push(...(result.personalRecords ?? []));
+            }
+        } catch (error) {
+            console.error("Failed to sync workout operation:", error);
+            // Offline failures don't count against the operation
+            const attempts = next.attempts + (navigator.onLine ? 1 : 0);
+            if (attempts < MAX_ONLINE_ATTEMPTS) {
+                await transaction(OUTBOX, "readwrite", async (store) => {
+                    store.put({ ...next, attempts });
+                });
+                failed = true;
+                break;
+            }
+            conflicts.push({
+                operation: next.operation,
+                message: `A ${next.operation.type.replace(
+                    "-",
+                    " "
+                )} change kept failing and was dropped`,
+            });
+        } finally {
+            inFlightSeq = null;
+        }
+
+        await transaction(OUTBOX, "readwrite", async (store) => {
+            store.delete(next.seq);
+        });
+        notify();
+    }
+
+    return {
+        applied,
+        conflicts,
+        personalRecords,
+        remaining: await countQueuedWorkoutOperations(),
+        failed,
+    };
+}
+
+/**
+ * Sends queued operations in order until the outbox is empty or one fails,
+ * which leaves it and everything after it for the next attempt. Concurrent
+ * callers share the same run, which goes round again for anything they
+ * queued after it last looked.
+ */
+export function replayWorkoutOutbox(): Promise<WorkoutReplayResult> {
+    replayRequested = true;
+    replaying ??= (async () => {
+        const total: WorkoutReplayResult = {
+            applied: 0,
+            conflicts: [],
+            personalRecords: [],
+            remaining: 0,
+        };
+        try {
+            let failed = false;
+            while (replayRequested && !failed) {
+                replayRequested = false;
+                const result = await replay();
+                total.applied += result.applied;
+                total.conflicts.push(...result.conflicts);
+                total.personalRecords.push(...result.personalRecords);
+                total.remaining = result.remaining;
+                failed = result.failed;
+            }
+            return total;
+        } finally {
+            replaying = null;
+        }
+    })();
+    return replaying;
+}
+
+export async function getWorkoutSnapshot(
+    workoutSessionLogId: string
+): Promise<WorkoutSnapshot | null> {
+    const snapshot = await transaction(SNAPSHOTS, "readonly", (store) =>
+        toPromise(store.get(workoutSessionLogId))
+    );
+    return (snapshot as WorkoutSnapshot | undefined) ?? null;
+}
+
+export async function saveWorkoutSnapshot(
+    snapshot: Omit<WorkoutSnapshot, "updatedAt">
+) {
+    await transaction(SNAPSHOTS, "readwrite", async (store) => {
+        const existing = (await toPromise(
+            store.get(snapshot.workoutSessionLogId)
+        )) as WorkoutSnapshot | undefined;
+        store.put({
+            ...snapshot,
+            endedAt: snapshot.endedAt ?? existing?.endedAt,
+            updatedAt: Date.now(),
+        });
+    });
+}
+
+export async function markWorkoutSnapshotEnded(workoutSessionLogId: string) {
+    await transaction(SNAPSHOTS, "readwrite", async (store) => {
+        const existing = (await toPromise(store.get(workoutSessionLogId))) as
+            | WorkoutSnapshot
+            | undefined;
+        if (existing) {
+            store.put({ ...existing, endedAt: Date.now() });
+        }
+    });
+}
+
+export async function deleteWorkoutSnapshot(workoutSessionLogId: string) {
+    await transaction(SNAPSHOTS, "readwrite", async (store) => {
+        store.delete(workoutSessionLogId);
+    });
+}
+
+/**
+ * Removes snapshots of old workouts that have nothing left to sync
+ */
+export async function pruneWorkoutSnapshots() {
+    const cutoff = Date.now() - SNAPSHOT_MAX_AGE_MS;
+    const snapshots = await transaction(SNAPSHOTS, "readonly", (store) =>
+        toPromise(store.getAll())
+    );
+    for (const snapshot of snapshots as WorkoutSnapshot[]) {
+        if (
+            snapshot.updatedAt < cutoff &&
+            (await countQueuedWorkoutOperations(
+                snapshot.workoutSessionLogId
+            )) === 0
+        ) {
+            await deleteWorkoutSnapshot(snapshot.workoutSessionLogId);
+        }
+    }
+}
@@ -22,7 +22,11 @@ import {
     WorkoutPlanFullSaveMessage,
     QueueJobOptions,
 } from "@/types/queue-types";
-import type { Phase, Session } from "@/components/workout-planning/types";
+import type {
+    ExerciseGroupType,
+    Phase,
+    Session,
+} from "@/components/workout-planning/types";
 
 export class WorkoutQueueIntegration {
     /**
@@ -276,6 +280,10 @@ export class WorkoutQueueIntegration {
                             additionalInfo: exercise.additionalInfo,
                             notes: exercise.notes,
                             order: exercise.order,
+                            groupType: exercise.groupType,
+                            groupRounds: exercise.groupRounds,
+                            groupRest: exercise.groupRest,
+                            tut: exercise.tut,
                         })),
                     })),
                 },
@@ -491,6 +499,10 @@ export class WorkoutQueueIntegration {
                         additionalInfo: exercise.additionalInfo,
                         notes: exercise.notes,
                         order: exercise.order,
+                        groupType: exercise.groupType,
+                        groupRounds: exercise.groupRounds,
+                        groupRest: exercise.groupRest,
+                        tut: exercise.tut,
                     })),
                 },
                 lastKnownUpdatedAt: lastKnownUpdatedAt.toISOString(),
@@ -530,6 +542,9 @@ export class WorkoutQueueIntegration {
             notes?: string;
             order?: string;
             additionalInfo?: string;
+            groupType?: ExerciseGroupType | "";
+            groupRounds?: string;
+            groupRest?: string;
         },
         isNew: boolean,
         lastKnownUpdatedAt: Date,
@@ -0,0 +1,154 @@
+/**
+ * Service worker for the record-workout page. Keeps the build's static
+ * scripts and a copy of the workout page being recorded, so the page still
+ * opens without signal. Only one page is kept, so earlier clients' workouts
+ * don't pile up on a shared device, and the page clears the cache on
+ * logout. Set changes themselves are queued in IndexedDB by the page and
+ * replayed when the connection returns.
+ */
+
+const CACHE_NAME = "record-workout-v2";
+const PAGE_PATH = "/record-workout";
+// The params that pick a workout page; the log ID is left out so a reload
+// after an offline start still finds the cached page
+const PAGE_PARAMS = ["sessionId", "clientId"];
+
+function pageCacheKey(href) {
+    const url = new URL(href);
+    const key = new URL(url.pathname, url.origin);
+    PAGE_PARAMS.forEach((param) => {
+        if (url.searchParams.has(param)) {
+            key.searchParams.set(param, url.searchParams.get(param));
+        }
+    });
+    return key.toString();
+}
+
+const isCacheable = (response) =>
+    response.ok && response.type === "basic" && !response.redirected;
+
+const isStaticAsset = (url) =>
+    url.origin === self.location.origin &&
+    url.pathname.startsWith("/_next/static/");
+
+// Replaces whichever workout page was kept before
+async function putPage(cache, href, response) {
+    const key = pageCacheKey(href);
+    const keys = await cache.keys();
+    await Promise.all(
+        keys
+            .filter(
+                (request) =>
+                    new URL(request.url).pathname === PAGE_PATH &&
+                    request.url !== key
+            )
+            .map((request) => cache.delete(request))
+    );
+    await cache.put(key, response);
+}
+
+async function cachePage(href) {
+    if (new URL(href).pathname !== PAGE_PATH) return;
+    const response = await fetch(href, { credentials: "same-origin" });
+    if (isCacheable(response)) {
+        const cache = await caches.open(CACHE_NAME);
+        await putPage(cache, href, response);
+    }
+}
+
+async function cacheAssets(urls) {
+    const cache = await caches.open(CACHE_NAME);
+    await Promise.all(
+        urls.map(async (url) => {
+            if (!isStaticAsset(new URL(url, self.location.origin))) return;
+            if (await cache.match(url)) return;
+            try {
+                const response = await fetch(url);
+                if (isCacheable(response)) await cache.put(url, response);
+            } catch {
+                // Fetched again on the next visit
+            }
+        })
+    );
+}
+
+self.addEventListener("install", () => {
+    self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+    event.waitUntil(
+        caches
+            .keys()
+            .then((keys) =>
+                Promise.all(
+                    keys
+                        .filter(
+                            (key) =>
+                                key.startsWith("record-workout-") &&
+                                key !== CACHE_NAME
+                        )
+                        .map((key) => caches.delete(key))
+                )
+            )
+            .then(() => self.clients.claim())
+    );
+});
+
+self.addEventListener("message", (event) => {
+    if (event.data?.type !== "CACHE_PAGE") return;
+    event.waitUntil(
+        Promise.all([
+            cachePage(event.data.url).catch(() => {}),
+            cacheAssets(event.data.assets ?? []),
+        ])
+    );
+});
+
+self.addEventListener("fetch", (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== "GET" || url.origin !== self.location.origin) {
+        return;
+    }
+
+    // Workout pages: network first, falling back to the last copy
+    if (request.mode === "navigate" && url.pathname === PAGE_PATH) {
+        event.respondWith(
+            (async () => {
+                const cache = await caches.open(CACHE_NAME);
+                try {
+                    const response = await fetch(request);
+                    if (isCacheable(response)) {
+                        await putPage(cache, request.url, response.clone());
+                    }
+                    return response;
+                } catch (error) {
+                    const cached = await cache.match(
+                        pageCacheKey(request.url),
+                        { ignoreVary: true }
+                    );
+                    if (cached) return cached;
+                    throw error;
+                }
+            })()
+        );
+        return;
+    }
+
+    // Build assets are content-hashed, so a cached copy never goes stale
+    if (isStaticAsset(url)) {
+        event.respondWith(
+            (async () => {
+                const cache = await caches.open(CACHE_NAME);
+                const cached = await cache.match(request);
+                if (cached) return cached;
+                const response = await fetch(request);
+                if (isCacheable(response)) {
+                    await cache.put(request, response.clone());
+                }
+                return response;
+            })()
+        );
+    }
+});
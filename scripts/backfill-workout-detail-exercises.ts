@@ -0,0 +1,223 @@
+#!/usr/bin/env tsx
+
+/**
+ * Workout Log Exercise Backfill Script
+ *
+ * Links historical WorkoutSessionDetails rows to library exercises by the
+ * name they were logged under. Names resolve, in order, by exact exercise
+ * name, exact alias, normalised name or alias ("DB RDL" = "Dumbbell
+ * Romanian Deadlift"), then a confident fuzzy match. Names that don't
+ * resolve are left unlinked and listed in the report. Personal records are
+ * then recomputed for every exercise that gained sets.
+ *
+ * Usage:
+ *   npm run backfill:exercise-ids -- --dry-run
+ *   npx tsx scripts/backfill-workout-detail-exercises.ts
+ */
+
+import { and, count, isNull, sql } from "drizzle-orm";
+import { db } from "../db/xata";
+import {
+    ExerciseAliases,
+    Exercises,
+    SelectExercise,
+    WorkoutSessionDetails,
+} from "../db/schemas";
+import { createExerciseMatcher } from "../components/workout-planning/workout-utils/exercise-matching";
+import { refreshExercisePersonalRecords } from "../lib/personal-records";
+
+// A fuzzy match is only applied when it is this close and clearly ahead
+// of the runner-up; everything else is left for a person to review
+const FUZZY_SCORE = 0.85;
+const FUZZY_LEAD = 0.05;
+
+type Method = "exact" | "alias" | "normalized" | "fuzzy";
+
+interface Resolution {
+    name: string;
+    rows: number;
+    exerciseId: string;
+    exerciseName: string;
+    method: Method;
+    score: number;
+}
+
+const dryRun = process.argv.includes("--dry-run");
+const key = (name: string) => name.trim().toLowerCase();
+const loggedKey = sql<string>`lower(trim(${WorkoutSessionDetails.exerciseName}))`;
+
+async function backfillWorkoutDetailExercises() {
+    console.log(
+        `🔍 Resolving logged exercise names${dryRun ? " (dry run)" : ""}...`
+    );
+
+    const [exercises, aliases, loggedNames] = await Promise.all([
+        db.select().from(Exercises),
+        db
+            .select({
+                exerciseId: ExerciseAliases.exerciseId,
+                alias: ExerciseAliases.alias,
+            })
+            .from(ExerciseAliases),
+        db
+            .select({
+                name: sql<string>`min(${WorkoutSessionDetails.exerciseName})`,
+                rows: count(),
+            })
+            .from(WorkoutSessionDetails)
+            .where(isNull(WorkoutSessionDetails.exerciseId))
+            .groupBy(loggedKey),
+    ]);
+
+    const aliasesById = new Map<string, string[]>();
+    aliases.forEach((row) =>
+        aliasesById.set(row.exerciseId, [
+            ...(aliasesById.get(row.exerciseId) ?? []),
+            row.alias,
+        ])
+    );
+    const library = exercises.map((exercise) => ({
+        ...exercise,
+        aliases: aliasesById.get(exercise.exerciseId) ?? [],
+    }));
+    const byName = new Map(
+        library.map((exercise) => [key(exercise.exerciseName), exercise])
+    );
+    const byAlias = new Map(
+        library.flatMap((exercise) =>
+            exercise.aliases.map((alias) => [key(alias), exercise] as const)
+        )
+    );
+    const matcher = createExerciseMatcher(library);
+
+    const resolved: Resolution[] = [];
+    const unresolved: {
+        name: string;
+        rows: number;
+        suggestion: string | null;
+    }[] = [];
+
+    loggedNames.forEach(({ name, rows }) => {
+        const exact = byName.get(key(name));
+        const alias = byAlias.get(key(name));
+        const normalized = matcher.resolve(name);
+        const [best, runnerUp] = matcher.rank(name, 2);
+
+        const match: [SelectExercise, Method, number] | null = exact
+            ? [exact, "exact", 1]
+            : alias
+            ? [alias, "alias", 1]
+            : normalized
+            ? [normalized, "normalized", 1]
+            : best &&
+              best.score >= FUZZY_SCORE &&
+              best.score - (runnerUp?.score ?? 0) >= FUZZY_LEAD
+            ? [best.exercise, "fuzzy", best.score]
+            : null;
+
+        if (!match) {
+            unresolved.push({
+                name,
+                rows,
+                suggestion: best
+                    ? `${best.exercise.exerciseName} (${Math.round(
+                          best.score * 100
+                      )}%)`
+                    : null,
+            });
+            return;
+        }
+
+        const [exercise, method, score] = match;
+        resolved.push({
+            name,
+            rows,
+            exerciseId: exercise.exerciseId,
+            exerciseName: exercise.exerciseName,
+            method,
+            score,
+        });
+    });
+
+    if (!dryRun) {
+        for (const resolution of resolved) {
+            await db
+                .update(WorkoutSessionDetails)
+                .set({ exerciseId: resolution.exerciseId })
+                .where(
+                    and(
+                        isNull(WorkoutSessionDetails.exerciseId),
+                        sql`${loggedKey} = ${key(resolution.name)}`
+                    )
+                );
+        }
+
+        const linkedExerciseIds = Array.from(
+            new Set(resolved.map((item) => item.exerciseId))
+        );
+        console.log(
+            `\n🏆 Recomputing personal records for ${linkedExerciseIds.length} exercises...`
+        );
+        for (const exerciseId of linkedExerciseIds) {
+            await refreshExercisePersonalRecords(exerciseId);
+        }
+    }
+
+    const totalRows = (list: { rows: number }[]) =>
+        list.reduce((sum, item) => sum + item.rows, 0);
+
+    console.log(
+        `\n📊 ${loggedNames.length} unlinked names across ${totalRows(
+            loggedNames
+        )} rows`
+    );
+    (["exact", "alias", "normalized", "fuzzy"] as const).forEach((method) => {
+        const matches = resolved.filter((item) => item.method === method);
+        console.log(
+            `   ${method.padEnd(10)} ${matches.length} names, ${totalRows(
+                matches
+            )} rows`
+        );
+    });
+
+    const fuzzy = resolved.filter((item) => item.method !== "exact");
+    if (fuzzy.length) {
+        console.log("\n🔗 Linked by alias or similarity (check these):");
+        fuzzy.forEach((item) =>
+            console.log(
+                `   "${item.name}" → ${item.exerciseName} [${
+                    item.method
+                } ${Math.round(item.score * 100)}%] (${item.rows} rows)`
+            )
+        );
+    }
+
+    if (unresolved.length) {
+        console.log(
+            `\n❌ Unresolved: ${unresolved.length} names, ${totalRows(
+                unresolved
+            )} rows`
+        );
+        unresolved
+            .sort((a, b) => b.rows - a.rows)
+            .forEach((item) =>
+                console.log(
+                    `   "${item.name}" (${item.rows} rows)${
+                        item.suggestion ? ` — closest: ${item.suggestion}` : ""
+                    }`
+                )
+            );
+    }
+
+    console.log(
+        dryRun
+            ? "\n✅ Dry run complete, nothing was written"
+            : `\n✅ Linked ${totalRows(resolved)} rows`
+    );
+    process.exit(0);
+}
+
+backfillWorkoutDetailExercises().catch((error) => {
+    console.error("❌ Backfill failed:", error);
+    process.exit(1);
+});
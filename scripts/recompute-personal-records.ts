@@ -0,0 +1,128 @@
+#!/usr/bin/env tsx
+
+/**
+ * Personal Record Recompute Script
+ *
+ * Recalculates every logged set's estimated one-rep max with the formula
+ * ONE_REP_MAX_FORMULA selects, then recomputes each client's personal
+ * records from their sets. Migration 0037 backfilled with Epley, so run
+ * this after migrating with ONE_REP_MAX_FORMULA=brzycki, and again
+ * whenever the setting changes.
+ *
+ * Usage:
+ *   npm run recompute:personal-records -- --dry-run
+ *   npx tsx scripts/recompute-personal-records.ts
+ */
+
+import { and, eq, gt, isNotNull, sql } from "drizzle-orm";
+import { db } from "../db/xata";
+import { WorkoutSessionDetails, WorkoutSessionsLog } from "../db/schemas";
+import { estimateOneRepMax } from "../lib/strength-metrics";
+import {
+    oneRepMaxFormula,
+    refreshPersonalRecords,
+} from "../lib/personal-records";
+
+// Sets updated per statement
+const BATCH_SIZE = 500;
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function recomputePersonalRecords() {
+    const formula = oneRepMaxFormula();
+    console.log(
+        `🔍 Recomputing estimated one-rep maxes with ${formula}${
+            dryRun ? " (dry run)" : ""
+        }...`
+    );
+
+    const sets = await db
+        .select({
+            workoutDetailId: WorkoutSessionDetails.workoutDetailId,
+            reps: WorkoutSessionDetails.reps,
+            weight: WorkoutSessionDetails.weight,
+            estimatedOneRepMax: WorkoutSessionDetails.estimatedOneRepMax,
+        })
+        .from(WorkoutSessionDetails)
+        .where(
+            and(
+                gt(WorkoutSessionDetails.reps, 0),
+                gt(WorkoutSessionDetails.weight, 0)
+            )
+        );
+
+    const changed = sets.flatMap((set) => {
+        const estimate = estimateOneRepMax(set.weight, set.reps, formula);
+        return estimate === set.estimatedOneRepMax
+            ? []
+            : [{ workoutDetailId: set.workoutDetailId, estimate }];
+    });
+
+    if (!dryRun) {
+        for (let i = 0; i < changed.length; i += BATCH_SIZE) {
+            const batch = changed.slice(i, i + BATCH_SIZE);
+            await db.execute(sql`
+                UPDATE ${WorkoutSessionDetails}
+                SET "estimated_one_rep_max" = v.estimate
+                FROM (VALUES ${sql.join(
+                    batch.map(
+                        (item) =>
+                            sql`(${item.workoutDetailId}::uuid, ${item.estimate}::real)`
+                    ),
+                    sql`, `
+                )}) AS v(workout_detail_id, estimate)
+                WHERE ${
+                    WorkoutSessionDetails.workoutDetailId
+                } = v.workout_detail_id
+            `);
+        }
+    }
+    console.log(`   ${changed.length} of ${sets.length} sets changed`);
+
+    const pairs = await db
+        .selectDistinct({
+            clientId: WorkoutSessionsLog.userId,
+            exerciseId: WorkoutSessionDetails.exerciseId,
+        })
+        .from(WorkoutSessionDetails)
+        .innerJoin(
+            WorkoutSessionsLog,
+            eq(
+                WorkoutSessionDetails.workoutSessionLogId,
+                WorkoutSessionsLog.workoutSessionLogId
+            )
+        )
+        .where(isNotNull(WorkoutSessionDetails.exerciseId));
+
+    console.log(
+        `\n🏆 Recomputing personal records for ${pairs.length} client exercises...`
+    );
+    let failed = 0;
+    if (!dryRun) {
+        for (const { clientId, exerciseId } of pairs) {
+            try {
+                await refreshPersonalRecords(clientId, exerciseId!);
+            } catch (error) {
+                failed++;
+                console.error(
+                    `   ❌ ${clientId} / ${exerciseId}:`,
+                    error instanceof Error ? error.message : error
+                );
+            }
+        }
+    }
+
+    console.log(
+        dryRun
+            ? "\n✅ Dry run complete, nothing was written"
+            : `\n✅ Recomputed records for ${
+                  pairs.length - failed
+              } client exercises${failed ? `, ${failed} failed` : ""}`
+    );
+    process.exit(failed ? 1 : 0);
+}
+
+recomputePersonalRecords().catch((error) => {
+    console.error("❌ Recompute failed:", error);
+    process.exit(1);
+});
@@ -1,5 +1,7 @@
 // Queue message types and structures
 
+import type { ExerciseGroupType } from "./workout-plan-types";
+
 // More specific types for better type safety
 export type ExerciseChanges = {
     sets?: number;
@@ -147,6 +149,10 @@ export interface WorkoutPhaseDuplicateMessage extends BaseQueueMessage {
                     additionalInfo?: string;
                     notes?: string;
                     order?: string;
+                    groupType?: ExerciseGroupType | "";
+                    groupRounds?: string;
+                    groupRest?: string;
+                    tut?: string;
                 }>;
             }>;
         };
@@ -238,6 +244,10 @@ export interface WorkoutSessionDuplicateMessage extends BaseQueueMessage {
                 additionalInfo?: string;
                 notes?: string;
                 order?: string;
+                groupType?: ExerciseGroupType | "";
+                groupRounds?: string;
+                groupRest?: string;
+                tut?: string;
             }>;
         };
         lastKnownUpdatedAt: string; // ISO string
@@ -269,6 +279,9 @@ export interface WorkoutExerciseSaveMessage extends BaseQueueMessage {
             customizations?: string;
             notes?: string;
             order?: string; // Changed from exerciseOrder (number) to order (string)
+            groupType?: ExerciseGroupType | "";
+            groupRounds?: string;
+            groupRest?: string;
             additionalInfo?: string;
         };
         isNew: boolean; // Flag to indicate if this is a new exercise or update
@@ -23,15 +23,27 @@ export interface Exercise {
     repsMax?: string;
     restMin?: string;
     restMax?: string;
-    tut?: string;
+    tut?: string;                // Seconds under tension per set, derived from tempo × reps
     
     // Other fields
     tempo?: string;
     additionalInfo?: string;     // Will be mapped to customizations in DB
     customizations?: string;
     notes?: string;
+
+    // Grouping: exercises sharing an order letter (A1, A2) are done together
+    groupType?: ExerciseGroupType | ""; // "" when the exercise stands alone
+    groupRounds?: string;        // Circuits: rounds through the group
+    groupRest?: string;          // Rest in seconds after each round of the group
 }
 
+/**
+ * How a group of exercises is performed: supersets and giant sets alternate
+ * two or more exercises set by set, circuits cycle through them for a set
+ * number of rounds
+ */
+export type ExerciseGroupType = "superset" | "giant_set" | "circuit";
+
 export interface Session {
     id: string;                  // sessionId in the database
     phaseId?: string;            // Parent phase reference
@@ -63,6 +75,26 @@ export interface WorkoutPlanActionResponse {
     planId?: string;
     updatedAt?: Date;
     serverUpdatedAt?: Date;
+    merged?: boolean;                       // Save was three-way merged with concurrent changes
+    conflicts?: WorkoutPlanFieldConflict[];  // Fields both sides changed (only when conflict is true)
+    mergedPhases?: Phase[];                 // Merged plan; conflicted fields hold the server value
+}
+
+/**
+ * A field that was changed both locally and on the server since the
+ * client's base version. Deletion conflicts use field "__deleted".
+ */
+export interface WorkoutPlanFieldConflict {
+    id: string;                  // `${entityType}:${entityId}:${field}`
+    entityType: "phase" | "session" | "exercise";
+    entityId: string;
+    path: string;                // Human readable location, e.g. "Phase 1 › Day A › Squat"
+    field: string;
+    label: string;
+    base: string | number | boolean | null;
+    mine: string | number | boolean | null;
+    theirs: string | number | boolean | null;
+    deletedBy?: "mine" | "theirs";
 }
 
 /**
@@ -127,7 +159,171 @@ export type WorkoutPlanResponse = {
                 restMax?: string;
                 customizations?: string;
                 notes?: string;
+                groupType?: ExerciseGroupType | "";
+                groupRounds?: string;
+                groupRest?: string;
             }>;
         }>;
     }>;
 };
+
+/**
+ * Summary of one of a client's workout plans for the plan selector.
+ * Archived plans have isActive = false.
+ */
+export interface ClientWorkoutPlanSummary {
+    planId: string;
+    planName: string;
+    isActive: boolean;
+    createdDate: Date;
+    updatedAt: Date;
+    phaseCount: number;
+    sessionCount: number;
+}
+
+/**
+ * A session that can be launched in the workout tracker,
+ * with the plan and phase it belongs to
+ */
+export interface LaunchableSession {
+    planId: string;
+    planName: string;
+    phaseId: string;
+    phaseName: string;
+    phaseIsActive: boolean;
+    sessionId: string;
+    sessionName: string;
+    exerciseCount: number;
+}
+
+/**
+ * Summary of a reusable plan template (an ExercisePlans row flagged as a template)
+ * Used by the template library browser
+ */
+export interface WorkoutPlanTemplateSummary {
+    templateId: string;
+    name: string;
+    description: string | null;
+    createdByUserId: string;
+    createdByName: string | null;
+    createdDate: Date;
+    updatedAt: Date;
+    phaseCount: number;
+    sessionCount: number;
+    exerciseCount: number;
+}
+
+/**
+ * Summary of a saved plan version for the history panel
+ */
+export interface WorkoutPlanVersionSummary {
+    versionId: string;
+    versionNumber: number;
+    note: string | null;
+    createdAt: Date;
+    createdByName: string | null;
+    changeCount: number | null; // null when the version has no recorded changes (e.g. plan creation)
+}
+
+/**
+ * Which exercises a progression rule applies to.
+ * Matches Exercises.movementType; "all" applies to every exercise.
+ */
+export type ProgressionScope =
+    | "all"
+    | "compound"
+    | "isolation"
+    | "bilateral"
+    | "unilateral";
+
+interface ProgressionRuleBase {
+    id: string;
+    enabled: boolean;
+    scope: ProgressionScope;
+}
+
+/** Adds sets to setsMin/setsMax, capped at maxSets */
+export interface AddSetRule extends ProgressionRuleBase {
+    type: "addSet";
+    amount: number;
+    maxSets: number;
+}
+
+/** Moves repsMin/repsMax by amount (usually negative), never below minReps */
+export interface ShiftRepsRule extends ProgressionRuleBase {
+    type: "shiftReps";
+    amount: number;
+    minReps: number;
+}
+
+/** Moves restMin/restMax by amount seconds (usually negative), never below minRest */
+export interface AdjustRestRule extends ProgressionRuleBase {
+    type: "adjustRest";
+    amount: number;
+    minRest: number;
+}
+
+/**
+ * Sets a load target from the client's last logged top set: raised by
+ * increasePercent when they hit the top of the rep range, otherwise held
+ */
+export interface LoadTargetRule extends ProgressionRuleBase {
+    type: "loadTarget";
+    increasePercent: number;
+    roundTo: number; // kg increment, e.g. 2.5
+}
+
+export type ProgressionRule =
+    | AddSetRule
+    | ShiftRepsRule
+    | AdjustRestRule
+    | LoadTargetRule;
+
+/**
+ * What a client last lifted for an exercise, used by load target rules
+ */
+export interface ExercisePerformance {
+    weight: number;
+    reps: number;
+    performedAt: Date;
+}
+
+/**
+ * A single field change made while progressing a phase
+ */
+export interface ProgressionChange {
+    sessionName: string;
+    exerciseName: string;
+    field: string;
+    label: string;
+    from: string;
+    to: string;
+    ruleType: ProgressionRule["type"];
+}
+
+/**
+ * Result of previewing a "progress phase" operation
+ */
+export interface PhaseProgressionPreview {
+    phase: Phase; // The new phase with fresh IDs, not yet saved
+    changes: ProgressionChange[];
+}
+
+/**
+ * Time spent on one block of a session: a single exercise, or a group of
+ * exercises sharing an order letter (A1/A2) done back to back each round
+ */
+export interface SessionDurationBlock {
+    label: string; // e.g. "Superset A" for groups, otherwise the exercise name
+    exerciseNames: string[];
+    rounds: number;
+    workSeconds: number; // Sets × reps × tempo, scaled by timeMultiplier
+    restSeconds: number;
+    transitionSeconds: number; // Moving between exercises and setting up
+    totalSeconds: number;
+}
+
+export interface SessionDurationEstimate {
+    totalMinutes: number;
+    blocks: SessionDurationBlock[];
+}
@@ -0,0 +1,82 @@
+/**
+ * Types for scheduling plan sessions onto calendar dates.
+ * Dates are plain "yyyy-MM-dd" strings so they don't shift between time zones.
+ */
+
+export interface ScheduledSessionPattern {
+    sessionId: string;
+    sessionName: string;
+    sessionTime: number | null; // Estimated minutes
+    weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+/**
+ * A phase's recurring weekly schedule, or an unscheduled phase when startDate is null
+ */
+export interface PhaseScheduleSettings {
+    planId: string;
+    planName: string;
+    phaseId: string;
+    phaseName: string;
+    phaseIsActive: boolean;
+    startDate: string | null;
+    endDate: string | null;
+    sessions: ScheduledSessionPattern[];
+}
+
+/**
+ * An explicit date row: a one-off session, a moved recurring occurrence,
+ * or (scheduledDate null) a skipped one
+ */
+export interface ScheduledSessionOverride {
+    scheduledSessionId: string;
+    sessionId: string;
+    sessionName: string;
+    phaseId: string;
+    phaseName: string;
+    scheduledDate: string | null;
+    replacesDate: string | null;
+}
+
+export interface CompletedSessionLog {
+    workoutSessionLogId: string;
+    sessionId: string | null;
+    sessionName: string;
+    date: string;
+}
+
+export type CalendarEntryStatus =
+    | "planned" // Scheduled today or later, not yet done
+    | "completed" // Scheduled and logged in the same week
+    | "missed" // Scheduled in the past with no matching log
+    | "unplanned"; // Logged without being scheduled
+
+export interface CalendarEntry {
+    key: string;
+    date: string;
+    sessionId: string | null;
+    sessionName: string;
+    phaseId: string | null;
+    phaseName: string | null;
+    status: CalendarEntryStatus;
+    scheduledSessionId: string | null; // Set for explicit rows, null for recurring occurrences
+    occurrenceDate: string | null; // Original date of a recurring occurrence
+    workoutSessionLogId: string | null;
+}
+
+export interface WeeklyAdherence {
+    weekStart: string; // Monday
+    planned: number;
+    completed: number;
+    adherence: number | null; // completed / planned, null when nothing was planned
+}
+
+export interface ClientCalendar {
+    entries: CalendarEntry[];
+    weeks: WeeklyAdherence[];
+}
+
+/**
+ * A .ics subscription: one client's workouts, or all of a coach's clients
+ */
+export type CalendarFeedType = "client" | "coach";
@@ -1,4 +1,6 @@
-import { SelectExercise } from "@/db/schemas";
+import { SelectExercise, SetType } from "@/db/schemas";
+import type { BrokenPersonalRecord } from "@/lib/strength-metrics";
+import { ExerciseGroupType } from "./workout-plan-types";
 
 export interface ExerciseSet {
     id: string;
@@ -6,22 +8,48 @@ export interface ExerciseSet {
     weight: string;
     notes?: string;
     completed?: boolean;
+    restSeconds?: number; // Rest actually taken after the set
+    setType?: SetType;
+    rpe?: string;
+    rir?: string;
+    tempoAdhered?: boolean | null;
     isNew?: boolean;
 }
 
+/**
+ * How hard a set was and how well it was performed, as stored with it
+ */
+export interface SetEffort {
+    setType: SetType;
+    rpe: number | null;
+    rir: number | null;
+    tempoAdhered: boolean | null;
+}
+
 export interface Exercise {
     id: string;
+    exerciseId?: string; // Library exercise, stored with each logged set
     name: string;
+    videoUrl?: string;
+    imageUrl?: string;
+    thumbnailUrl?: string;
     order: string;
     sets: ExerciseSet[];
     setRange: string;
     repRange: string;
+    repsMin?: number; // Prescribed reps, for suggesting targets
+    repsMax?: number;
     tempo: string;
     restTime: string;
+    restMin?: number; // Prescribed rest in seconds
+    restMax?: number;
     notes: string;
     isExpanded: boolean;
     setOrderMarker?: string;
     customizations?: string;
+    groupType?: ExerciseGroupType;
+    groupRounds?: number;
+    groupRest?: number;
 }
 
 export interface WorkoutPlan {
@@ -61,6 +89,8 @@ export interface ExerciseDetail {
     uploadDate: string | Date;
     approvedByAdmin?: boolean;
     videoUrl?: string;
+    imageUrl?: string;
+    thumbnailUrl?: string;
     motion?: string;
     targetArea?: string;
     movementType?: string;
@@ -86,6 +116,9 @@ export interface WorkoutExercise {
     setOrderMarker?: string;
     customizations?: string;
     notes?: string;
+    groupType?: ExerciseGroupType;
+    groupRounds?: number;
+    groupRest?: number;
     exerciseDetails?: ExerciseDetail;
     [key: string]: unknown;
 }
@@ -124,6 +157,11 @@ export interface PastSessionDetail {
     coachNote: string | null;
     setOrderMarker: string | null;
     entryTime: string | Date | null;
+    restSeconds?: number | null;
+    setType?: SetType;
+    rpe?: number | null;
+    rir?: number | null;
+    tempoAdhered?: boolean | null;
     [key: string]: unknown;
 }
 
@@ -149,3 +187,73 @@ export interface RecordWorkoutClientProps {
     pastSessions?: PastSession[];
     workoutSessionDetails?: PastSessionDetail[];
 }
+
+/**
+ * A change made on the record-workout page, queued on the device and sent in
+ * order. IDs are generated client-side so replaying an operation is safe.
+ */
+export type WorkoutOutboxOperation =
+    | {
+          type: "start-session";
+          workoutSessionLogId: string;
+          userId: string;
+          sessionName: string;
+          startedAt: string;
+      }
+    | {
+          type: "create-set";
+          workoutSessionLogId: string;
+          workoutDetailId: string;
+          exerciseName: string;
+          exerciseId?: string;
+          setNumber: number;
+          reps: number;
+          weight: number;
+          notes?: string;
+          setOrderMarker?: string;
+          entryTime: string;
+          restSeconds?: number;
+          effort?: SetEffort;
+      }
+    | {
+          type: "update-set";
+          workoutSessionLogId: string;
+          workoutDetailId: string;
+          reps: number;
+          weight: number;
+          notes: string | null;
+          restSeconds: number | null;
+          effort?: SetEffort; // Left out when the edit doesn't touch it
+      }
+    | {
+          type: "delete-set";
+          workoutSessionLogId: string;
+          workoutDetailId: string;
+      }
+    | {
+          type: "end-session";
+          workoutSessionLogId: string;
+          endedAt: string;
+      }
+    | {
+          type: "discard-session";
+          workoutSessionLogId: string;
+      };
+
+export interface QueuedWorkoutOperation {
+    seq: number;
+    operation: WorkoutOutboxOperation;
+    queuedAt: number;
+    attempts: number;
+}
+
+export interface WorkoutSyncResult {
+    status: "applied" | "conflict";
+    message?: string;
+    personalRecords?: BrokenPersonalRecord[]; // Records a saved set broke
+}
+
+export interface WorkoutSyncConflict {
+    operation: WorkoutOutboxOperation;
+    message: string;
+}